@@ -16,6 +16,8 @@ import Analytics from "@/pages/analytics";
 import Settings from "@/pages/settings";
 import CaseReports from "@/pages/case-reports";
 import DirectCnr from "@/pages/direct-cnr";
+import PdfQuarantine from "@/pages/pdf-quarantine";
+import ReviewQueue from "@/pages/review-queue";
 
 function Router() {
   return (
@@ -27,6 +29,8 @@ function Router() {
       <Route path="/analytics" component={Analytics} />
       <Route path="/case-reports" component={CaseReports} />
       <Route path="/direct-cnr" component={DirectCnr} />
+      <Route path="/review" component={ReviewQueue} />
+      <Route path="/pdf-quarantine" component={PdfQuarantine} />
       <Route path="/settings" component={Settings} />
       <Route component={NotFound} />
     </Switch>
@@ -9,6 +9,8 @@ import {
   Scale,
   FileSpreadsheet,
   UserSearch,
+  ShieldAlert,
+  ClipboardCheck,
 } from "lucide-react";
 import {
   Sidebar,
@@ -59,9 +61,19 @@ const mainItems = [
     url: "/direct-cnr",
     icon: UserSearch,
   },
+  {
+    title: "Review Queue",
+    url: "/review",
+    icon: ClipboardCheck,
+  },
 ];
 
 const settingsItems = [
+  {
+    title: "PDF Quarantine",
+    url: "/pdf-quarantine",
+    icon: ShieldAlert,
+  },
   {
     title: "Settings",
     url: "/settings",
@@ -124,7 +136,7 @@ export function AppSidebar() {
                   <SidebarMenuButton
                     asChild
                     isActive={location === item.url}
-                    data-testid={`nav-${item.title.toLowerCase()}`}
+                    data-testid={`nav-${item.title.toLowerCase().replace(/\s+/g, "-")}`}
                   >
                     <Link href={item.url}>
                       <item.icon className="h-4 w-4" />
@@ -140,7 +152,7 @@ export function AppSidebar() {
       <SidebarFooter className="p-4">
         <div className="rounded-md bg-sidebar-accent/50 p-3">
           <p className="text-xs text-sidebar-foreground/70">
-            All 11 Delhi Districts
+            Delhi &amp; NCR District Courts
           </p>
           <p className="mt-1 font-mono text-sm font-medium text-sidebar-foreground">
             eCourts Integration
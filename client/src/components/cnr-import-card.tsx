@@ -0,0 +1,207 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { DataTable } from "@/components/data-table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { FileSpreadsheet, Loader2, Upload, Eye } from "lucide-react";
+
+type ImportTarget = "bulk" | "direct";
+
+interface CnrImportRow {
+  row: number;
+  cnr: string;
+  status: "valid" | "invalid" | "duplicate" | "exists";
+  error?: string;
+  advocateId?: number | null;
+  representedParty?: string | null;
+}
+
+interface CnrImportPreview {
+  rows: CnrImportRow[];
+  summary: Record<CnrImportRow["status"], number>;
+}
+
+const statusVariants: Record<CnrImportRow["status"], "default" | "secondary" | "destructive" | "outline"> = {
+  valid: "default",
+  invalid: "destructive",
+  duplicate: "secondary",
+  exists: "outline",
+};
+
+// Workbooks go over the wire as base64, CSV as plain text
+async function readImportFile(file: File): Promise<string> {
+  if (!/\.xlsx?$/i.test(file.name)) {
+    return file.text();
+  }
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode.apply(null, Array.from(bytes.subarray(i, i + 0x8000)));
+  }
+  return btoa(binary);
+}
+
+export function CnrImportCard({ target, onImported }: { target: ImportTarget; onImported?: () => void }) {
+  const [file, setFile] = useState<File | null>(null);
+  const [preview, setPreview] = useState<CnrImportPreview | null>(null);
+  const { toast } = useToast();
+
+  const buildRequest = async () => {
+    if (!file) throw new Error("Choose a CSV or Excel file first");
+    return { fileName: file.name, content: await readImportFile(file), target };
+  };
+
+  const previewMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/cnrs/import/preview", await buildRequest());
+      return response.json() as Promise<CnrImportPreview>;
+    },
+    onSuccess: (data) => setPreview(data),
+    onError: (error: Error) => {
+      toast({
+        title: "Preview Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/cnrs/import", await buildRequest());
+      return response.json();
+    },
+    onSuccess: (data) => {
+      toast({
+        title: "CNRs Imported",
+        description: data.message,
+      });
+      setFile(null);
+      setPreview(null);
+      onImported?.();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Import Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const columns = [
+    {
+      key: "row",
+      header: "Row",
+      render: (row: CnrImportRow) => <span className="text-sm text-muted-foreground">{row.row}</span>,
+    },
+    {
+      key: "cnr",
+      header: "CNR",
+      render: (row: CnrImportRow) => (
+        <span className="font-mono text-sm" data-testid={`text-import-cnr-${row.row}`}>{row.cnr || "-"}</span>
+      ),
+    },
+    ...(target === "direct"
+      ? [
+          {
+            key: "representedParty",
+            header: "Party",
+            render: (row: CnrImportRow) => (
+              <span className="text-sm capitalize">{row.representedParty || "-"}</span>
+            ),
+          },
+        ]
+      : []),
+    {
+      key: "status",
+      header: "Status",
+      render: (row: CnrImportRow) => (
+        <div className="flex flex-col gap-1">
+          <Badge variant={statusVariants[row.status]} className="w-fit">
+            {row.status}
+          </Badge>
+          {row.error && <span className="text-xs text-muted-foreground">{row.error}</span>}
+        </div>
+      ),
+    },
+  ];
+
+  return (
+    <Card>
+      <CardHeader className="pb-4">
+        <CardTitle className="flex items-center gap-2 text-lg font-semibold">
+          <FileSpreadsheet className="h-5 w-5" />
+          Import CNRs
+        </CardTitle>
+        <CardDescription>
+          {target === "direct"
+            ? "CSV or Excel with a cnr column, plus optional advocate and represented_party columns"
+            : "CSV or Excel with a cnr column. Imported CNRs join the bulk workflow."}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-center gap-2">
+          <Input
+            type="file"
+            accept=".csv,.xlsx,.xls,text/csv"
+            className="max-w-xs"
+            onChange={(e) => {
+              setFile(e.target.files?.[0] || null);
+              setPreview(null);
+            }}
+            data-testid={`input-import-file-${target}`}
+          />
+          <Button
+            variant="outline"
+            onClick={() => previewMutation.mutate()}
+            disabled={!file || previewMutation.isPending}
+            data-testid={`button-import-preview-${target}`}
+          >
+            {previewMutation.isPending ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Eye className="mr-2 h-4 w-4" />
+            )}
+            Preview
+          </Button>
+          <Button
+            onClick={() => importMutation.mutate()}
+            disabled={!preview || preview.summary.valid === 0 || importMutation.isPending}
+            data-testid={`button-import-commit-${target}`}
+          >
+            {importMutation.isPending ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Upload className="mr-2 h-4 w-4" />
+            )}
+            Import {preview ? preview.summary.valid : ""} Valid
+          </Button>
+        </div>
+
+        {preview && (
+          <>
+            <div className="flex flex-wrap gap-2 text-sm" data-testid={`text-import-summary-${target}`}>
+              <Badge variant="default">{preview.summary.valid} valid</Badge>
+              <Badge variant="destructive">{preview.summary.invalid} invalid</Badge>
+              <Badge variant="secondary">{preview.summary.duplicate} duplicate</Badge>
+              <Badge variant="outline">{preview.summary.exists} already present</Badge>
+            </div>
+            <div className="max-h-[400px] overflow-auto">
+              <DataTable
+                columns={columns}
+                data={preview.rows}
+                emptyMessage="No rows found in file"
+                testIdPrefix={`import-rows-${target}`}
+              />
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
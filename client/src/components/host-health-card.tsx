@@ -0,0 +1,110 @@
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { DataTable } from "@/components/data-table";
+import { Activity } from "lucide-react";
+
+type CircuitState = "closed" | "open" | "half_open";
+
+interface HostHealth {
+  host: string;
+  circuit: CircuitState;
+  consecutiveFailures: number;
+  resumesAt: string | null;
+  inFlight: number;
+  queued: number;
+  totalRequests: number;
+  totalFailures: number;
+  lastError: string | null;
+  limit: { requestsPerMinute: number; maxConcurrency: number };
+}
+
+interface HostHealthResponse {
+  hosts: HostHealth[];
+}
+
+const circuitLabels: Record<CircuitState, { label: string; variant: "default" | "secondary" | "destructive" }> = {
+  closed: { label: "Healthy", variant: "default" },
+  half_open: { label: "Probing", variant: "secondary" },
+  open: { label: "Paused", variant: "destructive" },
+};
+
+export function HostHealthCard() {
+  const { data, isLoading } = useQuery<HostHealthResponse>({
+    queryKey: ["/api/host-health"],
+    refetchInterval: 10000,
+  });
+
+  const columns = [
+    {
+      key: "host",
+      header: "Host",
+      render: (row: HostHealth) => (
+        <span className="font-mono text-sm" data-testid={`text-host-${row.host}`}>{row.host}</span>
+      ),
+    },
+    {
+      key: "circuit",
+      header: "Status",
+      render: (row: HostHealth) => {
+        const { label, variant } = circuitLabels[row.circuit];
+        return (
+          <Badge
+            variant={variant}
+            title={row.resumesAt && row.circuit === "open" ? `Resumes ${new Date(row.resumesAt).toLocaleTimeString()}` : row.lastError || undefined}
+            data-testid={`badge-host-circuit-${row.host}`}
+          >
+            {label}
+          </Badge>
+        );
+      },
+    },
+    {
+      key: "load",
+      header: "In flight / Queued",
+      render: (row: HostHealth) => (
+        <span className="font-mono text-sm">{row.inFlight} / {row.queued}</span>
+      ),
+    },
+    {
+      key: "requests",
+      header: "Requests",
+      render: (row: HostHealth) => (
+        <span className="font-mono text-sm">
+          {row.totalRequests}
+          {row.totalFailures > 0 && <span className="text-muted-foreground"> ({row.totalFailures} failed)</span>}
+        </span>
+      ),
+    },
+    {
+      key: "limit",
+      header: "Limit",
+      render: (row: HostHealth) => (
+        <span className="text-sm text-muted-foreground">
+          {row.limit.requestsPerMinute}/min, {row.limit.maxConcurrency} concurrent
+        </span>
+      ),
+    },
+  ];
+
+  return (
+    <Card>
+      <CardHeader className="pb-4">
+        <CardTitle className="flex items-center gap-2 text-lg font-semibold">
+          <Activity className="h-5 w-5" />
+          Court Host Health
+        </CardTitle>
+        <CardDescription>Rate limits and circuit breaker state for court sites since the server started</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <DataTable
+          columns={columns}
+          data={data?.hosts || []}
+          isLoading={isLoading}
+          emptyMessage="No court hosts contacted yet"
+          testIdPrefix="host-health"
+        />
+      </CardContent>
+    </Card>
+  );
+}
@@ -32,6 +32,8 @@ interface ProcessingJob {
   processedItems: number;
   successfulItems: number;
   failedItems: number;
+  fetchAttempts: number;
+  creditsUsed: number;
   createdAt: string;
 }
 
@@ -178,6 +180,11 @@ export function ProcessingPanel() {
                 <span className="text-sm text-muted-foreground">
                   {latestJob.processedItems} / {latestJob.totalItems} items
                 </span>
+                {latestJob.fetchAttempts > 0 && (
+                  <span className="text-sm text-muted-foreground" data-testid="text-job-credits">
+                    · {latestJob.fetchAttempts} requests, {latestJob.creditsUsed} credits
+                  </span>
+                )}
               </div>
               <Badge variant={latestJob.status === "processing" ? "default" : "secondary"}>
                 {latestJob.status}
@@ -0,0 +1,46 @@
+// Where a classifier field was found in an order's PDF, as stored in the
+// sourceLocations column (see server/text-extraction/locate.ts)
+export interface SourceLocation {
+  pageNumber: number;
+  start: number;
+  end: number;
+  charStart: number;
+  charEnd: number;
+  text: string;
+  // [left, top, right, bottom] as fractions of the page size
+  bboxes: [number, number, number, number][];
+  exact: boolean;
+}
+
+export type SourceLocations = Partial<Record<"operativePortion" | "freshCasePhrase" | "nextHearingDate", SourceLocation>>;
+
+export function parseSourceLocations(json: string | null | undefined): SourceLocations {
+  if (!json) return {};
+  try {
+    return JSON.parse(json) as SourceLocations;
+  } catch {
+    return {};
+  }
+}
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, " ").trim();
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+/**
+ * Text-layer renderer for react-pdf that marks the items belonging to a
+ * location. Used for pages without line boxes, where the browser's own text
+ * layer knows where the words are.
+ */
+export function highlightTextItems(location: SourceLocation) {
+  const target = normalize(location.text);
+  return ({ str }: { str: string }): string => {
+    const item = normalize(str);
+    if (item.length < 4 || !target.includes(item)) return escapeHtml(str);
+    return `<mark class="bg-yellow-300/60 text-transparent">${escapeHtml(str)}</mark>`;
+  };
+}
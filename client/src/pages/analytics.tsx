@@ -8,6 +8,7 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
+import { DataTable } from "@/components/data-table";
 import {
   BarChart,
   Bar,
@@ -31,6 +32,9 @@ import {
   Briefcase,
   Building2,
   Calendar,
+  Landmark,
+  Copy,
+  Receipt,
 } from "lucide-react";
 
 interface DistrictStats {
@@ -40,6 +44,49 @@ interface DistrictStats {
   leadsCount: number;
 }
 
+interface EstablishmentStats {
+  establishmentId: number;
+  establishmentName: string;
+  districtName: string;
+  code: string;
+  cnrsCount: number;
+  ordersCount: number;
+  pdfsCount: number;
+}
+
+interface DuplicatePdfGroup {
+  contentHash: string;
+  orderCount: number;
+  pdfSizeBytes: number;
+  orders: { orderId: number; caseId?: number; cnr: string; orderNo: number; orderDate: string }[];
+}
+
+interface DuplicatePdfReport {
+  bulk: DuplicatePdfGroup[];
+  direct: DuplicatePdfGroup[];
+}
+
+interface FetchCostBucket {
+  key: string;
+  label: string;
+  attempts: number;
+  pdfs: number;
+  credits: number;
+  costUsd: number;
+  costPerPdfUsd: number | null;
+}
+
+interface FetchCostReport {
+  totals: Omit<FetchCostBucket, "key" | "label">;
+  byDistrict: FetchCostBucket[];
+  byDay: FetchCostBucket[];
+  byFetcher: FetchCostBucket[];
+}
+
+function formatUsd(value: number | null): string {
+  return value === null ? "-" : `$${value.toFixed(value < 1 ? 4 : 2)}`;
+}
+
 interface TrendData {
   date: string;
   pdfs: number;
@@ -68,6 +115,137 @@ export default function Analytics() {
     queryKey: ["/api/analytics/order-types"],
   });
 
+  const { data: establishmentStats, isLoading: establishmentsLoading } = useQuery<EstablishmentStats[]>({
+    queryKey: ["/api/analytics/by-establishment"],
+  });
+
+  const { data: duplicates, isLoading: duplicatesLoading } = useQuery<DuplicatePdfReport>({
+    queryKey: ["/api/analytics/duplicate-pdfs"],
+  });
+
+  const { data: fetchCosts, isLoading: fetchCostsLoading } = useQuery<FetchCostReport>({
+    queryKey: [`/api/reports/fetch-costs?days=${dateRange}`],
+  });
+
+  const fetchCostColumns = [
+    {
+      key: "label",
+      header: "District",
+      render: (row: FetchCostBucket) => (
+        <span className="font-medium" data-testid={`text-fetch-cost-${row.key}`}>{row.label}</span>
+      ),
+    },
+    {
+      key: "attempts",
+      header: "Requests",
+      render: (row: FetchCostBucket) => <span className="font-mono text-sm">{row.attempts}</span>,
+    },
+    {
+      key: "pdfs",
+      header: "PDFs",
+      render: (row: FetchCostBucket) => <span className="font-mono text-sm">{row.pdfs}</span>,
+    },
+    {
+      key: "credits",
+      header: "Credits",
+      render: (row: FetchCostBucket) => <span className="font-mono text-sm">{row.credits.toLocaleString()}</span>,
+    },
+    {
+      key: "costUsd",
+      header: "Spend",
+      render: (row: FetchCostBucket) => <span className="font-mono text-sm">{formatUsd(row.costUsd)}</span>,
+    },
+    {
+      key: "costPerPdfUsd",
+      header: "Per PDF",
+      render: (row: FetchCostBucket) => <span className="font-mono text-sm">{formatUsd(row.costPerPdfUsd)}</span>,
+    },
+  ];
+
+  const duplicateRows = [
+    ...(duplicates?.bulk ?? []).map((g) => ({ ...g, workflow: "Bulk" })),
+    ...(duplicates?.direct ?? []).map((g) => ({ ...g, workflow: "Direct" })),
+  ];
+
+  const duplicateColumns = [
+    {
+      key: "contentHash",
+      header: "SHA-256",
+      render: (row: DuplicatePdfGroup & { workflow: string }) => (
+        <span className="font-mono text-xs" title={row.contentHash} data-testid={`text-duplicate-${row.contentHash}`}>
+          {row.contentHash.slice(0, 12)}
+        </span>
+      ),
+    },
+    {
+      key: "workflow",
+      header: "Workflow",
+      render: (row: DuplicatePdfGroup & { workflow: string }) => <Badge variant="secondary">{row.workflow}</Badge>,
+    },
+    {
+      key: "orderCount",
+      header: "Copies",
+      render: (row: DuplicatePdfGroup & { workflow: string }) => <span className="font-mono text-sm">{row.orderCount}</span>,
+    },
+    {
+      key: "orders",
+      header: "Orders",
+      render: (row: DuplicatePdfGroup & { workflow: string }) => (
+        <div className="flex flex-col gap-0.5 text-xs">
+          {row.orders.map((o) => (
+            <span key={o.orderId} className="font-mono">
+              {o.cnr} #{o.orderNo} ({o.orderDate})
+            </span>
+          ))}
+        </div>
+      ),
+    },
+    {
+      key: "pdfSizeBytes",
+      header: "Size",
+      render: (row: DuplicatePdfGroup & { workflow: string }) => (
+        <span className="font-mono text-sm">{(row.pdfSizeBytes / 1024).toFixed(1)} KB</span>
+      ),
+    },
+  ];
+
+  const establishmentColumns = [
+    {
+      key: "establishmentName",
+      header: "Establishment",
+      render: (row: EstablishmentStats) => (
+        <span className="font-medium" data-testid={`text-establishment-stats-${row.establishmentId}`}>
+          {row.establishmentName}
+        </span>
+      ),
+    },
+    {
+      key: "districtName",
+      header: "District",
+      render: (row: EstablishmentStats) => <span>{row.districtName}</span>,
+    },
+    {
+      key: "code",
+      header: "Code",
+      render: (row: EstablishmentStats) => <span className="font-mono text-sm">{row.code}</span>,
+    },
+    {
+      key: "cnrsCount",
+      header: "CNRs",
+      render: (row: EstablishmentStats) => <span className="font-mono text-sm">{row.cnrsCount}</span>,
+    },
+    {
+      key: "ordersCount",
+      header: "Orders",
+      render: (row: EstablishmentStats) => <span className="font-mono text-sm">{row.ordersCount}</span>,
+    },
+    {
+      key: "pdfsCount",
+      header: "PDFs",
+      render: (row: EstablishmentStats) => <span className="font-mono text-sm">{row.pdfsCount}</span>,
+    },
+  ];
+
   const totalCnrs = districtStats?.reduce((sum, d) => sum + d.cnrsCount, 0) ?? 0;
   const totalOrders = districtStats?.reduce((sum, d) => sum + d.ordersCount, 0) ?? 0;
   const totalLeads = districtStats?.reduce((sum, d) => sum + d.leadsCount, 0) ?? 0;
@@ -273,6 +451,88 @@ export default function Analytics() {
             )}
           </CardContent>
         </Card>
+
+        <Card className="lg:col-span-2">
+          <CardHeader className="flex flex-row items-center justify-between gap-2 pb-4">
+            <CardTitle className="flex items-center gap-2 text-lg font-semibold">
+              <Landmark className="h-5 w-5" />
+              Orders by Establishment
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <DataTable
+              columns={establishmentColumns}
+              data={establishmentStats || []}
+              isLoading={establishmentsLoading}
+              emptyMessage="No establishments configured"
+              testIdPrefix="establishment-stats"
+            />
+          </CardContent>
+        </Card>
+
+        <Card className="lg:col-span-2">
+          <CardHeader className="flex flex-row items-center justify-between gap-2 pb-4">
+            <CardTitle className="flex items-center gap-2 text-lg font-semibold">
+              <Copy className="h-5 w-5" />
+              Duplicate PDFs
+            </CardTitle>
+            <Badge variant="secondary">{duplicateRows.length} groups</Badge>
+          </CardHeader>
+          <CardContent>
+            <DataTable
+              columns={duplicateColumns}
+              data={duplicateRows}
+              isLoading={duplicatesLoading}
+              emptyMessage="No duplicate PDFs found"
+              testIdPrefix="duplicate-pdfs"
+            />
+          </CardContent>
+        </Card>
+
+        <Card className="lg:col-span-2">
+          <CardHeader className="flex flex-row items-center justify-between gap-2 pb-4">
+            <CardTitle className="flex items-center gap-2 text-lg font-semibold">
+              <Receipt className="h-5 w-5" />
+              PDF Fetch Costs
+            </CardTitle>
+            <div className="flex flex-wrap items-center gap-2 text-sm" data-testid="text-fetch-cost-totals">
+              <Badge variant="secondary">{formatUsd(fetchCosts?.totals.costUsd ?? 0)} total</Badge>
+              <Badge variant="outline">{formatUsd(fetchCosts?.totals.costPerPdfUsd ?? null)} per PDF</Badge>
+              {fetchCosts?.byFetcher.map((f) => (
+                <Badge key={f.key} variant="outline">
+                  {f.label}: {f.credits.toLocaleString()} credits
+                </Badge>
+              ))}
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            {fetchCosts && fetchCosts.byDay.length > 0 && (
+              <ResponsiveContainer width="100%" height={200}>
+                <BarChart data={fetchCosts.byDay} margin={{ top: 5, right: 30, left: 0, bottom: 5 }}>
+                  <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                  <XAxis dataKey="label" tick={{ fontSize: 12 }} />
+                  <YAxis tick={{ fontSize: 12 }} />
+                  <Tooltip
+                    formatter={(value: number) => formatUsd(value)}
+                    contentStyle={{
+                      backgroundColor: "hsl(var(--card))",
+                      border: "1px solid hsl(var(--border))",
+                      borderRadius: "var(--radius)",
+                    }}
+                  />
+                  <Bar dataKey="costUsd" fill="hsl(var(--primary))" name="Spend (USD)" radius={[4, 4, 0, 0]} />
+                </BarChart>
+              </ResponsiveContainer>
+            )}
+            <DataTable
+              columns={fetchCostColumns}
+              data={fetchCosts?.byDistrict ?? []}
+              isLoading={fetchCostsLoading}
+              emptyMessage="No PDF fetches recorded in this period"
+              testIdPrefix="fetch-costs"
+            />
+          </CardContent>
+        </Card>
       </div>
     </div>
   );
@@ -8,6 +8,7 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
+import { Checkbox } from "@/components/ui/checkbox";
 import {
   Form,
   FormControl,
@@ -25,19 +26,32 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { DataTable } from "@/components/data-table";
+import { CnrImportCard } from "@/components/cnr-import-card";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import { Hash, Loader2, CheckCircle2, XCircle, Download, Play, FileText, Brain, Sparkles, CalendarIcon } from "lucide-react";
+import { Hash, Loader2, CheckCircle2, XCircle, Download, Play, FileText, Brain, Sparkles, CalendarIcon, Radar, ShieldCheck, History } from "lucide-react";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
 import { Calendar } from "@/components/ui/calendar";
 import { format } from "date-fns";
-import type { District, Cnr, ProcessingJob } from "@shared/schema";
+import type { District, Cnr, ProcessingJob, SerialFrontier, Establishment, PdfFetchStrategy, PdfFetcherName, OcrEngineName } from "@shared/schema";
 
 const generateFormSchema = z.object({
   districtId: z.string().min(1, "Select a district"),
+  establishmentId: z.string().optional(),
   startSerial: z.coerce.number().int().positive("Must be positive"),
   endSerial: z.coerce.number().int().positive("Must be positive"),
   year: z.coerce.number().int().min(2000).max(2030),
+  capToFrontier: z.boolean().default(false),
 });
 
 type GenerateFormValues = z.infer<typeof generateFormSchema>;
@@ -47,6 +61,9 @@ const orderFormSchema = z.object({
   endDate: z.date(),
   startOrderNo: z.coerce.number().int().min(1).max(20).default(1),
   endOrderNo: z.coerce.number().int().min(1).max(20).default(1),
+  skipInvalidCnrs: z.boolean().default(true),
+  skipNonWorkingDays: z.boolean().default(true),
+  gridFallback: z.boolean().default(true),
 }).refine((data) => data.endDate >= data.startDate, {
   message: "End date must be after start date",
   path: ["endDate"],
@@ -62,11 +79,71 @@ interface GeneratedCnr extends Cnr {
   ordersCount?: number;
 }
 
+interface CostEstimate {
+  requests: number;
+  fetchers: string[];
+  proxyCredits: number;
+  expectedPdfs: number;
+  expectedStorageBytes: number;
+  ocrPages: number;
+  llmInputTokens: number;
+  llmOutputTokens: number;
+  pdfHitRate: number;
+  basedOnHistory: boolean;
+  requiresConfirmation: boolean;
+}
+
+interface DryRunResult {
+  urlCount: number;
+  newOrders?: number;
+  existingOrders?: number;
+  skippedOrders?: number;
+  skippedInvalidCnrs?: number;
+  skippedNonWorkingDays?: number;
+  estimate: CostEstimate;
+}
+
+interface PdfFetchersResponse {
+  chain: PdfFetcherName[];
+  fetchers: { name: PdfFetcherName; configured: boolean; inChain: boolean }[];
+}
+
+const fetcherLabels: Record<PdfFetcherName, string> = {
+  direct: "Direct",
+  scraperapi: "ScraperAPI",
+  zenrows: "ZenRows",
+  playwright: "Playwright",
+};
+
+interface OcrEnginesResponse {
+  engines: { name: OcrEngineName; configured: boolean; isDefault: boolean }[];
+}
+
+const ocrEngineLabels: Record<OcrEngineName, string> = {
+  mistral: "Mistral OCR",
+  tesseract: "Tesseract (offline, English + Hindi)",
+};
+
+interface PendingRun {
+  kind: "orders" | "download";
+  result: DryRunResult;
+  values?: OrderFormValues;
+}
+
+interface FrontierHistoryRow extends SerialFrontier {
+  districtName: string;
+  casesPerDay: number | null;
+}
+
 export default function CnrGenerator() {
   const [activeJobId, setActiveJobId] = useState<number | null>(null);
   const [generatedCnrIds, setGeneratedCnrIds] = useState<number[]>([]);
   const [generatedOrderIds, setGeneratedOrderIds] = useState<number[]>([]);
   const lastCompletedJobIdRef = useRef<number | null>(null);
+  const [pendingRun, setPendingRun] = useState<PendingRun | null>(null);
+  const [confirmRunOpen, setConfirmRunOpen] = useState(false);
+  const [fetchStrategy, setFetchStrategy] = useState<PdfFetchStrategy>("chain");
+  const [ocrEngine, setOcrEngine] = useState<OcrEngineName | "default">("default");
   const { toast } = useToast();
 
   const { data: districts, isLoading: districtsLoading } = useQuery<District[]>({
@@ -77,6 +154,14 @@ export default function CnrGenerator() {
     queryKey: ["/api/cnrs?limit=50"],
   });
 
+  const { data: pdfFetchers } = useQuery<PdfFetchersResponse>({
+    queryKey: ["/api/pdf-fetchers"],
+  });
+
+  const { data: ocrEngines } = useQuery<OcrEnginesResponse>({
+    queryKey: ["/api/ocr-engines"],
+  });
+
   const { data: activeJob, isLoading: jobLoading } = useQuery<ProcessingJob>({
     queryKey: ["/api/jobs", activeJobId],
     enabled: activeJobId !== null,
@@ -115,8 +200,24 @@ export default function CnrGenerator() {
         text_extraction: "Text Extraction",
         classification: "Classification",
         enrichment: "Enrichment",
+        frontier_discovery: "Frontier Discovery",
+        cnr_validation: "CNR Validation",
+        history_order_generation: "Case History Orders",
       };
       const jobLabel = jobTypeLabels[activeJob.jobType] || "Job";
+
+      if (activeJob.jobType === "cnr_validation") {
+        queryClient.invalidateQueries({ queryKey: ["/api/cnrs?limit=50"] });
+      }
+      if (activeJob.jobType === "history_order_generation") {
+        queryClient.invalidateQueries({ queryKey: ["/api/cnrs?limit=50"] });
+        loadPendingOrdersForCnrs();
+      }
+      if (activeJob.jobType === "frontier_discovery") {
+        queryClient.invalidateQueries({
+          predicate: (query) => String(query.queryKey[0]).startsWith("/api/frontiers"),
+        });
+      }
       
       toast({
         title: activeJob.status === "completed" ? `${jobLabel} Complete` : `${jobLabel} Finished`,
@@ -130,12 +231,28 @@ export default function CnrGenerator() {
     resolver: zodResolver(generateFormSchema),
     defaultValues: {
       districtId: "",
+      establishmentId: "",
       startSerial: 1,
       endSerial: 10,
       year: new Date().getFullYear(),
+      capToFrontier: false,
     },
   });
 
+  const selectedDistrictId = form.watch("districtId");
+  const selectedYear = form.watch("year");
+
+  const { data: selectedFrontiers } = useQuery<FrontierHistoryRow[]>({
+    queryKey: [`/api/frontiers?year=${selectedYear}&districtId=${selectedDistrictId}`],
+    enabled: !!selectedDistrictId && !!selectedYear,
+  });
+  const liveFrontier = selectedFrontiers?.find(f => f.highestValidSerial !== null);
+
+  const { data: establishments } = useQuery<Establishment[]>({
+    queryKey: [`/api/establishments?districtId=${selectedDistrictId}`],
+    enabled: !!selectedDistrictId,
+  });
+
   const orderForm = useForm<OrderFormValues>({
     resolver: zodResolver(orderFormSchema),
     defaultValues: {
@@ -143,6 +260,9 @@ export default function CnrGenerator() {
       endDate: new Date(),
       startOrderNo: 1,
       endOrderNo: 1,
+      skipInvalidCnrs: true,
+      skipNonWorkingDays: true,
+      gridFallback: true,
     },
   });
 
@@ -150,9 +270,11 @@ export default function CnrGenerator() {
     mutationFn: async (values: GenerateFormValues) => {
       const response = await apiRequest("POST", "/api/cnrs/generate", {
         districtId: parseInt(values.districtId),
+        establishmentId: values.establishmentId ? parseInt(values.establishmentId) : undefined,
         startSerial: values.startSerial,
         endSerial: values.endSerial,
         year: values.year,
+        capToFrontier: values.capToFrontier,
       });
       return response.json();
     },
@@ -161,7 +283,7 @@ export default function CnrGenerator() {
       setGeneratedOrderIds([]);
       toast({
         title: "CNRs Generated",
-        description: `Created ${data.cnrsCreated} CNRs: ${data.cnrs?.slice(0, 3).join(", ")}${data.cnrsCreated > 3 ? "..." : ""}`,
+        description: `Created ${data.cnrsCreated} CNRs: ${data.cnrs?.slice(0, 3).join(", ")}${data.cnrsCreated > 3 ? "..." : ""}${data.frontierSerial ? ` (stopped at frontier ${data.frontierSerial})` : ""}`,
       });
       queryClient.invalidateQueries({ queryKey: ["/api/cnrs?limit=50"] });
       queryClient.invalidateQueries({ queryKey: ["/api/analytics/overview"] });
@@ -175,22 +297,83 @@ export default function CnrGenerator() {
     },
   });
 
-  const generateOrdersMutation = useMutation({
+  const buildOrderRequest = (values: OrderFormValues) => ({
+    cnrIds: generatedCnrIds,
+    startDate: values.startDate.toISOString().split("T")[0],
+    endDate: values.endDate.toISOString().split("T")[0],
+    startOrderNo: values.startOrderNo,
+    endOrderNo: values.endOrderNo,
+    skipInvalidCnrs: values.skipInvalidCnrs,
+    skipNonWorkingDays: values.skipNonWorkingDays,
+  });
+
+  // Dry runs report URL counts and projected spend; large runs wait for confirmation
+  const orderDryRunMutation = useMutation({
     mutationFn: async (values: OrderFormValues) => {
-      const response = await apiRequest("POST", "/api/orders/generate", {
-        cnrIds: generatedCnrIds,
-        startDate: values.startDate.toISOString().split("T")[0],
-        endDate: values.endDate.toISOString().split("T")[0],
-        startOrderNo: values.startOrderNo,
-        endOrderNo: values.endOrderNo,
+      const response = await apiRequest("POST", "/api/orders/generate/dry-run", buildOrderRequest(values));
+      return response.json() as Promise<DryRunResult>;
+    },
+    onSuccess: (result, values) => {
+      setPendingRun({ kind: "orders", result, values });
+      if (result.estimate.requiresConfirmation) {
+        setConfirmRunOpen(true);
+      } else {
+        generateOrdersMutation.mutate(values);
+      }
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Estimate Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const downloadDryRunMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/jobs/start-pdf-download/dry-run", {
+        strategy: fetchStrategy,
+        orderIds: generatedOrderIds,
+      });
+      return response.json() as Promise<DryRunResult>;
+    },
+    onSuccess: (result) => {
+      setPendingRun({ kind: "download", result });
+      if (result.estimate.requiresConfirmation) {
+        setConfirmRunOpen(true);
+      } else {
+        startDownloadMutation.mutate();
+      }
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Estimate Failed",
+        description: error.message,
+        variant: "destructive",
       });
+    },
+  });
+
+  const confirmPendingRun = () => {
+    setConfirmRunOpen(false);
+    if (pendingRun?.kind === "orders" && pendingRun.values) {
+      generateOrdersMutation.mutate(pendingRun.values);
+    } else if (pendingRun?.kind === "download") {
+      startDownloadMutation.mutate();
+    }
+  };
+
+  const generateOrdersMutation = useMutation({
+    mutationFn: async (values: OrderFormValues) => {
+      const response = await apiRequest("POST", "/api/orders/generate", buildOrderRequest(values));
       return response.json();
     },
     onSuccess: (data) => {
       setGeneratedOrderIds(data.orderIds || []);
       toast({
         title: "Order URLs Created",
-        description: `Created ${data.ordersCreated} order URLs ready for download`,
+        description: `Created ${data.ordersCreated} order URLs ready for download${data.skippedInvalidCnrs ? ` (${data.skippedInvalidCnrs} invalid CNRs skipped)` : ""}${data.skippedNonWorkingDays ? ` (${data.skippedNonWorkingDays} non-working days skipped)` : ""}`,
       });
       queryClient.invalidateQueries({ queryKey: ["/api/orders?limit=10"] });
     },
@@ -203,9 +386,104 @@ export default function CnrGenerator() {
     },
   });
 
+  const validateCnrsMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/jobs/validate-cnrs", {
+        cnrIds: generatedCnrIds,
+        limit: generatedCnrIds.length,
+      });
+      return response.json();
+    },
+    onSuccess: (data) => {
+      if (data.jobId) {
+        lastCompletedJobIdRef.current = null;
+        setActiveJobId(data.jobId);
+        toast({
+          title: data.alreadyRunning ? "Job Already Running" : "CNR Validation Started",
+          description: data.alreadyRunning
+            ? "Tracking existing CNR validation job"
+            : `Checking ${data.totalOrders} CNRs on eCourts`,
+        });
+      } else {
+        toast({
+          title: "No CNRs to Validate",
+          description: "All CNRs have been checked",
+        });
+      }
+      queryClient.invalidateQueries({ queryKey: ["/api/jobs"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Validation Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const historyOrdersMutation = useMutation({
+    mutationFn: async () => {
+      const values = orderForm.getValues();
+      const response = await apiRequest("POST", "/api/jobs/generate-orders-from-history", {
+        cnrIds: generatedCnrIds,
+        fallbackGrid: values.gridFallback
+          ? {
+              startDate: values.startDate.toISOString().split("T")[0],
+              endDate: values.endDate.toISOString().split("T")[0],
+              startOrderNo: values.startOrderNo,
+              endOrderNo: values.endOrderNo,
+            }
+          : undefined,
+      });
+      return response.json();
+    },
+    onSuccess: (data) => {
+      if (data.jobId) {
+        lastCompletedJobIdRef.current = null;
+        setActiveJobId(data.jobId);
+        toast({
+          title: data.alreadyRunning ? "Job Already Running" : "Case History Lookup Started",
+          description: data.alreadyRunning
+            ? "Tracking existing case history job"
+            : `Fetching interim orders for ${data.totalOrders} CNRs`,
+        });
+      } else {
+        toast({
+          title: "No Valid CNRs",
+          description: data.message,
+        });
+      }
+      queryClient.invalidateQueries({ queryKey: ["/api/jobs"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Case History Lookup Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  async function loadPendingOrdersForCnrs() {
+    if (generatedCnrIds.length === 0) return;
+    try {
+      const response = await apiRequest("POST", "/api/orders/pending-by-cnrs", { cnrIds: generatedCnrIds });
+      const data = await response.json();
+      setGeneratedOrderIds(data.orderIds || []);
+      toast({
+        title: "Order URLs Ready",
+        description: `${data.byMethod.caseHistory} from case history, ${data.byMethod.grid} from grid`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/orders?limit=10"] });
+    } catch (error) {
+      console.error("Failed to load orders for CNRs:", error);
+    }
+  }
+
   const startDownloadMutation = useMutation({
     mutationFn: async () => {
-      const response = await apiRequest("POST", "/api/jobs/start-pdf-download-zenrows", {
+      const response = await apiRequest("POST", "/api/jobs/start-pdf-download", {
+        strategy: fetchStrategy,
         orderIds: generatedOrderIds,
       });
       return response.json();
@@ -221,8 +499,8 @@ export default function CnrGenerator() {
           });
         } else {
           toast({
-            title: "ZenRows PDF Download Started",
-            description: `Processing ${data.totalOrders} orders via ZenRows`,
+            title: "PDF Download Started",
+            description: data.message,
           });
         }
       } else {
@@ -246,6 +524,7 @@ export default function CnrGenerator() {
     mutationFn: async () => {
       const response = await apiRequest("POST", "/api/jobs/extract-texts", {
         limit: 100,
+        ...(ocrEngine !== "default" && { ocrEngine }),
       });
       return response.json();
     },
@@ -382,11 +661,11 @@ export default function CnrGenerator() {
   };
 
   const onOrderSubmit = (values: OrderFormValues) => {
-    generateOrdersMutation.mutate(values);
+    orderDryRunMutation.mutate(values);
   };
 
   const handleStartDownload = () => {
-    startDownloadMutation.mutate();
+    downloadDryRunMutation.mutate();
   };
 
   const handleExtractTexts = () => {
@@ -484,7 +763,13 @@ export default function CnrGenerator() {
                   render={({ field }) => (
                     <FormItem>
                       <FormLabel>District</FormLabel>
-                      <Select onValueChange={field.onChange} value={field.value}>
+                      <Select
+                        onValueChange={(value) => {
+                          field.onChange(value);
+                          form.setValue("establishmentId", "");
+                        }}
+                        value={field.value}
+                      >
                         <FormControl>
                           <SelectTrigger data-testid="select-district">
                             <SelectValue placeholder="Select district" />
@@ -507,6 +792,37 @@ export default function CnrGenerator() {
                   )}
                 />
 
+                {establishments && establishments.length > 1 && (
+                  <FormField
+                    control={form.control}
+                    name="establishmentId"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Establishment</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger data-testid="select-establishment">
+                              <SelectValue placeholder="Main establishment" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {establishments.map((establishment) => (
+                              <SelectItem
+                                key={establishment.id}
+                                value={String(establishment.id)}
+                                data-testid={`option-establishment-${establishment.id}`}
+                              >
+                                {establishment.code} - {establishment.name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+
                 <div className="grid grid-cols-2 gap-4">
                   <FormField
                     control={form.control}
@@ -558,6 +874,30 @@ export default function CnrGenerator() {
                   )}
                 />
 
+                <FormField
+                  control={form.control}
+                  name="capToFrontier"
+                  render={({ field }) => (
+                    <FormItem className="flex flex-row items-start gap-3 space-y-0">
+                      <FormControl>
+                        <Checkbox
+                          checked={field.value}
+                          onCheckedChange={(checked) => field.onChange(checked === true)}
+                          data-testid="checkbox-cap-frontier"
+                        />
+                      </FormControl>
+                      <div className="space-y-1 leading-none">
+                        <FormLabel>Stop at live frontier</FormLabel>
+                        <FormDescription data-testid="text-live-frontier">
+                          {liveFrontier
+                            ? `Highest filed serial: ${liveFrontier.highestValidSerial} (${format(new Date(liveFrontier.discoveredAt), "dd/MM/yy HH:mm")})`
+                            : "No frontier discovered yet for this district and year"}
+                        </FormDescription>
+                      </div>
+                    </FormItem>
+                  )}
+                />
+
                 <Button
                   type="submit"
                   className="w-full"
@@ -588,6 +928,26 @@ export default function CnrGenerator() {
               </div>
             )}
 
+            <Button
+              variant="outline"
+              className="mt-4 w-full"
+              onClick={() => validateCnrsMutation.mutate()}
+              disabled={generatedCnrIds.length === 0 || validateCnrsMutation.isPending || (!!activeJobId && activeJob?.jobType === "cnr_validation")}
+              data-testid="button-validate-cnrs"
+            >
+              {validateCnrsMutation.isPending || (activeJobId && activeJob?.jobType === "cnr_validation") ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Verifying on eCourts...
+                </>
+              ) : (
+                <>
+                  <ShieldCheck className="mr-2 h-4 w-4" />
+                  Verify CNRs on eCourts
+                </>
+              )}
+            </Button>
+
             <div className="mt-6 border-t pt-6">
               <h3 className="mb-3 text-sm font-medium text-muted-foreground">
                 Step 2: Create Order URLs
@@ -703,14 +1063,51 @@ export default function CnrGenerator() {
                       )}
                     />
                   </div>
+                  <FormField
+                    control={orderForm.control}
+                    name="skipInvalidCnrs"
+                    render={({ field }) => (
+                      <FormItem className="flex flex-row items-center gap-2 space-y-0">
+                        <FormControl>
+                          <Checkbox
+                            checked={field.value}
+                            onCheckedChange={(checked) => field.onChange(checked === true)}
+                            data-testid="checkbox-skip-invalid"
+                          />
+                        </FormControl>
+                        <FormLabel className="text-xs font-normal">Skip CNRs verified as invalid</FormLabel>
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={orderForm.control}
+                    name="skipNonWorkingDays"
+                    render={({ field }) => (
+                      <FormItem className="flex flex-row items-center gap-2 space-y-0">
+                        <FormControl>
+                          <Checkbox
+                            checked={field.value}
+                            onCheckedChange={(checked) => field.onChange(checked === true)}
+                            data-testid="checkbox-skip-non-working"
+                          />
+                        </FormControl>
+                        <FormLabel className="text-xs font-normal">Skip Sundays and court holidays</FormLabel>
+                      </FormItem>
+                    )}
+                  />
                   <Button
                     type="submit"
                     variant="secondary"
                     className="w-full"
-                    disabled={generateOrdersMutation.isPending || generatedCnrIds.length === 0}
+                    disabled={orderDryRunMutation.isPending || generateOrdersMutation.isPending || generatedCnrIds.length === 0}
                     data-testid="button-create-orders"
                   >
-                    {generateOrdersMutation.isPending ? (
+                    {orderDryRunMutation.isPending ? (
+                      <>
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                        Estimating...
+                      </>
+                    ) : generateOrdersMutation.isPending ? (
                       <>
                         <Loader2 className="mr-2 h-4 w-4 animate-spin" />
                         Creating Order URLs...
@@ -725,21 +1122,84 @@ export default function CnrGenerator() {
                     )}
                   </Button>
                 </form>
+                <div className="mt-3 space-y-2">
+                  <Button
+                    variant="outline"
+                    className="w-full"
+                    onClick={() => historyOrdersMutation.mutate()}
+                    disabled={generatedCnrIds.length === 0 || historyOrdersMutation.isPending || (!!activeJobId && activeJob?.jobType === "history_order_generation")}
+                    data-testid="button-history-orders"
+                  >
+                    {historyOrdersMutation.isPending || (activeJobId && activeJob?.jobType === "history_order_generation") ? (
+                      <>
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                        Reading Case History...
+                      </>
+                    ) : (
+                      <>
+                        <History className="mr-2 h-4 w-4" />
+                        Use Case History Instead
+                      </>
+                    )}
+                  </Button>
+                  <FormField
+                    control={orderForm.control}
+                    name="gridFallback"
+                    render={({ field }) => (
+                      <FormItem className="flex flex-row items-center gap-2 space-y-0">
+                        <FormControl>
+                          <Checkbox
+                            checked={field.value}
+                            onCheckedChange={(checked) => field.onChange(checked === true)}
+                            data-testid="checkbox-grid-fallback"
+                          />
+                        </FormControl>
+                        <FormLabel className="text-xs font-normal">Fall back to the date grid when history is unavailable</FormLabel>
+                      </FormItem>
+                    )}
+                  />
+                </div>
               </Form>
             </div>
 
+            {pendingRun && (
+              <div className="mt-4">
+                <CostEstimatePanel run={pendingRun} />
+              </div>
+            )}
+
             <div className="mt-6 border-t pt-6">
               <h3 className="mb-3 text-sm font-medium text-muted-foreground">
                 Step 3: Download PDFs
               </h3>
+              <Select value={fetchStrategy} onValueChange={(value) => setFetchStrategy(value as PdfFetchStrategy)}>
+                <SelectTrigger className="mb-3" data-testid="select-fetch-strategy">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="chain">
+                    Fallback chain{pdfFetchers ? ` (${pdfFetchers.chain.map(name => fetcherLabels[name]).join(" → ")})` : ""}
+                  </SelectItem>
+                  {pdfFetchers?.fetchers.map((fetcher) => (
+                    <SelectItem key={fetcher.name} value={fetcher.name} disabled={!fetcher.configured}>
+                      {fetcherLabels[fetcher.name]} only{fetcher.configured ? "" : " (not configured)"}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
               <Button
                 variant="secondary"
                 className="w-full"
                 onClick={handleStartDownload}
-                disabled={startDownloadMutation.isPending || (!!activeJobId && activeJob?.jobType === "pdf_download") || generatedOrderIds.length === 0}
+                disabled={downloadDryRunMutation.isPending || startDownloadMutation.isPending || (!!activeJobId && activeJob?.jobType === "pdf_download") || generatedOrderIds.length === 0}
                 data-testid="button-start-download"
               >
-                {startDownloadMutation.isPending || (activeJobId && activeJob?.jobType === "pdf_download") ? (
+                {downloadDryRunMutation.isPending ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Estimating...
+                  </>
+                ) : startDownloadMutation.isPending || (activeJobId && activeJob?.jobType === "pdf_download") ? (
                   <>
                     <Loader2 className="mr-2 h-4 w-4 animate-spin" />
                     Downloading PDFs...
@@ -829,6 +1289,21 @@ export default function CnrGenerator() {
               <h3 className="mb-3 text-sm font-medium text-muted-foreground">
                 Step 4: Extract Text
               </h3>
+              <Select value={ocrEngine} onValueChange={(value) => setOcrEngine(value as OcrEngineName | "default")}>
+                <SelectTrigger className="mb-3" data-testid="select-ocr-engine">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="default">
+                    Default OCR engine{ocrEngines ? ` (${ocrEngines.engines.filter(e => e.isDefault).map(e => ocrEngineLabels[e.name]).join("")})` : ""}
+                  </SelectItem>
+                  {ocrEngines?.engines.map((engine) => (
+                    <SelectItem key={engine.name} value={engine.name} disabled={!engine.configured}>
+                      {ocrEngineLabels[engine.name]}{engine.configured ? "" : " (not configured)"}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
               <Button
                 variant="secondary"
                 className="w-full"
@@ -849,7 +1324,7 @@ export default function CnrGenerator() {
                 )}
               </Button>
               <p className="mt-2 text-xs text-muted-foreground">
-                Extract text content from downloaded PDF orders
+                Extract text content from downloaded PDF orders; the OCR engine only reads scanned pages
               </p>
             </div>
 
@@ -911,33 +1386,234 @@ export default function CnrGenerator() {
           </CardContent>
         </Card>
 
-        <Card className="flex-1">
-          <CardHeader className="flex flex-row items-center justify-between gap-2 pb-4">
-            <CardTitle className="text-lg font-semibold">
-              Generated CNRs
-            </CardTitle>
-            <Badge variant="secondary">
-              {recentCnrs?.length ?? 0} CNRs
-            </Badge>
-          </CardHeader>
-          <CardContent>
-            <DataTable
-              columns={cnrColumns}
-              data={recentCnrs || []}
-              isLoading={cnrsLoading}
-              emptyMessage="No CNRs generated yet. Use the form to create CNR combinations."
-              testIdPrefix="cnrs"
-            />
-          </CardContent>
-        </Card>
+        <div className="flex flex-1 flex-col gap-6">
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between gap-2 pb-4">
+              <CardTitle className="text-lg font-semibold">
+                Generated CNRs
+              </CardTitle>
+              <Badge variant="secondary">
+                {recentCnrs?.length ?? 0} CNRs
+              </Badge>
+            </CardHeader>
+            <CardContent>
+              <DataTable
+                columns={cnrColumns}
+                data={recentCnrs || []}
+                isLoading={cnrsLoading}
+                emptyMessage="No CNRs generated yet. Use the form to create CNR combinations."
+                testIdPrefix="cnrs"
+              />
+            </CardContent>
+          </Card>
+
+          <SerialFrontierSection
+            year={selectedYear}
+            onJobStarted={(jobId) => {
+              lastCompletedJobIdRef.current = null;
+              setActiveJobId(jobId);
+            }}
+          />
+
+          <CnrImportCard
+            target="bulk"
+            onImported={() => {
+              queryClient.invalidateQueries({ queryKey: ["/api/cnrs?limit=50"] });
+              queryClient.invalidateQueries({ queryKey: ["/api/analytics/overview"] });
+            }}
+          />
+        </div>
       </div>
 
+      <AlertDialog open={confirmRunOpen} onOpenChange={setConfirmRunOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {pendingRun?.kind === "download" ? "Start a large PDF download?" : "Create a large batch of order URLs?"}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              This run exceeds the confirmation threshold. Review the projected volume and spend before continuing.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          {pendingRun && <CostEstimatePanel run={pendingRun} />}
+          <AlertDialogFooter>
+            <AlertDialogCancel data-testid="button-cancel-run">Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={confirmPendingRun} data-testid="button-confirm-run">
+              Continue
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
       {/* Downloaded PDFs Section */}
       <DownloadedPdfsSection />
     </div>
   );
 }
 
+function CostEstimatePanel({ run }: { run: PendingRun }) {
+  const { result } = run;
+  const { estimate } = result;
+  const rows: Array<[string, string]> = [
+    ["URLs to probe", estimate.requests.toLocaleString()],
+    ...(result.existingOrders ? [["Already existing (skipped)", result.existingOrders.toLocaleString()] as [string, string]] : []),
+    ...(result.skippedOrders ? [["Not due for re-probe (skipped)", result.skippedOrders.toLocaleString()] as [string, string]] : []),
+    ["Proxy credits", `${estimate.proxyCredits.toLocaleString()} (${estimate.fetchers.join(" → ") || "no fetcher configured"})`],
+    ["Expected PDFs", `${estimate.expectedPdfs.toLocaleString()} (${(estimate.pdfHitRate * 100).toFixed(1)}% hit rate)`],
+    ["OCR pages", estimate.ocrPages.toLocaleString()],
+    ["LLM tokens (in / out)", `${estimate.llmInputTokens.toLocaleString()} / ${estimate.llmOutputTokens.toLocaleString()}`],
+    ["Storage", `${(estimate.expectedStorageBytes / (1024 * 1024)).toFixed(1)} MB`],
+  ];
+
+  return (
+    <div className="rounded-md border p-3 text-sm" data-testid={`panel-estimate-${run.kind}`}>
+      <div className="mb-2 flex items-center justify-between">
+        <span className="font-medium">
+          {run.kind === "download" ? "PDF download estimate" : "Order URL estimate"}
+        </span>
+        {!estimate.basedOnHistory && (
+          <Badge variant="outline" className="text-xs">Default averages</Badge>
+        )}
+      </div>
+      <dl className="grid grid-cols-2 gap-x-4 gap-y-1">
+        {rows.map(([label, value]) => (
+          <div key={label} className="contents">
+            <dt className="text-muted-foreground">{label}</dt>
+            <dd className="text-right font-mono">{value}</dd>
+          </div>
+        ))}
+      </dl>
+    </div>
+  );
+}
+
+// Serial Frontier Section Component
+function SerialFrontierSection({ year, onJobStarted }: { year: number; onJobStarted: (jobId: number) => void }) {
+  const { toast } = useToast();
+
+  const { data: history, isLoading } = useQuery<FrontierHistoryRow[]>({
+    queryKey: [`/api/frontiers?year=${year}`],
+    enabled: !!year,
+    refetchInterval: 10000,
+  });
+
+  const discoverMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/jobs/discover-frontiers", { year });
+      return response.json();
+    },
+    onSuccess: (data) => {
+      if (data.jobId) {
+        onJobStarted(data.jobId);
+        toast({
+          title: data.alreadyRunning ? "Job Already Running" : "Frontier Discovery Started",
+          description: data.alreadyRunning
+            ? "Tracking existing frontier discovery job"
+            : `Probing ${data.totalOrders} districts for ${year}`,
+        });
+      }
+      queryClient.invalidateQueries({ queryKey: ["/api/jobs"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Frontier Discovery Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const frontierColumns = [
+    {
+      key: "districtName",
+      header: "District",
+      render: (row: FrontierHistoryRow) => <span>{row.districtName}</span>,
+    },
+    {
+      key: "highestValidSerial",
+      header: "Highest Valid",
+      render: (row: FrontierHistoryRow) => (
+        <span className="font-mono text-sm" data-testid={`text-frontier-${row.id}`}>
+          {row.highestValidSerial ?? "-"}
+        </span>
+      ),
+    },
+    {
+      key: "lastProbedSerial",
+      header: "Last Probed",
+      render: (row: FrontierHistoryRow) => (
+        <span className="font-mono text-sm">{row.lastProbedSerial ?? "-"}</span>
+      ),
+    },
+    {
+      key: "probesUsed",
+      header: "Probes",
+      render: (row: FrontierHistoryRow) => (
+        <span className="font-mono text-sm">{row.probesUsed}</span>
+      ),
+    },
+    {
+      key: "casesPerDay",
+      header: "Cases/Day",
+      render: (row: FrontierHistoryRow) => (
+        <span className="font-mono text-sm">{row.casesPerDay ?? "-"}</span>
+      ),
+    },
+    {
+      key: "status",
+      header: "Status",
+      render: (row: FrontierHistoryRow) => (
+        <Badge variant={row.status === "failed" ? "destructive" : "secondary"}>
+          {row.status}
+        </Badge>
+      ),
+    },
+    {
+      key: "discoveredAt",
+      header: "Discovered",
+      render: (row: FrontierHistoryRow) => (
+        <span className="text-sm text-muted-foreground">
+          {format(new Date(row.discoveredAt), "dd/MM/yy HH:mm")}
+        </span>
+      ),
+    },
+  ];
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between gap-2 pb-4">
+        <CardTitle className="flex items-center gap-2 text-lg font-semibold">
+          <Radar className="h-5 w-5" />
+          Serial Frontier ({year})
+        </CardTitle>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => discoverMutation.mutate()}
+          disabled={discoverMutation.isPending}
+          data-testid="button-discover-frontiers"
+        >
+          {discoverMutation.isPending ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <Radar className="mr-2 h-4 w-4" />
+          )}
+          Discover Frontiers
+        </Button>
+      </CardHeader>
+      <CardContent>
+        <DataTable
+          columns={frontierColumns}
+          data={history || []}
+          isLoading={isLoading}
+          emptyMessage="No frontier discovered yet. Run discovery to find the highest filed serial per district."
+          testIdPrefix="frontiers"
+        />
+      </CardContent>
+    </Card>
+  );
+}
+
 // Downloaded PDFs Section Component
 function DownloadedPdfsSection() {
   const { data: pdfs, isLoading } = useQuery<Array<{
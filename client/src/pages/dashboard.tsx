@@ -2,6 +2,7 @@ import { useQuery } from "@tanstack/react-query";
 import { StatsCard } from "@/components/stats-card";
 import { DataTable } from "@/components/data-table";
 import { ProcessingPanel } from "@/components/processing-panel";
+import { HostHealthCard } from "@/components/host-health-card";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -210,6 +211,8 @@ export default function Dashboard() {
       </div>
 
       <ProcessingPanel />
+
+      <HostHealthCard />
     </div>
   );
 }
@@ -49,6 +49,8 @@ import {
 } from "@/components/ui/accordion";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { CnrImportCard } from "@/components/cnr-import-card";
+import { parseSourceLocations, highlightTextItems, type SourceLocation, type SourceLocations } from "@/lib/source-locations";
 import {
   User,
   Plus,
@@ -152,7 +154,9 @@ interface DirectOrder {
     orderSummary: string | null;
     preparationNotes: string | null;
     actionItems: string | null;
+    operativePortion: string | null;
     nextHearingDate: string | null;
+    sourceLocations: string | null;
   } | null;
 }
 
@@ -207,6 +211,34 @@ const advocateFormSchema = z.object({
 type CnrFormValues = z.infer<typeof cnrFormSchema>;
 type AdvocateFormValues = z.infer<typeof advocateFormSchema>;
 
+function SourceLocationButton({
+  sourceLocations,
+  field,
+  onOpen,
+  testId,
+}: {
+  sourceLocations: string | null;
+  field: keyof SourceLocations;
+  onOpen: (location: SourceLocation) => void;
+  testId: string;
+}) {
+  const location = parseSourceLocations(sourceLocations)[field];
+  if (!location) return null;
+  return (
+    <Button
+      variant="ghost"
+      size="sm"
+      className="h-6 px-2 text-xs"
+      title={location.exact ? "Show in PDF" : "Show where this passage starts in the PDF"}
+      onClick={() => onOpen(location)}
+      data-testid={testId}
+    >
+      <FileSearch className="h-3 w-3 mr-1" />
+      Page {location.pageNumber}
+    </Button>
+  );
+}
+
 export default function DirectCnr() {
   const [selectedCaseId, setSelectedCaseId] = useState<number | null>(null);
   const [cnrValidation, setCnrValidation] = useState<{ valid: boolean; data?: any } | null>(null);
@@ -218,9 +250,16 @@ export default function DirectCnr() {
   const [pdfNumPages, setPdfNumPages] = useState<number>(0);
   const [pdfPageNumber, setPdfPageNumber] = useState<number>(1);
   const [pdfScale, setPdfScale] = useState<number>(1.0);
+  const [pdfHighlight, setPdfHighlight] = useState<SourceLocation | null>(null);
   const [showMasterSummary, setShowMasterSummary] = useState(false);
   const { toast } = useToast();
 
+  const openPdfAt = (orderId: number, location: SourceLocation) => {
+    setPdfPreviewOrderId(orderId);
+    setPdfPageNumber(location.pageNumber);
+    setPdfHighlight(location);
+  };
+
   const { data: advocates, isLoading: advocatesLoading } = useQuery<{ success: boolean; data: Advocate[] }>({
     queryKey: ["/api/direct-cnr/advocates"],
   });
@@ -531,12 +570,12 @@ export default function DirectCnr() {
                             </div>
                           </FormControl>
                           <FormDescription className="text-xs space-y-1">
-                            <div>Format: DL + District(2) + Est(00-10) + Serial(6) + Year(4)</div>
-                            <div className="text-muted-foreground/70">Districts: CT, ET, ND, NT, NE, NW, SH, ST, SE, SW, WT | Years: 2010-2026</div>
+                            <div>Format: State(2) + District(2) + Est(00-10) + Serial(6) + Year(4)</div>
+                            <div className="text-muted-foreground/70">DL: CT, ET, ND, NT, NE, NW, SH, ST, SE, SW, WT | HR: GR | UP: GB, GZ | Years: 2010-2026</div>
                           </FormDescription>
                           {cnrValidation?.valid && cnrValidation.data && (
                             <div className="text-xs text-muted-foreground mt-1">
-                              District: {cnrValidation.data.districtCode} | Serial: {cnrValidation.data.serialNumber} | Year: {cnrValidation.data.year}
+                              District: {cnrValidation.data.stateCode}{cnrValidation.data.districtCode} | Serial: {cnrValidation.data.serialNumber} | Year: {cnrValidation.data.year}
                             </div>
                           )}
                           <FormMessage />
@@ -1051,11 +1090,31 @@ export default function DirectCnr() {
                                   return null;
                                 }
                               })()}
+                              {order.summary.operativePortion && (
+                                <div>
+                                  <h4 className="text-sm font-medium mb-1 flex items-center gap-2">
+                                    Operative Portion
+                                    <SourceLocationButton
+                                      sourceLocations={order.summary.sourceLocations}
+                                      field="operativePortion"
+                                      onOpen={(location) => openPdfAt(order.id, location)}
+                                      testId={`button-locate-operative-${order.id}`}
+                                    />
+                                  </h4>
+                                  <p className="text-sm text-muted-foreground">{order.summary.operativePortion}</p>
+                                </div>
+                              )}
                               {order.summary.nextHearingDate && (
                                 <div className="flex items-center gap-2 text-sm">
                                   <Calendar className="h-4 w-4" />
                                   <span className="font-medium">Next Hearing:</span>
                                   {order.summary.nextHearingDate}
+                                  <SourceLocationButton
+                                    sourceLocations={order.summary.sourceLocations}
+                                    field="nextHearingDate"
+                                    onOpen={(location) => openPdfAt(order.id, location)}
+                                    testId={`button-locate-hearing-${order.id}`}
+                                  />
                                 </div>
                               )}
                             </div>
@@ -1072,6 +1131,11 @@ export default function DirectCnr() {
               </CardContent>
             </Card>
           )}
+
+          <CnrImportCard
+            target="direct"
+            onImported={() => queryClient.invalidateQueries({ queryKey: ["/api/direct-cnr/cases"] })}
+          />
         </TabsContent>
 
         <TabsContent value="leads" className="space-y-4">
@@ -1483,6 +1547,7 @@ export default function DirectCnr() {
             setPdfNumPages(0);
             setPdfPageNumber(1);
             setPdfScale(1.0);
+            setPdfHighlight(null);
           }
         }}
       >
@@ -1555,12 +1620,32 @@ export default function DirectCnr() {
                     </div>
                   }
                 >
-                  <Page 
-                    pageNumber={pdfPageNumber} 
-                    scale={pdfScale}
-                    renderTextLayer={true}
-                    renderAnnotationLayer={true}
-                  />
+                  <div className="relative">
+                    <Page 
+                      pageNumber={pdfPageNumber} 
+                      scale={pdfScale}
+                      renderTextLayer={true}
+                      renderAnnotationLayer={true}
+                      customTextRenderer={
+                        pdfHighlight?.pageNumber === pdfPageNumber && pdfHighlight.bboxes.length === 0
+                          ? highlightTextItems(pdfHighlight)
+                          : undefined
+                      }
+                    />
+                    {pdfHighlight?.pageNumber === pdfPageNumber && pdfHighlight.bboxes.map(([left, top, right, bottom], i) => (
+                      <div
+                        key={i}
+                        className="pointer-events-none absolute rounded-sm bg-yellow-300/40 ring-1 ring-yellow-500/60"
+                        style={{
+                          left: `${left * 100}%`,
+                          top: `${top * 100}%`,
+                          width: `${(right - left) * 100}%`,
+                          height: `${(bottom - top) * 100}%`,
+                        }}
+                        data-testid={`pdf-highlight-${i}`}
+                      />
+                    ))}
+                  </div>
                 </Document>
               )}
             </div>
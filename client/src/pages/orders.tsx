@@ -33,6 +33,7 @@ import {
 } from "lucide-react";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import type { CnrOrder, OrderMetadata, District, PdfText } from "@shared/schema";
+import { parseSourceLocations } from "@/lib/source-locations";
 
 interface OrderWithRelations extends CnrOrder {
   cnr?: { cnr: string; district?: District };
@@ -113,6 +114,15 @@ export default function Orders() {
         return <span className="font-mono text-sm">{formatted}</span>;
       },
     },
+    {
+      key: "generationMethod",
+      header: "Source",
+      render: (row: OrderWithRelations) => (
+        <Badge variant="outline" className="text-xs" data-testid={`badge-source-${row.id}`}>
+          {row.generationMethod === "case_history" ? "Case history" : "Grid"}
+        </Badge>
+      ),
+    },
     {
       key: "caseTitle",
       header: "Case Title",
@@ -133,10 +143,17 @@ export default function Orders() {
               <CheckCircle2 className="mr-1 h-3 w-3" />
               PDF
             </Badge>
+          ) : row.probeStatus === "abandoned" ? (
+            <Badge variant="outline" className="text-muted-foreground" data-testid={`badge-abandoned-${row.id}`}>
+              Abandoned
+            </Badge>
           ) : (
-            <Badge variant="secondary">
+            <Badge
+              variant="secondary"
+              title={row.nextProbeAt ? `Next probe ${new Date(row.nextProbeAt).toLocaleString()}` : undefined}
+            >
               <Clock className="mr-1 h-3 w-3" />
-              Pending
+              {row.probeStatus === "retrying" ? `Retry ${row.retryCount}` : "Pending"}
             </Badge>
           )}
           {row.metadata?.hasBusinessEntity && (
@@ -374,6 +391,10 @@ export default function Orders() {
                             <span className="font-mono text-xs">{selectedOrder.metadata.llmModelUsed}</span>
                           </div>
                         )}
+                        <div className="flex items-center gap-2">
+                          <span className="text-sm text-muted-foreground">Prompt:</span>
+                          <span className="font-mono text-xs" data-testid="text-prompt-version">{selectedOrder.metadata.promptVersion}</span>
+                        </div>
                       </div>
                     )}
                     
@@ -400,7 +421,24 @@ export default function Orders() {
                     
                     {selectedOrder.metadata.isFreshCaseAssignment && selectedOrder.metadata.freshCasePhrase && (
                       <div className="rounded-md border border-emerald-500/30 bg-emerald-500/10 p-3">
-                        <p className="text-sm font-medium text-muted-foreground">Fresh Case Detected</p>
+                        <div className="flex items-center justify-between gap-2">
+                          <p className="text-sm font-medium text-muted-foreground">Fresh Case Detected</p>
+                          {(() => {
+                            const location = parseSourceLocations(selectedOrder.metadata.sourceLocations).freshCasePhrase;
+                            if (!location || !selectedOrder.pdfPath) return null;
+                            return (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                className="h-6 px-2 text-xs"
+                                onClick={() => window.open(`${selectedOrder.pdfPath}#page=${location.pageNumber}`, "_blank")}
+                                data-testid="button-locate-fresh-case-phrase"
+                              >
+                                Page {location.pageNumber}
+                              </Button>
+                            );
+                          })()}
+                        </div>
                         <p className="text-sm italic" data-testid="text-fresh-case-phrase">"{selectedOrder.metadata.freshCasePhrase}"</p>
                       </div>
                     )}
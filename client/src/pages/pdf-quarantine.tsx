@@ -0,0 +1,293 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { DataTable } from "@/components/data-table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { ShieldAlert, RefreshCw, Trash2, Download, Loader2 } from "lucide-react";
+
+type QuarantineStatus = "quarantined" | "released" | "discarded";
+
+interface QuarantineEntry {
+  id: number;
+  workflow: "bulk" | "direct";
+  orderId: number;
+  jobId: number | null;
+  url: string;
+  fetcher: string;
+  httpStatusCode: number | null;
+  reasonCode: string;
+  reason: string;
+  objectPath: string;
+  sizeBytes: number;
+  status: QuarantineStatus;
+  revalidatedAt: string | null;
+  createdAt: string;
+}
+
+interface QuarantineCount {
+  status: QuarantineStatus;
+  reasonCode: string;
+  count: number;
+}
+
+interface QuarantineResponse {
+  entries: QuarantineEntry[];
+  counts: QuarantineCount[];
+}
+
+interface RevalidationResponse {
+  entry: QuarantineEntry;
+  validation: { valid: true; pageCount: number } | { valid: false; code: string; reason: string };
+  attached: boolean;
+}
+
+const reasonLabels: Record<string, string> = {
+  not_pdf: "Not a PDF",
+  too_small: "Too small",
+  truncated: "Truncated",
+  unparseable: "Unparseable",
+  no_pages: "No pages",
+  error_page: "Court error page",
+};
+
+const statusVariants: Record<QuarantineStatus, "default" | "secondary" | "outline"> = {
+  quarantined: "default",
+  released: "secondary",
+  discarded: "outline",
+};
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export default function PdfQuarantine() {
+  const { toast } = useToast();
+  const [statusFilter, setStatusFilter] = useState<string>("quarantined");
+
+  const { data, isLoading } = useQuery<QuarantineResponse>({
+    queryKey: [`/api/pdf-quarantine?status=${statusFilter}`],
+  });
+
+  const invalidateQuarantine = () => {
+    queryClient.invalidateQueries({
+      predicate: (query) => String(query.queryKey[0]).startsWith("/api/pdf-quarantine"),
+    });
+  };
+
+  const revalidateMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest("POST", `/api/pdf-quarantine/${id}/revalidate`);
+      return response.json() as Promise<RevalidationResponse>;
+    },
+    onSuccess: (result) => {
+      toast({
+        title: result.validation.valid ? "Released" : "Still Invalid",
+        description: result.validation.valid
+          ? result.attached
+            ? `Valid PDF (${result.validation.pageCount} pages) attached to order #${result.entry.orderId}`
+            : `Valid PDF (${result.validation.pageCount} pages); order #${result.entry.orderId} already had a PDF`
+          : result.validation.reason,
+        variant: result.validation.valid ? "default" : "destructive",
+      });
+      invalidateQuarantine();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Revalidation Failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const discardMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("POST", `/api/pdf-quarantine/${id}/discard`);
+    },
+    onSuccess: invalidateQuarantine,
+    onError: (error: Error) => {
+      toast({ title: "Discard Failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const openCounts = (data?.counts ?? []).filter(c => c.status === "quarantined");
+  const openTotal = openCounts.reduce((sum, c) => sum + c.count, 0);
+
+  const columns = [
+    {
+      key: "order",
+      header: "Order",
+      render: (row: QuarantineEntry) => (
+        <div className="flex flex-col">
+          <span className="font-mono text-sm" data-testid={`text-quarantine-order-${row.id}`}>
+            #{row.orderId}
+          </span>
+          <span className="text-xs text-muted-foreground">
+            {row.workflow === "direct" ? "Direct CNR" : "Bulk"}{row.jobId ? ` · job ${row.jobId}` : ""}
+          </span>
+        </div>
+      ),
+    },
+    {
+      key: "reason",
+      header: "Reason",
+      className: "max-w-[320px]",
+      render: (row: QuarantineEntry) => (
+        <div className="flex flex-col gap-1">
+          <Badge variant="outline" className="w-fit text-xs" data-testid={`badge-reason-${row.id}`}>
+            {reasonLabels[row.reasonCode] ?? row.reasonCode}
+          </Badge>
+          <span className="line-clamp-2 text-xs text-muted-foreground" title={row.reason}>
+            {row.reason}
+          </span>
+        </div>
+      ),
+    },
+    {
+      key: "fetcher",
+      header: "Fetcher",
+      render: (row: QuarantineEntry) => (
+        <span className="text-sm">
+          {row.fetcher}
+          {row.httpStatusCode ? <span className="text-muted-foreground"> ({row.httpStatusCode})</span> : null}
+        </span>
+      ),
+    },
+    {
+      key: "size",
+      header: "Size",
+      render: (row: QuarantineEntry) => <span className="font-mono text-sm">{formatBytes(row.sizeBytes)}</span>,
+    },
+    {
+      key: "createdAt",
+      header: "Received",
+      render: (row: QuarantineEntry) => (
+        <span className="text-sm text-muted-foreground">{new Date(row.createdAt).toLocaleString()}</span>
+      ),
+    },
+    {
+      key: "status",
+      header: "Status",
+      render: (row: QuarantineEntry) => (
+        <Badge variant={statusVariants[row.status]} className="capitalize" data-testid={`badge-status-${row.id}`}>
+          {row.status}
+        </Badge>
+      ),
+    },
+    {
+      key: "actions",
+      header: "Actions",
+      render: (row: QuarantineEntry) => (
+        <div className="flex items-center gap-1">
+          {row.status !== "discarded" && (
+            <Button
+              variant="ghost"
+              size="icon"
+              title="Download raw bytes"
+              onClick={() => window.open(row.objectPath, "_blank")}
+              data-testid={`button-download-quarantine-${row.id}`}
+            >
+              <Download className="h-4 w-4" />
+            </Button>
+          )}
+          {row.status === "quarantined" && (
+            <>
+              <Button
+                variant="ghost"
+                size="icon"
+                title="Re-validate"
+                disabled={revalidateMutation.isPending}
+                onClick={() => revalidateMutation.mutate(row.id)}
+                data-testid={`button-revalidate-${row.id}`}
+              >
+                {revalidateMutation.isPending && revalidateMutation.variables === row.id ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : (
+                  <RefreshCw className="h-4 w-4" />
+                )}
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                title="Discard"
+                disabled={discardMutation.isPending}
+                onClick={() => discardMutation.mutate(row.id)}
+                data-testid={`button-discard-${row.id}`}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </>
+          )}
+        </div>
+      ),
+    },
+  ];
+
+  return (
+    <div className="flex flex-col gap-6 p-6">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <h1 className="font-serif text-2xl font-semibold" data-testid="text-page-title">
+            PDF Quarantine
+          </h1>
+          <p className="text-sm text-muted-foreground">
+            Downloads that failed PDF validation, kept for inspection
+          </p>
+        </div>
+        <Badge variant="secondary" data-testid="badge-quarantine-open">
+          {openTotal} awaiting review
+        </Badge>
+      </div>
+
+      <Card>
+        <CardHeader className="pb-4">
+          <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+            <div>
+              <CardTitle className="flex items-center gap-2 text-base">
+                <ShieldAlert className="h-4 w-4" />
+                Quarantined Responses
+              </CardTitle>
+              <CardDescription className="mt-1 flex flex-wrap gap-1">
+                {openCounts.length === 0
+                  ? "Nothing awaiting review"
+                  : openCounts.map(c => (
+                      <Badge key={c.reasonCode} variant="outline" className="text-xs">
+                        {reasonLabels[c.reasonCode] ?? c.reasonCode}: {c.count}
+                      </Badge>
+                    ))}
+              </CardDescription>
+            </div>
+            <Select value={statusFilter} onValueChange={setStatusFilter}>
+              <SelectTrigger className="w-[160px]" data-testid="select-quarantine-status">
+                <SelectValue placeholder="Filter by status" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="quarantined">Quarantined</SelectItem>
+                <SelectItem value="released">Released</SelectItem>
+                <SelectItem value="discarded">Discarded</SelectItem>
+                <SelectItem value="all">All</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <DataTable
+            columns={columns}
+            data={data?.entries ?? []}
+            isLoading={isLoading}
+            emptyMessage="No quarantined responses"
+            testIdPrefix="quarantine"
+          />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
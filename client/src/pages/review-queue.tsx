@@ -0,0 +1,457 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { DataTable } from "@/components/data-table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { ClipboardCheck, Download, Loader2, Check, Save } from "lucide-react";
+import type { CnrOrder, OrderMetadata, PdfText } from "@shared/schema";
+
+type ReviewReason = "low_confidence" | "rule_conflict";
+
+interface ReviewQueueEntry {
+  order: CnrOrder;
+  cnr: string;
+  metadata: OrderMetadata;
+  reasons: ReviewReason[];
+}
+
+interface ReviewQueueResponse {
+  threshold: number;
+  items: ReviewQueueEntry[];
+  counts: { reviewStatus: string; count: number }[];
+}
+
+interface RuleConflict {
+  field: string;
+  ruleValue: string | boolean;
+  llmValue: unknown;
+}
+
+const reasonLabels: Record<ReviewReason, string> = {
+  low_confidence: "Low confidence",
+  rule_conflict: "Rules disagree",
+};
+
+// Categories from the classification prompt
+const CASE_CATEGORIES = [
+  "MACT", "NI_ACT", "COMMERCIAL_COURTS", "IPC", "CPC", "CrPC", "POCSO", "NDPS",
+  "DV_ACT", "ARBITRATION", "EXECUTION", "MAINTENANCE", "OTHER",
+];
+
+const textFields = [
+  { key: "caseTitle", label: "Case Title" },
+  { key: "caseNumber", label: "Case Number" },
+  { key: "caseType", label: "Case Type" },
+  { key: "statutoryActName", label: "Statutory Act" },
+  { key: "statutoryProvisions", label: "Statutory Provisions" },
+  { key: "orderType", label: "Order Type" },
+  { key: "judgeName", label: "Judge" },
+  { key: "courtName", label: "Court" },
+  { key: "petitionerNames", label: "Petitioners" },
+  { key: "respondentNames", label: "Respondents" },
+] as const;
+
+const dateFields = [
+  { key: "filingDate", label: "Filing Date" },
+  { key: "nextHearingDate", label: "Next Hearing" },
+] as const;
+
+const booleanFields = [
+  { key: "isSummonsOrder", label: "Summons order" },
+  { key: "isNoticeOrder", label: "Notice order" },
+  { key: "isFreshCaseAssignment", label: "Fresh case" },
+  { key: "isFirstHearing", label: "First hearing" },
+  { key: "isFinalOrder", label: "Final order" },
+  { key: "hasBusinessEntity", label: "Business entity" },
+] as const;
+
+type FormValues = Record<string, string | boolean>;
+
+function toFormValues(metadata: OrderMetadata): FormValues {
+  const values: FormValues = {
+    caseCategory: metadata.caseCategory ?? "",
+    orderSummary: metadata.orderSummary ?? "",
+  };
+  for (const { key } of [...textFields, ...dateFields]) {
+    values[key] = metadata[key] ?? "";
+  }
+  for (const { key } of booleanFields) {
+    values[key] = metadata[key];
+  }
+  return values;
+}
+
+function parseRuleConflicts(json: string | null): RuleConflict[] {
+  if (!json) return [];
+  try {
+    return JSON.parse(json) as RuleConflict[];
+  } catch {
+    return [];
+  }
+}
+
+const REVIEWER_STORAGE_KEY = "delhi-courts-reviewer";
+
+export default function ReviewQueue() {
+  const { toast } = useToast();
+  const [selected, setSelected] = useState<ReviewQueueEntry | null>(null);
+  const [initialValues, setInitialValues] = useState<FormValues>({});
+  const [values, setValues] = useState<FormValues>({});
+  const [notes, setNotes] = useState("");
+  const [reviewer, setReviewer] = useState(() => localStorage.getItem(REVIEWER_STORAGE_KEY) ?? "");
+
+  const { data, isLoading } = useQuery<ReviewQueueResponse>({
+    queryKey: ["/api/review/queue"],
+  });
+
+  const { data: extractedText, isLoading: isLoadingText } = useQuery<PdfText | null>({
+    queryKey: ["/api/orders", selected?.order.id, "text"],
+    queryFn: async () => {
+      const res = await fetch(`/api/orders/${selected!.order.id}/text`);
+      if (!res.ok) {
+        if (res.status === 404) return null;
+        throw new Error("Failed to fetch extracted text");
+      }
+      return res.json();
+    },
+    enabled: !!selected,
+  });
+
+  useEffect(() => {
+    if (!selected) return;
+    const formValues = toFormValues(selected.metadata);
+    setInitialValues(formValues);
+    setValues(formValues);
+    setNotes("");
+  }, [selected]);
+
+  const changedFields = Object.keys(values).filter(key => values[key] !== initialValues[key]);
+
+  const reviewMutation = useMutation({
+    mutationFn: async () => {
+      const corrections = Object.fromEntries(
+        changedFields.map(key => {
+          const value = values[key];
+          return [key, typeof value === "string" && value.trim() === "" ? null : value];
+        })
+      );
+      const response = await apiRequest("POST", `/api/review/orders/${selected!.order.id}`, {
+        reviewer: reviewer.trim(),
+        corrections,
+        notes: notes.trim() || undefined,
+      });
+      return response.json() as Promise<{ metadata: OrderMetadata }>;
+    },
+    onSuccess: (result) => {
+      localStorage.setItem(REVIEWER_STORAGE_KEY, reviewer.trim());
+      toast({
+        title: result.metadata.reviewStatus === "corrected" ? "Correction Saved" : "Classification Approved",
+        description: `Order #${result.metadata.cnrOrderId} is locked against re-classification`,
+      });
+      setSelected(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/review/queue"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Review Failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const setValue = (key: string, value: string | boolean) => {
+    setValues(current => ({ ...current, [key]: value }));
+  };
+
+  const countFor = (status: string) => data?.counts.find(c => c.reviewStatus === status)?.count ?? 0;
+  const conflicts = selected ? parseRuleConflicts(selected.metadata.ruleConflicts) : [];
+
+  const columns = [
+    {
+      key: "cnr",
+      header: "Order",
+      render: (row: ReviewQueueEntry) => (
+        <div className="flex flex-col">
+          <span className="font-mono text-sm" data-testid={`text-review-cnr-${row.order.id}`}>{row.cnr}</span>
+          <span className="text-xs text-muted-foreground">
+            #{row.order.orderNo} · {row.order.orderDate}
+          </span>
+        </div>
+      ),
+    },
+    {
+      key: "caseTitle",
+      header: "Case",
+      className: "max-w-[280px]",
+      render: (row: ReviewQueueEntry) => (
+        <div className="flex flex-col">
+          <span className="line-clamp-1 text-sm">{row.metadata.caseTitle || "-"}</span>
+          <span className="text-xs text-muted-foreground">{row.metadata.caseCategory || "Uncategorised"}</span>
+        </div>
+      ),
+    },
+    {
+      key: "confidence",
+      header: "Confidence",
+      render: (row: ReviewQueueEntry) => (
+        <span className="font-mono text-sm" data-testid={`text-review-confidence-${row.order.id}`}>
+          {row.metadata.classificationConfidence !== null
+            ? `${(row.metadata.classificationConfidence * 100).toFixed(0)}%`
+            : "-"}
+        </span>
+      ),
+    },
+    {
+      key: "reasons",
+      header: "Why",
+      render: (row: ReviewQueueEntry) => (
+        <div className="flex flex-wrap gap-1">
+          {row.reasons.map(reason => (
+            <Badge key={reason} variant="outline" className="text-xs" data-testid={`badge-review-reason-${row.order.id}-${reason}`}>
+              {reasonLabels[reason]}
+            </Badge>
+          ))}
+        </div>
+      ),
+    },
+    {
+      key: "source",
+      header: "Source",
+      render: (row: ReviewQueueEntry) => (
+        <span className="font-mono text-xs">
+          {row.metadata.llmModelUsed ?? "-"} · {row.metadata.promptVersion}
+        </span>
+      ),
+    },
+  ];
+
+  return (
+    <div className="flex flex-col gap-6 p-6">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <h1 className="font-serif text-2xl font-semibold" data-testid="text-page-title">
+            Review Queue
+          </h1>
+          <p className="text-sm text-muted-foreground">
+            Classifications below {data ? `${(data.threshold * 100).toFixed(0)}%` : "the threshold"} confidence or where rules and the LLM disagree
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Badge variant="secondary" data-testid="badge-review-reviewed">
+            {countFor("approved") + countFor("corrected")} reviewed
+          </Badge>
+          <Button
+            variant="outline"
+            onClick={() => window.open("/api/review/gold-dataset", "_blank")}
+            data-testid="button-export-gold-dataset"
+          >
+            <Download className="mr-2 h-4 w-4" />
+            Export Gold Dataset
+          </Button>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader className="pb-4">
+          <CardTitle className="flex items-center gap-2 text-base">
+            <ClipboardCheck className="h-4 w-4" />
+            Awaiting Review
+          </CardTitle>
+          <CardDescription>Least confident first. Select an order to review it.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <DataTable
+            columns={columns}
+            data={data?.items ?? []}
+            isLoading={isLoading}
+            emptyMessage="Nothing awaiting review"
+            onRowClick={setSelected}
+            testIdPrefix="review"
+          />
+        </CardContent>
+      </Card>
+
+      {selected && (
+        <div className="grid gap-6 lg:grid-cols-2">
+          <Card>
+            <CardHeader className="pb-4">
+              <CardTitle className="text-base" data-testid="text-review-selected">
+                {selected.cnr} · order #{selected.order.orderNo}
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <Tabs defaultValue={selected.order.pdfPath ? "pdf" : "text"}>
+                <TabsList>
+                  <TabsTrigger value="pdf" disabled={!selected.order.pdfPath} data-testid="tab-review-pdf">PDF</TabsTrigger>
+                  <TabsTrigger value="text" data-testid="tab-review-text">Text</TabsTrigger>
+                </TabsList>
+                <TabsContent value="pdf" className="mt-4">
+                  {selected.order.pdfPath && (
+                    <iframe
+                      src={selected.order.pdfPath}
+                      title={`Order ${selected.order.id} PDF`}
+                      className="h-[640px] w-full rounded-md border"
+                      data-testid="frame-review-pdf"
+                    />
+                  )}
+                </TabsContent>
+                <TabsContent value="text" className="mt-4">
+                  {isLoadingText ? (
+                    <div className="text-muted-foreground">Loading extracted text...</div>
+                  ) : (
+                    <ScrollArea className="h-[640px] rounded-md border p-4">
+                      <pre className="whitespace-pre-wrap text-sm" data-testid="text-review-content">
+                        {extractedText?.cleanedText || extractedText?.rawText || "No extracted text available"}
+                      </pre>
+                    </ScrollArea>
+                  )}
+                </TabsContent>
+              </Tabs>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="pb-4">
+              <CardTitle className="text-base">Classification</CardTitle>
+              {conflicts.length > 0 && (
+                <div className="space-y-1 rounded-md border border-amber-500/30 bg-amber-500/10 p-3 text-sm" data-testid="text-review-conflicts">
+                  <p className="font-medium">Rules and the LLM disagreed (rule value was kept):</p>
+                  {conflicts.map(conflict => (
+                    <p key={conflict.field} className="text-xs">
+                      <span className="font-mono">{conflict.field}</span>: rules {JSON.stringify(conflict.ruleValue)}, LLM {JSON.stringify(conflict.llmValue)}
+                    </p>
+                  ))}
+                </div>
+              )}
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-1">
+                <Label htmlFor="review-caseCategory">Case Category</Label>
+                <Select value={String(values.caseCategory ?? "")} onValueChange={value => setValue("caseCategory", value)}>
+                  <SelectTrigger id="review-caseCategory" data-testid="select-review-caseCategory">
+                    <SelectValue placeholder="Select category" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Array.from(new Set([...CASE_CATEGORIES, String(initialValues.caseCategory ?? "")]))
+                      .filter(Boolean)
+                      .map(category => (
+                        <SelectItem key={category} value={category}>{category}</SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="grid gap-4 sm:grid-cols-2">
+                {textFields.map(({ key, label }) => (
+                  <div key={key} className="space-y-1">
+                    <Label htmlFor={`review-${key}`}>{label}</Label>
+                    <Input
+                      id={`review-${key}`}
+                      value={String(values[key] ?? "")}
+                      onChange={e => setValue(key, e.target.value)}
+                      data-testid={`input-review-${key}`}
+                    />
+                  </div>
+                ))}
+                {dateFields.map(({ key, label }) => (
+                  <div key={key} className="space-y-1">
+                    <Label htmlFor={`review-${key}`}>{label}</Label>
+                    <Input
+                      id={`review-${key}`}
+                      type="date"
+                      value={String(values[key] ?? "")}
+                      onChange={e => setValue(key, e.target.value)}
+                      data-testid={`input-review-${key}`}
+                    />
+                  </div>
+                ))}
+              </div>
+
+              <div className="grid gap-3 sm:grid-cols-3">
+                {booleanFields.map(({ key, label }) => (
+                  <div key={key} className="flex items-center gap-2">
+                    <Switch
+                      id={`review-${key}`}
+                      checked={Boolean(values[key])}
+                      onCheckedChange={checked => setValue(key, checked)}
+                      data-testid={`switch-review-${key}`}
+                    />
+                    <Label htmlFor={`review-${key}`} className="text-sm font-normal">{label}</Label>
+                  </div>
+                ))}
+              </div>
+
+              <div className="space-y-1">
+                <Label htmlFor="review-orderSummary">Order Summary</Label>
+                <Textarea
+                  id="review-orderSummary"
+                  rows={3}
+                  value={String(values.orderSummary ?? "")}
+                  onChange={e => setValue("orderSummary", e.target.value)}
+                  data-testid="input-review-orderSummary"
+                />
+              </div>
+
+              <div className="grid gap-4 sm:grid-cols-2">
+                <div className="space-y-1">
+                  <Label htmlFor="review-reviewer">Reviewer</Label>
+                  <Input
+                    id="review-reviewer"
+                    value={reviewer}
+                    onChange={e => setReviewer(e.target.value)}
+                    placeholder="Your name"
+                    data-testid="input-review-reviewer"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="review-notes">Notes</Label>
+                  <Input
+                    id="review-notes"
+                    value={notes}
+                    onChange={e => setNotes(e.target.value)}
+                    placeholder="Optional"
+                    data-testid="input-review-notes"
+                  />
+                </div>
+              </div>
+
+              <div className="flex items-center justify-between gap-4">
+                <span className="text-sm text-muted-foreground" data-testid="text-review-changed">
+                  {changedFields.length === 0 ? "No changes" : `${changedFields.length} field(s) changed`}
+                </span>
+                <Button
+                  disabled={!reviewer.trim() || reviewMutation.isPending}
+                  onClick={() => reviewMutation.mutate()}
+                  data-testid="button-submit-review"
+                >
+                  {reviewMutation.isPending ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : changedFields.length === 0 ? (
+                    <Check className="mr-2 h-4 w-4" />
+                  ) : (
+                    <Save className="mr-2 h-4 w-4" />
+                  )}
+                  {changedFields.length === 0 ? "Approve" : "Save Correction"}
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+    </div>
+  );
+}
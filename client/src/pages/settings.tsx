@@ -1,11 +1,23 @@
-import { useQuery } from "@tanstack/react-query";
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Switch } from "@/components/ui/switch";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Label } from "@/components/ui/label";
 import { Separator } from "@/components/ui/separator";
 import { DataTable } from "@/components/data-table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
 import {
   Settings as SettingsIcon,
   Building2,
@@ -14,14 +26,34 @@ import {
   CheckCircle2,
   XCircle,
   RefreshCw,
+  CalendarOff,
+  Upload,
+  Trash2,
+  Loader2,
+  Landmark,
+  Plus,
 } from "lucide-react";
-import type { District } from "@shared/schema";
+import type { District, CourtHoliday, Establishment, CourtState } from "@shared/schema";
+
+interface CourtHolidayRow extends CourtHoliday {
+  districtName: string | null;
+}
+
+interface EstablishmentRow extends Establishment {
+  districtName: string;
+}
 
 export default function Settings() {
   const { data: districts, isLoading: districtsLoading, refetch } = useQuery<District[]>({
     queryKey: ["/api/districts"],
   });
 
+  const { data: states } = useQuery<CourtState[]>({
+    queryKey: ["/api/states"],
+  });
+
+  const stateNames = new Map(states?.map((s) => [s.code, s.name]) ?? []);
+
   const districtColumns = [
     {
       key: "name",
@@ -30,11 +62,20 @@ export default function Settings() {
         <span className="font-medium" data-testid={`text-district-${row.id}`}>{row.name}</span>
       ),
     },
+    {
+      key: "stateCode",
+      header: "State",
+      render: (row: District) => (
+        <span className="text-sm" data-testid={`text-district-state-${row.id}`}>
+          {stateNames.get(row.stateCode) ?? row.stateCode}
+        </span>
+      ),
+    },
     {
       key: "codePrefix",
       header: "Code",
       render: (row: District) => (
-        <span className="font-mono text-sm">{row.codePrefix}</span>
+        <span className="font-mono text-sm">{row.stateCode}{row.codePrefix}</span>
       ),
     },
     {
@@ -92,7 +133,7 @@ export default function Settings() {
                 District Configuration
               </CardTitle>
               <CardDescription>
-                Delhi district courts configured for data extraction
+                District courts configured for data extraction across all states
               </CardDescription>
             </div>
             <Button
@@ -210,6 +251,335 @@ export default function Settings() {
           </Card>
         </div>
       </div>
+
+      <EstablishmentsSection districts={districts || []} />
+
+      <CourtCalendarSection />
     </div>
   );
 }
+
+// Establishments (civil, criminal, family, commercial courts...) each carry their own CNR code
+function EstablishmentsSection({ districts }: { districts: District[] }) {
+  const [districtId, setDistrictId] = useState("");
+  const [code, setCode] = useState("");
+  const [name, setName] = useState("");
+  const [courtComplex, setCourtComplex] = useState("");
+  const [caseTypes, setCaseTypes] = useState("");
+  const { toast } = useToast();
+
+  const { data: establishments, isLoading } = useQuery<EstablishmentRow[]>({
+    queryKey: ["/api/establishments"],
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/establishments", {
+        districtId: parseInt(districtId),
+        code: code.trim(),
+        name: name.trim(),
+        courtComplex: courtComplex.trim() || null,
+        caseTypes: caseTypes.trim()
+          ? caseTypes.split(",").map(t => t.trim()).filter(Boolean)
+          : null,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Establishment Added", description: `${code} - ${name}` });
+      setCode("");
+      setName("");
+      setCourtComplex("");
+      setCaseTypes("");
+      queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith("/api/establishments"),
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to Add Establishment",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const establishmentColumns = [
+    {
+      key: "districtName",
+      header: "District",
+      render: (row: EstablishmentRow) => <span className="font-medium">{row.districtName}</span>,
+    },
+    {
+      key: "code",
+      header: "Code",
+      render: (row: EstablishmentRow) => (
+        <span className="font-mono text-sm" data-testid={`text-establishment-${row.id}`}>{row.code}</span>
+      ),
+    },
+    {
+      key: "name",
+      header: "Establishment",
+      render: (row: EstablishmentRow) => <span>{row.name}</span>,
+    },
+    {
+      key: "courtComplex",
+      header: "Court Complex",
+      render: (row: EstablishmentRow) => (
+        <span className="text-sm text-muted-foreground">{row.courtComplex || "-"}</span>
+      ),
+    },
+    {
+      key: "caseTypes",
+      header: "Case Types",
+      render: (row: EstablishmentRow) => (
+        <div className="flex flex-wrap gap-1">
+          {(row.caseTypes ?? []).map((type) => (
+            <Badge key={type} variant="secondary" className="text-xs">{type}</Badge>
+          ))}
+        </div>
+      ),
+    },
+  ];
+
+  return (
+    <Card>
+      <CardHeader className="pb-4">
+        <CardTitle className="flex items-center gap-2 text-lg font-semibold">
+          <Landmark className="h-5 w-5" />
+          Establishments
+        </CardTitle>
+        <CardDescription>
+          Court establishments per district, used to build and resolve CNR numbers
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-2 md:grid-cols-6">
+          <Select value={districtId} onValueChange={setDistrictId}>
+            <SelectTrigger data-testid="select-establishment-district">
+              <SelectValue placeholder="District" />
+            </SelectTrigger>
+            <SelectContent>
+              {districts.map((district) => (
+                <SelectItem key={district.id} value={String(district.id)}>
+                  {district.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            placeholder="Code (e.g. 02)"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            data-testid="input-establishment-code"
+          />
+          <Input
+            placeholder="Name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            data-testid="input-establishment-name"
+          />
+          <Input
+            placeholder="Court complex"
+            value={courtComplex}
+            onChange={(e) => setCourtComplex(e.target.value)}
+            data-testid="input-establishment-complex"
+          />
+          <Input
+            placeholder="Case types (comma separated)"
+            value={caseTypes}
+            onChange={(e) => setCaseTypes(e.target.value)}
+            data-testid="input-establishment-case-types"
+          />
+          <Button
+            variant="outline"
+            onClick={() => createMutation.mutate()}
+            disabled={!districtId || !code.trim() || !name.trim() || createMutation.isPending}
+            data-testid="button-add-establishment"
+          >
+            {createMutation.isPending ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Plus className="mr-2 h-4 w-4" />
+            )}
+            Add
+          </Button>
+        </div>
+        <DataTable
+          columns={establishmentColumns}
+          data={establishments || []}
+          isLoading={isLoading}
+          emptyMessage="No establishments configured. Seed districts to create the main establishment for each."
+          testIdPrefix="establishments"
+        />
+      </CardContent>
+    </Card>
+  );
+}
+
+// Court holiday calendar used to skip non-working days during order URL generation
+function CourtCalendarSection() {
+  const [year, setYear] = useState(new Date().getFullYear());
+  const [csvFile, setCsvFile] = useState<File | null>(null);
+  const [replaceExisting, setReplaceExisting] = useState(false);
+  const { toast } = useToast();
+
+  const { data: holidays, isLoading } = useQuery<CourtHolidayRow[]>({
+    queryKey: [`/api/court-holidays?year=${year}`],
+  });
+
+  const invalidateHolidays = () => {
+    queryClient.invalidateQueries({
+      predicate: (query) => String(query.queryKey[0]).startsWith("/api/court-holidays"),
+    });
+  };
+
+  const importMutation = useMutation({
+    mutationFn: async () => {
+      if (!csvFile) throw new Error("Choose a CSV file first");
+      const csv = await csvFile.text();
+      const response = await apiRequest("POST", "/api/court-holidays/import", {
+        csv,
+        replaceYear: replaceExisting ? year : undefined,
+      });
+      return response.json();
+    },
+    onSuccess: (data) => {
+      toast({
+        title: "Holidays Imported",
+        description: data.message,
+        variant: data.errors?.length > 0 ? "destructive" : "default",
+      });
+      setCsvFile(null);
+      invalidateHolidays();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Import Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/court-holidays/${id}`);
+    },
+    onSuccess: invalidateHolidays,
+  });
+
+  const holidayColumns = [
+    {
+      key: "dates",
+      header: "Dates",
+      render: (row: CourtHolidayRow) => (
+        <span className="font-mono text-sm" data-testid={`text-holiday-${row.id}`}>
+          {row.startDate === row.endDate ? row.startDate : `${row.startDate} to ${row.endDate}`}
+        </span>
+      ),
+    },
+    {
+      key: "name",
+      header: "Holiday",
+      render: (row: CourtHolidayRow) => <span className="font-medium">{row.name}</span>,
+    },
+    {
+      key: "holidayType",
+      header: "Type",
+      render: (row: CourtHolidayRow) => (
+        <Badge variant={row.holidayType === "vacation" ? "default" : "secondary"}>
+          {row.holidayType}
+        </Badge>
+      ),
+    },
+    {
+      key: "district",
+      header: "District",
+      render: (row: CourtHolidayRow) => (
+        <span className="text-sm text-muted-foreground">{row.districtName || "All districts"}</span>
+      ),
+    },
+    {
+      key: "actions",
+      header: "",
+      render: (row: CourtHolidayRow) => (
+        <Button
+          size="icon"
+          variant="ghost"
+          onClick={() => deleteMutation.mutate(row.id)}
+          disabled={deleteMutation.isPending}
+          data-testid={`button-delete-holiday-${row.id}`}
+        >
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      ),
+    },
+  ];
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between gap-2 pb-4">
+        <div>
+          <CardTitle className="flex items-center gap-2 text-lg font-semibold">
+            <CalendarOff className="h-5 w-5" />
+            Court Calendar
+          </CardTitle>
+          <CardDescription>
+            Holidays and vacations skipped when generating order URLs. Sundays are always skipped.
+          </CardDescription>
+        </div>
+        <Input
+          type="number"
+          className="w-28"
+          value={year}
+          onChange={(e) => setYear(parseInt(e.target.value) || new Date().getFullYear())}
+          data-testid="input-holiday-year"
+        />
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-center gap-4">
+          <Input
+            type="file"
+            accept=".csv,text/csv"
+            className="max-w-xs"
+            onChange={(e) => setCsvFile(e.target.files?.[0] || null)}
+            data-testid="input-holiday-csv"
+          />
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="replace-holidays"
+              checked={replaceExisting}
+              onCheckedChange={(checked) => setReplaceExisting(checked === true)}
+              data-testid="checkbox-replace-holidays"
+            />
+            <Label htmlFor="replace-holidays">Replace existing {year} holidays</Label>
+          </div>
+          <Button
+            variant="outline"
+            onClick={() => importMutation.mutate()}
+            disabled={!csvFile || importMutation.isPending}
+            data-testid="button-import-holidays"
+          >
+            {importMutation.isPending ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Upload className="mr-2 h-4 w-4" />
+            )}
+            Import CSV
+          </Button>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Columns: start_date, end_date, name, type (gazetted, restricted, vacation, local), district (code or name, blank for all).
+        </p>
+        <DataTable
+          columns={holidayColumns}
+          data={holidays || []}
+          isLoading={isLoading}
+          emptyMessage={`No holidays configured for ${year}`}
+          testIdPrefix="holidays"
+        />
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,137 @@
+import { readFile } from "fs/promises";
+import { evaluationRunRequestSchema, goldOrderImportSchema, type EvaluationRunRequest, type GoldOrderImport } from "@shared/schema";
+import { pool } from "../server/db";
+import { storage } from "../server/storage";
+import { getLlmTaskConfigError } from "../server/llm";
+import { importGoldOrders, createEvaluationRun, executeEvaluationRun, toRouteOverride, type EvaluationReport } from "../server/classification-eval";
+
+// Runs a classifier configuration over the gold set and saves the scored run:
+//   npm run eval:classifier -- [--mode hybrid|llm|rules] [--provider openai --model gpt-4o-mini]
+//                              [--limit 500] [--name "label"] [--import gold.jsonl] [--from-reviews] [--import-only]
+// --import takes the JSON Lines from GET /api/review/gold-dataset or hand-labelled
+// lines of { text, expected, cnrOrderId?, cnr? }.
+
+interface Args {
+  run: Record<string, unknown>;
+  importFile?: string;
+  fromReviews: boolean;
+  importOnly: boolean;
+}
+
+function parseArgs(argv: string[]): Args {
+  const args: Args = { run: {}, fromReviews: false, importOnly: false };
+  for (let i = 0; i < argv.length; i++) {
+    switch (argv[i]) {
+      case "--mode":
+        args.run.mode = argv[++i];
+        break;
+      case "--provider":
+        args.run.provider = argv[++i];
+        break;
+      case "--model":
+        args.run.model = argv[++i];
+        break;
+      case "--limit":
+        args.run.limit = Number(argv[++i]);
+        break;
+      case "--name":
+        args.run.name = argv[++i];
+        break;
+      case "--import":
+        args.importFile = argv[++i];
+        break;
+      case "--from-reviews":
+        args.fromReviews = true;
+        break;
+      case "--import-only":
+        args.importOnly = true;
+        break;
+      default:
+        throw new Error(`Unknown argument: ${argv[i]}`);
+    }
+  }
+  return args;
+}
+
+async function readGoldFile(path: string): Promise<GoldOrderImport[]> {
+  const lines = (await readFile(path, "utf8")).split("\n").filter(line => line.trim());
+  return lines.map((line, index) => {
+    const parsed = goldOrderImportSchema.safeParse(JSON.parse(line));
+    if (!parsed.success) {
+      throw new Error(`${path} line ${index + 1}: ${parsed.error.errors.map(e => `${e.path.join(".")} ${e.message}`).join("; ")}`);
+    }
+    return parsed.data;
+  });
+}
+
+function formatMetric(value: number | null): string {
+  return value === null ? "    -" : value.toFixed(3);
+}
+
+function printReport(report: EvaluationReport) {
+  console.log(`\nEvaluated ${report.evaluated}, failed ${report.failed}, overall accuracy ${formatMetric(report.overallAccuracy)}\n`);
+  console.log(`${"field".padEnd(24)} ${"n".padStart(5)}  precision  recall  accuracy`);
+  for (const field of report.fields) {
+    if (field.labelled === 0) continue;
+    console.log(
+      `${field.field.padEnd(24)} ${String(field.labelled).padStart(5)}  ${formatMetric(field.precision).padStart(9)}  ${formatMetric(field.recall).padStart(6)}  ${formatMetric(field.accuracy).padStart(8)}`
+    );
+  }
+
+  for (const matrix of report.confusionMatrices) {
+    if (matrix.labels.length === 0) continue;
+    console.log(`\n${matrix.field} (rows expected, columns predicted)`);
+    console.log(`${"".padEnd(20)} ${matrix.labels.map(label => label.slice(0, 8).padStart(8)).join(" ")}`);
+    matrix.labels.forEach((label, row) => {
+      console.log(`${label.slice(0, 20).padEnd(20)} ${matrix.counts[row].map(count => String(count).padStart(8)).join(" ")}`);
+    });
+  }
+
+  console.log(`\nCalibration (expected calibration error ${formatMetric(report.calibration.expectedCalibrationError)})`);
+  for (const bin of report.calibration.bins) {
+    if (bin.count === 0) continue;
+    console.log(`  ${bin.lower.toFixed(1)}-${bin.upper.toFixed(1)}  n=${String(bin.count).padStart(4)}  confidence ${formatMetric(bin.meanConfidence)}  accuracy ${formatMetric(bin.accuracy)}`);
+  }
+}
+
+async function evaluate() {
+  const args = parseArgs(process.argv.slice(2));
+
+  if (args.importFile || args.fromReviews) {
+    const records = args.importFile ? await readGoldFile(args.importFile) : [];
+    const imported = await importGoldOrders(records, args.fromReviews);
+    console.log(`Imported ${imported} gold order(s)`);
+  }
+  if (args.importOnly) return;
+
+  const validation = evaluationRunRequestSchema.safeParse(args.run);
+  if (!validation.success) {
+    throw new Error(validation.error.errors.map(e => `--${e.path.join(".")}: ${e.message}`).join("; "));
+  }
+  const request: EvaluationRunRequest = validation.data;
+  if (request.mode !== "rules") {
+    const llmError = getLlmTaskConfigError("classification", toRouteOverride(request));
+    if (llmError) throw new Error(llmError);
+  }
+
+  const goldTotal = (await storage.getGoldOrderCounts()).reduce((sum, c) => sum + c.count, 0);
+  if (goldTotal === 0) {
+    throw new Error("The gold set is empty. Import orders with --import or --from-reviews first.");
+  }
+
+  const run = await createEvaluationRun(request);
+  console.log(`Run ${run.id}: mode ${run.mode}${run.provider ? `, ${run.provider}:${run.model}` : ""}, prompt ${run.promptVersion}`);
+  const report = await executeEvaluationRun(run, request);
+  if (!report) {
+    process.exitCode = 1;
+    return;
+  }
+  printReport(report);
+}
+
+evaluate()
+  .catch((error) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
@@ -0,0 +1,79 @@
+import { createObjectStore, OBJECT_STORE_BACKENDS } from "../server/object-stores";
+
+// Copies objects between storage backends, e.g. to move PDFs off Replit:
+//   npm run objects:migrate -- --from replit --to local [--prefix pdfs/] [--dry-run]
+// Objects already present in the target are skipped, so reruns are safe.
+
+function parseArgs(argv: string[]) {
+  const args: { from?: string; to?: string; prefix: string; dryRun: boolean } = { prefix: "pdfs/", dryRun: false };
+  for (let i = 0; i < argv.length; i++) {
+    switch (argv[i]) {
+      case "--from":
+        args.from = argv[++i];
+        break;
+      case "--to":
+        args.to = argv[++i];
+        break;
+      case "--prefix":
+        args.prefix = argv[++i] ?? "";
+        break;
+      case "--dry-run":
+        args.dryRun = true;
+        break;
+      default:
+        throw new Error(`Unknown argument: ${argv[i]}`);
+    }
+  }
+  if (!args.from || !args.to) {
+    throw new Error(`Usage: --from <${OBJECT_STORE_BACKENDS.join("|")}> --to <${OBJECT_STORE_BACKENDS.join("|")}> [--prefix pdfs/] [--dry-run]`);
+  }
+  if (args.from === args.to) {
+    throw new Error("--from and --to must be different backends");
+  }
+  return args as { from: string; to: string; prefix: string; dryRun: boolean };
+}
+
+async function migrate() {
+  const args = parseArgs(process.argv.slice(2));
+  const source = createObjectStore(args.from);
+  const target = createObjectStore(args.to);
+
+  console.log(`Migrating "${args.prefix}" from ${source.backend} to ${target.backend}${args.dryRun ? " (dry run)" : ""}`);
+
+  let copied = 0;
+  let skipped = 0;
+  let failed = 0;
+
+  for await (const key of source.list(args.prefix)) {
+    try {
+      if (await target.exists(key)) {
+        skipped++;
+        continue;
+      }
+      if (!args.dryRun) {
+        const file = await source.stat(key);
+        if (!file) {
+          skipped++;
+          continue;
+        }
+        const body = await source.get(key);
+        await target.put(key, body, { contentType: file.contentType, metadata: file.metadata });
+      }
+      copied++;
+      if (copied % 100 === 0) {
+        console.log(`  ${copied} copied, ${skipped} skipped, ${failed} failed`);
+      }
+    } catch (error) {
+      failed++;
+      console.error(`  Failed to copy ${key}:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  console.log(`Done: ${copied} ${args.dryRun ? "to copy" : "copied"}, ${skipped} already present, ${failed} failed`);
+  if (failed > 0) process.exitCode = 1;
+}
+
+migrate().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,153 @@
+import { createHash } from "crypto";
+import { mkdir, readFile, writeFile } from "fs/promises";
+import path from "path";
+
+// Record/replay for calls to outside services (court sites, proxies, OCR, LLMs).
+// CASSETTE_MODE=record saves every response under CASSETTE_DIR, replay serves
+// them back without touching the network, so whole jobs re-run offline and
+// deterministically. Unset (or "off") calls the live services as usual.
+
+export const CASSETTE_MODES = ["off", "record", "replay"] as const;
+export type CassetteMode = typeof CASSETTE_MODES[number];
+
+// Longer strings (base64 PDFs, full order texts) are replaced by their hash so
+// cassette keys stay stable and files stay readable
+const MAX_INLINE_STRING_LENGTH = 2000;
+
+interface Cassette {
+  service: string;
+  recordedAt: string;
+  request: unknown;
+  response?: unknown;
+  error?: { name: string; message: string; status?: number };
+}
+
+export class CassetteMissError extends Error {
+  constructor(service: string, key: string) {
+    super(`No cassette recorded for ${service} request ${key}; run once with CASSETTE_MODE=record`);
+    this.name = "CassetteMissError";
+    Object.setPrototypeOf(this, CassetteMissError.prototype);
+  }
+}
+
+export function getCassetteMode(): CassetteMode {
+  const mode = (process.env.CASSETTE_MODE || "off").toLowerCase();
+  return (CASSETTE_MODES as readonly string[]).includes(mode) ? mode as CassetteMode : "off";
+}
+
+function getCassetteDir(): string {
+  return path.resolve(process.env.CASSETTE_DIR || "fixtures/cassettes");
+}
+
+function sha256(data: string | Uint8Array): string {
+  return createHash("sha256").update(data).digest("hex");
+}
+
+// Key-sorted copy of the request with bytes and long strings reduced to hashes
+function canonicalize(value: unknown): unknown {
+  if (value instanceof Uint8Array) {
+    return `sha256:${sha256(value)}`;
+  }
+  if (typeof value === "string") {
+    return value.length > MAX_INLINE_STRING_LENGTH ? `sha256:${sha256(value)} (${value.length} chars)` : value;
+  }
+  if (Array.isArray(value)) {
+    return value.map(canonicalize);
+  }
+  if (value && typeof value === "object" && !(value instanceof Date)) {
+    return Object.fromEntries(
+      Object.keys(value).sort()
+        .filter(k => (value as Record<string, unknown>)[k] !== undefined)
+        .map(k => [k, canonicalize((value as Record<string, unknown>)[k])])
+    );
+  }
+  return value;
+}
+
+// Buffers round-trip as base64; everything else is plain JSON
+function encode(value: unknown): string {
+  return JSON.stringify(value, function (key, v) {
+    const original = this[key];
+    if (original instanceof Uint8Array) {
+      return { $buffer: Buffer.from(original).toString("base64") };
+    }
+    return v;
+  }, 2);
+}
+
+function decode<T>(text: string): T {
+  return JSON.parse(text, (_key, v) => {
+    if (v && typeof v === "object" && typeof v.$buffer === "string") {
+      return Buffer.from(v.$buffer, "base64");
+    }
+    return v;
+  });
+}
+
+function toRecordedError(error: unknown): NonNullable<Cassette["error"]> {
+  const err = error as { name?: string; message?: string; status?: number };
+  return {
+    name: err?.name || "Error",
+    message: err?.message || String(error),
+    status: typeof err?.status === "number" ? err.status : undefined,
+  };
+}
+
+function toReplayedError(recorded: NonNullable<Cassette["error"]>): Error {
+  const error = new Error(recorded.message) as Error & { status?: number };
+  error.name = recorded.name;
+  if (recorded.status !== undefined) error.status = recorded.status;
+  return error;
+}
+
+/**
+ * Runs `call` through the cassette layer. `request` should hold everything
+ * that determines the response (URL, model, prompt, document bytes); it is
+ * hashed into the cassette key. Thrown errors are recorded and replayed too.
+ */
+export async function withCassette<T>(service: string, request: unknown, call: () => Promise<T>): Promise<T> {
+  const mode = getCassetteMode();
+  if (mode === "off") {
+    return call();
+  }
+
+  const canonicalRequest = canonicalize(request);
+  const key = sha256(JSON.stringify(canonicalRequest)).slice(0, 32);
+  const filePath = path.join(getCassetteDir(), service, `${key}.json`);
+
+  if (mode === "replay") {
+    let cassette: Cassette;
+    try {
+      cassette = decode<Cassette>(await readFile(filePath, "utf8"));
+    } catch {
+      throw new CassetteMissError(service, key);
+    }
+    if (cassette.error) {
+      throw toReplayedError(cassette.error);
+    }
+    return cassette.response as T;
+  }
+
+  const cassette: Cassette = { service, recordedAt: new Date().toISOString(), request: canonicalRequest };
+  let result: T;
+  try {
+    result = await call();
+    cassette.response = result;
+  } catch (error) {
+    cassette.error = toRecordedError(error);
+    await saveCassette(filePath, cassette);
+    throw error;
+  }
+  await saveCassette(filePath, cassette);
+  return result;
+}
+
+async function saveCassette(filePath: string, cassette: Cassette): Promise<void> {
+  try {
+    await mkdir(path.dirname(filePath), { recursive: true });
+    await writeFile(filePath, encode(cassette));
+  } catch (error) {
+    // A failed write must not fail the live call it was recording
+    console.error(`[Cassette] Failed to record ${filePath}:`, error);
+  }
+}
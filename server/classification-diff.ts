@@ -0,0 +1,99 @@
+import { storage } from "./storage";
+import { normalizeClassificationValue } from "./classifier";
+
+// Structured fields compared between prompt versions. Free-text fields
+// (summary, operative portion, phrases) are reworded on every run and would
+// drown out real changes.
+const DIFF_FIELDS = [
+  "caseTitle",
+  "caseNumber",
+  "caseType",
+  "caseCategory",
+  "filingDate",
+  "judgeName",
+  "courtName",
+  "statutoryActName",
+  "orderType",
+  "nextHearingDate",
+  "isSummonsOrder",
+  "isNoticeOrder",
+  "isFreshCaseAssignment",
+  "isFirstHearing",
+  "isFinalOrder",
+  "hasBusinessEntity",
+] as const;
+
+const EXAMPLES_PER_FIELD = 5;
+// Orders looked at on the "to" side when searching for ones classified under both versions
+const CANDIDATE_MULTIPLIER = 10;
+
+type DiffField = typeof DIFF_FIELDS[number];
+
+export interface FieldChange {
+  field: DiffField;
+  from: unknown;
+  to: unknown;
+}
+
+export interface ClassificationDiffReport {
+  fromVersion: string;
+  toVersion: string;
+  // Orders classified under both versions that were compared
+  sampled: number;
+  changedOrders: number;
+  fields: { field: DiffField; changed: number; changeRate: number; examples: (FieldChange & { cnrOrderId: number })[] }[];
+  orders: { cnrOrderId: number; changes: FieldChange[] }[];
+}
+
+/**
+ * Compares the classifications of the same orders under two prompt versions,
+ * using the current row or the archived one, whichever carries each version.
+ */
+export async function buildClassificationDiffReport(
+  fromVersion: string,
+  toVersion: string,
+  sampleSize: number
+): Promise<ClassificationDiffReport> {
+  const candidates = await storage.getClassificationsByVersion(toVersion, { limit: sampleSize * CANDIDATE_MULTIPLIER });
+  const previous = await storage.getClassificationsByVersion(fromVersion, {
+    orderIds: candidates.map(c => c.cnrOrderId),
+    limit: candidates.length,
+  });
+  const previousByOrder = new Map(previous.map(p => [p.cnrOrderId, p.classification]));
+
+  const pairs = candidates
+    .filter(c => previousByOrder.has(c.cnrOrderId))
+    .slice(0, sampleSize);
+
+  const orders: ClassificationDiffReport["orders"] = [];
+  for (const pair of pairs) {
+    const before = previousByOrder.get(pair.cnrOrderId)!;
+    const changes = DIFF_FIELDS
+      .filter(field => normalizeClassificationValue(before[field]) !== normalizeClassificationValue(pair.classification[field]))
+      .map(field => ({ field, from: before[field] ?? null, to: pair.classification[field] ?? null }));
+    if (changes.length > 0) {
+      orders.push({ cnrOrderId: pair.cnrOrderId, changes });
+    }
+  }
+
+  const fields = DIFF_FIELDS.map(field => {
+    const changed = orders.flatMap(order =>
+      order.changes.filter(change => change.field === field).map(change => ({ ...change, cnrOrderId: order.cnrOrderId }))
+    );
+    return {
+      field,
+      changed: changed.length,
+      changeRate: pairs.length > 0 ? Math.round((changed.length / pairs.length) * 1000) / 1000 : 0,
+      examples: changed.slice(0, EXAMPLES_PER_FIELD),
+    };
+  }).filter(field => field.changed > 0);
+
+  return {
+    fromVersion,
+    toVersion,
+    sampled: pairs.length,
+    changedOrders: orders.length,
+    fields: fields.sort((a, b) => b.changed - a.changed),
+    orders,
+  };
+}
@@ -0,0 +1,382 @@
+import {
+  REVIEWABLE_FIELDS,
+  type ClassificationEvalRun,
+  type ClassificationGoldOrder,
+  type EvaluationRunRequest,
+  type GoldOrderImport,
+  type InsertClassificationGoldOrder,
+  type ReviewableField,
+} from "@shared/schema";
+import { storage } from "./storage";
+import { classifyWithRules, normalizeClassificationValue, CURRENT_CLASSIFICATION_PROMPT_VERSION } from "./classifier";
+import { buildGoldDataset } from "./classification-review";
+import { evaluateRules, getActiveRules, rulesConfidence, toResolvedFields } from "./rule-classifier";
+import { buildClassifierText, segmentOrderText } from "./order-segmenter";
+import { getLlmRoute, type LlmRouteOverride } from "./llm";
+
+// The order summary is reworded on every run, so only the other reviewable fields are scored
+const EVAL_FIELDS = REVIEWABLE_FIELDS.filter(field => field !== "orderSummary");
+
+const BOOLEAN_FIELDS: ReviewableField[] = [
+  "isSummonsOrder",
+  "isNoticeOrder",
+  "isFreshCaseAssignment",
+  "isFirstHearing",
+  "isFinalOrder",
+  "hasBusinessEntity",
+];
+
+const CONFUSION_FIELDS = ["caseCategory", "orderType"] as const;
+const CALIBRATION_BINS = 10;
+const NO_VALUE_LABEL = "(none)";
+const MAX_MISMATCHES = 200;
+
+type Prediction = Partial<Record<ReviewableField, unknown>> & { classificationConfidence?: number | null };
+
+/**
+ * Precision and recall treat `true` (boolean fields) or any value (text
+ * fields) as a positive: precision is the share of positive predictions that
+ * match, recall the share of positive labels predicted exactly. Accuracy also
+ * counts agreeing on false or nothing.
+ */
+export interface FieldMetrics {
+  field: ReviewableField;
+  labelled: number;
+  predictedPositive: number;
+  expectedPositive: number;
+  truePositive: number;
+  correct: number;
+  precision: number | null;
+  recall: number | null;
+  accuracy: number | null;
+}
+
+// Rows are expected labels, columns predicted ones, in the order of labels
+export interface ConfusionMatrix {
+  field: typeof CONFUSION_FIELDS[number];
+  labels: string[];
+  counts: number[][];
+}
+
+// An order's accuracy is the share of its labelled fields predicted correctly
+export interface CalibrationBin {
+  lower: number;
+  upper: number;
+  count: number;
+  meanConfidence: number | null;
+  accuracy: number | null;
+}
+
+export interface EvaluationMismatch {
+  goldOrderId: number;
+  field: ReviewableField;
+  expected: unknown;
+  predicted: unknown;
+}
+
+export interface EvaluationReport {
+  evaluated: number;
+  failed: number;
+  overallAccuracy: number | null;
+  fields: FieldMetrics[];
+  confusionMatrices: ConfusionMatrix[];
+  calibration: { bins: CalibrationBin[]; expectedCalibrationError: number | null };
+  mismatches: EvaluationMismatch[];
+  failures: { goldOrderId: number; error: string }[];
+}
+
+export interface EvaluationRunComparison {
+  base: Omit<ClassificationEvalRun, "report">;
+  compared: Omit<ClassificationEvalRun, "report">;
+  fields: { field: ReviewableField; base: FieldMetrics | null; compared: FieldMetrics | null; accuracyChange: number | null }[];
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+function ratio(numerator: number, denominator: number): number | null {
+  return denominator > 0 ? round(numerator / denominator) : null;
+}
+
+function isPositive(field: ReviewableField, value: unknown): boolean {
+  return BOOLEAN_FIELDS.includes(field) ? value === true : value !== null;
+}
+
+function parseExpected(gold: ClassificationGoldOrder): Partial<Record<ReviewableField, unknown>> {
+  return JSON.parse(gold.expected);
+}
+
+function buildFieldMetrics(outcomes: { expected: Partial<Record<ReviewableField, unknown>>; predicted: Prediction }[]): FieldMetrics[] {
+  return EVAL_FIELDS.map(field => {
+    const metrics = { labelled: 0, predictedPositive: 0, expectedPositive: 0, truePositive: 0, correct: 0 };
+    for (const { expected, predicted } of outcomes) {
+      if (!(field in expected)) continue;
+      const want = normalizeClassificationValue(expected[field]);
+      const got = normalizeClassificationValue(predicted[field]);
+      metrics.labelled++;
+      if (isPositive(field, got)) metrics.predictedPositive++;
+      if (isPositive(field, want)) metrics.expectedPositive++;
+      if (isPositive(field, got) && got === want) metrics.truePositive++;
+      if (got === want) metrics.correct++;
+    }
+    return {
+      field,
+      ...metrics,
+      precision: ratio(metrics.truePositive, metrics.predictedPositive),
+      recall: ratio(metrics.truePositive, metrics.expectedPositive),
+      accuracy: ratio(metrics.correct, metrics.labelled),
+    };
+  });
+}
+
+function buildConfusionMatrix(
+  field: typeof CONFUSION_FIELDS[number],
+  outcomes: { expected: Partial<Record<ReviewableField, unknown>>; predicted: Prediction }[]
+): ConfusionMatrix {
+  const pairs = outcomes
+    .filter(({ expected }) => field in expected)
+    .map(({ expected, predicted }) => [
+      String(normalizeClassificationValue(expected[field]) ?? NO_VALUE_LABEL),
+      String(normalizeClassificationValue(predicted[field]) ?? NO_VALUE_LABEL),
+    ]);
+  const labels = Array.from(new Set(pairs.flat())).sort();
+  const counts = labels.map(() => labels.map(() => 0));
+  for (const [want, got] of pairs) {
+    counts[labels.indexOf(want)][labels.indexOf(got)]++;
+  }
+  return { field, labels, counts };
+}
+
+function buildCalibration(points: { confidence: number; accuracy: number }[]): EvaluationReport["calibration"] {
+  const bins = Array.from({ length: CALIBRATION_BINS }, (_, i) => ({
+    lower: round(i / CALIBRATION_BINS),
+    upper: round((i + 1) / CALIBRATION_BINS),
+    points: [] as { confidence: number; accuracy: number }[],
+  }));
+  for (const point of points) {
+    const confidence = Math.min(Math.max(point.confidence, 0), 1);
+    bins[Math.min(Math.floor(confidence * CALIBRATION_BINS), CALIBRATION_BINS - 1)].points.push({ ...point, confidence });
+  }
+
+  let weightedGap = 0;
+  const summarized = bins.map(({ lower, upper, points: binPoints }) => {
+    if (binPoints.length === 0) {
+      return { lower, upper, count: 0, meanConfidence: null, accuracy: null };
+    }
+    const meanConfidence = binPoints.reduce((sum, p) => sum + p.confidence, 0) / binPoints.length;
+    const accuracy = binPoints.reduce((sum, p) => sum + p.accuracy, 0) / binPoints.length;
+    weightedGap += binPoints.length * Math.abs(accuracy - meanConfidence);
+    return { lower, upper, count: binPoints.length, meanConfidence: round(meanConfidence), accuracy: round(accuracy) };
+  });
+
+  return {
+    bins: summarized,
+    expectedCalibrationError: points.length > 0 ? round(weightedGap / points.length) : null,
+  };
+}
+
+/** Scores predictions against the gold labels. Failed orders count towards `failed` only. */
+export function buildEvaluationReport(
+  outcomes: { gold: ClassificationGoldOrder; predicted: Prediction }[],
+  failures: EvaluationReport["failures"]
+): EvaluationReport {
+  const scored = outcomes.map(({ gold, predicted }) => ({ gold, expected: parseExpected(gold), predicted }));
+  const fields = buildFieldMetrics(scored);
+
+  const calibrationPoints: { confidence: number; accuracy: number }[] = [];
+  const mismatches: EvaluationMismatch[] = [];
+  for (const { gold, expected, predicted } of scored) {
+    const labelled = EVAL_FIELDS.filter(field => field in expected);
+    const wrong = labelled.filter(field => normalizeClassificationValue(expected[field]) !== normalizeClassificationValue(predicted[field]));
+    for (const field of wrong) {
+      if (mismatches.length < MAX_MISMATCHES) {
+        mismatches.push({ goldOrderId: gold.id, field, expected: expected[field] ?? null, predicted: predicted[field] ?? null });
+      }
+    }
+    if (typeof predicted.classificationConfidence === "number" && labelled.length > 0) {
+      calibrationPoints.push({
+        confidence: predicted.classificationConfidence,
+        accuracy: (labelled.length - wrong.length) / labelled.length,
+      });
+    }
+  }
+
+  const labelled = fields.reduce((sum, f) => sum + f.labelled, 0);
+  const correct = fields.reduce((sum, f) => sum + f.correct, 0);
+
+  return {
+    evaluated: outcomes.length,
+    failed: failures.length,
+    overallAccuracy: ratio(correct, labelled),
+    fields,
+    confusionMatrices: CONFUSION_FIELDS.map(field => buildConfusionMatrix(field, scored)),
+    calibration: buildCalibration(calibrationPoints),
+    mismatches,
+    failures,
+  };
+}
+
+/**
+ * Adds labelled orders to the gold set: the given records and, when asked,
+ * every reviewed classification. An order already in the set is replaced.
+ */
+export async function importGoldOrders(records: GoldOrderImport[], fromReviews: boolean): Promise<number> {
+  const byOrder = new Map<string, InsertClassificationGoldOrder>();
+  const add = (key: string, record: InsertClassificationGoldOrder) => byOrder.set(key, record);
+
+  records.forEach((record, index) => {
+    add(record.cnrOrderId ? `order:${record.cnrOrderId}` : `import:${index}`, {
+      cnrOrderId: record.cnrOrderId ?? null,
+      label: record.cnr ?? null,
+      text: record.text,
+      expected: JSON.stringify(record.expected),
+      source: "import",
+    });
+  });
+
+  if (fromReviews) {
+    for (const record of await buildGoldDataset(10000)) {
+      add(`order:${record.cnrOrderId}`, {
+        cnrOrderId: record.cnrOrderId,
+        label: record.cnr,
+        text: record.text,
+        expected: JSON.stringify(record.expected),
+        source: "review",
+      });
+    }
+  }
+
+  // Orders imported by id must exist here; the rest are kept unlinked
+  const values = Array.from(byOrder.values());
+  for (const value of values) {
+    if (value.cnrOrderId && !(await storage.getOrderById(value.cnrOrderId))) {
+      value.cnrOrderId = null;
+    }
+  }
+
+  return storage.upsertGoldOrders(values);
+}
+
+export function toRouteOverride(request: EvaluationRunRequest): LlmRouteOverride | undefined {
+  return request.provider ? { provider: request.provider, model: request.model } : undefined;
+}
+
+/** Records a pending run with the configuration it will use, and the job that tracks its progress. */
+export async function createEvaluationRun(request: EvaluationRunRequest): Promise<ClassificationEvalRun> {
+  const route = request.mode === "rules" ? null : getLlmRoute("classification", toRouteOverride(request));
+  const goldTotal = (await storage.getGoldOrderCounts()).reduce((sum, c) => sum + c.count, 0);
+  const job = await storage.createProcessingJob({
+    jobType: "classification_evaluation",
+    status: "pending",
+    totalItems: Math.min(goldTotal, request.limit),
+    processedItems: 0,
+    successfulItems: 0,
+    failedItems: 0,
+    parameters: JSON.stringify(request),
+  });
+  return storage.createEvaluationRun({
+    jobId: job.id,
+    name: request.name || null,
+    mode: request.mode,
+    provider: route?.provider ?? null,
+    model: route?.model ?? null,
+    promptVersion: CURRENT_CLASSIFICATION_PROMPT_VERSION,
+    status: "pending",
+  });
+}
+
+async function predict(
+  gold: ClassificationGoldOrder,
+  mode: EvaluationRunRequest["mode"],
+  rules: Awaited<ReturnType<typeof getActiveRules>>,
+  route: LlmRouteOverride | undefined
+): Promise<Prediction | null> {
+  const sections = segmentOrderText([{ text: gold.text, charOffset: 0 }]).sections;
+  const evaluation = evaluateRules(mode === "llm" ? [] : rules, { text: gold.text, sections });
+
+  // Rules alone predict only the fields they decide; everything else counts as not found
+  if (mode === "rules") {
+    return { ...toResolvedFields(evaluation), classificationConfidence: rulesConfidence(evaluation) };
+  }
+
+  const result = await classifyWithRules(gold.id, buildClassifierText(sections) ?? gold.text, evaluation, false, route);
+  return result?.classification ?? null;
+}
+
+/**
+ * Classifies every gold order with the run's configuration, without storing
+ * any classification, and saves the scored report on the run.
+ */
+export async function executeEvaluationRun(run: ClassificationEvalRun, request: EvaluationRunRequest): Promise<EvaluationReport | null> {
+  const jobId = run.jobId!;
+  try {
+    await storage.updateProcessingJobStarted(jobId);
+    const goldOrders = await storage.getGoldOrders(request.limit);
+    await storage.updateEvaluationRun(run.id, { status: "processing", goldCount: goldOrders.length });
+    console.log(`[Eval] Run ${run.id}: ${goldOrders.length} gold orders, mode ${run.mode}${run.provider ? `, ${run.provider}:${run.model}` : ""}`);
+
+    const rules = request.mode === "llm" ? [] : await getActiveRules();
+    const route = toRouteOverride(request);
+    const outcomes: { gold: ClassificationGoldOrder; predicted: Prediction }[] = [];
+    const failures: EvaluationReport["failures"] = [];
+
+    for (const gold of goldOrders) {
+      try {
+        const predicted = await predict(gold, request.mode, rules, route);
+        if (predicted) {
+          outcomes.push({ gold, predicted });
+        } else {
+          failures.push({ goldOrderId: gold.id, error: "Classifier returned no result" });
+        }
+      } catch (error) {
+        failures.push({ goldOrderId: gold.id, error: error instanceof Error ? error.message : String(error) });
+      }
+      await storage.updateProcessingJobProgress(jobId, outcomes.length + failures.length, outcomes.length, failures.length);
+    }
+
+    const report = buildEvaluationReport(outcomes, failures);
+    const status = goldOrders.length > 0 && outcomes.length === 0 ? "failed" : "completed";
+    await storage.updateEvaluationRun(run.id, {
+      status,
+      evaluatedCount: report.evaluated,
+      failedCount: report.failed,
+      overallAccuracy: report.overallAccuracy,
+      calibrationError: report.calibration.expectedCalibrationError,
+      report: JSON.stringify(report),
+      completedAt: new Date(),
+    });
+    await storage.updateProcessingJobStatus(jobId, status);
+    console.log(`[Eval] Run ${run.id} ${status}: accuracy ${report.overallAccuracy ?? "-"}, ${report.failed} failed`);
+    return report;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`[Eval] Run ${run.id} failed:`, error);
+    await storage.updateEvaluationRun(run.id, { status: "failed", error: message, completedAt: new Date() });
+    await storage.updateProcessingJobStatus(jobId, "failed", message);
+    return null;
+  }
+}
+
+/** Per-field metrics of two completed runs side by side, with the change in accuracy. */
+export function compareEvaluationRuns(base: ClassificationEvalRun, compared: ClassificationEvalRun): EvaluationRunComparison {
+  const { report: baseReport, ...baseRun } = base;
+  const { report: comparedReport, ...comparedRun } = compared;
+  const baseFields = baseReport ? (JSON.parse(baseReport) as EvaluationReport).fields : [];
+  const comparedFields = comparedReport ? (JSON.parse(comparedReport) as EvaluationReport).fields : [];
+
+  return {
+    base: baseRun,
+    compared: comparedRun,
+    fields: EVAL_FIELDS.map(field => {
+      const before = baseFields.find(f => f.field === field) ?? null;
+      const after = comparedFields.find(f => f.field === field) ?? null;
+      return {
+        field,
+        base: before,
+        compared: after,
+        accuracyChange: before?.accuracy != null && after?.accuracy != null ? round(after.accuracy - before.accuracy) : null,
+      };
+    }),
+  };
+}
@@ -0,0 +1,143 @@
+import {
+  REVIEWABLE_FIELDS,
+  type ClassificationCorrection,
+  type ClassificationReview,
+  type InsertOrderMetadata,
+  type OrderMetadata,
+  type ReviewableField,
+} from "@shared/schema";
+import { storage, type ReviewItem } from "./storage";
+
+const DEFAULT_REVIEW_CONFIDENCE_THRESHOLD = 0.7;
+
+export class ReviewStateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ReviewStateError";
+    Object.setPrototypeOf(this, ReviewStateError.prototype);
+  }
+}
+
+export type ReviewReason = "low_confidence" | "rule_conflict";
+
+export interface ReviewQueueEntry extends ReviewItem {
+  reasons: ReviewReason[];
+}
+
+export interface FieldCorrection {
+  field: ReviewableField;
+  from: unknown;
+  to: unknown;
+}
+
+// One line of the gold dataset export: the order text and the fields a reviewer confirmed
+export interface GoldRecord {
+  cnrOrderId: number;
+  cnr: string;
+  orderDate: string;
+  text: string;
+  expected: Partial<Record<ReviewableField, unknown>>;
+  reviewStatus: string;
+  reviewedBy: string | null;
+  reviewedAt: Date | null;
+  promptVersion: string;
+  llmModelUsed: string | null;
+}
+
+export function getReviewConfidenceThreshold(): number {
+  const configured = Number(process.env.REVIEW_CONFIDENCE_THRESHOLD);
+  return configured > 0 && configured <= 1 ? configured : DEFAULT_REVIEW_CONFIDENCE_THRESHOLD;
+}
+
+// Blank strings from the review form mean "nothing found", as null does in the classifier output
+function normalizeCorrection(value: unknown): unknown {
+  if (typeof value === "string") {
+    const trimmed = value.trim();
+    return trimmed === "" ? null : trimmed;
+  }
+  return value ?? null;
+}
+
+export async function getReviewQueue(confidenceThreshold: number, limit: number): Promise<ReviewQueueEntry[]> {
+  const items = await storage.getReviewQueue(confidenceThreshold, limit);
+  return items.map(item => {
+    const reasons: ReviewReason[] = [];
+    const confidence = item.metadata.classificationConfidence;
+    if (confidence === null || confidence < confidenceThreshold) reasons.push("low_confidence");
+    if (item.metadata.ruleConflicts) reasons.push("rule_conflict");
+    return { ...item, reasons };
+  });
+}
+
+/**
+ * Saves a reviewer's verdict on an order's classification. Corrected fields
+ * overwrite the stored values; with no changes the classification is
+ * approved as it is. Either way the row is locked against re-classification.
+ */
+export async function reviewClassification(
+  orderId: number,
+  review: ClassificationReview
+): Promise<{ metadata: OrderMetadata; correction: ClassificationCorrection }> {
+  const metadata = await storage.getOrderMetadataByOrderId(orderId);
+  if (!metadata) {
+    throw new ReviewStateError("Order has not been classified yet");
+  }
+
+  const changes: FieldCorrection[] = [];
+  const updates: Partial<InsertOrderMetadata> = {};
+  for (const [field, value] of Object.entries(review.corrections) as [ReviewableField, unknown][]) {
+    const to = normalizeCorrection(value);
+    const from = metadata[field] ?? null;
+    if (to === from) continue;
+    changes.push({ field, from, to });
+    Object.assign(updates, { [field]: to });
+  }
+
+  const reviewStatus = changes.length > 0 ? "corrected" : "approved";
+  const result = await storage.saveClassificationReview(metadata.id, updates, {
+    cnrOrderId: orderId,
+    reviewer: review.reviewer,
+    reviewStatus,
+    changes: JSON.stringify(changes),
+    promptVersion: metadata.promptVersion,
+    notes: review.notes || null,
+  });
+  console.log(`[Review] Order ${orderId} ${reviewStatus} by ${review.reviewer}${changes.length > 0 ? ` (${changes.map(c => c.field).join(", ")})` : ""}`);
+  return result;
+}
+
+export async function unlockClassification(orderId: number): Promise<OrderMetadata> {
+  const metadata = await storage.getOrderMetadataByOrderId(orderId);
+  if (!metadata) {
+    throw new ReviewStateError("Order has not been classified yet");
+  }
+  if (!metadata.isLocked) {
+    throw new ReviewStateError("Classification is not locked");
+  }
+  return (await storage.unlockOrderMetadata(metadata.id))!;
+}
+
+/** Reviewed orders with their text, oldest review first; orders whose text is gone are left out. */
+export async function buildGoldDataset(limit: number): Promise<GoldRecord[]> {
+  const reviewed = await storage.getReviewedOrders(limit);
+  const records: GoldRecord[] = [];
+  for (const { order, cnr, metadata } of reviewed) {
+    const pdfText = await storage.getPdfTextByOrderId(order.id);
+    const text = pdfText?.cleanedText || pdfText?.rawText;
+    if (!text) continue;
+
+    records.push({
+      cnrOrderId: order.id,
+      cnr,
+      orderDate: order.orderDate,
+      text,
+      expected: Object.fromEntries(REVIEWABLE_FIELDS.map(field => [field, metadata[field] ?? null])),
+      reviewStatus: metadata.reviewStatus,
+      reviewedBy: metadata.reviewedBy,
+      reviewedAt: metadata.reviewedAt,
+      promptVersion: metadata.promptVersion,
+      llmModelUsed: metadata.llmModelUsed,
+    });
+  }
+  return records;
+}
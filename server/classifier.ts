@@ -1,69 +1,18 @@
-import OpenAI from "openai";
 import { storage } from "./storage";
+import { completeLlm, parseLlmJson, type LlmRouteOverride } from "./llm";
+import { locateClassificationSources, getClassifierSections } from "./pdf-text-pages";
+import { SECTIONED_TEXT_NOTE, buildClassifierText } from "./order-segmenter";
+import {
+  evaluateRules,
+  getActiveRules,
+  rulesConfidence,
+  toResolvedFields,
+  type RuleEvaluation,
+  type RuleResolvedFields,
+} from "./rule-classifier";
 import type { CnrOrder, InsertOrderMetadata, InsertBusinessEntity, InsertCaseEntityLink, InsertPersonLead } from "@shared/schema";
 
-const API_TIMEOUT_MS = 60000;
-const MAX_RETRIES = 4;
-const INITIAL_RETRY_DELAY_MS = 1000;
-
-let openaiClient: OpenAI | null = null;
-
-function getOpenAI(): OpenAI {
-  if (!process.env.OPENAI_API_KEY) {
-    throw new Error("OPENAI_API_KEY is not configured");
-  }
-  if (!openaiClient) {
-    openaiClient = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY,
-      timeout: API_TIMEOUT_MS,
-      maxRetries: 0,
-    });
-  }
-  return openaiClient;
-}
-
-async function sleep(ms: number): Promise<void> {
-  return new Promise(resolve => setTimeout(resolve, ms));
-}
-
-async function withRetry<T>(
-  operation: () => Promise<T>,
-  operationName: string,
-  maxRetries: number = MAX_RETRIES
-): Promise<T> {
-  let lastError: Error | null = null;
-  
-  for (let attempt = 1; attempt <= maxRetries; attempt++) {
-    try {
-      return await operation();
-    } catch (error) {
-      lastError = error as Error;
-      const isRetryable = 
-        error instanceof Error && 
-        (error.message.includes("timeout") || 
-         error.message.includes("rate_limit") ||
-         error.message.includes("429") ||
-         error.message.includes("503") ||
-         error.message.includes("529") ||
-         error.message.includes("overloaded") ||
-         (error as any).status === 429 ||
-         (error as any).status === 503 ||
-         (error as any).status === 529);
-      
-      if (!isRetryable || attempt === maxRetries) {
-        throw error;
-      }
-      
-      const delay = INITIAL_RETRY_DELAY_MS * Math.pow(2, attempt - 1);
-      console.log(`${operationName} attempt ${attempt} failed, retrying in ${delay}ms...`);
-      await sleep(delay);
-    }
-  }
-  
-  throw lastError;
-}
-
-interface ClassificationResult {
+export interface ClassificationResult {
   caseTitle: string | null;
   caseNumber: string | null;
   caseType: string | null;
@@ -101,8 +50,46 @@ interface ClassificationResult {
     address: string | null;
   }>;
   freshCasePhrase: string | null;
+  // Only present when rule-decided fields were left out of the prompt
+  ruleDisagreements?: Array<{ field: string; value: unknown }>;
+}
+
+// Recorded in order_metadata.llmModelUsed: which of the rule engine and the LLM decided the order
+export type ClassificationSource = "rules" | "llm" | "hybrid";
+
+// Bump whenever CLASSIFICATION_PROMPT or what the model is sent changes, so results
+// from different prompts stay distinguishable in order_metadata.prompt_version
+export const CLASSIFICATION_PROMPT_VERSIONS = {
+  v1: "Full order text",
+  v2: "Labelled order sections, with the fields the rule pre-classifier decided passed in",
+  v3: "As v2, but the model may contradict the rule decisions so disagreements reach review",
+  v4: "Decided rule fields left out of the requested JSON; the model only reports the ones the text contradicts",
+} as const;
+
+export type ClassificationPromptVersion = keyof typeof CLASSIFICATION_PROMPT_VERSIONS;
+
+export const CURRENT_CLASSIFICATION_PROMPT_VERSION: ClassificationPromptVersion = "v4";
+
+// A rule field the LLM answered differently; stored in order_metadata.ruleConflicts for review
+export interface RuleConflict {
+  field: keyof RuleResolvedFields;
+  ruleValue: string | boolean;
+  llmValue: unknown;
 }
 
+const CLASSIFICATION_TEXT_CHAR_LIMIT = 15000;
+
+// Rules-only fallback after an LLM failure leaves most fields empty; kept below the
+// default review threshold of 0.7 so the row reaches the review queue
+const LLM_FAILED_CONFIDENCE_CAP = 0.5;
+
+// Left out of the prompt when the rules already named the act
+const STATUTORY_ACT_RULES = `5. **STATUTORY ACT IDENTIFICATION**: Based on court name and order content, identify the applicable statutory act:
+   - If court mentions "MACT" → "MACT - Motor Accident Claims Tribunal under Motor Vehicles Act, 1988"
+   - If mentions Section 138 or cheque → "NI Act - Negotiable Instruments Act, 1881 (Section 138 - Cheque Dishonour)"
+   - If criminal case with IPC sections → "IPC - Indian Penal Code, 1860"
+   - If maintenance case → "CrPC - Code of Criminal Procedure, 1973 (Section 125 - Maintenance)"`;
+
 const CLASSIFICATION_PROMPT = `You are a legal document analyzer specializing in Indian court orders from Delhi District Courts. Analyze the following court order text and extract structured information.
 
 ## DELHI COURTS CASE TYPE ABBREVIATIONS REFERENCE:
@@ -182,19 +169,13 @@ Return a JSON object with the following fields:
    - "matter is registered"
    Capture the EXACT phrase found in freshCasePhrase field.
 
-2. **STATUTORY ACT IDENTIFICATION**: Based on court name and order content, identify the applicable statutory act:
-   - If court mentions "MACT" → "MACT - Motor Accident Claims Tribunal under Motor Vehicles Act, 1988"
-   - If mentions Section 138 or cheque → "NI Act - Negotiable Instruments Act, 1881 (Section 138 - Cheque Dishonour)"
-   - If criminal case with IPC sections → "IPC - Indian Penal Code, 1860"
-   - If maintenance case → "CrPC - Code of Criminal Procedure, 1973 (Section 125 - Maintenance)"
-
-3. **ORDER SUMMARY**: Write a clear, readable summary explaining:
+2. **ORDER SUMMARY**: Write a clear, readable summary explaining:
    - What type of case this is
    - What happened in this order
    - What the court decided or ordered
    - Who was present/absent
 
-4. **BUSINESS ENTITY DETECTION** - Extract ALL business/company/firm names from the document:
+3. **BUSINESS ENTITY DETECTION** - Extract ALL business/company/firm names from the document:
 
    ## STEP 1: IDENTIFY BUSINESS INDICATORS
    
@@ -287,30 +268,58 @@ Return a JSON object with the following fields:
    - DO NOT include personal names that come after "through its..." or "represented by..."
    - If same business appears multiple times, extract only once
 
-5. **PERSON LEADS**: For fresh cases, extract individual person names from respondent/defendant side as potential leads.
+4. **PERSON LEADS**: For fresh cases, extract individual person names from respondent/defendant side as potential leads.
+
+${STATUTORY_ACT_RULES}
 
 If a field is not found in the text, use null for strings, false for booleans, and empty array [] for arrays.`;
 
-export async function classifyOrderText(orderId: number, text: string): Promise<ClassificationResult | null> {
-  const openai = getOpenAI();
+// Decided rule fields are left out of the requested JSON, and so are the act rules once the act is known
+function buildClassificationPrompt(resolved: RuleResolvedFields): string {
+  const decided = Object.keys(resolved);
+  const prompt = CLASSIFICATION_PROMPT.split("\n")
+    .filter(line => !decided.some(field => line.startsWith(`  "${field}":`)))
+    .join("\n");
+  return resolved.statutoryActName ? prompt.replace(`${STATUTORY_ACT_RULES}\n\n`, "") : prompt;
+}
+
+// The model only reports rule decisions the text contradicts; those flag the order for review
+function describeResolvedFields(resolved: RuleResolvedFields): string {
+  if (Object.keys(resolved).length === 0) return "";
+  return `These fields were already decided from the order text by keyword rules, so leave them out of your answer: ${JSON.stringify(resolved)}. Only if the order text clearly contradicts one of them, add "ruleDisagreements": [{ "field": "<field>", "value": <your value> }]; otherwise return "ruleDisagreements": [].\n\n`;
+}
+
+/**
+ * Characters sent to the LLM for an order with `orderTextChars` of text, for
+ * cost estimates: the prompt with no rule-decided fields removed, and the text
+ * as one proceedings section, trimmed and truncated as classification does.
+ */
+export function estimateClassificationInputChars(orderTextChars: number): number {
+  const sectioned = buildClassifierText([{ name: "proceedings", text: "x".repeat(Math.max(0, Math.round(orderTextChars))) }]) ?? "";
+  return buildClassificationPrompt({}).length + SECTIONED_TEXT_NOTE.length + Math.min(sectioned.length, CLASSIFICATION_TEXT_CHAR_LIMIT);
+}
 
-  const truncatedText = text.length > 15000 ? text.substring(0, 15000) + "..." : text;
+export async function classifyOrderText(
+  orderId: number,
+  text: string,
+  resolved: RuleResolvedFields = {},
+  route?: LlmRouteOverride
+): Promise<ClassificationResult | null> {
+  const truncatedText = text.length > CLASSIFICATION_TEXT_CHAR_LIMIT ? text.substring(0, CLASSIFICATION_TEXT_CHAR_LIMIT) + "..." : text;
 
   try {
-    const response = await withRetry(
-      async () => openai.chat.completions.create({
-        model: "gpt-4o",
-        messages: [
-          { role: "system", content: CLASSIFICATION_PROMPT },
-          { role: "user", content: `Analyze this court order:\n\n${truncatedText}` }
-        ],
-        response_format: { type: "json_object" },
-        temperature: 0.1,
-      }),
-      `Classification order ${orderId}`
-    );
-
-    const content = response.choices[0]?.message?.content;
+    const { text: content } = await completeLlm({
+      task: "classification",
+      system: buildClassificationPrompt(resolved),
+      messages: [
+        { role: "user", text: `Analyze this court order. ${SECTIONED_TEXT_NOTE}\n\n${describeResolvedFields(resolved)}${truncatedText}` }
+      ],
+      json: true,
+      temperature: 0.1,
+      label: `Classification order ${orderId}`,
+      route,
+    });
+
     if (!content) {
       console.error(`No response content for order ${orderId}`);
       return null;
@@ -318,7 +327,7 @@ export async function classifyOrderText(orderId: number, text: string): Promise<
 
     let result: ClassificationResult;
     try {
-      result = JSON.parse(content) as ClassificationResult;
+      result = parseLlmJson(content) as ClassificationResult;
     } catch (parseError) {
       console.error(`JSON parse error for order ${orderId}:`, parseError);
       return null;
@@ -336,6 +345,119 @@ export async function classifyOrderText(orderId: number, text: string): Promise<
   }
 }
 
+async function locateSourceLocationsJson(orderId: number, classification: ClassificationResult): Promise<string | null> {
+  try {
+    const locations = await locateClassificationSources("bulk", orderId, classification);
+    return locations ? JSON.stringify(locations) : null;
+  } catch (error) {
+    // Locations are a convenience for the viewer and must not fail classification
+    console.error(`Error locating classification sources for order ${orderId}:`, error);
+    return null;
+  }
+}
+
+// Classification for an order the rules decided completely: no parties, summary or entities
+function buildRulesOnlyClassification(resolved: RuleResolvedFields, confidence: number): ClassificationResult {
+  return {
+    caseTitle: null,
+    caseNumber: null,
+    caseType: null,
+    caseCategory: resolved.caseCategory ?? null,
+    filingDate: null,
+    petitionerNames: null,
+    respondentNames: null,
+    petitionerAdvocates: null,
+    respondentAdvocates: null,
+    judgeName: null,
+    courtName: null,
+    courtDesignation: null,
+    statutoryProvisions: null,
+    statutoryActName: resolved.statutoryActName ?? null,
+    orderType: null,
+    orderSummary: null,
+    operativePortion: null,
+    nextHearingDate: null,
+    isSummonsOrder: resolved.isSummonsOrder ?? false,
+    isNoticeOrder: resolved.isNoticeOrder ?? false,
+    isFreshCaseAssignment: false,
+    isFirstHearing: false,
+    isFinalOrder: resolved.isFinalOrder ?? false,
+    hasBusinessEntity: false,
+    entityTypes: null,
+    classificationConfidence: confidence,
+    businessEntities: [],
+    personLeads: [],
+    freshCasePhrase: null,
+  };
+}
+
+// Null, blank and missing are the same "nothing found"; case and spacing differences are not disagreements.
+// Shared by the rule conflict check, the prompt version diff and the evaluation harness.
+export function normalizeClassificationValue(value: unknown): unknown {
+  if (value === null || value === undefined) return null;
+  if (typeof value === "string") {
+    const trimmed = value.replace(/\s+/g, " ").trim().toLowerCase();
+    return trimmed === "" ? null : trimmed;
+  }
+  if (typeof value === "boolean" || typeof value === "number") return value;
+  return null;
+}
+
+function findRuleConflicts(llmResult: ClassificationResult, resolved: RuleResolvedFields): RuleConflict[] {
+  const disagreements = Array.isArray(llmResult.ruleDisagreements) ? llmResult.ruleDisagreements : [];
+  return (Object.entries(resolved) as [keyof RuleResolvedFields, string | boolean][]).flatMap(([field, ruleValue]) => {
+    const disagreement = disagreements.find(d => d?.field === field);
+    if (!disagreement || normalizeClassificationValue(disagreement.value) === normalizeClassificationValue(ruleValue)) return [];
+    return [{ field, ruleValue, llmValue: disagreement.value ?? null }];
+  });
+}
+
+/**
+ * Combines the rule engine's decisions with the LLM's answer for everything
+ * else; the LLM is only asked for the fields the rules left open, and decided
+ * fields it says the text contradicts are returned as conflicts. Falls back to
+ * the rules alone when they decided every rule field and the LLM was skipped
+ * or failed; after a failure the confidence is capped so the row gets reviewed.
+ */
+export async function classifyWithRules(
+  orderId: number,
+  text: string,
+  evaluation: RuleEvaluation,
+  rulesOnly: boolean,
+  route?: LlmRouteOverride
+): Promise<{ classification: ClassificationResult; source: ClassificationSource; conflicts: RuleConflict[] } | null> {
+  const resolved = toResolvedFields(evaluation);
+
+  if (!rulesOnly) {
+    const llmResult = await classifyOrderText(orderId, text, resolved, route);
+    if (llmResult) {
+      const source = Object.keys(resolved).length > 0 ? "hybrid" : "llm";
+      const conflicts = findRuleConflicts(llmResult, resolved);
+      if (conflicts.length > 0) {
+        console.log(`[Rules] Order ${orderId}: LLM disagreed on ${conflicts.map(c => c.field).join(", ")}`);
+      }
+      const { ruleDisagreements: _disagreements, ...answered } = llmResult;
+      return { classification: { ...answered, ...resolved }, source, conflicts };
+    }
+  }
+
+  if (evaluation.unresolved.length > 0) {
+    if (rulesOnly) {
+      console.log(`[Rules] Order ${orderId} left for the LLM, unresolved: ${evaluation.unresolved.join(", ")}`);
+    }
+    return null;
+  }
+
+  return {
+    classification: buildRulesOnlyClassification(
+      resolved,
+      rulesOnly ? rulesConfidence(evaluation) : Math.min(rulesConfidence(evaluation), LLM_FAILED_CONFIDENCE_CAP)
+    ),
+    source: "rules",
+    conflicts: [],
+  };
+}
+
 function normalizeEntityName(name: string): string {
   return name
     .toLowerCase()
@@ -346,9 +468,11 @@ function normalizeEntityName(name: string): string {
 
 export async function classifyOrdersForJob(
   jobId: number,
-  orders: CnrOrder[]
+  orders: CnrOrder[],
+  options: { rulesOnly?: boolean } = {}
 ): Promise<void> {
   await storage.updateProcessingJobStarted(jobId);
+  const rules = await getActiveRules();
 
   let processed = 0;
   let successful = 0;
@@ -365,16 +489,54 @@ export async function classifyOrdersForJob(
         continue;
       }
 
-      const textToClassify = pdfText.cleanedText || pdfText.rawText;
-      const classification = await classifyOrderText(order.id, textToClassify);
+      // A reviewer's corrections are kept until the order is unlocked from the review screen
+      const currentMetadata = await storage.getOrderMetadataByOrderId(order.id);
+      if (currentMetadata?.isLocked) {
+        console.log(`[Review] Order ${order.id} is locked after review, skipping`);
+        successful++;
+        processed++;
+        await storage.updateProcessingJobProgress(jobId, processed, successful, failed);
+        continue;
+      }
+
+      // Identical PDF already classified with the current prompt: copy its metadata. Entity
+      // links and person leads stay on the original order so duplicates don't produce duplicate leads.
+      const existingMetadata = order.contentHash
+        ? await storage.getOrderMetadataByContentHash(order.contentHash, order.id)
+        : undefined;
+      if (existingMetadata?.promptVersion === CURRENT_CLASSIFICATION_PROMPT_VERSION) {
+        // The copy starts unreviewed even if the source order's classification was reviewed
+        const {
+          id: _id, cnrOrderId: sourceOrderId, classifiedAt: _classifiedAt,
+          reviewStatus: _reviewStatus, reviewedBy: _reviewedBy, reviewedAt: _reviewedAt, isLocked: _isLocked,
+          ...copied
+        } = existingMetadata;
+        await storage.replaceOrderMetadata({ ...copied, cnrOrderId: order.id });
+        console.log(`[Dedup] Reused classification from order ${sourceOrderId} for order ${order.id}`);
+        successful++;
+        processed++;
+        await storage.updateProcessingJobProgress(jobId, processed, successful, failed);
+        continue;
+      }
 
-      if (!classification) {
+      const fullText = pdfText.cleanedText || pdfText.rawText;
+      const sections = await getClassifierSections("bulk", order.id, pdfText);
+      const evaluation = evaluateRules(rules, { text: fullText, sections });
+      const result = await classifyWithRules(
+        order.id,
+        buildClassifierText(sections) ?? fullText,
+        evaluation,
+        options.rulesOnly ?? false
+      );
+
+      if (!result) {
         failed++;
         processed++;
         await storage.updateProcessingJobProgress(jobId, processed, successful, failed);
         continue;
       }
 
+      const { classification, source, conflicts } = result;
       const metadataInsert: InsertOrderMetadata = {
         cnrOrderId: order.id,
         caseTitle: classification.caseTitle,
@@ -403,11 +565,14 @@ export async function classifyOrdersForJob(
         isFinalOrder: classification.isFinalOrder,
         hasBusinessEntity: classification.hasBusinessEntity,
         entityTypes: classification.entityTypes,
+        sourceLocations: await locateSourceLocationsJson(order.id, classification),
         classificationConfidence: classification.classificationConfidence,
-        llmModelUsed: "gpt-4o",
+        llmModelUsed: source,
+        promptVersion: CURRENT_CLASSIFICATION_PROMPT_VERSION,
+        ruleConflicts: conflicts.length > 0 ? JSON.stringify(conflicts) : null,
       };
 
-      await storage.createOrderMetadata(metadataInsert);
+      await storage.replaceOrderMetadata(metadataInsert);
 
       if (classification.businessEntities && Array.isArray(classification.businessEntities) && classification.businessEntities.length > 0) {
         for (const entity of classification.businessEntities) {
@@ -442,7 +607,9 @@ export async function classifyOrdersForJob(
         }
       }
 
-      if (classification.isFreshCaseAssignment && classification.personLeads && Array.isArray(classification.personLeads) && classification.personLeads.length > 0) {
+      // A re-classified order keeps the leads it already produced, which may have been worked on
+      const hasPersonLeads = (await storage.getPersonLeadsByOrderId(order.id)).length > 0;
+      if (!hasPersonLeads && classification.isFreshCaseAssignment && classification.personLeads && Array.isArray(classification.personLeads) && classification.personLeads.length > 0) {
         for (const person of classification.personLeads) {
           if (!person || typeof person !== "object" || !person.name) {
             console.warn(`Skipping invalid person lead in order ${order.id}`);
@@ -0,0 +1,30 @@
+import type { District } from "@shared/schema";
+
+// CNR format: state code + code_prefix + establishment + zero-padded serial + 4-digit year
+export function buildCnrString(
+  district: District,
+  serial: number,
+  year: number,
+  establishmentCode: string = district.establishmentCode
+): string {
+  const paddedSerial = serial.toString().padStart(district.serialWidth, "0");
+  const yearStr = year.toString().slice(-4);
+  return `${district.stateCode}${district.codePrefix}${establishmentCode}${paddedSerial}${yearStr}`;
+}
+
+// Order PDF URL on the district site; orderDate is YYYY-MM-DD
+export function buildOrderUrl(
+  baseUrl: string,
+  cnr: string,
+  orderNo: number,
+  orderDate: string
+): { url: string; encodedPayload: string } {
+  const payload = JSON.stringify({
+    cino: cnr,
+    order_no: orderNo,
+    order_date: orderDate,
+  });
+  const encodedPayload = Buffer.from(payload).toString("base64");
+  const url = `${baseUrl}/wp-admin/admin-ajax.php?es_ajax_request=1&action=get_order_pdf&input_strings=${encodedPayload}`;
+  return { url, encodedPayload };
+}
@@ -0,0 +1,229 @@
+import * as XLSX from "xlsx";
+import { storage } from "./storage";
+import type { CnrImportRequest, InsertCnr } from "@shared/schema";
+import {
+  parseCNR,
+  getEstablishmentCodes,
+  getDistrictBaseUrls,
+  getAllAdvocates,
+  getCasesByCnrs,
+  createCasesBatch,
+} from "./direct-cnr";
+
+const MAX_IMPORT_ROWS = 5000;
+
+const CNR_HEADERS = ["cnr", "cnr_number", "cnr_no"];
+const ADVOCATE_HEADERS = ["advocate", "advocate_id", "advocate_name", "bar_council_id"];
+const PARTY_HEADERS = ["represented_party", "party", "perspective"];
+
+export type CnrImportRowStatus = "valid" | "invalid" | "duplicate" | "exists";
+
+export interface CnrImportRow {
+  row: number;
+  cnr: string;
+  status: CnrImportRowStatus;
+  error?: string;
+  districtId?: number;
+  establishmentId?: number | null;
+  serialNumber?: number;
+  year?: number;
+  advocateId?: number | null;
+  representedParty?: "petitioner" | "respondent" | null;
+}
+
+export interface CnrImportResult {
+  rows: CnrImportRow[];
+  summary: Record<CnrImportRowStatus, number>;
+}
+
+export class CnrImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CnrImportError";
+    Object.setPrototypeOf(this, CnrImportError.prototype);
+  }
+}
+
+type SheetRow = Record<string, unknown>;
+
+function readSheetRows(fileName: string, content: string): SheetRow[] {
+  const isWorkbook = /\.xlsx?$/i.test(fileName);
+  let workbook: XLSX.WorkBook;
+  try {
+    workbook = isWorkbook
+      ? XLSX.read(Buffer.from(content, "base64"), { type: "buffer" })
+      : XLSX.read(content, { type: "string", raw: true });
+  } catch {
+    throw new CnrImportError(`Could not read ${fileName} as ${isWorkbook ? "an Excel workbook" : "CSV"}`);
+  }
+
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  if (!sheet) return [];
+
+  // raw: false keeps CNRs and bar IDs as displayed text instead of numbers
+  const rows = XLSX.utils.sheet_to_json<SheetRow>(sheet, { defval: "", raw: false });
+  return rows.map(row => {
+    const normalized: SheetRow = {};
+    for (const [key, value] of Object.entries(row)) {
+      normalized[key.trim().toLowerCase().replace(/\s+/g, "_")] = value;
+    }
+    return normalized;
+  });
+}
+
+function pick(row: SheetRow, headers: string[]): string {
+  for (const header of headers) {
+    const value = row[header];
+    if (value !== undefined && String(value).trim() !== "") {
+      return String(value).trim();
+    }
+  }
+  return "";
+}
+
+/**
+ * Parses an uploaded CSV/XLSX of CNRs and validates every row with parseCNR
+ * against the configured districts and establishments. Nothing is written;
+ * rows come back with a status so the UI can show a preview.
+ *
+ * Expected columns: cnr (required), advocate (id, bar council ID or name)
+ * and represented_party (petitioner/respondent), the latter two only used
+ * for the direct workflow.
+ */
+export async function validateCnrImport(request: CnrImportRequest): Promise<CnrImportResult> {
+  const sheetRows = readSheetRows(request.fileName, request.content);
+  if (sheetRows.length === 0) {
+    throw new CnrImportError("File has no data rows");
+  }
+  if (sheetRows.length > MAX_IMPORT_ROWS) {
+    throw new CnrImportError(`File has ${sheetRows.length} rows; the limit is ${MAX_IMPORT_ROWS} per import`);
+  }
+
+  const [establishmentCodes, baseUrls, districts, establishments, advocates] = await Promise.all([
+    getEstablishmentCodes(),
+    getDistrictBaseUrls(),
+    storage.getDistricts(),
+    storage.getEstablishments(),
+    request.target === "direct" ? getAllAdvocates() : Promise.resolve([]),
+  ]);
+
+  const rows: CnrImportRow[] = [];
+  const seen = new Set<string>();
+
+  sheetRows.forEach((sheetRow, index) => {
+    // Header is row 1 in the spreadsheet
+    const row: CnrImportRow = { row: index + 2, cnr: pick(sheetRow, CNR_HEADERS), status: "valid" };
+    rows.push(row);
+
+    if (!row.cnr) {
+      row.status = "invalid";
+      row.error = "CNR is missing";
+      return;
+    }
+
+    const parsed = parseCNR(row.cnr, establishmentCodes, baseUrls);
+    if (!parsed) {
+      row.status = "invalid";
+      row.error = "Invalid CNR or unknown district/establishment";
+      return;
+    }
+    row.cnr = parsed.cnr;
+
+    const district = districts.find(d => d.stateCode === parsed.stateCode && d.codePrefix === parsed.districtCode);
+    if (!district) {
+      row.status = "invalid";
+      row.error = `District ${parsed.stateCode}${parsed.districtCode} is not configured`;
+      return;
+    }
+    row.districtId = district.id;
+    row.establishmentId = establishments.find(e => e.districtId === district.id && e.code === parsed.establishmentCode)?.id ?? null;
+    row.serialNumber = parsed.serialNumber;
+    row.year = parsed.year;
+
+    if (seen.has(parsed.cnr)) {
+      row.status = "duplicate";
+      row.error = "Repeated earlier in the file";
+      return;
+    }
+    seen.add(parsed.cnr);
+
+    if (request.target !== "direct") return;
+
+    const advocateRef = pick(sheetRow, ADVOCATE_HEADERS);
+    row.advocateId = null;
+    if (advocateRef) {
+      const advocate = advocates.find(a =>
+        String(a.id) === advocateRef ||
+        a.barCouncilId?.toLowerCase() === advocateRef.toLowerCase() ||
+        a.name.toLowerCase() === advocateRef.toLowerCase()
+      );
+      if (!advocate) {
+        row.status = "invalid";
+        row.error = `Unknown advocate "${advocateRef}"`;
+        return;
+      }
+      row.advocateId = advocate.id;
+    }
+
+    const party = pick(sheetRow, PARTY_HEADERS).toLowerCase();
+    row.representedParty = null;
+    if (party) {
+      if (party !== "petitioner" && party !== "respondent") {
+        row.status = "invalid";
+        row.error = `Represented party must be petitioner or respondent, got "${party}"`;
+        return;
+      }
+      row.representedParty = party;
+    }
+  });
+
+  const candidates = rows.filter(r => r.status === "valid").map(r => r.cnr);
+  const existing = request.target === "direct"
+    ? (await getCasesByCnrs(candidates)).map(c => c.cnr)
+    : (await storage.getCnrsByStrings(candidates)).map(c => c.cnr);
+  const existingSet = new Set(existing);
+  for (const row of rows) {
+    if (row.status === "valid" && existingSet.has(row.cnr)) {
+      row.status = "exists";
+      row.error = request.target === "direct" ? "Case already registered" : "CNR already exists";
+    }
+  }
+
+  const summary: Record<CnrImportRowStatus, number> = { valid: 0, invalid: 0, duplicate: 0, exists: 0 };
+  for (const row of rows) {
+    summary[row.status]++;
+  }
+
+  return { rows, summary };
+}
+
+/**
+ * Re-validates the file and inserts the valid rows into cnrs (bulk) or
+ * direct_cnr_cases (direct). Invalid, duplicate and existing rows are skipped;
+ * direct cases are created in one transaction, so a failure imports none.
+ */
+export async function commitCnrImport(request: CnrImportRequest): Promise<CnrImportResult & { imported: number }> {
+  const result = await validateCnrImport(request);
+  const validRows = result.rows.filter(r => r.status === "valid");
+
+  if (request.target === "bulk") {
+    const toCreate: InsertCnr[] = validRows.map(r => ({
+      districtId: r.districtId!,
+      establishmentId: r.establishmentId ?? null,
+      cnr: r.cnr,
+      serialNumber: r.serialNumber!,
+      year: r.year!,
+    }));
+    const created = await storage.createCnrsBatch(toCreate);
+    return { ...result, imported: created.length };
+  }
+
+  const created = await createCasesBatch(validRows.map(row => ({
+    cnr: row.cnr,
+    districtId: row.districtId!,
+    advocateId: row.advocateId ?? null,
+    representedParty: row.representedParty ?? null,
+    perspectiveSetAt: row.representedParty ? new Date() : null,
+  })));
+  return { ...result, imported: created.length };
+}
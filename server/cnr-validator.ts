@@ -0,0 +1,65 @@
+import { storage } from "./storage";
+import type { Cnr, CnrValidationDetails } from "@shared/schema";
+import { extractCaseDetails, type CaseDetails } from "./direct-cnr/ecourts-extractor";
+
+const DELAY_BETWEEN_CHECKS_MS = 2000;
+
+async function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+export function toCnrValidationDetails(details: CaseDetails): CnrValidationDetails {
+  if (details.status !== "success") {
+    return { validationError: details.error || "No record found" };
+  }
+  return {
+    caseType: details.caseDetails.caseType,
+    filingNumber: details.caseDetails.filingNumber,
+    filingDate: details.caseDetails.filingDate,
+    registrationNumber: details.caseDetails.registrationNumber,
+    registrationDate: details.caseDetails.registrationDate,
+    courtName: details.caseDetails.court,
+    petitionerName: details.parties.petitioner.name,
+    respondentName: details.parties.respondent.name,
+    caseStage: details.caseStatus.caseStage,
+    nextHearingDate: details.caseStatus.nextHearingDate,
+    validationError: null,
+  };
+}
+
+async function validateCnr(cnr: Cnr): Promise<boolean> {
+  const details = await extractCaseDetails(cnr.cnr);
+  const isValid = details.status === "success";
+  await storage.updateCnrValidation(cnr.id, isValid, toCnrValidationDetails(details));
+  return isValid;
+}
+
+export async function validateCnrsForJob(jobId: number, cnrsToCheck: Cnr[]): Promise<void> {
+  await storage.updateProcessingJobStarted(jobId);
+
+  let processed = 0;
+  let successful = 0;
+  let failed = 0;
+
+  for (const cnr of cnrsToCheck) {
+    try {
+      const isValid = await validateCnr(cnr);
+      console.log(`[CnrValidator] ${cnr.cnr}: ${isValid ? "valid" : "invalid"}`);
+      successful++;
+    } catch (error) {
+      // Leave isValid untouched so the CNR is picked up again by the next run
+      console.error(`[CnrValidator] Failed to check ${cnr.cnr}:`, error);
+      failed++;
+    }
+
+    processed++;
+    await storage.updateProcessingJobProgress(jobId, processed, successful, failed);
+
+    if (processed < cnrsToCheck.length) {
+      await sleep(DELAY_BETWEEN_CHECKS_MS);
+    }
+  }
+
+  const finalStatus = failed === cnrsToCheck.length ? "failed" : "completed";
+  await storage.updateProcessingJobStatus(jobId, finalStatus);
+}
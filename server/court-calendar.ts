@@ -0,0 +1,142 @@
+import type { CourtHoliday, District, InsertCourtHoliday } from "@shared/schema";
+
+const HOLIDAY_TYPES = ["gazetted", "restricted", "vacation", "local"];
+
+export interface HolidayCsvParseResult {
+  holidays: InsertCourtHoliday[];
+  errors: Array<{ line: number; error: string }>;
+}
+
+// Courts sit on restricted holidays; those are only optional leave for staff
+const NON_WORKING_HOLIDAY_TYPES = ["gazetted", "vacation", "local"];
+
+// Calendar dates only: 31-02-2024 or 2024-13-40 would fail the Postgres date insert
+function toValidDate(year: string, month: string, day: string): string | null {
+  const date = `${year}-${month.padStart(2, "0")}-${day.padStart(2, "0")}`;
+  const parsed = new Date(`${date}T00:00:00Z`);
+  return !isNaN(parsed.getTime()) && parsed.toISOString().slice(0, 10) === date ? date : null;
+}
+
+// Accepts YYYY-MM-DD, DD-MM-YYYY and DD/MM/YYYY, returns YYYY-MM-DD
+function normalizeDate(value: string): string | null {
+  const trimmed = value.trim();
+  let match = trimmed.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (match) {
+    return toValidDate(match[1], match[2], match[3]);
+  }
+  match = trimmed.match(/^(\d{1,2})[-/](\d{1,2})[-/](\d{4})$/);
+  if (match) {
+    return toValidDate(match[3], match[2], match[1]);
+  }
+  return null;
+}
+
+function splitCsvLine(line: string): string[] {
+  const cells: string[] = [];
+  let current = "";
+  let inQuotes = false;
+  for (const char of line) {
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (char === "," && !inQuotes) {
+      cells.push(current.trim());
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  cells.push(current.trim());
+  return cells;
+}
+
+/**
+ * Parses a yearly holiday list. Expected header:
+ *   start_date,end_date,name,type,district
+ * end_date may be blank for single-day holidays. district is a district
+ * code prefix (optionally state-qualified, e.g. HRGR) or name; blank means
+ * the holiday applies to all districts.
+ */
+export function parseHolidayCsv(csv: string, districts: District[]): HolidayCsvParseResult {
+  const holidays: InsertCourtHoliday[] = [];
+  const errors: Array<{ line: number; error: string }> = [];
+
+  const lines = csv.split(/\r?\n/);
+  const header = splitCsvLine(lines[0] || "").map(h => h.toLowerCase().replace(/\s+/g, "_"));
+  const col = (name: string) => header.indexOf(name);
+
+  const startIdx = col("start_date") >= 0 ? col("start_date") : col("date");
+  if (startIdx < 0 || col("name") < 0) {
+    return { holidays, errors: [{ line: 1, error: "Header must include start_date (or date) and name" }] };
+  }
+
+  for (let i = 1; i < lines.length; i++) {
+    const line = lines[i];
+    if (!line.trim()) continue;
+
+    const cells = splitCsvLine(line);
+    const lineNo = i + 1;
+
+    const startDate = normalizeDate(cells[startIdx] || "");
+    if (!startDate) {
+      errors.push({ line: lineNo, error: `Invalid start date "${cells[startIdx] || ""}"` });
+      continue;
+    }
+
+    const endRaw = col("end_date") >= 0 ? cells[col("end_date")] || "" : "";
+    const endDate = endRaw ? normalizeDate(endRaw) : startDate;
+    if (!endDate || endDate < startDate) {
+      errors.push({ line: lineNo, error: `Invalid end date "${endRaw}"` });
+      continue;
+    }
+
+    const name = cells[col("name")];
+    if (!name) {
+      errors.push({ line: lineNo, error: "Holiday name is required" });
+      continue;
+    }
+
+    const holidayType = (col("type") >= 0 ? cells[col("type")] : "")?.toLowerCase() || "gazetted";
+    if (!HOLIDAY_TYPES.includes(holidayType)) {
+      errors.push({ line: lineNo, error: `Unknown holiday type "${holidayType}"` });
+      continue;
+    }
+
+    let districtId: number | null = null;
+    const districtRef = col("district") >= 0 ? cells[col("district")] : "";
+    if (districtRef) {
+      const district = districts.find(d =>
+        d.codePrefix.toLowerCase() === districtRef.toLowerCase() ||
+        `${d.stateCode}${d.codePrefix}`.toLowerCase() === districtRef.toLowerCase() ||
+        d.name.toLowerCase() === districtRef.toLowerCase()
+      );
+      if (!district) {
+        errors.push({ line: lineNo, error: `Unknown district "${districtRef}"` });
+        continue;
+      }
+      districtId = district.id;
+    }
+
+    holidays.push({ districtId, name, holidayType, startDate, endDate });
+  }
+
+  return { holidays, errors };
+}
+
+/**
+ * Builds a predicate for order generation. Sundays are always non-working;
+ * everything else comes from the court_holidays table, except restricted
+ * holidays, on which courts still sit.
+ */
+export function createNonWorkingDayChecker(holidays: CourtHoliday[]): (dateStr: string, districtId: number) => boolean {
+  return (dateStr: string, districtId: number) => {
+    if (new Date(`${dateStr}T00:00:00Z`).getUTCDay() === 0) {
+      return true;
+    }
+    return holidays.some(h =>
+      NON_WORKING_HOLIDAY_TYPES.includes(h.holidayType) &&
+      (h.districtId === null || h.districtId === districtId) &&
+      h.startDate <= dateStr &&
+      h.endDate >= dateStr
+    );
+  };
+}
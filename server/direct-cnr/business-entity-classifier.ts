@@ -1,25 +1,8 @@
-import OpenAI from 'openai';
 import { db } from '../db';
 import { directCnrBusinessLeads, directCnrCases } from '@shared/schema';
 import { eq } from 'drizzle-orm';
 import { z } from 'zod';
-
-const API_TIMEOUT_MS = 30000;
-
-let openaiClient: OpenAI | null = null;
-
-function getOpenAI(): OpenAI {
-  if (!process.env.OPENAI_API_KEY) {
-    throw new Error("OPENAI_API_KEY is not configured");
-  }
-  if (!openaiClient) {
-    openaiClient = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY,
-      timeout: API_TIMEOUT_MS,
-    });
-  }
-  return openaiClient;
-}
+import { completeLlm, parseLlmJson } from '../llm';
 
 const businessEntityResultSchema = z.object({
   entities: z.array(z.object({
@@ -200,32 +183,22 @@ export async function classifyBusinessEntities(
   }
 
   try {
-    const openai = getOpenAI();
-
     const partyList = parties.map((p, i) => `${i + 1}. ${p.name} (${p.role})`).join('\n');
 
-    const completion = await openai.chat.completions.create({
-      model: 'gpt-4o',
-      messages: [
-        {
-          role: 'system',
-          content: BUSINESS_ENTITY_CLASSIFICATION_PROMPT,
-        },
-        {
-          role: 'user',
-          content: partyList,
-        },
-      ],
-      response_format: { type: 'json_object' },
+    const { text: content } = await completeLlm({
+      task: 'entity',
+      system: BUSINESS_ENTITY_CLASSIFICATION_PROMPT,
+      messages: [{ role: 'user', text: partyList }],
+      json: true,
       temperature: 0.1,
+      label: `BusinessEntity case ${caseId}`,
     });
 
-    const content = completion.choices[0]?.message?.content;
     if (!content) {
-      throw new Error('Empty response from OpenAI');
+      throw new Error('Empty response from the LLM');
     }
 
-    const parsed = JSON.parse(content);
+    const parsed = parseLlmJson(content);
     const result = businessEntityResultSchema.parse(parsed);
 
     let leadsCreated = 0;
@@ -1,10 +1,11 @@
 import { db } from '../db';
-import { directCnrCases, directCnrAdvocates, directCnrOrders, directCnrMonitoring, districts } from '@shared/schema';
-import { eq, and } from 'drizzle-orm';
-import type { DirectCnrCase, InsertDirectCnrCase, DirectCnrAdvocate, InsertDirectCnrAdvocate } from '@shared/schema';
+import { directCnrCases, directCnrAdvocates, directCnrOrders, directCnrMonitoring, districts, establishments } from '@shared/schema';
+import { eq, and, inArray } from 'drizzle-orm';
+import type { DirectCnrCase, InsertDirectCnrCase, DirectCnrAdvocate, InsertDirectCnrAdvocate, Establishment } from '@shared/schema';
 
 export interface ParsedCNR {
   cnr: string;
+  stateCode: string;
   districtCode: string;
   establishmentCode: string;
   serialNumber: number;
@@ -12,50 +13,89 @@ export interface ParsedCNR {
   baseUrl: string;
 }
 
+export interface ResolvedCNR extends ParsedCNR {
+  districtId: number;
+  districtName: string;
+  establishment: Establishment | null;
+}
+
+// Keyed by state code + district code (first four CNR characters). Used when the
+// districts table isn't consulted; resolveCNR reads the configured districts instead.
 const DISTRICT_MAPPING: Record<string, string> = {
-  'CT': 'https://centraldelhi.dcourts.gov.in',
-  'ET': 'https://eastdelhi.dcourts.gov.in',
-  'ND': 'https://newdelhidc.dcourts.gov.in',
-  'NT': 'https://northdelhi.dcourts.gov.in',
-  'NE': 'https://northeastdelhi.dcourts.gov.in',
-  'NW': 'https://rohini.dcourts.gov.in',
-  'SH': 'https://shahdara.dcourts.gov.in',
-  'ST': 'https://southdelhi.dcourts.gov.in',
-  'SE': 'https://southeastdelhi.dcourts.gov.in',
-  'SW': 'https://southwestdelhi.dcourts.gov.in',
-  'WT': 'https://westdelhi.dcourts.gov.in'
+  'DLCT': 'https://centraldelhi.dcourts.gov.in',
+  'DLET': 'https://eastdelhi.dcourts.gov.in',
+  'DLND': 'https://newdelhidc.dcourts.gov.in',
+  'DLNT': 'https://northdelhi.dcourts.gov.in',
+  'DLNE': 'https://northeastdelhi.dcourts.gov.in',
+  'DLNW': 'https://rohini.dcourts.gov.in',
+  'DLSH': 'https://shahdara.dcourts.gov.in',
+  'DLST': 'https://southdelhi.dcourts.gov.in',
+  'DLSE': 'https://southeastdelhi.dcourts.gov.in',
+  'DLSW': 'https://southwestdelhi.dcourts.gov.in',
+  'DLWT': 'https://westdelhi.dcourts.gov.in',
+  'HRGR': 'https://gurugram.dcourts.gov.in',
+  'UPGB': 'https://gautambudhnagar.dcourts.gov.in',
+  'UPGZ': 'https://ghaziabad.dcourts.gov.in'
 };
 
-export function parseCNR(cnr: string): ParsedCNR | null {
+/**
+ * True when the CNR has the 16-character shape and a plausible filing year,
+ * whatever its district and establishment codes.
+ */
+export function isWellFormedCNR(cnr: string): boolean {
   const normalizedCnr = cnr.toUpperCase().replace(/\s/g, '');
-  
-  // Allow establishment codes 00-10 and years from 2010 onwards
-  if (!/^DL[A-Z]{2}(0\d|10)\d{6}\d{4}$/.test(normalizedCnr)) {
+  if (!/^[A-Z]{2}[A-Z]{2}\d{2}\d{6}\d{4}$/.test(normalizedCnr)) {
+    return false;
+  }
+
+  // Accept years from 2010 to current year + 1
+  const year = parseInt(normalizedCnr.substring(12, 16));
+  return year >= 2010 && year <= new Date().getFullYear() + 1;
+}
+
+/**
+ * Parses a CNR (state + district + establishment + serial + year). When
+ * `establishmentCodes` (state+district code -> registered establishment codes)
+ * is given, the establishment must be one of them; otherwise any code from
+ * 00-10 is accepted. `baseUrls` maps state+district codes to district sites.
+ */
+export function parseCNR(
+  cnr: string,
+  establishmentCodes?: Record<string, string[]>,
+  baseUrls: Record<string, string> = DISTRICT_MAPPING
+): ParsedCNR | null {
+  if (!isWellFormedCNR(cnr)) {
     return null;
   }
 
+  const normalizedCnr = cnr.toUpperCase().replace(/\s/g, '');
+
+  const stateCode = normalizedCnr.substring(0, 2);
   const districtCode = normalizedCnr.substring(2, 4);
+  const districtKey = stateCode + districtCode;
   const establishmentCode = normalizedCnr.substring(4, 6);
   const serialNumber = parseInt(normalizedCnr.substring(6, 12));
   const year = parseInt(normalizedCnr.substring(12, 16));
 
-  // Accept years from 2010 to current year + 1
-  const currentYear = new Date().getFullYear();
-  if (year < 2010 || year > currentYear + 1) {
-    return null;
-  }
-  
-  // Validate establishment code is between 00-10
-  const estCode = parseInt(establishmentCode);
-  if (estCode < 0 || estCode > 10) {
-    return null;
+  const knownCodes = establishmentCodes?.[districtKey];
+  if (knownCodes && knownCodes.length > 0) {
+    if (!knownCodes.includes(establishmentCode)) {
+      return null;
+    }
+  } else {
+    // Validate establishment code is between 00-10
+    const estCode = parseInt(establishmentCode);
+    if (estCode < 0 || estCode > 10) {
+      return null;
+    }
   }
 
-  const baseUrl = DISTRICT_MAPPING[districtCode];
+  const baseUrl = baseUrls[districtKey];
   if (!baseUrl) return null;
 
   return {
     cnr: normalizedCnr,
+    stateCode,
     districtCode,
     establishmentCode,
     serialNumber,
@@ -64,10 +104,78 @@ export function parseCNR(cnr: string): ParsedCNR | null {
   };
 }
 
-export async function getDistrictByCode(codePrefix: string): Promise<{ id: number; baseUrl: string } | null> {
+export async function getEstablishmentCodes(): Promise<Record<string, string[]>> {
+  const rows = await db.select({
+    stateCode: districts.stateCode,
+    districtCode: districts.codePrefix,
+    code: establishments.code,
+  })
+    .from(establishments)
+    .innerJoin(districts, eq(establishments.districtId, districts.id))
+    .where(eq(establishments.isActive, true));
+
+  const codes: Record<string, string[]> = {};
+  for (const row of rows) {
+    (codes[row.stateCode + row.districtCode] ||= []).push(row.code);
+  }
+  return codes;
+}
+
+export async function getDistrictBaseUrls(): Promise<Record<string, string>> {
+  const rows = await db.select({
+    stateCode: districts.stateCode,
+    districtCode: districts.codePrefix,
+    baseUrl: districts.baseUrl,
+  })
+    .from(districts)
+    .where(eq(districts.isActive, true));
+
+  const baseUrls: Record<string, string> = {};
+  for (const row of rows) {
+    baseUrls[row.stateCode + row.districtCode] = row.baseUrl;
+  }
+  return baseUrls;
+}
+
+/**
+ * parseCNR against the configured districts and establishments, returning
+ * the matching rows. Districts with no establishments registered fall back
+ * to the plain 00-10 range check.
+ */
+export async function resolveCNR(cnr: string): Promise<ResolvedCNR | null> {
+  const [establishmentCodes, baseUrls] = await Promise.all([getEstablishmentCodes(), getDistrictBaseUrls()]);
+  const parsed = parseCNR(cnr, establishmentCodes, baseUrls);
+  if (!parsed) return null;
+
   const [district] = await db.select()
     .from(districts)
-    .where(eq(districts.codePrefix, codePrefix))
+    .where(and(
+      eq(districts.stateCode, parsed.stateCode),
+      eq(districts.codePrefix, parsed.districtCode)
+    ))
+    .limit(1);
+  if (!district) return null;
+
+  const [establishment] = await db.select()
+    .from(establishments)
+    .where(and(
+      eq(establishments.districtId, district.id),
+      eq(establishments.code, parsed.establishmentCode)
+    ))
+    .limit(1);
+
+  return {
+    ...parsed,
+    districtId: district.id,
+    districtName: district.name,
+    establishment: establishment || null
+  };
+}
+
+export async function getDistrictByCode(codePrefix: string, stateCode = 'DL'): Promise<{ id: number; baseUrl: string } | null> {
+  const [district] = await db.select()
+    .from(districts)
+    .where(and(eq(districts.stateCode, stateCode), eq(districts.codePrefix, codePrefix)))
     .limit(1);
   
   if (!district) return null;
@@ -100,6 +208,26 @@ export async function createCase(data: InsertDirectCnrCase): Promise<DirectCnrCa
   return newCase;
 }
 
+// All or nothing: a failure partway through leaves no cases behind
+export async function createCasesBatch(data: InsertDirectCnrCase[]): Promise<DirectCnrCase[]> {
+  if (data.length === 0) return [];
+  const CHUNK_SIZE = 100;
+  return db.transaction(async (tx) => {
+    const created: DirectCnrCase[] = [];
+    for (let i = 0; i < data.length; i += CHUNK_SIZE) {
+      created.push(...await tx.insert(directCnrCases).values(data.slice(i, i + CHUNK_SIZE)).returning());
+    }
+    return created;
+  });
+}
+
+export async function getCasesByCnrs(cnrList: string[]): Promise<DirectCnrCase[]> {
+  if (cnrList.length === 0) return [];
+  return db.select()
+    .from(directCnrCases)
+    .where(inArray(directCnrCases.cnr, cnrList));
+}
+
 export async function getCaseById(id: number): Promise<DirectCnrCase | null> {
   const [caseRecord] = await db.select()
     .from(directCnrCases)
@@ -1,64 +1,11 @@
-import OpenAI from 'openai';
 import { db } from '../db';
 import { directCnrOrders, directCnrSummaries, directCnrPdfTexts } from '@shared/schema';
-import { eq } from 'drizzle-orm';
+import { eq, and, ne } from 'drizzle-orm';
 import type { DirectCnrOrder, DirectCnrSummary, InsertDirectCnrSummary } from '@shared/schema';
 import { z } from 'zod';
-
-const API_TIMEOUT_MS = 60000;
-const MAX_RETRIES = 3;
-const INITIAL_RETRY_DELAY_MS = 1000;
-
-let openaiClient: OpenAI | null = null;
-
-function getOpenAI(): OpenAI {
-  if (!process.env.OPENAI_API_KEY) {
-    throw new Error("OPENAI_API_KEY is not configured");
-  }
-  if (!openaiClient) {
-    openaiClient = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY,
-      timeout: API_TIMEOUT_MS,
-      maxRetries: 0,
-    });
-  }
-  return openaiClient;
-}
-
-async function sleep(ms: number): Promise<void> {
-  return new Promise(resolve => setTimeout(resolve, ms));
-}
-
-async function withRetry<T>(
-  operation: () => Promise<T>,
-  operationName: string
-): Promise<T> {
-  let lastError: Error | null = null;
-
-  for (let attempt = 1; attempt <= MAX_RETRIES; attempt++) {
-    try {
-      return await operation();
-    } catch (error) {
-      lastError = error as Error;
-      const isRetryable =
-        error instanceof Error &&
-        (error.message.includes("timeout") ||
-          error.message.includes("rate_limit") ||
-          error.message.includes("429") ||
-          error.message.includes("503"));
-
-      if (!isRetryable || attempt === MAX_RETRIES) {
-        throw error;
-      }
-
-      const delay = INITIAL_RETRY_DELAY_MS * Math.pow(2, attempt - 1);
-      console.log(`${operationName} attempt ${attempt} failed, retrying in ${delay}ms...`);
-      await sleep(delay);
-    }
-  }
-
-  throw lastError;
-}
+import { completeLlm, parseLlmJson } from '../llm';
+import { locateClassificationSources, getClassifierText } from '../pdf-text-pages';
+import { SECTIONED_TEXT_NOTE } from '../order-segmenter';
 
 const classificationResultSchema = z.object({
   caseTitle: z.string().nullable().default(null),
@@ -158,41 +105,37 @@ export async function classifyDirectCnrOrder(
   orderId: number,
   text: string,
   perspective?: string | null
-): Promise<DirectCnrClassificationResult | null> {
-  const openai = getOpenAI();
+): Promise<{ result: DirectCnrClassificationResult; model: string } | null> {
   const truncatedText = text.length > 15000 ? text.substring(0, 15000) + "..." : text;
   const perspectiveAddition = getPerspectivePromptAddition(perspective || null);
   const fullPrompt = DIRECT_CNR_CLASSIFICATION_PROMPT + perspectiveAddition;
 
   try {
-    const response = await withRetry(
-      async () => openai.chat.completions.create({
-        model: "gpt-4o",
-        messages: [
-          { role: "system", content: fullPrompt },
-          { role: "user", content: `Analyze this court order:\n\n${truncatedText}` }
-        ],
-        response_format: { type: "json_object" },
-        temperature: 0.1,
-      }),
-      `DirectCNR Classification order ${orderId}`
-    );
-
-    const content = response.choices[0]?.message?.content;
+    const { text: content, model } = await completeLlm({
+      task: 'classification',
+      system: fullPrompt,
+      messages: [
+        { role: 'user', text: `Analyze this court order. ${SECTIONED_TEXT_NOTE}\n\n${truncatedText}` }
+      ],
+      json: true,
+      temperature: 0.1,
+      label: `DirectCNR Classification order ${orderId}`,
+    });
+
     if (!content) {
       console.error(`[DirectCNR-Classifier] No response for order ${orderId}`);
       return null;
     }
 
-    const rawResult = JSON.parse(content);
+    const rawResult = parseLlmJson(content);
     const validationResult = classificationResultSchema.safeParse(rawResult);
     
     if (!validationResult.success) {
       console.error(`[DirectCNR-Classifier] Invalid response format for order ${orderId}:`, validationResult.error.errors);
-      return classificationResultSchema.parse({});
+      return { result: classificationResultSchema.parse({}), model };
     }
     
-    return validationResult.data;
+    return { result: validationResult.data, model };
   } catch (error) {
     console.error(`[DirectCNR-Classifier] Error classifying order ${orderId}:`, error);
     return null;
@@ -210,35 +153,33 @@ export async function classifyAndSaveOrder(order: DirectCnrOrder, perspective?:
     return false;
   }
 
-  const textToClassify = pdfText.cleanedText || pdfText.rawText;
-  const result = await classifyDirectCnrOrder(order.id, textToClassify, perspective);
-
-  if (!result) {
-    return false;
-  }
-
   const existingSummary = await db.select()
     .from(directCnrSummaries)
     .where(eq(directCnrSummaries.orderId, order.id))
     .limit(1);
 
-  const summaryData: InsertDirectCnrSummary = {
-    orderId: order.id,
-    caseTitle: result.caseTitle,
-    caseCategory: result.caseCategory,
-    statutoryActName: result.statutoryActName,
-    orderType: result.orderType,
-    orderSummary: result.orderSummary,
-    operativePortion: result.operativePortion,
-    nextHearingDate: result.nextHearingDate,
-    isFinalOrder: result.isFinalOrder,
-    isSummonsOrder: result.isSummonsOrder,
-    isNoticeOrder: result.isNoticeOrder,
-    preparationNotes: result.preparationNotes,
-    actionItems: JSON.stringify(result.actionItems),
-    classificationConfidence: result.classificationConfidence,
-    llmModelUsed: 'gpt-4o'
-  };
+  // An identical PDF in the same case has already been summarised. Summaries are
+  // perspective-specific, so this only applies outside a perspective change.
+  const reused = !perspective && order.contentHash
+    ? await findSummaryByHash(order.caseId, order.contentHash, order.id)
+    : null;
+
+  let summaryData: InsertDirectCnrSummary;
+  if (reused) {
+    const { id: _id, orderId: sourceOrderId, classifiedAt: _classifiedAt, ...copied } = reused;
+    summaryData = { ...copied, orderId: order.id };
+    console.log(`[DirectCNR-Classifier] Order ${order.id}: reused summary from order ${sourceOrderId}`);
+  } else {
+    const textToClassify = await getClassifierText('direct', order.id, pdfText);
+    const classification = await classifyDirectCnrOrder(order.id, textToClassify, perspective);
+
+    if (!classification) {
+      return false;
+    }
+
+    summaryData = buildSummaryData(order.id, classification.result, classification.model);
+    summaryData.sourceLocations = await locateSourceLocationsJson(order.id, classification.result);
+  }
 
   if (existingSummary.length > 0) {
     await db.update(directCnrSummaries)
@@ -263,6 +204,52 @@ export async function classifyAndSaveOrder(order: DirectCnrOrder, perspective?:
   return true;
 }
 
+async function findSummaryByHash(caseId: number, contentHash: string, excludeOrderId: number): Promise<DirectCnrSummary | null> {
+  const [existing] = await db.select({ summary: directCnrSummaries })
+    .from(directCnrSummaries)
+    .innerJoin(directCnrOrders, eq(directCnrSummaries.orderId, directCnrOrders.id))
+    .where(and(
+      eq(directCnrOrders.caseId, caseId),
+      eq(directCnrOrders.contentHash, contentHash),
+      ne(directCnrOrders.id, excludeOrderId)
+    ))
+    .limit(1);
+  return existing?.summary || null;
+}
+
+async function locateSourceLocationsJson(orderId: number, result: DirectCnrClassificationResult): Promise<string | null> {
+  try {
+    const locations = await locateClassificationSources('direct', orderId, {
+      operativePortion: result.operativePortion,
+      nextHearingDate: result.nextHearingDate
+    });
+    return locations ? JSON.stringify(locations) : null;
+  } catch (error) {
+    console.error(`[DirectCNR-Classifier] Error locating sources for order ${orderId}:`, error);
+    return null;
+  }
+}
+
+function buildSummaryData(orderId: number, result: DirectCnrClassificationResult, model: string): InsertDirectCnrSummary {
+  return {
+    orderId,
+    caseTitle: result.caseTitle,
+    caseCategory: result.caseCategory,
+    statutoryActName: result.statutoryActName,
+    orderType: result.orderType,
+    orderSummary: result.orderSummary,
+    operativePortion: result.operativePortion,
+    nextHearingDate: result.nextHearingDate,
+    isFinalOrder: result.isFinalOrder,
+    isSummonsOrder: result.isSummonsOrder,
+    isNoticeOrder: result.isNoticeOrder,
+    preparationNotes: result.preparationNotes,
+    actionItems: JSON.stringify(result.actionItems),
+    classificationConfidence: result.classificationConfidence,
+    llmModelUsed: model
+  };
+}
+
 export async function classifyAllOrdersForCase(caseId: number, perspective?: string | null): Promise<{
   total: number;
   successful: number;
@@ -1,5 +1,6 @@
 import { chromium, Page } from 'playwright';
-import OpenAI from 'openai';
+import { withCassette } from '../cassettes';
+import { completeLlm } from '../llm';
 
 const ECOURTS_URL = "https://services.ecourts.gov.in/ecourtindia_v6/";
 const CNR_INPUT_FIELD_ID = "#cino";
@@ -8,21 +9,6 @@ const SEARCH_BUTTON_ID = "#searchbtn";
 const CAPTCHA_IMAGE_PATTERN = 'img[src*="securimage"]';
 const MAX_RETRIES = 5;
 
-let openaiClient: OpenAI | null = null;
-
-function getOpenAI(): OpenAI {
-  if (!process.env.OPENAI_API_KEY) {
-    throw new Error("OPENAI_API_KEY is not configured");
-  }
-  if (!openaiClient) {
-    openaiClient = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY,
-      timeout: 30000,
-    });
-  }
-  return openaiClient;
-}
-
 export interface CaseDetails {
   status: 'success' | 'error';
   cnr: string;
@@ -60,30 +46,18 @@ export interface CaseDetails {
 }
 
 async function solveCaptcha(captchaImageBytes: Buffer): Promise<string> {
-  const openai = getOpenAI();
-  const base64Image = captchaImageBytes.toString('base64');
-
-  const response = await openai.chat.completions.create({
-    model: "gpt-4o",
+  const response = await completeLlm({
+    task: 'captcha',
     messages: [{
-      role: "user",
-      content: [
-        {
-          type: "text",
-          text: "Read this CAPTCHA image and return ONLY the 6 characters exactly as shown. No explanation, no spaces, just the 6 characters. Preserve the exact case (uppercase/lowercase). Be very careful with similar looking characters like 0/O, 1/l/I, 5/S, 8/B."
-        },
-        {
-          type: "image_url",
-          image_url: {
-            url: `data:image/png;base64,${base64Image}`
-          }
-        }
-      ]
+      role: 'user',
+      text: "Read this CAPTCHA image and return ONLY the 6 characters exactly as shown. No explanation, no spaces, just the 6 characters. Preserve the exact case (uppercase/lowercase). Be very careful with similar looking characters like 0/O, 1/l/I, 5/S, 8/B.",
+      images: [{ mimeType: 'image/png', data: captchaImageBytes.toString('base64') }]
     }],
-    max_tokens: 20
+    maxTokens: 20,
+    label: 'eCourts CAPTCHA'
   });
 
-  const solution = response.choices[0].message.content?.trim() || '';
+  const solution = response.text.trim();
 
   if (!/^[a-zA-Z0-9]{6}$/.test(solution)) {
     throw new Error(`Invalid CAPTCHA solution format: ${solution}`);
@@ -328,7 +302,12 @@ async function parseECourtsPage(page: Page, cnr: string): Promise<CaseDetails> {
   };
 }
 
+// Recorded per CNR rather than per request: the CAPTCHA differs on every visit
 export async function extractCaseDetails(cnr: string): Promise<CaseDetails> {
+  return withCassette('ecourts-case', { cnr }, () => scrapeCaseDetails(cnr));
+}
+
+async function scrapeCaseDetails(cnr: string): Promise<CaseDetails> {
   console.log(`[eCourts] Starting extraction for CNR: ${cnr}`);
   
   const browser = await chromium.launch({ 
@@ -2,11 +2,18 @@ export { directCnrRouter } from './routes';
 export { extractCaseDetails, type CaseDetails } from './ecourts-extractor';
 export { 
   parseCNR, 
+  isWellFormedCNR,
+  resolveCNR,
+  getEstablishmentCodes,
+  getDistrictBaseUrls,
   type ParsedCNR, 
+  type ResolvedCNR,
   createAdvocate, 
   getAllAdvocates, 
   createCase, 
+  createCasesBatch,
   getCaseByCnr, 
+  getCasesByCnrs,
   getCaseById, 
   getAllCases,
   getCaseWithOrders
@@ -16,7 +23,7 @@ export {
   createOrdersFromECourtsData, 
   getOrdersByCase 
 } from './order-generator';
-export { downloadPdfWithZenRows, downloadAllPdfsForCase } from './pdf-downloader';
+export { downloadOrderPdf, downloadAllPdfsForCase, attachReleasedPdf, getFetchAttemptsForOrder, getDuplicatePdfGroups, type DirectDuplicatePdfGroup } from './pdf-downloader';
 export { extractTextForOrder, extractTextForAllOrders } from './text-extractor';
 export { classifyAndSaveOrder, classifyAllOrdersForCase, getSummaryByOrderId } from './classifier';
 export { 
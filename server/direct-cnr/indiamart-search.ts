@@ -1,26 +1,8 @@
-import { GoogleGenAI } from "@google/genai";
 import { db } from '../db';
 import { directCnrBusinessLeads } from '@shared/schema';
 import { eq } from 'drizzle-orm';
 import { z } from 'zod';
-
-let geminiClient: GoogleGenAI | null = null;
-
-function getGemini(): GoogleGenAI {
-  if (!process.env.AI_INTEGRATIONS_GEMINI_API_KEY || !process.env.AI_INTEGRATIONS_GEMINI_BASE_URL) {
-    throw new Error("Gemini AI Integrations not configured");
-  }
-  if (!geminiClient) {
-    geminiClient = new GoogleGenAI({
-      apiKey: process.env.AI_INTEGRATIONS_GEMINI_API_KEY,
-      httpOptions: {
-        apiVersion: "",
-        baseUrl: process.env.AI_INTEGRATIONS_GEMINI_BASE_URL,
-      },
-    });
-  }
-  return geminiClient;
-}
+import { completeLlm, parseLlmJson } from '../llm';
 
 const indiamartSearchResultSchema = z.object({
   found: z.boolean(),
@@ -109,59 +91,30 @@ export async function searchIndiamartProfile(
   businessName: string
 ): Promise<{ success: boolean; result?: IndiamartSearchResult; error?: string }> {
   try {
-    const ai = getGemini();
-
     const searchQuery = `site:indiamart.com "${businessName}"`;
 
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash",
-      contents: [
-        {
-          role: "user",
-          parts: [
-            {
-              text: `${INDIAMART_SEARCH_PROMPT}
+    const response = await completeLlm({
+      task: 'search',
+      messages: [{
+        role: 'user',
+        text: `${INDIAMART_SEARCH_PROMPT}
 
 Business Name: ${businessName}
 Search Query: ${searchQuery}
 
 Use your knowledge from Google Search to find this business on IndiaMART. Return JSON response.`
-            }
-          ]
-        }
-      ],
-      config: {
-        responseMimeType: "application/json",
-      }
+      }],
+      json: true,
+      label: `IndiamartSearch "${businessName}"`
     });
 
-    // Handle both direct text property and candidates array structure
-    let content = response.text;
-    if (!content && response.candidates?.[0]?.content?.parts?.[0]) {
-      const part = response.candidates[0].content.parts[0];
-      content = (part as any).text || '';
-    }
-    
-    console.log(`[IndiamartSearch] Raw response for "${businessName}":`, JSON.stringify(response).substring(0, 500));
-    
-    if (!content) {
-      throw new Error('Empty response from Gemini - no text content found');
-    }
+    console.log(`[IndiamartSearch] Raw response for "${businessName}":`, response.text.substring(0, 500));
 
-    // Clean potential markdown code blocks from response
-    let cleanedContent = content.trim();
-    if (cleanedContent.startsWith('```json')) {
-      cleanedContent = cleanedContent.slice(7);
-    }
-    if (cleanedContent.startsWith('```')) {
-      cleanedContent = cleanedContent.slice(3);
-    }
-    if (cleanedContent.endsWith('```')) {
-      cleanedContent = cleanedContent.slice(0, -3);
+    if (!response.text) {
+      throw new Error(`Empty response from ${response.provider} - no text content found`);
     }
-    cleanedContent = cleanedContent.trim();
 
-    const parsed = JSON.parse(cleanedContent);
+    const parsed = parseLlmJson(response.text);
     const result = indiamartSearchResultSchema.parse(parsed);
 
     await db.update(directCnrBusinessLeads)
@@ -104,6 +104,8 @@ export function sanitizeErrorMessage(error: unknown): string {
       /authorization/i,
       /zenrows/i,
       /openai/i,
+      /gemini/i,
+      /mistral/i,
       /proxy/i,
       /internal server/i
     ];
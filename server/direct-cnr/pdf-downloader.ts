@@ -1,32 +1,10 @@
-import axios from 'axios';
 import { db } from '../db';
-import { directCnrOrders } from '@shared/schema';
-import { eq } from 'drizzle-orm';
-import type { DirectCnrOrder } from '@shared/schema';
+import { directCnrOrders, directCnrCases, pdfFetchAttempts } from '@shared/schema';
+import { eq, and, desc, sql, count } from 'drizzle-orm';
+import type { DirectCnrOrder, PdfFetchAttempt, PdfFetchStrategy } from '@shared/schema';
 import { ObjectStorageService } from '../objectStorage';
-
-const ALLOWED_COURT_DOMAINS = [
-  'dcourts.gov.in',
-  'ecourts.gov.in',
-];
-
-function isAllowedUrl(url: string): boolean {
-  try {
-    const parsedUrl = new URL(url);
-    const hostname = parsedUrl.hostname.toLowerCase();
-    return ALLOWED_COURT_DOMAINS.some(domain =>
-      hostname === domain || hostname.endsWith('.' + domain)
-    );
-  } catch {
-    return false;
-  }
-}
-
-function isValidPdf(buffer: Buffer): boolean {
-  if (buffer.length < 8) return false;
-  const header = buffer.slice(0, 8).toString('ascii');
-  return header.startsWith('%PDF-');
-}
+import { fetchPdf, getPdfFetchChain, closePdfFetchers, toAttemptRecords, type PdfFetcher } from '../pdf-fetchers';
+import { quarantineRejectedPdfs } from '../pdf-quarantine';
 
 export interface PdfDownloadResult {
   success: boolean;
@@ -36,132 +14,112 @@ export interface PdfDownloadResult {
   httpStatus?: number;
 }
 
-export async function downloadPdfWithZenRows(
+async function savePdfForOrder(
+  order: DirectCnrOrder,
+  cnr: string,
+  buffer: Buffer,
+  httpStatus: number | null,
+  source: string
+): Promise<string> {
+  const objectStorageService = new ObjectStorageService();
+  const { objectPath: pdfPath, contentHash, deduplicated } = await objectStorageService.storePdf(buffer, cnr, order.orderNo);
+
+  console.log(`[DirectCNR-PDF] PDF ${deduplicated ? 'matched existing copy' : 'saved'} ${source}: ${pdfPath} (${buffer.length} bytes)`);
+
+  await db.update(directCnrOrders)
+    .set({
+      pdfExists: true,
+      pdfPath,
+      pdfSizeBytes: buffer.length,
+      contentHash,
+      httpStatusCode: httpStatus,
+      errorMessage: null,
+      lastAttemptAt: new Date(),
+      updatedAt: new Date()
+    })
+    .where(eq(directCnrOrders.id, order.id));
+
+  return pdfPath;
+}
+
+/**
+ * Downloads one order PDF through the shared fetcher chain and records every
+ * attempt. Pass `chain` to reuse one resolved chain across a batch.
+ */
+export async function downloadOrderPdf(
   order: DirectCnrOrder,
-  cnr: string
+  cnr: string,
+  chain: PdfFetcher[] = getPdfFetchChain(),
+  districtId: number | null = null
 ): Promise<PdfDownloadResult> {
-  const apiKey = process.env.ZENROWS_API_KEY;
-  if (!apiKey) {
-    return { success: false, error: 'ZENROWS_API_KEY not configured' };
-  }
+  console.log(`[DirectCNR-PDF] Downloading PDF for order ${order.id}: ${order.url}`);
 
-  if (!isAllowedUrl(order.url)) {
-    console.error(`[DirectCNR-PDF] URL not allowed: ${order.url}`);
-    return {
-      success: false,
-      error: 'URL not allowed. Only Delhi court domains are permitted.'
-    };
+  const result = await fetchPdf(order.url, chain);
+  if (result.attempts.length > 0) {
+    await db.insert(pdfFetchAttempts).values(toAttemptRecords('direct', order.id, result.attempts, { districtId }));
   }
 
-  try {
-    console.log(`[DirectCNR-PDF] Downloading PDF for order ${order.id}: ${order.url}`);
-
-    const response = await axios.get('https://api.zenrows.com/v1/', {
-      params: {
-        url: order.url,
-        apikey: apiKey,
-        premium_proxy: 'true',
-        js_render: 'true',
-        proxy_country: 'in',
-      },
-      responseType: 'arraybuffer',
-      timeout: 90000,
-    });
-
-    const httpStatus = response.status;
-    const buffer = Buffer.from(response.data);
-
-    console.log(`[DirectCNR-PDF] Response: status=${httpStatus}, size=${buffer.length} bytes`);
-
-    if (!isValidPdf(buffer)) {
-      const preview = buffer.slice(0, 200).toString('utf8');
-      console.log(`[DirectCNR-PDF] Invalid PDF header. Preview: ${preview.slice(0, 100)}`);
-
-      if (preview.includes('No record found') || preview.includes('error')) {
-        return {
-          success: false,
-          error: 'No record found',
-          httpStatus
-        };
-      }
-
-      return {
-        success: false,
-        error: `Invalid PDF: ${preview.slice(0, 50)}`,
-        httpStatus
-      };
-    }
-
-    if (buffer.length < 1000) {
-      return {
-        success: false,
-        error: "PDF too small (likely error page)",
-        httpStatus
-      };
-    }
-
-    const objectStorageService = new ObjectStorageService();
-    const pdfPath = await objectStorageService.storePdf(buffer, cnr, order.orderNo);
-
-    console.log(`[DirectCNR-PDF] PDF saved: ${pdfPath} (${buffer.length} bytes)`);
-
-    await db.update(directCnrOrders)
-      .set({
-        pdfExists: true,
-        pdfPath,
-        pdfSizeBytes: buffer.length,
-        httpStatusCode: httpStatus,
-        errorMessage: null,
-        lastAttemptAt: new Date(),
-        updatedAt: new Date()
-      })
-      .where(eq(directCnrOrders.id, order.id));
+  if (result.success && result.buffer) {
+    const pdfPath = await savePdfForOrder(order, cnr, result.buffer, result.httpStatus ?? null, `via ${result.fetcher}`);
 
     return {
       success: true,
       pdfPath,
-      pdfSize: buffer.length,
-      httpStatus
+      pdfSize: result.buffer.length,
+      httpStatus: result.httpStatus
     };
+  }
 
-  } catch (error) {
-    let errorMessage = 'Unknown error';
-    let httpStatus: number | undefined;
-
-    if (axios.isAxiosError(error)) {
-      httpStatus = error.response?.status;
-      const data = error.response?.data;
-      const preview = data ? Buffer.from(data).slice(0, 100).toString('utf8') : '';
-      errorMessage = `HTTP ${httpStatus}: ${error.message}. Preview: ${preview}`;
-    } else if (error instanceof Error) {
-      errorMessage = error.message;
-    }
-
-    console.error(`[DirectCNR-PDF] Download error for order ${order.id}:`, errorMessage);
+  // Only bodies from orders that ended without a PDF are worth keeping
+  await quarantineRejectedPdfs('direct', order.id, order.url, result.rejected);
 
-    const [currentOrder] = await db.select()
-      .from(directCnrOrders)
-      .where(eq(directCnrOrders.id, order.id))
-      .limit(1);
+  console.error(`[DirectCNR-PDF] Download error for order ${order.id}:`, result.error);
 
+  // A paused host says nothing about this order, so it does not use up a retry
+  if (result.hostUnavailable) {
     await db.update(directCnrOrders)
-      .set({
-        pdfExists: false,
-        httpStatusCode: httpStatus || null,
-        errorMessage,
-        retryCount: (currentOrder?.retryCount || 0) + 1,
-        lastAttemptAt: new Date(),
-        updatedAt: new Date()
-      })
+      .set({ errorMessage: result.error ?? null, updatedAt: new Date() })
       .where(eq(directCnrOrders.id, order.id));
+    return { success: false, error: result.error };
+  }
+
+  await db.update(directCnrOrders)
+    .set({
+      pdfExists: false,
+      httpStatusCode: result.httpStatus ?? null,
+      errorMessage: result.error ?? null,
+      retryCount: sql`${directCnrOrders.retryCount} + 1`,
+      lastAttemptAt: new Date(),
+      updatedAt: new Date()
+    })
+    .where(eq(directCnrOrders.id, order.id));
+
+  return { success: false, error: result.error, httpStatus: result.httpStatus };
+}
 
-    return { success: false, error: errorMessage, httpStatus };
+/**
+ * Attaches a PDF released from quarantine to its order. Returns false when the
+ * order is gone or already has a PDF.
+ */
+export async function attachReleasedPdf(orderId: number, buffer: Buffer): Promise<boolean> {
+  const [row] = await db.select({ order: directCnrOrders, cnr: directCnrCases.cnr })
+    .from(directCnrOrders)
+    .innerJoin(directCnrCases, eq(directCnrOrders.caseId, directCnrCases.id))
+    .where(eq(directCnrOrders.id, orderId))
+    .limit(1);
+
+  if (!row || row.order.pdfExists) {
+    return false;
   }
+
+  await savePdfForOrder(row.order, row.cnr, buffer, row.order.httpStatusCode, 'from quarantine');
+  return true;
 }
 
 export async function downloadAllPdfsForCase(
   caseId: number,
-  cnr: string
+  cnr: string,
+  strategy: PdfFetchStrategy = 'chain'
 ): Promise<{ total: number; successful: number; failed: number }> {
   const orders = await db.select()
     .from(directCnrOrders)
@@ -169,20 +127,73 @@ export async function downloadAllPdfsForCase(
 
   const pendingOrders = orders.filter(o => !o.pdfExists && o.retryCount < 3);
 
+  const [caseRecord] = await db.select({ districtId: directCnrCases.districtId })
+    .from(directCnrCases)
+    .where(eq(directCnrCases.id, caseId))
+    .limit(1);
+
   console.log(`[DirectCNR-PDF] Downloading ${pendingOrders.length} PDFs for case ${caseId}`);
 
+  const chain = getPdfFetchChain(strategy);
   let successful = 0;
   let failed = 0;
 
-  for (const order of pendingOrders) {
-    const result = await downloadPdfWithZenRows(order, cnr);
-    if (result.success) {
-      successful++;
-    } else {
-      failed++;
+  try {
+    for (const order of pendingOrders) {
+      const result = await downloadOrderPdf(order, cnr, chain, caseRecord?.districtId ?? null);
+      if (result.success) {
+        successful++;
+      } else {
+        failed++;
+      }
+      await new Promise(resolve => setTimeout(resolve, 1000));
     }
-    await new Promise(resolve => setTimeout(resolve, 1000));
+  } finally {
+    await closePdfFetchers();
   }
 
   return { total: pendingOrders.length, successful, failed };
 }
+
+export async function getFetchAttemptsForOrder(orderId: number): Promise<PdfFetchAttempt[]> {
+  return db.select()
+    .from(pdfFetchAttempts)
+    .where(and(eq(pdfFetchAttempts.workflow, 'direct'), eq(pdfFetchAttempts.orderId, orderId)))
+    .orderBy(desc(pdfFetchAttempts.attemptedAt), desc(pdfFetchAttempts.id));
+}
+
+export interface DirectDuplicatePdfGroup {
+  contentHash: string;
+  orderCount: number;
+  pdfSizeBytes: number;
+  orders: { orderId: number; caseId: number; cnr: string; orderNo: number; orderDate: string }[];
+}
+
+export async function getDuplicatePdfGroups(limit = 100): Promise<DirectDuplicatePdfGroup[]> {
+  const results = await db.select({
+    contentHash: directCnrOrders.contentHash,
+    orderCount: count(),
+    pdfSizeBytes: sql<number>`MAX(${directCnrOrders.pdfSizeBytes})`,
+    orders: sql<DirectDuplicatePdfGroup['orders']>`json_agg(json_build_object(
+      'orderId', ${directCnrOrders.id},
+      'caseId', ${directCnrOrders.caseId},
+      'cnr', ${directCnrCases.cnr},
+      'orderNo', ${directCnrOrders.orderNo},
+      'orderDate', ${directCnrOrders.orderDate}
+    ) ORDER BY ${directCnrOrders.id})`
+  })
+    .from(directCnrOrders)
+    .innerJoin(directCnrCases, eq(directCnrOrders.caseId, directCnrCases.id))
+    .where(sql`${directCnrOrders.contentHash} IS NOT NULL`)
+    .groupBy(directCnrOrders.contentHash)
+    .having(sql`COUNT(*) > 1`)
+    .orderBy(sql`COUNT(*) DESC`)
+    .limit(limit);
+
+  return results.map(r => ({
+    contentHash: r.contentHash!,
+    orderCount: Number(r.orderCount) || 0,
+    pdfSizeBytes: Number(r.pdfSizeBytes) || 0,
+    orders: r.orders
+  }));
+}
@@ -1,7 +1,8 @@
 import { Router, Request, Response } from 'express';
 import { z } from 'zod';
 import {
-  parseCNR,
+  isWellFormedCNR,
+  resolveCNR,
   getDistrictByCode,
   createAdvocate,
   getAllAdvocates,
@@ -17,16 +18,17 @@ import {
 } from './case-manager';
 import { extractCaseDetails } from './ecourts-extractor';
 import { createOrdersFromECourtsData, getOrdersByCase } from './order-generator';
-import { downloadAllPdfsForCase, downloadPdfWithZenRows } from './pdf-downloader';
+import { downloadAllPdfsForCase, getFetchAttemptsForOrder } from './pdf-downloader';
 import { extractTextForAllOrders } from './text-extractor';
 import { classifyAllOrdersForCase, getSummaryByOrderId } from './classifier';
 import { createMonitoringSchedule, getActiveMonitoringSchedules, runDailyMonitoringCheck } from './scheduler';
 import { db } from '../db';
-import { directCnrSummaries, directCnrOrders, directCnrCases, directCnrCaseRollups, directCnrBusinessLeads } from '@shared/schema';
+import { directCnrSummaries, directCnrOrders, directCnrCases, directCnrCaseRollups, directCnrBusinessLeads, PDF_FETCH_STRATEGIES, OCR_ENGINE_NAMES } from '@shared/schema';
 import { eq } from 'drizzle-orm';
 import { rateLimit, heavyOperationLimit, sanitizeErrorMessage, acquireSchedulerLock, releaseSchedulerLock } from './middleware';
 import { classifyBusinessEntitiesForCase } from './business-entity-classifier';
 import { searchIndiamartProfile, enrichPendingLeads } from './indiamart-search';
+import { getOrderTextPages, getOrderTextSections, locateOrderTextSpan, parseSpanQuery } from '../pdf-text-pages';
 
 export const directCnrRouter = Router();
 
@@ -135,10 +137,9 @@ directCnrRouter.get('/orders/:orderId/pdf', async (req: Request, res: Response)
     const file = await objectStorageService.getPdfFile(order.pdfPath);
     
     // Stream the PDF with appropriate headers for inline viewing
-    const [metadata] = await file.getMetadata();
     res.set({
       'Content-Type': 'application/pdf',
-      'Content-Length': metadata.size as string,
+      'Content-Length': String(file.size),
       'Content-Disposition': `inline; filename="${order.pdfPath.split('/').pop()}"`,
       'Cache-Control': 'private, max-age=3600',
     });
@@ -160,6 +161,75 @@ directCnrRouter.get('/orders/:orderId/pdf', async (req: Request, res: Response)
   }
 });
 
+directCnrRouter.get('/orders/:orderId/fetch-attempts', async (req: Request, res: Response) => {
+  try {
+    const orderId = parseInt(req.params.orderId);
+    if (isNaN(orderId)) {
+      return res.status(400).json({ success: false, error: 'Invalid order ID' });
+    }
+
+    const attempts = await getFetchAttemptsForOrder(orderId);
+    res.json({ success: true, data: attempts });
+  } catch (error) {
+    console.error('[DirectCNR-API] Error fetching PDF fetch attempts:', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch PDF fetch attempts' });
+  }
+});
+
+directCnrRouter.get('/orders/:orderId/text/pages', async (req: Request, res: Response) => {
+  try {
+    const orderId = parseInt(req.params.orderId);
+    if (isNaN(orderId)) {
+      return res.status(400).json({ success: false, error: 'Invalid order ID' });
+    }
+
+    const pages = await getOrderTextPages('direct', orderId);
+    res.json({ success: true, data: pages });
+  } catch (error) {
+    console.error('[DirectCNR-API] Error fetching text pages:', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch text pages' });
+  }
+});
+
+directCnrRouter.get('/orders/:orderId/text/sections', async (req: Request, res: Response) => {
+  try {
+    const orderId = parseInt(req.params.orderId);
+    if (isNaN(orderId)) {
+      return res.status(400).json({ success: false, error: 'Invalid order ID' });
+    }
+
+    const sections = await getOrderTextSections('direct', orderId);
+    res.json({ success: true, data: sections });
+  } catch (error) {
+    console.error('[DirectCNR-API] Error fetching text sections:', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch text sections' });
+  }
+});
+
+// Page and offsets of a span, given as ?q=<quoted text> or ?start=&end= (rawText offsets)
+directCnrRouter.get('/orders/:orderId/text/locate', async (req: Request, res: Response) => {
+  try {
+    const orderId = parseInt(req.params.orderId);
+    if (isNaN(orderId)) {
+      return res.status(400).json({ success: false, error: 'Invalid order ID' });
+    }
+
+    const span = parseSpanQuery(req.query);
+    if (!span) {
+      return res.status(400).json({ success: false, error: 'Provide q, or start and end offsets' });
+    }
+
+    const location = await locateOrderTextSpan('direct', orderId, span);
+    if (!location) {
+      return res.status(404).json({ success: false, error: "Span not found in the order's pages" });
+    }
+    res.json({ success: true, data: location });
+  } catch (error) {
+    console.error('[DirectCNR-API] Error locating text span:', error);
+    res.status(500).json({ success: false, error: 'Failed to locate text span' });
+  }
+});
+
 // Set represented party for perspective-aware AI analysis
 directCnrRouter.post('/cases/:id/party', async (req: Request, res: Response) => {
   try {
@@ -297,11 +367,11 @@ directCnrRouter.post('/cases/register', async (req: Request, res: Response) => {
   try {
     const { cnr, advocateId } = registerCaseSchema.parse(req.body);
 
-    const parsedCnr = parseCNR(cnr);
+    const parsedCnr = await resolveCNR(cnr);
     if (!parsedCnr) {
       return res.status(400).json({
         success: false,
-        error: 'Invalid CNR format. Must be 16 characters: DL + District Code + 01 + 6-digit serial + 4-digit year'
+        error: 'Invalid CNR format. Must be 16 characters: state code + district code + establishment code + 6-digit serial + 4-digit year'
       });
     }
 
@@ -314,17 +384,9 @@ directCnrRouter.post('/cases/register', async (req: Request, res: Response) => {
       });
     }
 
-    const district = await getDistrictByCode(parsedCnr.districtCode);
-    if (!district) {
-      return res.status(400).json({
-        success: false,
-        error: `Unknown district code: ${parsedCnr.districtCode}`
-      });
-    }
-
     const newCase = await createCase({
       cnr: parsedCnr.cnr,
-      districtId: district.id,
+      districtId: parsedCnr.districtId,
       advocateId: advocateId || null
     });
 
@@ -410,7 +472,8 @@ directCnrRouter.post('/cases/:id/extract', heavyOperationLimit, async (req: Requ
 
     await markCaseDetailsExtracted(caseId);
 
-    const district = await getDistrictByCode(parseCNR(caseRecord.cnr)!.districtCode);
+    const parsedCnr = await resolveCNR(caseRecord.cnr);
+    const district = parsedCnr ? await getDistrictByCode(parsedCnr.districtCode, parsedCnr.stateCode) : null;
     const orders = await createOrdersFromECourtsData(
       caseId,
       caseRecord.cnr,
@@ -441,12 +504,22 @@ directCnrRouter.post('/cases/:id/process', heavyOperationLimit, async (req: Requ
       return res.status(404).json({ success: false, error: 'Case not found' });
     }
 
+    const strategy = req.body?.strategy ?? 'chain';
+    if (!PDF_FETCH_STRATEGIES.includes(strategy)) {
+      return res.status(400).json({ success: false, error: `Unknown PDF fetch strategy "${strategy}"` });
+    }
+
+    const ocrEngine = req.body?.ocrEngine;
+    if (ocrEngine !== undefined && !OCR_ENGINE_NAMES.includes(ocrEngine)) {
+      return res.status(400).json({ success: false, error: `Unknown OCR engine "${ocrEngine}"` });
+    }
+
     console.log(`[DirectCNR-API] Processing all orders for case ${caseId}`);
 
-    const pdfResult = await downloadAllPdfsForCase(caseId, caseRecord.cnr);
+    const pdfResult = await downloadAllPdfsForCase(caseId, caseRecord.cnr, strategy);
     console.log(`[DirectCNR-API] PDF download: ${pdfResult.successful}/${pdfResult.total} successful`);
 
-    const textResult = await extractTextForAllOrders(caseId);
+    const textResult = await extractTextForAllOrders(caseId, ocrEngine);
     console.log(`[DirectCNR-API] Text extraction: ${textResult.successful}/${textResult.total} successful`);
 
     const classifyResult = await classifyAllOrdersForCase(caseId);
@@ -563,25 +636,22 @@ directCnrRouter.post('/digest/send', heavyOperationLimit, async (req: Request, r
 directCnrRouter.get('/validate-cnr/:cnr', async (req: Request, res: Response) => {
   try {
     const cnr = req.params.cnr;
-    const parsed = parseCNR(cnr);
+    const parsed = await resolveCNR(cnr);
 
     if (!parsed) {
       return res.json({
         success: false,
         valid: false,
-        error: 'Invalid CNR format'
+        error: isWellFormedCNR(cnr) ? 'Unknown district or establishment code' : 'Invalid CNR format'
       });
     }
 
-    const district = await getDistrictByCode(parsed.districtCode);
-
     res.json({
       success: true,
       valid: true,
       data: {
         ...parsed,
-        districtName: district ? 'Found' : 'Unknown',
-        districtId: district?.id
+        establishmentName: parsed.establishment?.name || null
       }
     });
   } catch (error) {
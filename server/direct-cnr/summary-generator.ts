@@ -1,4 +1,3 @@
-import OpenAI from 'openai';
 import { db } from '../db';
 import { 
   directCnrCases, 
@@ -8,24 +7,22 @@ import {
   type DirectCnrCaseRollup
 } from '@shared/schema';
 import { eq, asc } from 'drizzle-orm';
-
-const API_TIMEOUT_MS = 120000;
-
-let openaiClient: OpenAI | null = null;
-
-function getOpenAI(): OpenAI {
-  if (!process.env.OPENAI_API_KEY) {
-    throw new Error("OPENAI_API_KEY is not configured");
-  }
-  if (!openaiClient) {
-    openaiClient = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY,
-      timeout: API_TIMEOUT_MS,
-      maxRetries: 2,
-    });
-  }
-  return openaiClient;
-}
+import { z } from 'zod';
+import { completeLlm, parseLlmJson } from '../llm';
+
+// Timeline and list entries are stored as JSON for the UI, so their shape is not enforced here
+const masterSummaryResultSchema = z.object({
+  caseProgressionSummary: z.string().nullable().default(null),
+  timeline: z.array(z.unknown()).default([]),
+  petitionerAdjournments: z.number().int().min(0).default(0),
+  respondentAdjournments: z.number().int().min(0).default(0),
+  courtAdjournments: z.number().int().min(0).default(0),
+  adjournmentDetails: z.array(z.unknown()).default([]),
+  advocateBirdEyeView: z.string().nullable().default(null),
+  keyMilestones: z.array(z.unknown()).default([]),
+  currentStage: z.string().nullable().default(null),
+  pendingActions: z.array(z.string()).default([]),
+});
 
 const MASTER_SUMMARY_PROMPT = `You are a senior legal analyst creating a comprehensive case summary for an Indian advocate. 
 Analyze ALL the court orders provided and create a unified "bird's eye view" of the entire case.
@@ -166,39 +163,41 @@ Order ${o.orderNo} (${o.orderDate || 'date unknown'}):
 `).join('\n')}`;
 
   try {
-    const openai = getOpenAI();
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o",
-      messages: [
-        { role: "system", content: MASTER_SUMMARY_PROMPT },
-        { role: "user", content: caseContext }
-      ],
-      response_format: { type: "json_object" },
+    const { text: content, model } = await completeLlm({
+      task: 'summary',
+      system: MASTER_SUMMARY_PROMPT,
+      messages: [{ role: 'user', text: caseContext }],
+      json: true,
       temperature: 0.1,
+      label: `MasterSummary case ${caseId}`,
     });
 
-    const content = response.choices[0]?.message?.content;
     if (!content) {
-      console.error(`[MasterSummary] No response from OpenAI for case ${caseId}`);
+      console.error(`[MasterSummary] No response from the LLM for case ${caseId}`);
       return null;
     }
 
-    const result = JSON.parse(content);
+    const validationResult = masterSummaryResultSchema.safeParse(parseLlmJson(content));
+    if (!validationResult.success) {
+      console.error(`[MasterSummary] Invalid response format for case ${caseId}:`, validationResult.error.errors);
+      return null;
+    }
+    const result = validationResult.data;
 
     const rollupData = {
       caseId,
       caseProgressionSummary: result.caseProgressionSummary || null,
-      timelineJson: JSON.stringify(result.timeline || []),
-      petitionerAdjournments: result.petitionerAdjournments || 0,
-      respondentAdjournments: result.respondentAdjournments || 0,
-      courtAdjournments: result.courtAdjournments || 0,
-      adjournmentDetails: JSON.stringify(result.adjournmentDetails || []),
+      timelineJson: JSON.stringify(result.timeline),
+      petitionerAdjournments: result.petitionerAdjournments,
+      respondentAdjournments: result.respondentAdjournments,
+      courtAdjournments: result.courtAdjournments,
+      adjournmentDetails: JSON.stringify(result.adjournmentDetails),
       advocateBirdEyeView: result.advocateBirdEyeView || null,
-      keyMilestones: JSON.stringify(result.keyMilestones || []),
+      keyMilestones: JSON.stringify(result.keyMilestones),
       currentStage: result.currentStage || null,
-      pendingActions: JSON.stringify(result.pendingActions || []),
+      pendingActions: JSON.stringify(result.pendingActions),
       ordersIncluded: orderSummaries.length,
-      compilationModel: 'gpt-4o',
+      compilationModel: model,
     };
 
     const [existingRollup] = await db.select()
@@ -1,9 +1,10 @@
-import { Mistral } from "@mistralai/mistralai";
 import { db } from '../db';
 import { directCnrOrders, directCnrPdfTexts } from '@shared/schema';
-import { eq } from 'drizzle-orm';
-import type { DirectCnrOrder, DirectCnrPdfText, InsertDirectCnrPdfText } from '@shared/schema';
+import { eq, and, ne } from 'drizzle-orm';
+import type { DirectCnrOrder, DirectCnrPdfText, InsertDirectCnrPdfText, OcrEngineName } from '@shared/schema';
 import { ObjectStorageService } from '../objectStorage';
+import { extractPdfText, type DetectedLanguage, type DetectedScript, type ExtractedPage, type ExtractionMethod } from '../text-extraction';
+import { savePdfTextPages, loadExtractedPages } from '../pdf-text-pages';
 
 export interface TextExtractionResult {
   success: boolean;
@@ -11,6 +12,13 @@ export interface TextExtractionResult {
   cleanedText?: string;
   pageCount?: number;
   wordCount?: number;
+  extractionMethod?: ExtractionMethod;
+  nativePages?: number[];
+  ocrPages?: number[];
+  ocrEngine?: OcrEngineName;
+  detectedScript?: DetectedScript;
+  detectedLanguage?: DetectedLanguage;
+  pages?: ExtractedPage[];
   error?: string;
 }
 
@@ -28,44 +36,35 @@ function countWords(text: string): number {
   return text.split(/\s+/).filter(word => word.length > 0).length;
 }
 
-export async function extractTextFromPdf(pdfBuffer: Buffer): Promise<TextExtractionResult> {
-  const apiKey = process.env.MISTRAL_API_KEY;
-  
-  if (!apiKey) {
-    console.error('[DirectCNR-TextExtractor] MISTRAL_API_KEY is not configured');
-    return { success: false, error: 'MISTRAL_API_KEY is not configured' };
-  }
+function parsePageList(json: string | null): number[] | undefined {
+  return json ? JSON.parse(json) : undefined;
+}
 
+export async function extractTextFromPdf(pdfBuffer: Buffer, ocrEngine?: OcrEngineName): Promise<TextExtractionResult> {
   try {
-    const base64Pdf = pdfBuffer.toString("base64");
-    console.log(`[DirectCNR-TextExtractor] Processing PDF (${pdfBuffer.length} bytes) with Mistral OCR`);
-    
-    const client = new Mistral({ apiKey });
-    
-    const ocrResponse = await client.ocr.process({
-      model: "mistral-ocr-latest",
-      document: {
-        type: "document_url",
-        documentUrl: `data:application/pdf;base64,${base64Pdf}`,
-      },
-      includeImageBase64: false,
-    });
-
-    const pages = ocrResponse.pages || [];
-    const pageCount = pages.length;
-    
-    const rawText = pages.map((page: any) => page.markdown || "").join("\n\n");
+    console.log(`[DirectCNR-TextExtractor] Processing PDF (${pdfBuffer.length} bytes)`);
+
+    const extraction = await extractPdfText(pdfBuffer, { ocrEngine });
+    const pageCount = extraction.pages.length;
+    const rawText = extraction.rawText;
     const cleanedText = cleanText(rawText);
     const wordCount = countWords(cleanedText);
 
-    console.log(`[DirectCNR-TextExtractor] Extracted ${pageCount} pages, ${wordCount} words`);
+    console.log(`[DirectCNR-TextExtractor] Extracted ${pageCount} pages (${extraction.nativePages.length} text layer, ${extraction.ocrPages.length} OCR${extraction.ocrEngine ? ` via ${extraction.ocrEngine}` : ''}), ${wordCount} words, script ${extraction.detectedScript ?? 'unknown'}`);
 
     return {
       success: true,
       rawText,
       cleanedText,
       pageCount,
-      wordCount
+      wordCount,
+      extractionMethod: extraction.method,
+      nativePages: extraction.nativePages,
+      ocrPages: extraction.ocrPages,
+      ocrEngine: extraction.ocrEngine || undefined,
+      detectedScript: extraction.detectedScript || undefined,
+      detectedLanguage: extraction.detectedLanguage || undefined,
+      pages: extraction.pages
     };
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -74,20 +73,53 @@ export async function extractTextFromPdf(pdfBuffer: Buffer): Promise<TextExtract
   }
 }
 
-export async function extractTextForOrder(order: DirectCnrOrder): Promise<TextExtractionResult> {
+async function findExtractedTextByHash(contentHash: string, excludeOrderId: number): Promise<TextExtractionResult | null> {
+  const [existing] = await db.select({ text: directCnrPdfTexts, sourceOrderId: directCnrOrders.id })
+    .from(directCnrPdfTexts)
+    .innerJoin(directCnrOrders, eq(directCnrPdfTexts.orderId, directCnrOrders.id))
+    .where(and(
+      eq(directCnrOrders.contentHash, contentHash),
+      ne(directCnrOrders.id, excludeOrderId)
+    ))
+    .limit(1);
+
+  if (!existing) return null;
+  return {
+    success: true,
+    rawText: existing.text.rawText,
+    cleanedText: existing.text.cleanedText || undefined,
+    pageCount: existing.text.pageCount || undefined,
+    wordCount: existing.text.wordCount || undefined,
+    extractionMethod: (existing.text.extractionMethod as ExtractionMethod | null) || undefined,
+    nativePages: parsePageList(existing.text.nativePages),
+    ocrPages: parsePageList(existing.text.ocrPages),
+    ocrEngine: (existing.text.ocrEngine as OcrEngineName | null) || undefined,
+    detectedScript: (existing.text.detectedScript as DetectedScript | null) || undefined,
+    detectedLanguage: (existing.text.detectedLanguage as DetectedLanguage | null) || undefined,
+    pages: await loadExtractedPages('direct', existing.sourceOrderId)
+  };
+}
+
+export async function extractTextForOrder(order: DirectCnrOrder, ocrEngine?: OcrEngineName): Promise<TextExtractionResult> {
   if (!order.pdfPath) {
     return { success: false, error: 'No PDF path available' };
   }
 
   try {
-    const objectStorageService = new ObjectStorageService();
-    const pdfBuffer = await objectStorageService.getPdfBuffer(order.pdfPath);
+    let result = order.contentHash ? await findExtractedTextByHash(order.contentHash, order.id) : null;
 
-    if (!pdfBuffer) {
-      return { success: false, error: 'Could not retrieve PDF from storage' };
-    }
+    if (result) {
+      console.log(`[DirectCNR-TextExtractor] Order ${order.id}: reused text from identical PDF`);
+    } else {
+      const objectStorageService = new ObjectStorageService();
+      const pdfBuffer = await objectStorageService.getPdfBuffer(order.pdfPath);
 
-    const result = await extractTextFromPdf(pdfBuffer);
+      if (!pdfBuffer) {
+        return { success: false, error: 'Could not retrieve PDF from storage' };
+      }
+
+      result = await extractTextFromPdf(pdfBuffer, ocrEngine);
+    }
 
     if (result.success && result.rawText) {
       const existingText = await db.select()
@@ -102,6 +134,12 @@ export async function extractTextForOrder(order: DirectCnrOrder): Promise<TextEx
             cleanedText: result.cleanedText || null,
             pageCount: result.pageCount || null,
             wordCount: result.wordCount || null,
+            extractionMethod: result.extractionMethod || null,
+            nativePages: result.nativePages ? JSON.stringify(result.nativePages) : null,
+            ocrPages: result.ocrPages ? JSON.stringify(result.ocrPages) : null,
+            ocrEngine: result.ocrEngine || null,
+            detectedScript: result.detectedScript || null,
+            detectedLanguage: result.detectedLanguage || null,
             extractedAt: new Date()
           })
           .where(eq(directCnrPdfTexts.orderId, order.id));
@@ -112,10 +150,18 @@ export async function extractTextForOrder(order: DirectCnrOrder): Promise<TextEx
             rawText: result.rawText,
             cleanedText: result.cleanedText || null,
             pageCount: result.pageCount || null,
-            wordCount: result.wordCount || null
+            wordCount: result.wordCount || null,
+            extractionMethod: result.extractionMethod || null,
+            nativePages: result.nativePages ? JSON.stringify(result.nativePages) : null,
+            ocrPages: result.ocrPages ? JSON.stringify(result.ocrPages) : null,
+            ocrEngine: result.ocrEngine || null,
+            detectedScript: result.detectedScript || null,
+            detectedLanguage: result.detectedLanguage || null
           });
       }
 
+      await savePdfTextPages('direct', order.id, result.pages || []);
+
       await db.update(directCnrOrders)
         .set({
           textExtracted: true,
@@ -131,7 +177,7 @@ export async function extractTextForOrder(order: DirectCnrOrder): Promise<TextEx
   }
 }
 
-export async function extractTextForAllOrders(caseId: number): Promise<{
+export async function extractTextForAllOrders(caseId: number, ocrEngine?: OcrEngineName): Promise<{
   total: number;
   successful: number;
   failed: number;
@@ -148,7 +194,7 @@ export async function extractTextForAllOrders(caseId: number): Promise<{
   let failed = 0;
 
   for (const order of pendingOrders) {
-    const result = await extractTextForOrder(order);
+    const result = await extractTextForOrder(order, ocrEngine);
     if (result.success) {
       successful++;
       console.log(`[DirectCNR-TextExtractor] Order ${order.id}: ${result.wordCount} words extracted`);
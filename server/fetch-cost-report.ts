@@ -0,0 +1,68 @@
+import type { PdfFetcherName } from "@shared/schema";
+import type { FetchCostRow } from "./storage";
+import { getCreditPrices } from "./pdf-fetchers";
+
+export interface FetchCostBucket {
+  key: string;
+  label: string;
+  attempts: number;
+  pdfs: number;
+  credits: number;
+  costUsd: number;
+  // null until the bucket has produced a PDF
+  costPerPdfUsd: number | null;
+}
+
+export interface FetchCostReport {
+  since: string;
+  creditPricesUsd: Record<PdfFetcherName, number>;
+  totals: Omit<FetchCostBucket, "key" | "label">;
+  byDistrict: FetchCostBucket[];
+  byDay: FetchCostBucket[];
+  byFetcher: FetchCostBucket[];
+}
+
+function roundUsd(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
+
+function rollUp(rows: FetchCostRow[], keyOf: (row: FetchCostRow) => [string, string], prices: Record<string, number>): FetchCostBucket[] {
+  const buckets = new Map<string, FetchCostBucket>();
+  for (const row of rows) {
+    const [key, label] = keyOf(row);
+    const bucket = buckets.get(key) ?? { key, label, attempts: 0, pdfs: 0, credits: 0, costUsd: 0, costPerPdfUsd: null };
+    bucket.attempts += row.attempts;
+    bucket.pdfs += row.successes;
+    bucket.credits += row.credits;
+    bucket.costUsd += row.credits * (prices[row.fetcher] ?? 0);
+    buckets.set(key, bucket);
+  }
+
+  return Array.from(buckets.values()).map(b => ({
+    ...b,
+    costUsd: roundUsd(b.costUsd),
+    costPerPdfUsd: b.pdfs > 0 ? roundUsd(b.costUsd / b.pdfs) : null,
+  }));
+}
+
+/**
+ * Turns per-day/district/fetcher attempt counts into spend. Credits are stored
+ * per attempt; USD is applied here so price changes restate history.
+ */
+export function buildFetchCostReport(rows: FetchCostRow[], since: Date): FetchCostReport {
+  const prices = getCreditPrices();
+  const [totals] = rollUp(rows, () => ["all", "All"], prices);
+
+  return {
+    since: since.toISOString(),
+    creditPricesUsd: prices,
+    totals: totals
+      ? { attempts: totals.attempts, pdfs: totals.pdfs, credits: totals.credits, costUsd: totals.costUsd, costPerPdfUsd: totals.costPerPdfUsd }
+      : { attempts: 0, pdfs: 0, credits: 0, costUsd: 0, costPerPdfUsd: null },
+    byDistrict: rollUp(rows, r => [String(r.districtId ?? "unknown"), r.districtName ?? "Unknown district"], prices)
+      .sort((a, b) => b.costUsd - a.costUsd),
+    byDay: rollUp(rows, r => [r.day, r.day], prices),
+    byFetcher: rollUp(rows, r => [r.fetcher, r.fetcher], prices)
+      .sort((a, b) => b.costUsd - a.costUsd),
+  };
+}
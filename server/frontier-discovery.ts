@@ -0,0 +1,168 @@
+import { storage } from "./storage";
+import type { District } from "@shared/schema";
+import { buildCnrString } from "./cnr-builder";
+import { extractCaseDetails } from "./direct-cnr/ecourts-extractor";
+
+const PROBE_DELAY_MS = 2000;
+
+export type SerialProbe = (serial: number) => Promise<boolean>;
+
+export interface FrontierSearchResult {
+  highestValidSerial: number | null;
+  lastProbedSerial: number | null;
+  probesUsed: number;
+  exhausted: boolean;
+}
+
+// A probe threw (CAPTCHA, network); carries what the search had confirmed before it
+export class FrontierSearchError extends Error {
+  constructor(message: string, public readonly partial: FrontierSearchResult) {
+    super(message);
+    this.name = "FrontierSearchError";
+    Object.setPrototypeOf(this, FrontierSearchError.prototype);
+  }
+}
+
+async function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Finds the highest filed serial starting from a known-valid lower bound.
+ * Gallops upwards (lo+1, lo+2, lo+4, ...) until a serial does not exist,
+ * then bisects the gap between the last hit and the first miss.
+ * `exhausted` is true when the probe budget ran out before the gap closed.
+ * A probe that throws ends the search with a FrontierSearchError holding the
+ * highest serial confirmed so far.
+ */
+export async function searchSerialFrontier(
+  probe: SerialProbe,
+  knownValidSerial: number | null,
+  maxProbes: number
+): Promise<FrontierSearchResult> {
+  let lo = knownValidSerial ?? 0;
+  let hi: number | null = null;
+  let step = 1;
+  let probesUsed = 0;
+  let lastProbedSerial: number | null = null;
+
+  const probeOrThrow = async (serial: number): Promise<boolean> => {
+    try {
+      return await probe(serial);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      throw new FrontierSearchError(`Probe of serial ${serial} failed: ${message}`, {
+        highestValidSerial: lo > 0 ? lo : null,
+        lastProbedSerial,
+        probesUsed,
+        exhausted: true,
+      });
+    }
+  };
+
+  while (hi === null && probesUsed < maxProbes) {
+    const candidate = lo + step;
+    probesUsed++;
+    lastProbedSerial = candidate;
+    if (await probeOrThrow(candidate)) {
+      lo = candidate;
+      step *= 2;
+    } else {
+      hi = candidate;
+    }
+  }
+
+  while (hi !== null && hi - lo > 1 && probesUsed < maxProbes) {
+    const mid = Math.floor((lo + hi) / 2);
+    probesUsed++;
+    lastProbedSerial = mid;
+    if (await probeOrThrow(mid)) {
+      lo = mid;
+    } else {
+      hi = mid;
+    }
+  }
+
+  return {
+    highestValidSerial: lo > 0 ? lo : null,
+    lastProbedSerial,
+    probesUsed,
+    exhausted: hi === null || hi - lo > 1,
+  };
+}
+
+function createECourtsProbe(district: District, year: number): SerialProbe {
+  return async (serial: number) => {
+    const cnr = buildCnrString(district, serial, year);
+    const details = await extractCaseDetails(cnr);
+    await sleep(PROBE_DELAY_MS);
+    if (details.status === "success") {
+      console.log(`[Frontier] ${cnr} exists`);
+      return true;
+    }
+    console.log(`[Frontier] ${cnr} not found: ${details.error}`);
+    return false;
+  };
+}
+
+export async function discoverFrontiersForJob(
+  jobId: number,
+  targetDistricts: District[],
+  year: number,
+  maxProbes: number
+): Promise<void> {
+  await storage.updateProcessingJobStarted(jobId);
+
+  let processed = 0;
+  let successful = 0;
+  let failed = 0;
+
+  for (const district of targetDistricts) {
+    const previous = await storage.getLatestSerialFrontier(district.id, year);
+    const knownValidSerial = previous?.highestValidSerial ?? null;
+
+    try {
+      console.log(`[Frontier] Probing ${district.name} ${year} from serial ${knownValidSerial ?? 0}`);
+      const result = await searchSerialFrontier(
+        createECourtsProbe(district, year),
+        knownValidSerial,
+        maxProbes
+      );
+
+      await storage.createSerialFrontier({
+        districtId: district.id,
+        year,
+        highestValidSerial: result.highestValidSerial,
+        lastProbedSerial: result.lastProbedSerial,
+        probesUsed: result.probesUsed,
+        status: result.exhausted ? "partial" : "completed",
+        jobId,
+      });
+
+      console.log(`[Frontier] ${district.name} ${year}: highest valid serial ${result.highestValidSerial ?? "none"} after ${result.probesUsed} probes`);
+      successful++;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Unknown error";
+      console.error(`[Frontier] Discovery failed for ${district.name}:`, errorMessage);
+      // Serials confirmed before the failure are kept, so the next run starts from them
+      const partial = error instanceof FrontierSearchError ? error.partial : null;
+      await storage.createSerialFrontier({
+        districtId: district.id,
+        year,
+        highestValidSerial: partial?.highestValidSerial ?? knownValidSerial,
+        lastProbedSerial: partial?.lastProbedSerial ?? null,
+        probesUsed: partial?.probesUsed ?? 0,
+        status: "failed",
+        errorMessage,
+        jobId,
+      });
+      failed++;
+    }
+
+    processed++;
+    await storage.updateProcessingJobProgress(jobId, processed, successful, failed);
+  }
+
+  const finalStatus = failed === targetDistricts.length ? "failed" : "completed";
+  await storage.updateProcessingJobStatus(jobId, finalStatus);
+}
@@ -0,0 +1,115 @@
+import { storage } from "./storage";
+import type { Cnr, District, InsertCnrOrder, OrderGrid } from "@shared/schema";
+import { extractCaseDetails, parseOrderDate } from "./direct-cnr/ecourts-extractor";
+import { buildOrderUrl } from "./cnr-builder";
+import { toCnrValidationDetails } from "./cnr-validator";
+
+const DELAY_BETWEEN_CNRS_MS = 2000;
+
+async function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function formatDate(date: Date): string {
+  const year = date.getFullYear();
+  const month = (date.getMonth() + 1).toString().padStart(2, "0");
+  const day = date.getDate().toString().padStart(2, "0");
+  return `${year}-${month}-${day}`;
+}
+
+function buildGridOrders(cnr: Cnr, district: District, grid: OrderGrid): InsertCnrOrder[] {
+  const orders: InsertCnrOrder[] = [];
+  const end = new Date(grid.endDate);
+  for (let d = new Date(grid.startDate); d <= end; d.setDate(d.getDate() + 1)) {
+    const dateStr = d.toISOString().split("T")[0];
+    for (let orderNo = grid.startOrderNo; orderNo <= grid.endOrderNo; orderNo++) {
+      const { url, encodedPayload } = buildOrderUrl(district.baseUrl, cnr.cnr, orderNo, dateStr);
+      orders.push({ cnrId: cnr.id, orderNo, orderDate: dateStr, url, encodedPayload, generationMethod: "grid" });
+    }
+  }
+  return orders;
+}
+
+/**
+ * Creates cnr_orders from the real interim orders listed on eCourts instead of
+ * brute-forcing the date x orderNo grid. CNRs whose history can't be fetched
+ * fall back to `fallbackGrid` when one is given.
+ */
+export async function generateOrdersFromHistoryForJob(
+  jobId: number,
+  cnrsToProcess: (Cnr & { district?: District })[],
+  fallbackGrid?: OrderGrid
+): Promise<void> {
+  await storage.updateProcessingJobStarted(jobId);
+
+  let processed = 0;
+  let successful = 0;
+  let failed = 0;
+
+  for (const cnr of cnrsToProcess) {
+    if (!cnr.district) {
+      failed++;
+      processed++;
+      await storage.updateProcessingJobProgress(jobId, processed, successful, failed);
+      continue;
+    }
+
+    try {
+      const details = await extractCaseDetails(cnr.cnr);
+      await storage.updateCnrValidation(cnr.id, details.status === "success", toCnrValidationDetails(details));
+
+      if (details.status === "success") {
+        const orders: InsertCnrOrder[] = [];
+        for (const interim of details.interimOrders) {
+          const parsedDate = parseOrderDate(interim.orderDate);
+          if (!parsedDate) {
+            console.warn(`[HistoryOrders] Could not parse date "${interim.orderDate}" for ${cnr.cnr}`);
+            continue;
+          }
+          const orderDate = formatDate(parsedDate);
+          const { url, encodedPayload } = buildOrderUrl(cnr.district.baseUrl, cnr.cnr, interim.orderNumber, orderDate);
+          orders.push({
+            cnrId: cnr.id,
+            orderNo: interim.orderNumber,
+            orderDate,
+            url,
+            encodedPayload,
+            generationMethod: "case_history",
+          });
+        }
+
+        const created = await storage.createOrdersBatch(orders);
+        console.log(`[HistoryOrders] ${cnr.cnr}: ${created.length} orders from case history (${details.interimOrders.length} listed)`);
+      } else {
+        console.log(`[HistoryOrders] ${cnr.cnr}: no record on eCourts, skipping`);
+      }
+      successful++;
+    } catch (error) {
+      console.error(`[HistoryOrders] Failed to fetch history for ${cnr.cnr}:`, error);
+
+      if (fallbackGrid) {
+        // The job runs unawaited, so a throw here would leave it stuck in "processing"
+        try {
+          const created = await storage.createOrdersBatch(buildGridOrders(cnr, cnr.district, fallbackGrid));
+          console.log(`[HistoryOrders] ${cnr.cnr}: fell back to grid, ${created.length} orders`);
+          successful++;
+        } catch (fallbackError) {
+          console.error(`[HistoryOrders] Grid fallback failed for ${cnr.cnr}:`, fallbackError);
+          failed++;
+        }
+      } else {
+        failed++;
+      }
+    }
+
+    processed++;
+    await storage.updateProcessingJobProgress(jobId, processed, successful, failed);
+
+    if (processed < cnrsToProcess.length) {
+      await sleep(DELAY_BETWEEN_CNRS_MS);
+    }
+  }
+
+  const finalStatus = failed === cnrsToProcess.length ? "failed" : "completed";
+  await storage.updateProcessingJobStatus(jobId, finalStatus);
+}
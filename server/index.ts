@@ -14,6 +14,8 @@ declare module "http" {
 
 app.use(
   express.json({
+    // CNR spreadsheet imports arrive as base64 in the JSON body
+    limit: "10mb",
     verify: (req, _res, buf) => {
       req.rawBody = buf;
     },
@@ -0,0 +1,89 @@
+import type { HistoricalAverages } from "./storage";
+import type { PdfFetcher } from "./pdf-fetchers";
+import { estimateClassificationInputChars } from "./classifier";
+
+// The classifier's input is sized by classifier.ts itself; the reply is a JSON
+// object of roughly 800 tokens
+const CLASSIFICATION_OUTPUT_TOKENS = 800;
+const CHARS_PER_WORD = 6;
+const CHARS_PER_TOKEN = 4;
+
+// Used until enough orders have been probed/extracted to trust the history
+const MIN_SAMPLE_SIZE = 20;
+const DEFAULT_PDF_HIT_RATE = 0.1;
+const DEFAULT_PAGES_PER_PDF = 2;
+const DEFAULT_WORDS_PER_PDF = 600;
+const DEFAULT_PDF_SIZE_BYTES = 150 * 1024;
+// Share of a fetcher's requests assumed to fail and pass to the next fetcher
+const DEFAULT_FALL_THROUGH_RATE = 0.5;
+// Until texts have been extracted page by page, every page is assumed scanned
+const DEFAULT_OCR_PAGE_SHARE = 1;
+
+// Runs above this many requests ask for confirmation in the UI
+export const LARGE_RUN_THRESHOLD = 500;
+
+export interface JobCostEstimate {
+  requests: number;
+  fetchers: string[];
+  proxyCredits: number;
+  expectedPdfs: number;
+  expectedStorageBytes: number;
+  ocrPages: number;
+  llmInputTokens: number;
+  llmOutputTokens: number;
+  pdfHitRate: number;
+  basedOnHistory: boolean;
+  requiresConfirmation: boolean;
+}
+
+/**
+ * Expected credits per order for a fetcher chain: each fetcher bills its
+ * historical average per attempt (or its list price), weighted by the share
+ * of orders that fall through the fetchers before it.
+ */
+function creditsPerRequest(chain: PdfFetcher[], history: HistoricalAverages): number {
+  let reached = 1;
+  let credits = 0;
+  for (const fetcher of chain) {
+    const stats = history.fetchers.find(f => f.fetcher === fetcher.name);
+    const hasHistory = !!stats && stats.attempts >= MIN_SAMPLE_SIZE;
+    credits += reached * (hasHistory ? stats.avgCredits : fetcher.creditsPerRequest);
+    reached *= hasHistory ? stats.fallThroughRate : DEFAULT_FALL_THROUGH_RATE;
+  }
+  return credits;
+}
+
+/**
+ * Projects what probing `requests` order URLs through `chain` will cost:
+ * proxy credits for the fetchers expected to run, then OCR for the scanned
+ * pages and classification for the share expected to return a PDF.
+ * Falls back to conservative defaults until there is enough history.
+ */
+export function estimateJobCost(requests: number, history: HistoricalAverages, chain: PdfFetcher[]): JobCostEstimate {
+  const hasOrderHistory = history.probedOrders >= MIN_SAMPLE_SIZE;
+  const hasTextHistory = history.extractedPdfs >= MIN_SAMPLE_SIZE;
+  const hasOcrHistory = history.hybridExtractedPdfs >= MIN_SAMPLE_SIZE;
+
+  const pdfHitRate = hasOrderHistory ? history.pdfsFound / history.probedOrders : DEFAULT_PDF_HIT_RATE;
+  const pagesPerPdf = hasTextHistory ? history.avgPageCount : DEFAULT_PAGES_PER_PDF;
+  const wordsPerPdf = hasTextHistory ? history.avgWordCount : DEFAULT_WORDS_PER_PDF;
+  const bytesPerPdf = hasOrderHistory && history.avgPdfSizeBytes > 0 ? history.avgPdfSizeBytes : DEFAULT_PDF_SIZE_BYTES;
+  const ocrPageShare = hasOcrHistory ? history.ocrPageShare : DEFAULT_OCR_PAGE_SHARE;
+
+  const expectedPdfs = Math.round(requests * pdfHitRate);
+  const inputTokensPerPdf = estimateClassificationInputChars(wordsPerPdf * CHARS_PER_WORD) / CHARS_PER_TOKEN;
+
+  return {
+    requests,
+    fetchers: chain.map(fetcher => fetcher.name),
+    proxyCredits: Math.round(requests * creditsPerRequest(chain, history)),
+    expectedPdfs,
+    expectedStorageBytes: Math.round(expectedPdfs * bytesPerPdf),
+    ocrPages: Math.round(expectedPdfs * pagesPerPdf * ocrPageShare),
+    llmInputTokens: Math.round(expectedPdfs * inputTokensPerPdf),
+    llmOutputTokens: expectedPdfs * CLASSIFICATION_OUTPUT_TOKENS,
+    pdfHitRate: Math.round(pdfHitRate * 1000) / 1000,
+    basedOnHistory: hasOrderHistory && hasTextHistory,
+    requiresConfirmation: requests > LARGE_RUN_THRESHOLD,
+  };
+}
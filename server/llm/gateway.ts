@@ -0,0 +1,97 @@
+import { withCassette, getCassetteMode } from "../cassettes";
+import { getLlmProvider, getLlmRoute, getLlmTaskConfigError, getTaskLimits } from "./routing";
+import type { LlmCompletion, LlmProvider, LlmProviderRequest, LlmRequest } from "./types";
+
+const INITIAL_RETRY_DELAY_MS = 1000;
+const RETRYABLE_STATUSES = [408, 429, 500, 502, 503, 504, 529];
+
+async function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// Rate limits, overloads, gateway errors and timeouts; bad requests and auth errors are final
+function isRetryable(error: unknown): boolean {
+  if (!(error instanceof Error)) return false;
+  const status = (error as { status?: number; statusCode?: number }).status ?? (error as { statusCode?: number }).statusCode;
+  if (status !== undefined && RETRYABLE_STATUSES.includes(status)) return true;
+  return /timed out|timeout|rate.?limit|overloaded|ECONNRESET|socket hang up|\b(429|503|529)\b/i.test(error.message);
+}
+
+async function completeWithTimeout(
+  provider: LlmProvider,
+  request: Omit<LlmProviderRequest, "signal">,
+  timeoutMs: number,
+  label: string
+): Promise<string> {
+  const controller = new AbortController();
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      reject(new Error(`${label} timed out after ${timeoutMs / 1000}s`));
+    }, timeoutMs);
+  });
+
+  try {
+    return await Promise.race([provider.complete({ ...request, signal: controller.signal }), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Sends a request to the provider and model routed for its task, with the
+ * task's timeout per attempt and exponential backoff between retryable
+ * failures; request.route picks another provider and model for this call.
+ * Calls are recorded and replayed as "llm" cassettes.
+ */
+export async function completeLlm(request: LlmRequest): Promise<LlmCompletion> {
+  const route = getLlmRoute(request.task, request.route);
+  const provider = getLlmProvider(route.provider);
+  const { timeoutMs, maxAttempts } = getTaskLimits(request.task);
+  const label = request.label ?? `LLM ${request.task}`;
+
+  // Replayed responses need no credentials
+  const configError = getLlmTaskConfigError(request.task, request.route);
+  if (configError && getCassetteMode() !== "replay") {
+    throw new Error(configError);
+  }
+
+  const providerRequest: Omit<LlmProviderRequest, "signal"> = {
+    model: route.model,
+    system: request.system,
+    messages: request.messages,
+    json: request.json,
+    temperature: request.temperature,
+    maxTokens: request.maxTokens,
+  };
+
+  const text = await withCassette("llm", { provider: route.provider, ...providerRequest }, async () => {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await completeWithTimeout(provider, providerRequest, timeoutMs, label);
+      } catch (error) {
+        if (!isRetryable(error) || attempt >= maxAttempts) {
+          throw error;
+        }
+        const delay = INITIAL_RETRY_DELAY_MS * Math.pow(2, attempt - 1);
+        console.log(`${label} attempt ${attempt} failed, retrying in ${delay}ms...`);
+        await sleep(delay);
+      }
+    }
+  });
+
+  return { text, provider: route.provider, model: route.model };
+}
+
+/**
+ * Parses a JSON reply. Models without a JSON mode often wrap the object in a
+ * markdown code fence, which is removed first. Throws on invalid JSON.
+ */
+export function parseLlmJson(text: string): unknown {
+  const cleaned = text
+    .trim()
+    .replace(/^```(?:json)?\s*/i, "")
+    .replace(/\s*```$/, "");
+  return JSON.parse(cleaned);
+}
@@ -0,0 +1,44 @@
+import { GoogleGenAI } from "@google/genai";
+import type { LlmProvider } from "./types";
+
+let client: GoogleGenAI | null = null;
+
+function getClient(): GoogleGenAI {
+  client ??= new GoogleGenAI({
+    apiKey: process.env.AI_INTEGRATIONS_GEMINI_API_KEY,
+    httpOptions: {
+      apiVersion: "",
+      baseUrl: process.env.AI_INTEGRATIONS_GEMINI_BASE_URL,
+    },
+  });
+  return client;
+}
+
+export const geminiProvider: LlmProvider = {
+  name: "gemini",
+  requiredEnv: ["AI_INTEGRATIONS_GEMINI_API_KEY", "AI_INTEGRATIONS_GEMINI_BASE_URL"],
+  defaultModel: () => "gemini-2.5-flash",
+
+  async complete(request) {
+    const result = await getClient().models.generateContent({
+      model: request.model,
+      contents: request.messages.map(message => ({
+        role: message.role === "assistant" ? "model" : "user",
+        parts: [
+          { text: message.text },
+          ...(message.images ?? []).map(image => ({ inlineData: { mimeType: image.mimeType, data: image.data } })),
+        ],
+      })),
+      config: {
+        ...(request.system ? { systemInstruction: request.system } : {}),
+        ...(request.json ? { responseMimeType: "application/json" } : {}),
+        ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+        ...(request.maxTokens !== undefined ? { maxOutputTokens: request.maxTokens } : {}),
+        abortSignal: request.signal,
+      },
+    });
+
+    // The `text` getter is empty for some proxied responses; fall back to the first part
+    return result.text || result.candidates?.[0]?.content?.parts?.[0]?.text || "";
+  },
+};
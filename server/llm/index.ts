@@ -0,0 +1,7 @@
+export { completeLlm, parseLlmJson } from "./gateway";
+export { describeLlmRoutes, getLlmRoute, getLlmTaskConfigError } from "./routing";
+export { openaiProvider, localProvider } from "./openai-provider";
+export { geminiProvider } from "./gemini-provider";
+export { mistralProvider } from "./mistral-provider";
+export { stubProvider } from "./stub-provider";
+export * from "./types";
@@ -0,0 +1,43 @@
+import { Mistral } from "@mistralai/mistralai";
+import type { LlmProvider } from "./types";
+
+let client: Mistral | null = null;
+
+export const mistralProvider: LlmProvider = {
+  name: "mistral",
+  requiredEnv: ["MISTRAL_API_KEY"],
+  // Reads images too, so it can take the captcha task
+  defaultModel: () => "mistral-medium-latest",
+
+  async complete(request) {
+    client ??= new Mistral({ apiKey: process.env.MISTRAL_API_KEY });
+    const response = await client.chat.complete(
+      {
+        model: request.model,
+        messages: [
+          ...(request.system ? [{ role: "system" as const, content: request.system }] : []),
+          ...request.messages.map(message => message.role === "assistant"
+            ? { role: "assistant" as const, content: message.text }
+            : {
+              role: "user" as const,
+              content: [
+                { type: "text" as const, text: message.text },
+                ...(message.images ?? []).map(image => ({
+                  type: "image_url" as const,
+                  imageUrl: `data:${image.mimeType};base64,${image.data}`,
+                })),
+              ],
+            }),
+        ],
+        ...(request.json ? { responseFormat: { type: "json_object" as const } } : {}),
+        ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+        ...(request.maxTokens !== undefined ? { maxTokens: request.maxTokens } : {}),
+      },
+      { signal: request.signal, retries: { strategy: "none" } }
+    );
+
+    const content = response.choices?.[0]?.message?.content;
+    if (typeof content === "string") return content;
+    return (content ?? []).map(chunk => (chunk.type === "text" ? chunk.text : "")).join("");
+  },
+};
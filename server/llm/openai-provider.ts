@@ -0,0 +1,82 @@
+import OpenAI from "openai";
+import type { LlmProvider, LlmProviderName, LlmProviderRequest } from "./types";
+
+// Chat Completions adapter, shared by OpenAI itself and any server that speaks
+// the same API (vLLM, Ollama, LM Studio, llama.cpp)
+
+function toOpenAiMessages(request: LlmProviderRequest): OpenAI.ChatCompletionMessageParam[] {
+  const messages: OpenAI.ChatCompletionMessageParam[] = [];
+  if (request.system) {
+    messages.push({ role: "system", content: request.system });
+  }
+  for (const message of request.messages) {
+    if (message.role === "assistant") {
+      messages.push({ role: "assistant", content: message.text });
+    } else if (message.images?.length) {
+      messages.push({
+        role: "user",
+        content: [
+          { type: "text", text: message.text },
+          ...message.images.map(image => ({
+            type: "image_url" as const,
+            image_url: { url: `data:${image.mimeType};base64,${image.data}` },
+          })),
+        ],
+      });
+    } else {
+      messages.push({ role: "user", content: message.text });
+    }
+  }
+  return messages;
+}
+
+function createChatCompletionsProvider(options: {
+  name: LlmProviderName;
+  requiredEnv: string[];
+  defaultModel: () => string;
+  createClient: () => OpenAI;
+}): LlmProvider {
+  let client: OpenAI | null = null;
+
+  return {
+    name: options.name,
+    requiredEnv: options.requiredEnv,
+    defaultModel: options.defaultModel,
+
+    async complete(request) {
+      // Retries and timeouts are handled by the gateway
+      client ??= options.createClient();
+      const response = await client.chat.completions.create(
+        {
+          model: request.model,
+          messages: toOpenAiMessages(request),
+          ...(request.json ? { response_format: { type: "json_object" as const } } : {}),
+          ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+          ...(request.maxTokens !== undefined ? { max_tokens: request.maxTokens } : {}),
+        },
+        { signal: request.signal }
+      );
+      return response.choices[0]?.message?.content ?? "";
+    },
+  };
+}
+
+export const openaiProvider = createChatCompletionsProvider({
+  name: "openai",
+  requiredEnv: ["OPENAI_API_KEY"],
+  defaultModel: () => "gpt-4o",
+  createClient: () => new OpenAI({ apiKey: process.env.OPENAI_API_KEY, maxRetries: 0 }),
+});
+
+// A self-hosted model behind an OpenAI-compatible endpoint, e.g. http://localhost:11434/v1
+export const localProvider = createChatCompletionsProvider({
+  name: "local",
+  requiredEnv: ["LLM_LOCAL_BASE_URL"],
+  defaultModel: () => process.env.LLM_LOCAL_MODEL || "llama3.1",
+  createClient: () => new OpenAI({
+    baseURL: process.env.LLM_LOCAL_BASE_URL,
+    // Most local servers ignore the key, but the client requires one
+    apiKey: process.env.LLM_LOCAL_API_KEY || "local",
+    maxRetries: 0,
+  }),
+});
@@ -0,0 +1,96 @@
+import { LLM_PROVIDER_NAMES, LLM_TASKS, type LlmProvider, type LlmProviderName, type LlmRoute, type LlmRouteOverride, type LlmTask } from "./types";
+import { openaiProvider, localProvider } from "./openai-provider";
+import { geminiProvider } from "./gemini-provider";
+import { mistralProvider } from "./mistral-provider";
+import { stubProvider } from "./stub-provider";
+
+const PROVIDERS: Record<LlmProviderName, LlmProvider> = {
+  openai: openaiProvider,
+  gemini: geminiProvider,
+  mistral: mistralProvider,
+  local: localProvider,
+  stub: stubProvider,
+};
+
+// IndiaMART lookups have always run on Gemini; everything else on GPT-4o
+const DEFAULT_PROVIDERS: Record<LlmTask, LlmProviderName> = {
+  classification: "openai",
+  summary: "openai",
+  entity: "openai",
+  captcha: "openai",
+  search: "gemini",
+};
+
+// Per-attempt timeout and attempts per call. CAPTCHA solving has its own
+// outer retry with a fresh image, so it gives up quickly here.
+const TASK_LIMITS: Record<LlmTask, { timeoutMs: number; maxAttempts: number }> = {
+  classification: { timeoutMs: 60_000, maxAttempts: 4 },
+  summary: { timeoutMs: 120_000, maxAttempts: 3 },
+  entity: { timeoutMs: 30_000, maxAttempts: 3 },
+  captcha: { timeoutMs: 30_000, maxAttempts: 2 },
+  search: { timeoutMs: 60_000, maxAttempts: 2 },
+};
+
+export function getLlmProvider(name: LlmProviderName): LlmProvider {
+  return PROVIDERS[name];
+}
+
+export function getTaskLimits(task: LlmTask): { timeoutMs: number; maxAttempts: number } {
+  return TASK_LIMITS[task];
+}
+
+// "provider" or "provider:model"; null (with a warning) for unknown providers
+function parseRoute(value: string, envName: string): LlmRoute | null {
+  const [providerName, ...modelParts] = value.trim().split(":");
+  const provider = providerName.trim().toLowerCase();
+  if (!(LLM_PROVIDER_NAMES as readonly string[]).includes(provider)) {
+    console.warn(`[LLM] Ignoring unknown provider in ${envName}: ${value}`);
+    return null;
+  }
+  const model = modelParts.join(":").trim();
+  return {
+    provider: provider as LlmProviderName,
+    model: model || PROVIDERS[provider as LlmProviderName].defaultModel(),
+  };
+}
+
+/**
+ * Provider and model for a task. LLM_ROUTE_<TASK> routes one task, e.g.
+ * LLM_ROUTE_SUMMARY=mistral or LLM_ROUTE_ENTITY=local:qwen2.5; LLM_PROVIDER
+ * moves every task without its own route, e.g. LLM_PROVIDER=stub for tests.
+ * An override passed with the call wins over both.
+ */
+export function getLlmRoute(task: LlmTask, override?: LlmRouteOverride): LlmRoute {
+  if (override) {
+    return { provider: override.provider, model: override.model || PROVIDERS[override.provider].defaultModel() };
+  }
+
+  const taskEnv = `LLM_ROUTE_${task.toUpperCase()}`;
+  const taskRoute = process.env[taskEnv] ? parseRoute(process.env[taskEnv]!, taskEnv) : null;
+  if (taskRoute) return taskRoute;
+
+  const globalRoute = process.env.LLM_PROVIDER ? parseRoute(process.env.LLM_PROVIDER, "LLM_PROVIDER") : null;
+  if (globalRoute) return globalRoute;
+
+  const provider = DEFAULT_PROVIDERS[task];
+  return { provider, model: PROVIDERS[provider].defaultModel() };
+}
+
+function missingEnv(provider: LlmProvider): string[] {
+  return provider.requiredEnv.filter(name => !process.env[name]);
+}
+
+/** Why the task's provider, or the overriding one, cannot be called; null when it can. */
+export function getLlmTaskConfigError(task: LlmTask, override?: LlmRouteOverride): string | null {
+  const missing = missingEnv(PROVIDERS[getLlmRoute(task, override).provider]);
+  return missing.length > 0 ? `${missing.join(", ")} is not configured` : null;
+}
+
+export function describeLlmRoutes(): (LlmRoute & { task: LlmTask; configured: boolean; timeoutMs: number; maxAttempts: number })[] {
+  return LLM_TASKS.map(task => ({
+    task,
+    ...getLlmRoute(task),
+    configured: getLlmTaskConfigError(task) === null,
+    ...TASK_LIMITS[task],
+  }));
+}
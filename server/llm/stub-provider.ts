@@ -0,0 +1,17 @@
+import type { LlmProvider } from "./types";
+
+// Offline provider for tests and dry runs: never touches the network and
+// always gives the same answer. LLM_STUB_RESPONSE sets the reply; otherwise
+// JSON requests get an empty object and text requests an empty string.
+export const stubProvider: LlmProvider = {
+  name: "stub",
+  requiredEnv: [],
+  defaultModel: () => "stub",
+
+  async complete(request) {
+    if (process.env.LLM_STUB_RESPONSE !== undefined) {
+      return process.env.LLM_STUB_RESPONSE;
+    }
+    return request.json ? "{}" : "";
+  },
+};
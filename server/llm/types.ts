@@ -0,0 +1,64 @@
+import { LLM_PROVIDER_NAMES, type LlmProviderName } from "@shared/schema";
+
+export { LLM_PROVIDER_NAMES, type LlmProviderName };
+
+// What a call is for; each task is routed to its own provider and model
+export const LLM_TASKS = ["classification", "summary", "entity", "captcha", "search"] as const;
+export type LlmTask = typeof LLM_TASKS[number];
+
+export interface LlmImage {
+  mimeType: string;
+  // Base64 without the data: prefix
+  data: string;
+}
+
+export interface LlmMessage {
+  role: "user" | "assistant";
+  text: string;
+  images?: LlmImage[];
+}
+
+export interface LlmRequest {
+  task: LlmTask;
+  system?: string;
+  messages: LlmMessage[];
+  // Ask for a single JSON object
+  json?: boolean;
+  temperature?: number;
+  maxTokens?: number;
+  // Names the call in retry logs, e.g. "Classification order 12"
+  label?: string;
+  // Used instead of the task's configured route, e.g. to evaluate another model
+  route?: LlmRouteOverride;
+}
+
+export interface LlmCompletion {
+  text: string;
+  provider: LlmProviderName;
+  model: string;
+}
+
+export type LlmProviderRequest = Omit<LlmRequest, "task" | "label" | "route"> & {
+  model: string;
+  signal: AbortSignal;
+};
+
+export interface LlmProvider {
+  name: LlmProviderName;
+  // Env vars that must be set before the provider can be called
+  requiredEnv: string[];
+  defaultModel(): string;
+  // Resolves to the reply text
+  complete(request: LlmProviderRequest): Promise<string>;
+}
+
+export interface LlmRoute {
+  provider: LlmProviderName;
+  model: string;
+}
+
+// A provider without a model uses the provider's default model
+export interface LlmRouteOverride {
+  provider: LlmProviderName;
+  model?: string;
+}
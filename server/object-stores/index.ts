@@ -0,0 +1,30 @@
+import { OBJECT_STORE_BACKENDS, type ObjectStore, type ObjectStoreBackend } from "./types";
+import { replitObjectStore } from "./replit-store";
+import { localObjectStore } from "./local-store";
+import { s3ObjectStore } from "./s3-store";
+
+export * from "./types";
+export { ObjectNotFoundError } from "./errors";
+
+const stores: Record<ObjectStoreBackend, ObjectStore> = {
+  replit: replitObjectStore,
+  local: localObjectStore,
+  s3: s3ObjectStore,
+};
+
+export function isObjectStoreBackend(name: string): name is ObjectStoreBackend {
+  return (OBJECT_STORE_BACKENDS as readonly string[]).includes(name);
+}
+
+export function createObjectStore(name: string): ObjectStore {
+  if (!isObjectStoreBackend(name)) {
+    throw new Error(`Unknown object storage backend "${name}" (expected one of: ${OBJECT_STORE_BACKENDS.join(", ")})`);
+  }
+  return stores[name];
+}
+
+// OBJECT_STORAGE_BACKEND picks where PDFs live; defaults to Replit so
+// existing deployments keep working unchanged
+export function getObjectStore(): ObjectStore {
+  return createObjectStore(process.env.OBJECT_STORAGE_BACKEND || "replit");
+}
@@ -0,0 +1,117 @@
+import { createReadStream } from "fs";
+import { mkdir, readFile, writeFile, stat, readdir, rename, rm } from "fs/promises";
+import path from "path";
+import type { ObjectStore, ObjectFile } from "./types";
+import { ObjectNotFoundError } from "./errors";
+
+const META_SUFFIX = ".meta.json";
+
+interface LocalObjectMeta {
+  contentType: string;
+  metadata: Record<string, string>;
+}
+
+function getRoot(): string {
+  return path.resolve(process.env.LOCAL_OBJECT_DIR || ".data/objects");
+}
+
+// Keys come from request paths, so refuse anything that escapes the root
+function resolveKey(key: string): string {
+  const root = getRoot();
+  const fullPath = path.resolve(root, key);
+  if (fullPath !== root && !fullPath.startsWith(root + path.sep)) {
+    throw new ObjectNotFoundError();
+  }
+  return fullPath;
+}
+
+async function readMeta(fullPath: string): Promise<LocalObjectMeta> {
+  try {
+    return JSON.parse(await readFile(fullPath + META_SUFFIX, "utf8"));
+  } catch {
+    return { contentType: "application/octet-stream", metadata: {} };
+  }
+}
+
+async function* walk(dir: string): AsyncGenerator<string> {
+  let entries;
+  try {
+    entries = await readdir(dir, { withFileTypes: true });
+  } catch {
+    return;
+  }
+  for (const entry of entries) {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      yield* walk(fullPath);
+    } else if (!entry.name.endsWith(META_SUFFIX) && !entry.name.endsWith(".tmp")) {
+      yield fullPath;
+    }
+  }
+}
+
+export const localObjectStore: ObjectStore = {
+  backend: "local",
+
+  async exists(key) {
+    try {
+      return (await stat(resolveKey(key))).isFile();
+    } catch {
+      return false;
+    }
+  },
+
+  async stat(key): Promise<ObjectFile | null> {
+    const fullPath = resolveKey(key);
+    let fileStat;
+    try {
+      fileStat = await stat(fullPath);
+    } catch {
+      return null;
+    }
+    if (!fileStat.isFile()) return null;
+
+    const meta = await readMeta(fullPath);
+    return {
+      key,
+      size: fileStat.size,
+      contentType: meta.contentType,
+      metadata: meta.metadata,
+      createReadStream: () => createReadStream(fullPath),
+    };
+  },
+
+  async get(key) {
+    try {
+      return await readFile(resolveKey(key));
+    } catch {
+      throw new ObjectNotFoundError();
+    }
+  },
+
+  async put(key, body, options) {
+    const fullPath = resolveKey(key);
+    await mkdir(path.dirname(fullPath), { recursive: true });
+    const meta: LocalObjectMeta = { contentType: options.contentType, metadata: options.metadata ?? {} };
+    await writeFile(fullPath + META_SUFFIX, JSON.stringify(meta));
+    // Write then rename so readers never see a partial PDF
+    await writeFile(fullPath + ".tmp", body);
+    await rename(fullPath + ".tmp", fullPath);
+  },
+
+  async delete(key) {
+    const fullPath = resolveKey(key);
+    await rm(fullPath, { force: true });
+    await rm(fullPath + META_SUFFIX, { force: true });
+  },
+
+  async *list(prefix = "") {
+    const root = getRoot();
+    for await (const fullPath of walk(root)) {
+      const key = path.relative(root, fullPath).split(path.sep).join("/");
+      if (key.startsWith(prefix)) {
+        yield key;
+      }
+    }
+  },
+};
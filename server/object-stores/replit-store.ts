@@ -0,0 +1,114 @@
+import { Storage } from "@google-cloud/storage";
+import type { ObjectStore, ObjectFile } from "./types";
+import { ObjectNotFoundError } from "./errors";
+
+const REPLIT_SIDECAR_ENDPOINT = "http://127.0.0.1:1106";
+
+let client: Storage | null = null;
+
+// Created lazily so other backends never touch the sidecar
+function getClient(): Storage {
+  if (!client) {
+    client = new Storage({
+      credentials: {
+        audience: "replit",
+        subject_token_type: "access_token",
+        token_url: `${REPLIT_SIDECAR_ENDPOINT}/token`,
+        type: "external_account",
+        credential_source: {
+          url: `${REPLIT_SIDECAR_ENDPOINT}/credential`,
+          format: {
+            type: "json",
+            subject_token_field_name: "access_token",
+          },
+        },
+        universe_domain: "googleapis.com",
+      },
+      projectId: "",
+    });
+  }
+  return client;
+}
+
+function getPrivateObjectDir(): string {
+  const dir = process.env.PRIVATE_OBJECT_DIR || "";
+  if (!dir) {
+    throw new Error(
+      "PRIVATE_OBJECT_DIR not set. Create a bucket in 'Object Storage' " +
+        "tool and set PRIVATE_OBJECT_DIR env var."
+    );
+  }
+  return dir;
+}
+
+// PRIVATE_OBJECT_DIR is "/<bucket>/<prefix>"
+function parsePrivateObjectDir(): { bucketName: string; prefix: string } {
+  const parts = getPrivateObjectDir().replace(/^\/+|\/+$/g, "").split("/");
+  if (!parts[0]) {
+    throw new Error("Invalid PRIVATE_OBJECT_DIR: must contain at least a bucket name");
+  }
+  return { bucketName: parts[0], prefix: parts.slice(1).join("/") };
+}
+
+function locate(key: string): { bucketName: string; objectName: string } {
+  const { bucketName, prefix } = parsePrivateObjectDir();
+  return { bucketName, objectName: prefix ? `${prefix}/${key}` : key };
+}
+
+function fileFor(key: string) {
+  const { bucketName, objectName } = locate(key);
+  return getClient().bucket(bucketName).file(objectName);
+}
+
+export const replitObjectStore: ObjectStore = {
+  backend: "replit",
+
+  async exists(key) {
+    const [exists] = await fileFor(key).exists();
+    return exists;
+  },
+
+  async stat(key): Promise<ObjectFile | null> {
+    const file = fileFor(key);
+    const [exists] = await file.exists();
+    if (!exists) return null;
+    const [metadata] = await file.getMetadata();
+    return {
+      key,
+      size: Number(metadata.size) || 0,
+      contentType: metadata.contentType || "application/octet-stream",
+      metadata: Object.fromEntries(
+        Object.entries(metadata.metadata ?? {}).map(([k, v]) => [k, String(v)])
+      ),
+      createReadStream: () => file.createReadStream(),
+    };
+  },
+
+  async get(key) {
+    const file = fileFor(key);
+    const [exists] = await file.exists();
+    if (!exists) throw new ObjectNotFoundError();
+    const [contents] = await file.download();
+    return contents;
+  },
+
+  async put(key, body, options) {
+    await fileFor(key).save(body, {
+      contentType: options.contentType,
+      metadata: { metadata: options.metadata },
+    });
+  },
+
+  async delete(key) {
+    await fileFor(key).delete({ ignoreNotFound: true });
+  },
+
+  async *list(prefix = "") {
+    const { bucketName, objectName } = locate(prefix);
+    const root = parsePrivateObjectDir().prefix;
+    const [files] = await getClient().bucket(bucketName).getFiles({ prefix: objectName });
+    for (const file of files) {
+      yield root ? file.name.slice(root.length + 1) : file.name;
+    }
+  },
+};
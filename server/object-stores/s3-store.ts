@@ -0,0 +1,205 @@
+import { createHash, createHmac } from "crypto";
+import { PassThrough, Readable } from "stream";
+import type { ReadableStream as WebReadableStream } from "stream/web";
+import type { ObjectStore, ObjectFile } from "./types";
+import { ObjectNotFoundError } from "./errors";
+
+// Minimal S3 client (SigV4, path-style URLs) so MinIO and other S3-compatible
+// stores work without pulling in the AWS SDK
+
+interface S3Config {
+  endpoint: string;
+  bucket: string;
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  prefix: string;
+}
+
+const META_HEADER_PREFIX = "x-amz-meta-";
+const EMPTY_PAYLOAD_HASH = createHash("sha256").update("").digest("hex");
+
+function getConfig(): S3Config {
+  const { S3_ENDPOINT, S3_BUCKET, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY } = process.env;
+  if (!S3_ENDPOINT || !S3_BUCKET || !S3_ACCESS_KEY_ID || !S3_SECRET_ACCESS_KEY) {
+    throw new Error("S3 storage needs S3_ENDPOINT, S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY");
+  }
+  return {
+    endpoint: S3_ENDPOINT.replace(/\/+$/, ""),
+    bucket: S3_BUCKET,
+    region: process.env.S3_REGION || "us-east-1",
+    accessKeyId: S3_ACCESS_KEY_ID,
+    secretAccessKey: S3_SECRET_ACCESS_KEY,
+    prefix: (process.env.S3_PREFIX || "").replace(/^\/+|\/+$/g, ""),
+  };
+}
+
+function sha256Hex(data: string | Buffer): string {
+  return createHash("sha256").update(data).digest("hex");
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return createHmac("sha256", key).update(data).digest();
+}
+
+// RFC 3986 encoding as SigV4 expects it
+function encodeRfc3986(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+function objectName(config: S3Config, key: string): string {
+  return config.prefix ? `${config.prefix}/${key}` : key;
+}
+
+async function s3Request(
+  method: "GET" | "HEAD" | "PUT" | "DELETE",
+  name: string | null,
+  options: { query?: Record<string, string>; body?: Buffer; headers?: Record<string, string> } = {}
+): Promise<Response> {
+  const config = getConfig();
+  const url = new URL(config.endpoint);
+  const canonicalUri = `${url.pathname.replace(/\/+$/, "")}/${encodeRfc3986(config.bucket)}` +
+    (name === null ? "/" : `/${name.split("/").map(encodeRfc3986).join("/")}`);
+
+  const query = options.query ?? {};
+  const canonicalQuery = Object.keys(query).sort()
+    .map(k => `${encodeRfc3986(k)}=${encodeRfc3986(query[k])}`)
+    .join("&");
+
+  const now = new Date();
+  const amzDate = now.toISOString().replace(/[:-]|\.\d{3}/g, "");
+  const dateStamp = amzDate.slice(0, 8);
+  const payloadHash = options.body ? sha256Hex(options.body) : EMPTY_PAYLOAD_HASH;
+
+  const headers: Record<string, string> = {
+    host: url.host,
+    "x-amz-content-sha256": payloadHash,
+    "x-amz-date": amzDate,
+  };
+  for (const [k, v] of Object.entries(options.headers ?? {})) {
+    headers[k.toLowerCase()] = v;
+  }
+
+  const signedHeaderNames = Object.keys(headers).sort();
+  const canonicalHeaders = signedHeaderNames.map(k => `${k}:${headers[k].trim()}\n`).join("");
+  const signedHeaders = signedHeaderNames.join(";");
+  const canonicalRequest = [method, canonicalUri, canonicalQuery, canonicalHeaders, signedHeaders, payloadHash].join("\n");
+
+  const scope = `${dateStamp}/${config.region}/s3/aws4_request`;
+  const stringToSign = ["AWS4-HMAC-SHA256", amzDate, scope, sha256Hex(canonicalRequest)].join("\n");
+  const signingKey = hmac(hmac(hmac(hmac(`AWS4${config.secretAccessKey}`, dateStamp), config.region), "s3"), "aws4_request");
+  const signature = createHmac("sha256", signingKey).update(stringToSign).digest("hex");
+
+  const { host, ...sendHeaders } = headers;
+  return fetch(`${url.origin}${canonicalUri}${canonicalQuery ? `?${canonicalQuery}` : ""}`, {
+    method,
+    headers: {
+      ...sendHeaders,
+      Authorization: `AWS4-HMAC-SHA256 Credential=${config.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+    },
+    body: options.body,
+  });
+}
+
+async function ensureOk(response: Response, action: string): Promise<void> {
+  if (response.status === 404) throw new ObjectNotFoundError();
+  if (!response.ok) {
+    const detail = await response.text().catch(() => "");
+    throw new Error(`S3 ${action} failed: HTTP ${response.status} ${detail.slice(0, 200)}`);
+  }
+}
+
+function decodeXml(value: string): string {
+  return value
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, "\"")
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+export const s3ObjectStore: ObjectStore = {
+  backend: "s3",
+
+  async exists(key) {
+    const response = await s3Request("HEAD", objectName(getConfig(), key));
+    if (response.status === 404) return false;
+    await ensureOk(response, "HEAD");
+    return true;
+  },
+
+  async stat(key): Promise<ObjectFile | null> {
+    const name = objectName(getConfig(), key);
+    const response = await s3Request("HEAD", name);
+    if (response.status === 404) return null;
+    await ensureOk(response, "HEAD");
+
+    const metadata: Record<string, string> = {};
+    response.headers.forEach((value, header) => {
+      if (header.startsWith(META_HEADER_PREFIX)) {
+        metadata[header.slice(META_HEADER_PREFIX.length)] = value;
+      }
+    });
+
+    return {
+      key,
+      size: Number(response.headers.get("content-length")) || 0,
+      contentType: response.headers.get("content-type") || "application/octet-stream",
+      metadata,
+      // Hand back a stream right away and fill it once the GET responds
+      createReadStream: () => {
+        const stream = new PassThrough();
+        s3Request("GET", name)
+          .then(async (getResponse) => {
+            await ensureOk(getResponse, "GET");
+            Readable.fromWeb(getResponse.body as WebReadableStream).pipe(stream);
+          })
+          .catch(error => stream.destroy(error));
+        return stream;
+      },
+    };
+  },
+
+  async get(key) {
+    const response = await s3Request("GET", objectName(getConfig(), key));
+    await ensureOk(response, "GET");
+    return Buffer.from(await response.arrayBuffer());
+  },
+
+  async put(key, body, options) {
+    const headers: Record<string, string> = { "content-type": options.contentType };
+    for (const [k, v] of Object.entries(options.metadata ?? {})) {
+      headers[`${META_HEADER_PREFIX}${k.toLowerCase()}`] = v;
+    }
+    const response = await s3Request("PUT", objectName(getConfig(), key), { body, headers });
+    await ensureOk(response, "PUT");
+  },
+
+  async delete(key) {
+    const response = await s3Request("DELETE", objectName(getConfig(), key));
+    if (response.status === 404) return;
+    await ensureOk(response, "DELETE");
+  },
+
+  async *list(prefix = "") {
+    const config = getConfig();
+    const root = config.prefix ? `${config.prefix}/` : "";
+    let continuationToken: string | undefined;
+
+    do {
+      const query: Record<string, string> = { "list-type": "2", prefix: root + prefix };
+      if (continuationToken) query["continuation-token"] = continuationToken;
+
+      const response = await s3Request("GET", null, { query });
+      await ensureOk(response, "LIST");
+      const xml = await response.text();
+
+      for (const match of Array.from(xml.matchAll(/<Key>([^<]*)<\/Key>/g))) {
+        yield decodeXml(match[1]).slice(root.length);
+      }
+      const truncated = /<IsTruncated>true<\/IsTruncated>/.test(xml);
+      const next = xml.match(/<NextContinuationToken>([^<]*)<\/NextContinuationToken>/);
+      continuationToken = truncated && next ? decodeXml(next[1]) : undefined;
+    } while (continuationToken);
+  },
+};
@@ -0,0 +1,31 @@
+import type { Readable } from "stream";
+
+export const OBJECT_STORE_BACKENDS = ["replit", "local", "s3"] as const;
+export type ObjectStoreBackend = typeof OBJECT_STORE_BACKENDS[number];
+
+export interface PutObjectOptions {
+  contentType: string;
+  metadata?: Record<string, string>;
+}
+
+// Backend-neutral handle for a stored object; keys are relative to the
+// private object dir, e.g. "pdfs/sha256/<hash>.pdf"
+export interface ObjectFile {
+  key: string;
+  size: number;
+  contentType: string;
+  metadata: Record<string, string>;
+  createReadStream(): Readable;
+}
+
+export interface ObjectStore {
+  backend: ObjectStoreBackend;
+  exists(key: string): Promise<boolean>;
+  // Resolves to null when the object does not exist
+  stat(key: string): Promise<ObjectFile | null>;
+  get(key: string): Promise<Buffer>;
+  put(key: string, body: Buffer, options: PutObjectOptions): Promise<void>;
+  // No-op when the object does not exist
+  delete(key: string): Promise<void>;
+  list(prefix?: string): AsyncIterable<string>;
+}
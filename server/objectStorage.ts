@@ -1,88 +1,26 @@
-import { Storage, File } from "@google-cloud/storage";
 import { Response } from "express";
-import { randomUUID } from "crypto";
+import { createHash } from "crypto";
+import { getObjectStore, ObjectNotFoundError, type ObjectStore, type ObjectFile } from "./object-stores";
 
-const REPLIT_SIDECAR_ENDPOINT = "http://127.0.0.1:1106";
+export { ObjectNotFoundError };
+export type { ObjectFile };
 
-export const objectStorageClient = new Storage({
-  credentials: {
-    audience: "replit",
-    subject_token_type: "access_token",
-    token_url: `${REPLIT_SIDECAR_ENDPOINT}/token`,
-    type: "external_account",
-    credential_source: {
-      url: `${REPLIT_SIDECAR_ENDPOINT}/credential`,
-      format: {
-        type: "json",
-        subject_token_field_name: "access_token",
-      },
-    },
-    universe_domain: "googleapis.com",
-  },
-  projectId: "",
-});
-
-export class ObjectNotFoundError extends Error {
-  constructor() {
-    super("Object not found");
-    this.name = "ObjectNotFoundError";
-    Object.setPrototypeOf(this, ObjectNotFoundError.prototype);
-  }
+export interface StoredPdf {
+  objectPath: string;
+  contentHash: string;
+  deduplicated: boolean;
 }
 
-export class ObjectStorageService {
-  constructor() {}
-
-  getPublicObjectSearchPaths(): Array<string> {
-    const pathsStr = process.env.PUBLIC_OBJECT_SEARCH_PATHS || "";
-    const paths = Array.from(
-      new Set(
-        pathsStr
-          .split(",")
-          .map((path) => path.trim())
-          .filter((path) => path.length > 0)
-      )
-    );
-    if (paths.length === 0) {
-      throw new Error(
-        "PUBLIC_OBJECT_SEARCH_PATHS not set. Create a bucket in 'Object Storage' " +
-          "tool and set PUBLIC_OBJECT_SEARCH_PATHS env var (comma-separated paths)."
-      );
-    }
-    return paths;
-  }
-
-  getPrivateObjectDir(): string {
-    const dir = process.env.PRIVATE_OBJECT_DIR || "";
-    if (!dir) {
-      throw new Error(
-        "PRIVATE_OBJECT_DIR not set. Create a bucket in 'Object Storage' " +
-          "tool and set PRIVATE_OBJECT_DIR env var."
-      );
-    }
-    return dir;
-  }
+const OBJECT_PATH_PREFIX = "/objects/";
 
-  async searchPublicObject(filePath: string): Promise<File | null> {
-    for (const searchPath of this.getPublicObjectSearchPaths()) {
-      const fullPath = `${searchPath}/${filePath}`;
-      const { bucketName, objectName } = parseObjectPath(fullPath);
-      const bucket = objectStorageClient.bucket(bucketName);
-      const file = bucket.file(objectName);
-      const [exists] = await file.exists();
-      if (exists) {
-        return file;
-      }
-    }
-    return null;
-  }
+export class ObjectStorageService {
+  constructor(private store: ObjectStore = getObjectStore()) {}
 
-  async downloadObject(file: File, res: Response, cacheTtlSec: number = 3600) {
+  async downloadObject(file: ObjectFile, res: Response, cacheTtlSec: number = 3600) {
     try {
-      const [metadata] = await file.getMetadata();
       res.set({
-        "Content-Type": metadata.contentType || "application/octet-stream",
-        "Content-Length": metadata.size,
+        "Content-Type": file.contentType,
+        "Content-Length": String(file.size),
         "Cache-Control": `private, max-age=${cacheTtlSec}`,
       });
       const stream = file.createReadStream();
@@ -90,6 +28,8 @@ export class ObjectStorageService {
         console.error("Stream error:", err);
         if (!res.headersSent) {
           res.status(500).json({ error: "Error streaming file" });
+        } else {
+          res.destroy(err);
         }
       });
       stream.pipe(res);
@@ -101,71 +41,62 @@ export class ObjectStorageService {
     }
   }
 
-  async storePdf(pdfBuffer: Buffer, cnr: string, orderNo: number): Promise<string> {
-    const privateObjectDir = this.getPrivateObjectDir();
-    const objectId = `pdfs/${cnr}_order_${orderNo}.pdf`;
-    const fullPath = `${privateObjectDir}/${objectId}`;
-    const { bucketName, objectName } = parseObjectPath(fullPath);
-    const bucket = objectStorageClient.bucket(bucketName);
-    const file = bucket.file(objectName);
-    
-    await file.save(pdfBuffer, {
-      contentType: "application/pdf",
-      metadata: {
-        cnr,
-        orderNo: String(orderNo),
-      },
-    });
-    
-    return `/objects/${objectId}`;
-  }
+  // PDFs are stored by content hash, so the same order served under several
+  // order numbers/dates is kept once. cnr/orderNo record where it was first seen.
+  async storePdf(pdfBuffer: Buffer, cnr: string, orderNo: number): Promise<StoredPdf> {
+    const contentHash = createHash("sha256").update(pdfBuffer).digest("hex");
+    const objectId = `pdfs/sha256/${contentHash}.pdf`;
 
-  async getPdfFile(objectPath: string): Promise<File> {
-    if (!objectPath.startsWith("/objects/")) {
-      throw new ObjectNotFoundError();
-    }
-    const parts = objectPath.slice(1).split("/");
-    if (parts.length < 2) {
-      throw new ObjectNotFoundError();
+    const exists = await this.store.exists(objectId);
+    if (!exists) {
+      await this.store.put(objectId, pdfBuffer, {
+        contentType: "application/pdf",
+        metadata: {
+          cnr,
+          orderNo: String(orderNo),
+          sha256: contentHash,
+        },
+      });
     }
-    const entityId = parts.slice(1).join("/");
-    let entityDir = this.getPrivateObjectDir();
-    if (!entityDir.endsWith("/")) {
-      entityDir = `${entityDir}/`;
+
+    return { objectPath: `${OBJECT_PATH_PREFIX}${objectId}`, contentHash, deduplicated: exists };
+  }
+
+  // Quarantined responses are kept by content hash like PDFs, but under their
+  // own prefix so nothing treats them as order PDFs
+  async storeQuarantinedBytes(buffer: Buffer, contentHash: string, metadata: Record<string, string>): Promise<string> {
+    const objectId = `quarantine/sha256/${contentHash}.bin`;
+    if (!(await this.store.exists(objectId))) {
+      await this.store.put(objectId, buffer, { contentType: "application/octet-stream", metadata });
     }
-    const objectEntityPath = `${entityDir}${entityId}`;
-    const { bucketName, objectName } = parseObjectPath(objectEntityPath);
-    const bucket = objectStorageClient.bucket(bucketName);
-    const objectFile = bucket.file(objectName);
-    const [exists] = await objectFile.exists();
-    if (!exists) {
+    return `${OBJECT_PATH_PREFIX}${objectId}`;
+  }
+
+  async deleteObject(objectPath: string): Promise<void> {
+    await this.store.delete(toObjectKey(objectPath));
+  }
+
+  async getPdfFile(objectPath: string): Promise<ObjectFile> {
+    const file = await this.store.stat(toObjectKey(objectPath));
+    if (!file) {
       throw new ObjectNotFoundError();
     }
-    return objectFile;
+    return file;
   }
 
   async getPdfBuffer(objectPath: string): Promise<Buffer> {
-    const file = await this.getPdfFile(objectPath);
-    const [contents] = await file.download();
-    return contents;
+    return this.store.get(toObjectKey(objectPath));
   }
 }
 
-function parseObjectPath(path: string): {
-  bucketName: string;
-  objectName: string;
-} {
-  if (!path.startsWith("/")) {
-    path = `/${path}`;
+// "/objects/pdfs/sha256/<hash>.pdf" -> "pdfs/sha256/<hash>.pdf"
+function toObjectKey(objectPath: string): string {
+  if (!objectPath.startsWith(OBJECT_PATH_PREFIX)) {
+    throw new ObjectNotFoundError();
   }
-  const pathParts = path.split("/");
-  if (pathParts.length < 3) {
-    throw new Error("Invalid path: must contain at least a bucket name");
+  const key = objectPath.slice(OBJECT_PATH_PREFIX.length);
+  if (!key) {
+    throw new ObjectNotFoundError();
   }
-  const bucketName = pathParts[1];
-  const objectName = pathParts.slice(2).join("/");
-  return {
-    bucketName,
-    objectName,
-  };
+  return key;
 }
@@ -0,0 +1,234 @@
+import type { OrderSectionName } from "@shared/schema";
+
+// Splits a district court order into its conventional parts. Orders follow a
+// loose template: court header, cause title, "Present:" appearances, the
+// proceedings, the operative directions, the next date and the judge's
+// sign-off. Repeated page headers and page numbers are dropped; e-signature
+// stamps are folded into the signature.
+
+export interface SegmentablePage {
+  text: string;
+  // Offset of the page in the order's rawText
+  charOffset: number;
+}
+
+export interface OrderSection {
+  name: OrderSectionName;
+  text: string;
+  // Span in rawText from the section's first line to its last
+  charStart: number;
+  charEnd: number;
+}
+
+export interface OrderSegmentation {
+  sections: OrderSection[];
+  // Repeated headers and page numbers left out of every section
+  strippedLines: number;
+}
+
+interface Line {
+  text: string;
+  charStart: number;
+  charEnd: number;
+  pageIndex: number;
+  // Position among the page's non-empty lines
+  pageLineIndex: number;
+}
+
+const SECTION_LABELS: Record<OrderSectionName, string> = {
+  court_header: "COURT",
+  case_title: "CASE TITLE",
+  presence: "PRESENT",
+  proceedings: "PROCEEDINGS",
+  operative_order: "OPERATIVE ORDER",
+  next_date: "NEXT DATE",
+  signature: "SIGNED BY",
+};
+
+// Long hearings run to many pages of recorded arguments; the start sets out the
+// matter and the end leads into the order, so the middle is what gets cut
+const MAX_PROCEEDINGS_HEAD_CHARS = 5000;
+const MAX_PROCEEDINGS_TAIL_CHARS = 3000;
+// Repeated page headers sit within the first few lines of a page
+const HEADER_ZONE_LINES = 6;
+const MAX_SIGNATURE_LINE_CHARS = 70;
+
+const DATE = String.raw`\d{1,2}\s*[./-]\s*\d{1,2}\s*[./-]\s*\d{2,4}`;
+
+const PAGE_NUMBER = /^(?:page\s*)?[-–(]?\s*\d{1,3}\s*(?:(?:of|\/)\s*\d{1,3})?\s*[-–)]?$/i;
+const SIGNATURE_STAMP = /^(?:digitally signed by|signature (?:not )?verified|signed by|date\s*:\s*\d{4}[.-]\d{2}[.-]\d{2}|reason\s*:|location\s*:|\d{4}\.\d{2}\.\d{2}\s+\d{2}:\d{2}(?::\d{2})?\s*[+-]?\d{0,4})/i;
+const COURT_HEADER = /\b(?:in the court of|court of|district (?:&|and) sessions|district court|sessions court|presiding officer|judge|magistrate|tribunal|m\.?a\.?c\.?t|commercial court|family court|rent controller|saket|tis hazari|karkardooma|rohini|dwarka|patiala house|rouse avenue|(?:new )?delhi|cnr\s*(?:no)?)\b/i;
+// Header lines that also mention parties or case numbers, e.g. "Court of ... : Saket"
+const COURT_NAME_LINE = /\b(?:court of|judge|magistrate|presiding officer|tribunal)\b/i;
+const CASE_TITLE = new RegExp(String.raw`\b(?:vs?\.?|versus|v\/s)\b|\b(?:case|suit|complaint|petition|appeal|application|fir|cs|cc|ct\.?\s*cases?|mact|rca|crl\.?\s*\w*|bail|ex|omp|arb|hma|gp|sc|e\.?p|execution)\b[^\n]*?\d+\s*\/\s*(?:19|20)?\d{2}\b|\b(?:plaintiff|defendant|petitioner|respondent|complainant|accused|applicant|appellant|decree[ -]?holder|judgment[ -]?debtor)s?\b|\bu\/s\b|\bp\.?s\.?\s*[:\-]`, "i");
+const PRESENCE_START = /^(?:present|presence|appearance|pr\.)\s*[:\-–]/i;
+const PRESENCE_LINE = /\b(?:counsel|ld\.|learned|advocates?|adv\.|proxy|in person|none for|app\b|addl\.?\s*pp|public prosecutor|i\.?o\.?\b|si\b|asi\b|hc\b|insp|sh\.|shri|smt\.?|ms\.|mr\.|on behalf|for the (?:plaintiff|defendant|petitioner|respondent|complainant|accused|state|applicant|appellant)s?|through vc|via video)/i;
+const PROCEEDINGS_START = /^(?:heard|arguments|it is|this is|vide|matter|case|reply|application|perusal|today|fresh|received|file|report|statement|the\s+(?:present|plaintiff|defendant|petitioner|respondent|complainant|accused|counsel|ld\.|learned))\b/i;
+const OPERATIVE_START = /^(?:order\b|accordingly|in view of|in the light of|in these circumstances|in the facts|hence|therefore|resultantly|consequently|in the result|it is (?:hereby )?(?:ordered|directed)|issue (?:summons|notice|fresh|nbw|bw|bailable|non[- ]bailable|production|warrants?)|let (?:summons|notice|the)|summons be|notice be|the (?:suit|application|petition|appeal|complaint|bail application|case) (?:is|stands) (?:allowed|dismissed|disposed|decreed|rejected|withdrawn)|decree sheet|file be consigned)/i;
+const NEXT_DATE = new RegExp(String.raw`\b(?:put up|to come up|come up|list(?:ed)?(?: the matter| it)? (?:on|for)|re-?notify|next date|ndoh|adjourned (?:to|for)|fixed for|now on)\b.*(?:${DATE}|\b\d{1,2}(?:st|nd|rd|th)?\s+\w+,?\s+\d{4})`, "i");
+const SIGNATURE_LINE = new RegExp(String.raw`^\(.*\)$|\b(?:judge|magistrate|j\.?m\.?f\.?c|m\.?m\.?|acj|cjj|arc|adj|asj|scj|civil judge|sessions|presiding officer|commercial court|district|court|delhi)\b|^${DATE}\.?$`, "i");
+// Judges' names are typed in capitals under the signature
+const UPPERCASE_NAME = /^\(?[A-Z][A-Z .,]+\)?$/;
+
+function normalizeLine(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9ऀ-ॿ]+/g, "");
+}
+
+function splitLines(pages: SegmentablePage[]): Line[] {
+  const lines: Line[] = [];
+  pages.forEach((page, pageIndex) => {
+    let start = 0;
+    let pageLineIndex = 0;
+    for (const raw of page.text.split("\n")) {
+      const text = raw.trim();
+      if (text) {
+        const leading = raw.length - raw.trimStart().length;
+        lines.push({
+          text,
+          charStart: page.charOffset + start + leading,
+          charEnd: page.charOffset + start + leading + text.length,
+          pageIndex,
+          pageLineIndex: pageLineIndex++,
+        });
+      }
+      start += raw.length + 1;
+    }
+  });
+  return lines;
+}
+
+// Page numbers anywhere, and lines near the top of later pages that repeat the
+// top of the first page (court name and cause title printed on every page)
+function findBoilerplate(lines: Line[]): Set<Line> {
+  const firstPageHeader = new Set(
+    lines.filter(l => l.pageIndex === 0 && l.pageLineIndex < HEADER_ZONE_LINES * 2).map(l => normalizeLine(l.text))
+  );
+  const lastLineIndexByPage = new Map<number, number>();
+  for (const line of lines) {
+    lastLineIndexByPage.set(line.pageIndex, line.pageLineIndex);
+  }
+
+  const boilerplate = new Set<Line>();
+  for (const line of lines) {
+    const atPageEdge = line.pageLineIndex < 2 || line.pageLineIndex >= (lastLineIndexByPage.get(line.pageIndex) ?? 0) - 1;
+    if (atPageEdge && PAGE_NUMBER.test(line.text)) {
+      boilerplate.add(line);
+    } else if (line.pageIndex > 0 && line.pageLineIndex < HEADER_ZONE_LINES && firstPageHeader.has(normalizeLine(line.text))) {
+      boilerplate.add(line);
+    }
+  }
+  return boilerplate;
+}
+
+// Walks back from the end over the judge's name, designation, court and date
+function findSignatureStart(lines: Line[], floor: number): number {
+  let start = lines.length;
+  for (let i = lines.length - 1; i >= floor; i--) {
+    const text = lines[i].text;
+    if (NEXT_DATE.test(text)) break;
+    const looksLikeSignature = SIGNATURE_STAMP.test(text) ||
+      (text.length <= MAX_SIGNATURE_LINE_CHARS && (SIGNATURE_LINE.test(text) || UPPERCASE_NAME.test(text)));
+    if (!looksLikeSignature) break;
+    start = i;
+  }
+  return start;
+}
+
+/**
+ * Assigns every line of the order to one section. Lines are classified in
+ * reading order: the header and title run until "Present:", the appearance
+ * block until the proceedings begin, and operative directions from the first
+ * line that starts to order something.
+ */
+export function segmentOrderText(pages: SegmentablePage[]): OrderSegmentation {
+  const allLines = splitLines(pages);
+  const boilerplate = findBoilerplate(allLines);
+  const stamps = allLines.filter(l => !boilerplate.has(l) && SIGNATURE_STAMP.test(l.text));
+  const lines = allLines.filter(l => !boilerplate.has(l) && !stamps.includes(l));
+
+  const presenceIndex = lines.findIndex(l => PRESENCE_START.test(l.text));
+  const signatureStart = findSignatureStart(lines, Math.max(presenceIndex + 1, Math.min(3, lines.length)));
+
+  const assigned = new Map<OrderSectionName, Line[]>();
+  const assign = (name: OrderSectionName, line: Line) => {
+    assigned.set(name, [...(assigned.get(name) ?? []), line]);
+  };
+
+  let state: OrderSectionName = "court_header";
+  for (let i = 0; i < signatureStart; i++) {
+    const line = lines[i];
+    const text = line.text;
+
+    if (PRESENCE_START.test(text) && (state === "court_header" || state === "case_title")) {
+      state = "presence";
+    } else if (state === "court_header" && (!COURT_HEADER.test(text) || (CASE_TITLE.test(text) && !COURT_NAME_LINE.test(text)))) {
+      state = CASE_TITLE.test(text) || new RegExp(`^${DATE}$`).test(text) ? "case_title" : "proceedings";
+    } else if (state === "case_title" && presenceIndex === -1 && PROCEEDINGS_START.test(text)) {
+      state = "proceedings";
+    } else if (state === "presence" && !PRESENCE_LINE.test(text) && (PROCEEDINGS_START.test(text) || text.length > 120)) {
+      state = "proceedings";
+    }
+
+    if (NEXT_DATE.test(text) && state !== "court_header" && state !== "case_title") {
+      state = "next_date";
+    } else if (OPERATIVE_START.test(text) && (state === "proceedings" || state === "presence")) {
+      state = "operative_order";
+    }
+
+    assign(state, line);
+  }
+  for (const line of lines.slice(signatureStart)) {
+    assign("signature", line);
+  }
+  for (const line of stamps) {
+    assign("signature", line);
+  }
+
+  // Short orders often have no operative opening phrase; their last paragraph is the order
+  if (!assigned.has("operative_order")) {
+    const proceedings = assigned.get("proceedings") ?? [];
+    if (proceedings.length >= 2) {
+      const last = proceedings[proceedings.length - 1];
+      assigned.set("proceedings", proceedings.slice(0, -1));
+      assigned.set("operative_order", [last]);
+    }
+  }
+
+  const sections: OrderSection[] = [];
+  for (const name of Object.keys(SECTION_LABELS) as OrderSectionName[]) {
+    const sectionLines = (assigned.get(name) ?? []).sort((a, b) => a.charStart - b.charStart);
+    if (sectionLines.length === 0) continue;
+    sections.push({
+      name,
+      text: sectionLines.map(l => l.text).join("\n"),
+      charStart: sectionLines[0].charStart,
+      charEnd: sectionLines[sectionLines.length - 1].charEnd,
+    });
+  }
+
+  return { sections, strippedLines: boilerplate.size };
+}
+
+// Tells the model how to read buildClassifierText output
+export const SECTIONED_TEXT_NOTE = `The order is split into labelled sections (${
+  Object.values(SECTION_LABELS).map(label => `[${label}]`).join(", ")
+}); quote phrases from the section text, not the labels.`;
+
+function trimProceedings(text: string): string {
+  if (text.length <= MAX_PROCEEDINGS_HEAD_CHARS + MAX_PROCEEDINGS_TAIL_CHARS) return text;
+  return `${text.slice(0, MAX_PROCEEDINGS_HEAD_CHARS)}\n[...]\n${text.slice(-MAX_PROCEEDINGS_TAIL_CHARS)}`;
+}
+
+/**
+ * Labelled sections for the classifier prompts, without page furniture and
+ * with long proceedings cut in the middle. Null when nothing was segmented.
+ */
+export function buildClassifierText(sections: Pick<OrderSection, "name" | "text">[]): string | null {
+  const parts = sections
+    .filter(section => section.text.trim())
+    .map(section => {
+      const text = section.name === "proceedings" ? trimProceedings(section.text) : section.text;
+      return `[${SECTION_LABELS[section.name]}]\n${text}`;
+    });
+  return parts.length > 0 ? parts.join("\n\n") : null;
+}
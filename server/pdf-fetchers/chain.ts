@@ -0,0 +1,165 @@
+import { PDF_FETCHER_NAMES } from "@shared/schema";
+import type { InsertPdfFetchAttempt, PdfFetcherName, PdfFetchStrategy } from "@shared/schema";
+import type { PdfFetcher, PdfFetchAttemptResult, PdfFetchResult, RejectedPdf } from "./types";
+import { directFetcher, scraperApiFetcher, zenRowsFetcher } from "./http-fetchers";
+import { playwrightFetcher } from "./playwright-fetcher";
+import { validatePdf, isAllowedCourtUrl } from "./validation";
+import { admitHostRequest, acquireHostSlot, recordHostOutcome, hostOf } from "./host-limiter";
+import { withCassette } from "../cassettes";
+
+const FETCHERS: Record<PdfFetcherName, PdfFetcher> = {
+  direct: directFetcher,
+  scraperapi: scraperApiFetcher,
+  zenrows: zenRowsFetcher,
+  playwright: playwrightFetcher,
+};
+
+// Cheapest first: direct is free, the proxies bill per request, the browser is slowest
+const DEFAULT_CHAIN: PdfFetcherName[] = ["direct", "scraperapi", "zenrows", "playwright"];
+
+/**
+ * Fetcher order for the "chain" strategy. PDF_FETCH_CHAIN overrides the
+ * default with a comma-separated list of fetcher names.
+ */
+export function getConfiguredChain(): PdfFetcherName[] {
+  const configured = process.env.PDF_FETCH_CHAIN;
+  if (!configured) return DEFAULT_CHAIN;
+
+  const names = configured.split(",").map(n => n.trim().toLowerCase());
+  const valid = names.filter((n): n is PdfFetcherName => (PDF_FETCHER_NAMES as readonly string[]).includes(n));
+  if (valid.length !== names.length) {
+    console.warn(`[PdfFetch] Ignoring unknown fetchers in PDF_FETCH_CHAIN: ${configured}`);
+  }
+  return valid.length > 0 ? valid : DEFAULT_CHAIN;
+}
+
+/**
+ * Resolves a strategy to the fetchers that will be tried, skipping any that
+ * are not configured. An empty list means nothing can run.
+ */
+export function getPdfFetchChain(strategy: PdfFetchStrategy = "chain"): PdfFetcher[] {
+  const names = strategy === "chain" ? getConfiguredChain() : [strategy];
+  return names.map(name => FETCHERS[name]).filter(fetcher => fetcher.isConfigured());
+}
+
+export function describePdfFetchers(): { name: PdfFetcherName; configured: boolean; inChain: boolean }[] {
+  const chain = getConfiguredChain();
+  return PDF_FETCHER_NAMES.map(name => ({
+    name,
+    configured: FETCHERS[name].isConfigured(),
+    inChain: chain.includes(name),
+  }));
+}
+
+// 5xx and timeouts/network errors (no status) suggest the court host is down
+function isHostFailure(attempt: PdfFetchAttemptResult): boolean {
+  return !attempt.success && (attempt.httpStatus === undefined || attempt.httpStatus >= 500);
+}
+
+/**
+ * Tries each fetcher in turn until one returns a valid PDF. Stops early when
+ * the court itself reports the order missing, since every other route would
+ * get the same answer. Every request waits on the host's rate limiter, and
+ * orders for a paused host come back with `hostUnavailable` without trying.
+ */
+export async function fetchPdf(url: string, chain: PdfFetcher[]): Promise<PdfFetchResult> {
+  if (!isAllowedCourtUrl(url)) {
+    return { success: false, error: "URL not allowed. Only court domains are permitted.", attempts: [], rejected: [] };
+  }
+  if (chain.length === 0) {
+    return { success: false, error: "No PDF fetcher is configured for this strategy", attempts: [], rejected: [] };
+  }
+
+  const admission = admitHostRequest(url);
+  if (!admission.admitted) {
+    return {
+      success: false,
+      error: `${hostOf(url)} is paused until ${admission.resumesAt.toISOString()}`,
+      hostUnavailable: true,
+      resumesAt: admission.resumesAt,
+      attempts: [],
+      rejected: [],
+    };
+  }
+
+  const attempts: PdfFetchAttemptResult[] = [];
+  const rejected: RejectedPdf[] = [];
+
+  for (const fetcher of chain) {
+    const release = await acquireHostSlot(url);
+    const startedAt = Date.now();
+    let response;
+    try {
+      response = await withCassette("pdf-fetch", { fetcher: fetcher.name, url }, () => fetcher.fetch(url));
+    } catch (error) {
+      response = { error: error instanceof Error ? error.message : "Unknown error" };
+    } finally {
+      release();
+    }
+
+    let error = response.error ?? (response.buffer ? null : "Empty response");
+    let noRecord = false;
+    if (!error && response.buffer) {
+      const validation = await validatePdf(response.buffer);
+      if (!validation.valid) {
+        error = validation.reason;
+        noRecord = validation.code === "no_record";
+        if (!noRecord) {
+          rejected.push({ fetcher: fetcher.name, httpStatus: response.httpStatus, code: validation.code, reason: validation.reason, buffer: response.buffer });
+        }
+      }
+    }
+    const attempt: PdfFetchAttemptResult = {
+      fetcher: fetcher.name,
+      success: !error,
+      httpStatus: response.httpStatus,
+      error: error ?? undefined,
+      pdfSize: response.buffer?.length,
+      requestOptions: response.requestOptions,
+      credits: response.credits ?? 0,
+      durationMs: Date.now() - startedAt,
+    };
+    attempts.push(attempt);
+    console.log(`[PdfFetch] ${fetcher.name}: ${error ? `failed (${error.slice(0, 100)})` : `${attempt.pdfSize} bytes`} for ${url}`);
+
+    if (!error) {
+      recordHostOutcome(url, true, admission.probe);
+      return { success: true, buffer: response.buffer, httpStatus: response.httpStatus, fetcher: fetcher.name, attempts, rejected };
+    }
+    if (response.httpStatus === 404 || noRecord) {
+      break;
+    }
+  }
+
+  const last = attempts[attempts.length - 1];
+  recordHostOutcome(url, !attempts.every(isHostFailure), admission.probe, last.error);
+  return { success: false, httpStatus: last.httpStatus, error: last.error, attempts, rejected };
+}
+
+export async function closePdfFetchers(): Promise<void> {
+  for (const fetcher of Object.values(FETCHERS)) {
+    await fetcher.close?.();
+  }
+}
+
+export function toAttemptRecords(
+  workflow: "bulk" | "direct",
+  orderId: number,
+  attempts: PdfFetchAttemptResult[],
+  context: { jobId?: number; districtId?: number | null } = {}
+): InsertPdfFetchAttempt[] {
+  return attempts.map(a => ({
+    workflow,
+    orderId,
+    jobId: context.jobId ?? null,
+    districtId: context.districtId ?? null,
+    fetcher: a.fetcher,
+    requestOptions: a.requestOptions ? JSON.stringify(a.requestOptions) : null,
+    credits: a.credits,
+    success: a.success,
+    httpStatusCode: a.httpStatus ?? null,
+    errorMessage: a.error ?? null,
+    pdfSizeBytes: a.pdfSize ?? null,
+    durationMs: a.durationMs,
+  }));
+}
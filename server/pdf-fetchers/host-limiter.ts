@@ -0,0 +1,272 @@
+import { z } from "zod";
+
+export interface HostLimit {
+  requestsPerMinute: number;
+  maxConcurrency: number;
+}
+
+export interface HostPolicy {
+  default: HostLimit;
+  // Per-hostname overrides, e.g. { "gurugram.dcourts.gov.in": { requestsPerMinute: 10 } }
+  hosts: Record<string, Partial<HostLimit>>;
+  // Consecutive 5xx/timeouts before a host is paused
+  failureThreshold: number;
+  cooldownSeconds: number;
+  // Orders let through at once while a paused host is being re-tested
+  halfOpenProbes: number;
+}
+
+export type CircuitState = "closed" | "open" | "half_open";
+
+export interface HostHealth {
+  host: string;
+  circuit: CircuitState;
+  consecutiveFailures: number;
+  openedAt: string | null;
+  resumesAt: string | null;
+  inFlight: number;
+  queued: number;
+  totalRequests: number;
+  totalFailures: number;
+  lastError: string | null;
+  lastSuccessAt: string | null;
+  limit: HostLimit;
+}
+
+export type HostAdmission =
+  | { admitted: true; probe: boolean }
+  | { admitted: false; resumesAt: Date };
+
+export const DEFAULT_HOST_POLICY: HostPolicy = {
+  default: { requestsPerMinute: 20, maxConcurrency: 2 },
+  hosts: {},
+  failureThreshold: 5,
+  cooldownSeconds: 300,
+  halfOpenProbes: 1,
+};
+
+interface HostState {
+  tokens: number;
+  lastRefill: number;
+  inFlight: number;
+  waiters: (() => void)[];
+  circuit: CircuitState;
+  consecutiveFailures: number;
+  openedAt: number | null;
+  probesInFlight: number;
+  totalRequests: number;
+  totalFailures: number;
+  lastError: string | null;
+  lastSuccessAt: number | null;
+}
+
+const hostStates = new Map<string, HostState>();
+let cachedPolicy: HostPolicy | null = null;
+
+// Zero or negative limits would turn the token-bucket wait into a busy loop
+const hostLimitOverrideSchema = z.object({
+  requestsPerMinute: z.number().positive(),
+  maxConcurrency: z.number().int().positive(),
+}).partial();
+
+const hostPolicyOverrideSchema = z.object({
+  default: hostLimitOverrideSchema,
+  hosts: z.record(hostLimitOverrideSchema),
+  failureThreshold: z.number().int().positive(),
+  cooldownSeconds: z.number().positive(),
+  halfOpenProbes: z.number().int().positive(),
+}).partial();
+
+/**
+ * Effective policy: the defaults, overridden by the HOST_LIMITS env var
+ * (JSON with any of default / hosts / failureThreshold / cooldownSeconds / halfOpenProbes).
+ * Overrides that are not valid JSON or not positive numbers are ignored as a whole.
+ */
+export function getHostPolicy(): HostPolicy {
+  if (cachedPolicy) return cachedPolicy;
+
+  let overrides: z.infer<typeof hostPolicyOverrideSchema> = {};
+  if (process.env.HOST_LIMITS) {
+    try {
+      const parsed = hostPolicyOverrideSchema.safeParse(JSON.parse(process.env.HOST_LIMITS));
+      if (parsed.success) {
+        overrides = parsed.data;
+      } else {
+        console.error(`[HostLimiter] Invalid HOST_LIMITS, using defaults: ${parsed.error.errors.map(e => `${e.path.join(".")} ${e.message}`).join("; ")}`);
+      }
+    } catch (error) {
+      console.error("[HostLimiter] Invalid HOST_LIMITS JSON, using defaults:", error);
+    }
+  }
+
+  cachedPolicy = {
+    default: { ...DEFAULT_HOST_POLICY.default, ...overrides.default },
+    hosts: overrides.hosts ?? {},
+    failureThreshold: overrides.failureThreshold ?? DEFAULT_HOST_POLICY.failureThreshold,
+    cooldownSeconds: overrides.cooldownSeconds ?? DEFAULT_HOST_POLICY.cooldownSeconds,
+    halfOpenProbes: overrides.halfOpenProbes ?? DEFAULT_HOST_POLICY.halfOpenProbes,
+  };
+  return cachedPolicy;
+}
+
+function limitFor(host: string, policy: HostPolicy): HostLimit {
+  return { ...policy.default, ...policy.hosts[host] };
+}
+
+export function hostOf(url: string): string {
+  try {
+    return new URL(url).hostname.toLowerCase();
+  } catch {
+    return url;
+  }
+}
+
+function getState(host: string): HostState {
+  let state = hostStates.get(host);
+  if (!state) {
+    const limit = limitFor(host, getHostPolicy());
+    state = {
+      tokens: limit.maxConcurrency,
+      lastRefill: Date.now(),
+      inFlight: 0,
+      waiters: [],
+      circuit: "closed",
+      consecutiveFailures: 0,
+      openedAt: null,
+      probesInFlight: 0,
+      totalRequests: 0,
+      totalFailures: 0,
+      lastError: null,
+      lastSuccessAt: null,
+    };
+    hostStates.set(host, state);
+  }
+  return state;
+}
+
+function resumesAt(state: HostState, policy: HostPolicy): Date | null {
+  return state.openedAt === null ? null : new Date(state.openedAt + policy.cooldownSeconds * 1000);
+}
+
+/**
+ * Circuit breaker check, made once per order before any fetcher runs. A paused
+ * host turns half-open after the cooldown and lets `halfOpenProbes` orders
+ * through; their outcome decides whether it closes or pauses again.
+ */
+export function admitHostRequest(url: string): HostAdmission {
+  const policy = getHostPolicy();
+  const state = getState(hostOf(url));
+
+  if (state.circuit === "open") {
+    const resumes = resumesAt(state, policy)!;
+    if (Date.now() < resumes.getTime()) {
+      return { admitted: false, resumesAt: resumes };
+    }
+    state.circuit = "half_open";
+    console.log(`[HostLimiter] ${hostOf(url)} half-open, probing`);
+  }
+
+  if (state.circuit === "half_open") {
+    if (state.probesInFlight >= policy.halfOpenProbes) {
+      return { admitted: false, resumesAt: new Date(Date.now() + policy.cooldownSeconds * 1000) };
+    }
+    state.probesInFlight++;
+    return { admitted: true, probe: true };
+  }
+
+  return { admitted: true, probe: false };
+}
+
+/**
+ * Feeds an order's outcome back to the breaker. Only 5xx responses and
+ * timeouts count as failures; a 404 or "No record found" means the host is up.
+ */
+export function recordHostOutcome(url: string, healthy: boolean, probe: boolean, error?: string): void {
+  const policy = getHostPolicy();
+  const host = hostOf(url);
+  const state = getState(host);
+  if (probe) {
+    state.probesInFlight = Math.max(0, state.probesInFlight - 1);
+  }
+
+  if (healthy) {
+    if (state.circuit !== "closed") {
+      console.log(`[HostLimiter] ${host} recovered, circuit closed`);
+    }
+    state.circuit = "closed";
+    state.consecutiveFailures = 0;
+    state.openedAt = null;
+    state.lastSuccessAt = Date.now();
+    return;
+  }
+
+  state.consecutiveFailures++;
+  state.totalFailures++;
+  state.lastError = error ?? null;
+  if (state.circuit === "half_open" || state.consecutiveFailures >= policy.failureThreshold) {
+    state.circuit = "open";
+    state.openedAt = Date.now();
+    console.warn(`[HostLimiter] ${host} paused for ${policy.cooldownSeconds}s after ${state.consecutiveFailures} consecutive failures`);
+  }
+}
+
+function refill(state: HostState, limit: HostLimit): void {
+  const now = Date.now();
+  const perMs = limit.requestsPerMinute / 60000;
+  state.tokens = Math.min(limit.maxConcurrency, state.tokens + (now - state.lastRefill) * perMs);
+  state.lastRefill = now;
+}
+
+/**
+ * Waits for a rate-limit token and a concurrency slot on the URL's host.
+ * Every request to a court host, through any fetcher, goes through here.
+ * Returns the function that frees the slot.
+ */
+export async function acquireHostSlot(url: string): Promise<() => void> {
+  const host = hostOf(url);
+  const state = getState(host);
+  const limit = limitFor(host, getHostPolicy());
+
+  for (;;) {
+    refill(state, limit);
+    if (state.inFlight < limit.maxConcurrency && state.tokens >= 1) {
+      state.tokens -= 1;
+      state.inFlight++;
+      state.totalRequests++;
+      let released = false;
+      return () => {
+        if (released) return;
+        released = true;
+        state.inFlight--;
+        state.waiters.shift()?.();
+      };
+    }
+
+    if (state.inFlight >= limit.maxConcurrency) {
+      await new Promise<void>(resolve => state.waiters.push(resolve));
+    } else {
+      const waitMs = Math.ceil((1 - state.tokens) / (limit.requestsPerMinute / 60000));
+      await new Promise(resolve => setTimeout(resolve, waitMs));
+    }
+  }
+}
+
+export function getHostHealth(): HostHealth[] {
+  const policy = getHostPolicy();
+  return Array.from(hostStates.entries())
+    .map(([host, state]) => ({
+      host,
+      circuit: state.circuit,
+      consecutiveFailures: state.consecutiveFailures,
+      openedAt: state.openedAt === null ? null : new Date(state.openedAt).toISOString(),
+      resumesAt: resumesAt(state, policy)?.toISOString() ?? null,
+      inFlight: state.inFlight,
+      queued: state.waiters.length,
+      totalRequests: state.totalRequests,
+      totalFailures: state.totalFailures,
+      lastError: state.lastError,
+      lastSuccessAt: state.lastSuccessAt === null ? null : new Date(state.lastSuccessAt).toISOString(),
+      limit: limitFor(host, policy),
+    }))
+    .sort((a, b) => a.host.localeCompare(b.host));
+}
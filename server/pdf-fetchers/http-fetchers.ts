@@ -0,0 +1,85 @@
+import axios from "axios";
+import type { PdfFetcher, PdfFetchResponse } from "./types";
+import { BROWSER_USER_AGENT } from "./types";
+import { zenRowsCredits, scraperApiCredits, isBillableStatus } from "./pricing";
+
+const ZENROWS_TIMEOUT_MS = 90000;
+const HTTP_TIMEOUT_MS = 60000;
+
+const SCRAPERAPI_OPTIONS = { country_code: "in", binary_target: "true" };
+const ZENROWS_OPTIONS = { premium_proxy: "true", js_render: "true", proxy_country: "in" };
+
+async function fetchBinary(url: string, params?: Record<string, string>, timeout = HTTP_TIMEOUT_MS): Promise<PdfFetchResponse> {
+  try {
+    const response = await axios.get(url, {
+      params,
+      headers: {
+        "Accept": "application/pdf, application/octet-stream, */*",
+        "User-Agent": BROWSER_USER_AGENT,
+      },
+      responseType: "arraybuffer",
+      timeout,
+    });
+    return { buffer: Buffer.from(response.data), httpStatus: response.status };
+  } catch (error) {
+    if (axios.isAxiosError(error)) {
+      const status = error.response?.status;
+      const data = error.response?.data;
+      const preview = data ? Buffer.from(data).subarray(0, 100).toString("utf8") : "";
+      return {
+        httpStatus: status,
+        error: status ? `HTTP ${status}: ${preview || error.message}` : error.message,
+      };
+    }
+    return { error: error instanceof Error ? error.message : "Unknown error" };
+  }
+}
+
+// Straight to the court server; free, but often blocked outside India
+export const directFetcher: PdfFetcher = {
+  name: "direct",
+  isConfigured: () => true,
+  creditsPerRequest: 0,
+  fetch: (url) => fetchBinary(url),
+};
+
+// Proxy responses carry the options and credits so each attempt can be costed
+async function fetchViaProxy(
+  endpoint: string,
+  params: Record<string, string>,
+  options: Record<string, string>,
+  credits: number,
+  timeout?: number
+): Promise<PdfFetchResponse> {
+  const response = await fetchBinary(endpoint, { ...params, ...options }, timeout);
+  return {
+    ...response,
+    requestOptions: options,
+    credits: isBillableStatus(response.httpStatus) ? credits : 0,
+  };
+}
+
+export const scraperApiFetcher: PdfFetcher = {
+  name: "scraperapi",
+  isConfigured: () => !!process.env.SCRAPER_API_KEY,
+  creditsPerRequest: scraperApiCredits(SCRAPERAPI_OPTIONS),
+  fetch: (url) => fetchViaProxy(
+    "http://api.scraperapi.com",
+    { api_key: process.env.SCRAPER_API_KEY!, url },
+    SCRAPERAPI_OPTIONS,
+    scraperApiCredits(SCRAPERAPI_OPTIONS)
+  ),
+};
+
+export const zenRowsFetcher: PdfFetcher = {
+  name: "zenrows",
+  isConfigured: () => !!process.env.ZENROWS_API_KEY,
+  creditsPerRequest: zenRowsCredits(ZENROWS_OPTIONS),
+  fetch: (url) => fetchViaProxy(
+    "https://api.zenrows.com/v1/",
+    { url, apikey: process.env.ZENROWS_API_KEY! },
+    ZENROWS_OPTIONS,
+    zenRowsCredits(ZENROWS_OPTIONS),
+    ZENROWS_TIMEOUT_MS
+  ),
+};
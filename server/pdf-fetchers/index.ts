@@ -0,0 +1,12 @@
+export {
+  fetchPdf,
+  getPdfFetchChain,
+  getConfiguredChain,
+  describePdfFetchers,
+  closePdfFetchers,
+  toAttemptRecords,
+} from "./chain";
+export { isAllowedCourtUrl, validatePdf, type PdfValidation } from "./validation";
+export { getCreditPrices } from "./pricing";
+export { getHostHealth, getHostPolicy, type HostHealth, type HostPolicy } from "./host-limiter";
+export type { PdfFetcher, PdfFetchResponse, PdfFetchResult, PdfFetchAttemptResult, RejectedPdf } from "./types";
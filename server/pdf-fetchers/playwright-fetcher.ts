@@ -0,0 +1,69 @@
+import { chromium, type Browser, type BrowserContext } from "playwright";
+import type { PdfFetcher, PdfFetchResponse } from "./types";
+import { BROWSER_USER_AGENT } from "./types";
+
+let browserInstance: Browser | null = null;
+
+async function getBrowser(): Promise<Browser> {
+  if (!browserInstance || !browserInstance.isConnected()) {
+    browserInstance = await chromium.launch({
+      headless: true,
+      args: ["--no-sandbox", "--disable-setuid-sandbox"]
+    });
+  }
+  return browserInstance;
+}
+
+// The order page loads the PDF through admin-ajax.php?action=get_order_pdf;
+// capture that response instead of the HTML shell
+async function fetchWithBrowser(url: string): Promise<PdfFetchResponse> {
+  let context: BrowserContext | null = null;
+
+  try {
+    const browser = await getBrowser();
+    context = await browser.newContext({
+      userAgent: BROWSER_USER_AGENT,
+      acceptDownloads: true,
+    });
+    const page = await context.newPage();
+
+    const responsePromise = page.waitForResponse(
+      response => {
+        const responseUrl = response.url();
+        return responseUrl.includes("admin-ajax.php") && responseUrl.includes("get_order_pdf");
+      },
+      { timeout: 30000 }
+    );
+    await page.goto(url, { waitUntil: "networkidle", timeout: 30000 });
+
+    const response = await responsePromise.catch(() => null);
+    if (!response) {
+      return { error: "Could not capture PDF response" };
+    }
+
+    const httpStatus = response.status();
+    if (httpStatus !== 200) {
+      return { httpStatus, error: `HTTP ${httpStatus}` };
+    }
+    return { buffer: Buffer.from(await response.body()), httpStatus };
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : "Unknown error" };
+  } finally {
+    if (context) {
+      await context.close().catch(() => {});
+    }
+  }
+}
+
+export const playwrightFetcher: PdfFetcher = {
+  name: "playwright",
+  isConfigured: () => true,
+  creditsPerRequest: 0,
+  fetch: fetchWithBrowser,
+  close: async () => {
+    if (browserInstance) {
+      await browserInstance.close().catch(() => {});
+      browserInstance = null;
+    }
+  },
+};
@@ -0,0 +1,73 @@
+import { z } from "zod";
+import { PDF_FETCHER_NAMES, type PdfFetcherName } from "@shared/schema";
+
+// Published credit multipliers per request for the options we use
+const ZENROWS_BASE_CREDITS = 1;
+const ZENROWS_JS_RENDER_CREDITS = 5;
+const ZENROWS_PREMIUM_PROXY_CREDITS = 10;
+const ZENROWS_JS_AND_PREMIUM_CREDITS = 25;
+
+const SCRAPERAPI_BASE_CREDITS = 1;
+const SCRAPERAPI_PREMIUM_OR_RENDER_CREDITS = 10;
+const SCRAPERAPI_PREMIUM_AND_RENDER_CREDITS = 25;
+
+// USD per credit on the entry-level plans; override with PROXY_CREDIT_PRICES
+const DEFAULT_CREDIT_PRICES_USD: Record<PdfFetcherName, number> = {
+  direct: 0,
+  scraperapi: 49 / 100000,
+  zenrows: 69 / 250000,
+  playwright: 0,
+};
+
+// Only known fetchers, priced at zero or more, so costs never turn into NaN
+const creditPriceOverrideSchema = z.record(z.enum(PDF_FETCHER_NAMES), z.number().nonnegative());
+
+let cachedPrices: Record<PdfFetcherName, number> | null = null;
+
+export function zenRowsCredits(options: Record<string, string>): number {
+  const jsRender = options.js_render === "true";
+  const premium = options.premium_proxy === "true";
+  if (jsRender && premium) return ZENROWS_JS_AND_PREMIUM_CREDITS;
+  if (premium) return ZENROWS_PREMIUM_PROXY_CREDITS;
+  if (jsRender) return ZENROWS_JS_RENDER_CREDITS;
+  return ZENROWS_BASE_CREDITS;
+}
+
+export function scraperApiCredits(options: Record<string, string>): number {
+  const render = options.render === "true";
+  const premium = options.premium === "true";
+  if (render && premium) return SCRAPERAPI_PREMIUM_AND_RENDER_CREDITS;
+  if (render || premium) return SCRAPERAPI_PREMIUM_OR_RENDER_CREDITS;
+  return SCRAPERAPI_BASE_CREDITS;
+}
+
+// Both providers bill successful responses and 404s; errors and timeouts are free
+export function isBillableStatus(httpStatus: number | undefined): boolean {
+  return httpStatus !== undefined && ((httpStatus >= 200 && httpStatus < 300) || httpStatus === 404);
+}
+
+/**
+ * USD per credit for each fetcher: the defaults, overridden by the
+ * PROXY_CREDIT_PRICES env var (JSON keyed by fetcher name). Overrides with an
+ * unknown fetcher or a negative or non-numeric price are ignored as a whole.
+ */
+export function getCreditPrices(): Record<PdfFetcherName, number> {
+  if (cachedPrices) return cachedPrices;
+
+  let overrides: Partial<Record<PdfFetcherName, number>> = {};
+  if (process.env.PROXY_CREDIT_PRICES) {
+    try {
+      const parsed = creditPriceOverrideSchema.safeParse(JSON.parse(process.env.PROXY_CREDIT_PRICES));
+      if (parsed.success) {
+        overrides = parsed.data;
+      } else {
+        console.error(`[PdfFetch] Invalid PROXY_CREDIT_PRICES, using defaults: ${parsed.error.errors.map(e => `${e.path.join(".")} ${e.message}`).join("; ")}`);
+      }
+    } catch (error) {
+      console.error("[PdfFetch] Invalid PROXY_CREDIT_PRICES JSON, using defaults:", error);
+    }
+  }
+
+  cachedPrices = { ...DEFAULT_CREDIT_PRICES_USD, ...overrides };
+  return cachedPrices;
+}
@@ -0,0 +1,57 @@
+import type { PdfFetcherName, PdfRejectionCode } from "@shared/schema";
+
+export const BROWSER_USER_AGENT = "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36";
+
+// Raw response from a single fetcher; the chain validates the bytes
+export interface PdfFetchResponse {
+  buffer?: Buffer;
+  httpStatus?: number;
+  error?: string;
+  // Billing-relevant provider options (never API keys) and credits charged
+  requestOptions?: Record<string, string>;
+  credits?: number;
+}
+
+export interface PdfFetcher {
+  name: PdfFetcherName;
+  // False when the API key or runtime the fetcher needs is missing
+  isConfigured(): boolean;
+  // Credits billed for each request at the options the fetcher sends; 0 when free
+  creditsPerRequest: number;
+  fetch(url: string): Promise<PdfFetchResponse>;
+  // Releases long-lived resources (browsers) at the end of a job
+  close?(): Promise<void>;
+}
+
+export interface PdfFetchAttemptResult {
+  fetcher: PdfFetcherName;
+  success: boolean;
+  httpStatus?: number;
+  error?: string;
+  pdfSize?: number;
+  requestOptions?: Record<string, string>;
+  credits: number;
+  durationMs: number;
+}
+
+// A body that came back but failed validation, kept so it can be quarantined
+export interface RejectedPdf {
+  fetcher: PdfFetcherName;
+  httpStatus?: number;
+  code: PdfRejectionCode;
+  reason: string;
+  buffer: Buffer;
+}
+
+export interface PdfFetchResult {
+  success: boolean;
+  buffer?: Buffer;
+  httpStatus?: number;
+  error?: string;
+  fetcher?: PdfFetcherName;
+  // Set when the host's circuit breaker is open; nothing was fetched
+  hostUnavailable?: boolean;
+  resumesAt?: Date;
+  attempts: PdfFetchAttemptResult[];
+  rejected: RejectedPdf[];
+}
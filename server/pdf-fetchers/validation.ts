@@ -0,0 +1,134 @@
+import { PDFParse } from "pdf-parse";
+import type { PdfRejectionCode } from "@shared/schema";
+
+const ALLOWED_COURT_DOMAINS = [
+  "dcourts.gov.in",
+  "ecourts.gov.in",
+];
+
+const MIN_PDF_SIZE_BYTES = 1000;
+// %%EOF must sit near the end; incremental saves may leave trailing whitespace
+const EOF_SEARCH_BYTES = 1024;
+// Real orders run to pages of text; a one-page PDF with less than this is
+// worth checking for a court error message
+const ERROR_PAGE_MAX_TEXT_CHARS = 600;
+
+export const NO_RECORD_FOUND = "No record found";
+
+// Phrases the court portals put in error pages, sometimes rendered to PDF
+const COURT_ERROR_PHRASES = [
+  "no record found",
+  "record not found",
+  "invalid request",
+  "session expired",
+  "session has expired",
+  "access denied",
+  "404 not found",
+  "service unavailable",
+  "internal server error",
+];
+
+const HTML_MARKERS = ["<!doctype html", "<html", "<head>", "<body"];
+
+export type PdfValidation =
+  | { valid: true; pageCount: number }
+  | { valid: false; code: PdfRejectionCode; reason: string };
+
+export function isAllowedCourtUrl(url: string): boolean {
+  try {
+    const hostname = new URL(url).hostname.toLowerCase();
+    return ALLOWED_COURT_DOMAINS.some(domain =>
+      hostname === domain || hostname.endsWith("." + domain)
+    );
+  } catch {
+    return false;
+  }
+}
+
+function reject(code: PdfRejectionCode, reason: string): PdfValidation {
+  return { valid: false, code, reason };
+}
+
+function findCourtErrorPhrase(text: string): string | undefined {
+  const lower = text.toLowerCase();
+  return COURT_ERROR_PHRASES.find(phrase => lower.includes(phrase));
+}
+
+// startxref must point inside the file at an xref table or xref stream object
+function hasValidXref(buffer: Buffer): boolean {
+  const tail = buffer.subarray(Math.max(0, buffer.length - EOF_SEARCH_BYTES)).toString("latin1");
+  const matches = Array.from(tail.matchAll(/startxref\s+(\d+)/g));
+  if (matches.length === 0) return false;
+  const offset = Number(matches[matches.length - 1][1]);
+  if (offset <= 0 || offset >= buffer.length) return false;
+  const target = buffer.subarray(offset, offset + 32).toString("latin1");
+  return target.startsWith("xref") || /^\d+\s+\d+\s+obj/.test(target);
+}
+
+async function readFirstPage(buffer: Buffer): Promise<{ pageCount: number; text: string }> {
+  // pdf.js may transfer the bytes to its worker, so hand it a copy
+  const parser = new PDFParse({ data: new Uint8Array(buffer) });
+  try {
+    const result = await parser.getText({ first: 1 });
+    return { pageCount: result.total, text: result.text };
+  } finally {
+    await parser.destroy();
+  }
+}
+
+/**
+ * Decides whether a downloaded body is a usable order PDF. Courts answer
+ * missing orders with a small HTML page rather than a 404, proxies sometimes
+ * cut large files short, and some error pages come back rendered as PDFs.
+ */
+export async function validatePdf(buffer: Buffer): Promise<PdfValidation> {
+  const head = buffer.subarray(0, 1024).toString("latin1");
+
+  if (buffer.length < 8 || !head.startsWith("%PDF-")) {
+    if (buffer.subarray(0, 2000).toString("utf8").toLowerCase().includes(NO_RECORD_FOUND.toLowerCase())) {
+      return reject("no_record", NO_RECORD_FOUND);
+    }
+    const phrase = findCourtErrorPhrase(buffer.subarray(0, 4000).toString("utf8"));
+    if (phrase) {
+      return reject("error_page", `Court error page: "${phrase}"`);
+    }
+    return reject("not_pdf", `Invalid PDF: ${buffer.subarray(0, 50).toString("utf8")}`);
+  }
+
+  if (buffer.length < MIN_PDF_SIZE_BYTES) {
+    return reject("too_small", `PDF too small (${buffer.length} bytes, likely error page)`);
+  }
+
+  const headText = buffer.subarray(0, 4096).toString("latin1").toLowerCase();
+  if (HTML_MARKERS.some(marker => headText.includes(marker))) {
+    return reject("error_page", "HTML page served with a PDF header");
+  }
+
+  const tail = buffer.subarray(Math.max(0, buffer.length - EOF_SEARCH_BYTES)).toString("latin1");
+  if (!tail.includes("%%EOF")) {
+    return reject("truncated", `Missing %%EOF marker (${buffer.length} bytes, likely cut short)`);
+  }
+
+  let page;
+  try {
+    page = await readFirstPage(buffer);
+  } catch (error) {
+    const detail = error instanceof Error ? error.message : "unknown error";
+    return reject("unparseable", `${hasValidXref(buffer) ? "Unparseable PDF" : "Broken xref"}: ${detail}`);
+  }
+
+  if (page.pageCount === 0) {
+    return reject("no_pages", "PDF has no pages");
+  }
+
+  // Scanned orders have no text layer, so only short text-bearing PDFs are checked
+  const text = page.text.replace(/--\s*\d+\s*of\s*\d+\s*--/g, "").trim();
+  if (page.pageCount === 1 && text.length > 0 && text.length <= ERROR_PAGE_MAX_TEXT_CHARS) {
+    const phrase = findCourtErrorPhrase(text);
+    if (phrase) {
+      return reject("error_page", `Court error page rendered as PDF: "${phrase}"`);
+    }
+  }
+
+  return { valid: true, pageCount: page.pageCount };
+}
@@ -0,0 +1,143 @@
+import { createHash } from "crypto";
+import type { PdfQuarantineEntry, InsertPdfQuarantine } from "@shared/schema";
+import { storage } from "./storage";
+import { ObjectStorageService } from "./objectStorage";
+import { validatePdf, type PdfValidation, type RejectedPdf } from "./pdf-fetchers";
+import { attachReleasedPdf } from "./direct-cnr/pdf-downloader";
+
+export class QuarantineStateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "QuarantineStateError";
+    Object.setPrototypeOf(this, QuarantineStateError.prototype);
+  }
+}
+
+export interface QuarantineRevalidation {
+  entry: PdfQuarantineEntry;
+  validation: PdfValidation;
+  // True when the bytes now pass and were attached to the order
+  attached: boolean;
+}
+
+/**
+ * Keeps the raw bytes of responses that failed validation so they can be
+ * inspected later. Several fetchers often return the same bad body, so each
+ * distinct body is recorded once per order.
+ */
+export async function quarantineRejectedPdfs(
+  workflow: "bulk" | "direct",
+  orderId: number,
+  url: string,
+  rejected: RejectedPdf[],
+  context: { jobId?: number } = {}
+): Promise<number> {
+  if (rejected.length === 0) return 0;
+
+  const objectStorageService = new ObjectStorageService();
+  const entries = new Map<string, InsertPdfQuarantine>();
+
+  try {
+    for (const item of rejected) {
+      const contentHash = createHash("sha256").update(item.buffer).digest("hex");
+      if (entries.has(contentHash)) continue;
+
+      const objectPath = await objectStorageService.storeQuarantinedBytes(item.buffer, contentHash, {
+        workflow,
+        orderId: String(orderId),
+        reasonCode: item.code,
+      });
+      entries.set(contentHash, {
+        workflow,
+        orderId,
+        jobId: context.jobId ?? null,
+        url,
+        fetcher: item.fetcher,
+        httpStatusCode: item.httpStatus ?? null,
+        reasonCode: item.code,
+        reason: item.reason,
+        objectPath,
+        contentHash,
+        sizeBytes: item.buffer.length,
+        status: "quarantined",
+      });
+    }
+
+    await storage.createPdfQuarantineEntries(Array.from(entries.values()));
+    console.log(`[Quarantine] ${workflow} order ${orderId}: quarantined ${entries.size} response(s) (${rejected.map(r => r.code).join(", ")})`);
+  } catch (error) {
+    // Quarantine is for diagnosis only and must never fail the download job
+    console.error(`[Quarantine] Failed to quarantine responses for ${workflow} order ${orderId}:`, error);
+  }
+
+  return entries.size;
+}
+
+async function attachBulkPdf(orderId: number, buffer: Buffer): Promise<boolean> {
+  const order = await storage.getOrderById(orderId);
+  if (!order || order.pdfExists) return false;
+
+  const [cnr] = await storage.getCnrsByIdsWithDistricts([order.cnrId]);
+  const cnrString = cnr?.cnr || `unknown_${order.cnrId}`;
+  const { objectPath, contentHash } = await new ObjectStorageService().storePdf(buffer, cnrString, order.orderNo);
+  await storage.updateOrderPdfPath(order.id, objectPath, buffer.length, contentHash);
+  return true;
+}
+
+/**
+ * Runs the current validation rules over a quarantined body again. Bodies that
+ * now pass are released and attached to their order, so a rule that was too
+ * strict does not cost a re-download.
+ */
+export async function revalidateQuarantinedPdf(id: number): Promise<QuarantineRevalidation | null> {
+  const entry = await storage.getPdfQuarantineEntryById(id);
+  if (!entry) return null;
+  if (entry.status !== "quarantined") {
+    throw new QuarantineStateError(`Quarantine entry ${id} is already ${entry.status}`);
+  }
+
+  const buffer = await new ObjectStorageService().getPdfBuffer(entry.objectPath);
+  const validation = await validatePdf(buffer);
+  const now = new Date();
+
+  if (!validation.valid) {
+    const updated = await storage.updatePdfQuarantineEntry(id, {
+      reasonCode: validation.code,
+      reason: validation.reason,
+      revalidatedAt: now,
+    });
+    return { entry: updated ?? entry, validation, attached: false };
+  }
+
+  const attached = entry.workflow === "direct"
+    ? await attachReleasedPdf(entry.orderId, buffer)
+    : await attachBulkPdf(entry.orderId, buffer);
+
+  const updated = await storage.updatePdfQuarantineEntry(id, {
+    status: "released",
+    revalidatedAt: now,
+    resolvedAt: now,
+  });
+  console.log(`[Quarantine] Released entry ${id} (${entry.workflow} order ${entry.orderId})${attached ? " and attached the PDF" : ""}`);
+
+  return { entry: updated ?? entry, validation, attached };
+}
+
+/**
+ * Marks an entry discarded and deletes its bytes once no other open entry
+ * shares them.
+ */
+export async function discardQuarantinedPdf(id: number): Promise<PdfQuarantineEntry | null> {
+  const entry = await storage.getPdfQuarantineEntryById(id);
+  if (!entry) return null;
+  if (entry.status === "discarded") return entry;
+
+  const updated = await storage.updatePdfQuarantineEntry(id, { status: "discarded", resolvedAt: new Date() });
+
+  const remaining = await storage.countPdfQuarantineEntriesByHash(entry.contentHash, "discarded");
+  if (remaining === 0) {
+    await new ObjectStorageService().deleteObject(entry.objectPath);
+  }
+
+  return updated ?? entry;
+}
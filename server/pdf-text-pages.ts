@@ -0,0 +1,173 @@
+import type { OrderSectionName, PdfTextPage, PdfTextSection } from "@shared/schema";
+import { storage } from "./storage";
+import { segmentOrderText, buildClassifierText } from "./order-segmenter";
+import {
+  locateDate,
+  locateOffsets,
+  locateText,
+  pageCharOffsets,
+  type ExtractedPage,
+  type LocatablePage,
+  type PageExtractionMethod,
+  type SourceLocation,
+  type TextLine,
+} from "./text-extraction";
+
+export type TextWorkflow = "bulk" | "direct";
+
+// Classifier fields that quote or restate the order and can be pointed at
+export interface ClassificationSourceFields {
+  operativePortion?: string | null;
+  freshCasePhrase?: string | null;
+  nextHearingDate?: string | null;
+}
+
+export type SourceLocations = Partial<Record<keyof ClassificationSourceFields, SourceLocation>>;
+
+function toLocatablePage(page: PdfTextPage): LocatablePage {
+  return {
+    pageNumber: page.pageNumber,
+    text: page.text,
+    charOffset: page.charOffset,
+    lines: JSON.parse(page.lines) as TextLine[],
+  };
+}
+
+/**
+ * Stores an order's pages with their offsets into rawText, and the order
+ * sections segmented from them, replacing any from an earlier extraction.
+ */
+export async function savePdfTextPages(workflow: TextWorkflow, orderId: number, pages: ExtractedPage[]): Promise<void> {
+  const offsets = pageCharOffsets(pages);
+  const { sections } = segmentOrderText(pages.map((page, i) => ({ text: page.text, charOffset: offsets[i] })));
+
+  await storage.replacePdfTextSections(workflow, orderId, sections.map(section => ({
+    workflow,
+    orderId,
+    section: section.name,
+    text: section.text,
+    charStart: section.charStart,
+    charEnd: section.charEnd,
+  })));
+  await storage.replacePdfTextPages(workflow, orderId, pages.map((page, i) => ({
+    workflow,
+    orderId,
+    pageNumber: page.pageNumber,
+    method: page.method,
+    text: page.text,
+    charOffset: offsets[i],
+    lines: JSON.stringify(page.lines),
+  })));
+}
+
+/** Pages stored for an order, in the shape extraction produced them; used to copy text between identical PDFs. */
+export async function loadExtractedPages(workflow: TextWorkflow, orderId: number): Promise<ExtractedPage[]> {
+  const pages = await storage.getPdfTextPages(workflow, orderId);
+  return pages.map(page => ({
+    pageNumber: page.pageNumber,
+    text: page.text,
+    method: page.method as PageExtractionMethod,
+    lines: JSON.parse(page.lines) as TextLine[],
+  }));
+}
+
+/** Stored pages with their lines parsed, for the text and viewer APIs. */
+export async function getOrderTextPages(
+  workflow: TextWorkflow,
+  orderId: number
+): Promise<(Omit<PdfTextPage, "lines"> & { lines: TextLine[] })[]> {
+  const pages = await storage.getPdfTextPages(workflow, orderId);
+  return pages.map(page => ({ ...page, lines: JSON.parse(page.lines) as TextLine[] }));
+}
+
+export async function getOrderTextSections(workflow: TextWorkflow, orderId: number): Promise<PdfTextSection[]> {
+  return storage.getPdfTextSections(workflow, orderId);
+}
+
+/**
+ * Reads a span from query parameters: `q` for quoted text, or `start` and
+ * `end` for rawText offsets. Null when neither is usable.
+ */
+export function parseSpanQuery(query: Record<string, unknown>): { text: string } | { charStart: number; charEnd: number } | null {
+  if (typeof query.q === "string" && query.q.trim()) {
+    return { text: query.q };
+  }
+  const charStart = Number(query.start);
+  const charEnd = Number(query.end);
+  if (Number.isInteger(charStart) && Number.isInteger(charEnd) && charStart >= 0 && charEnd > charStart) {
+    return { charStart, charEnd };
+  }
+  return null;
+}
+
+export async function getLocatablePages(workflow: TextWorkflow, orderId: number): Promise<LocatablePage[]> {
+  return (await storage.getPdfTextPages(workflow, orderId)).map(toLocatablePage);
+}
+
+/**
+ * Finds where each classifier field came from in the order's pages. Returns
+ * null when the order has no stored pages (texts extracted before pages were
+ * kept) or nothing could be located.
+ */
+export async function locateClassificationSources(
+  workflow: TextWorkflow,
+  orderId: number,
+  fields: ClassificationSourceFields
+): Promise<SourceLocations | null> {
+  const pages = await getLocatablePages(workflow, orderId);
+  if (pages.length === 0) return null;
+
+  const locations: SourceLocations = {};
+  const operativePortion = locateText(pages, fields.operativePortion);
+  if (operativePortion) locations.operativePortion = operativePortion;
+  const freshCasePhrase = locateText(pages, fields.freshCasePhrase);
+  if (freshCasePhrase) locations.freshCasePhrase = freshCasePhrase;
+  const nextHearingDate = locateDate(pages, fields.nextHearingDate);
+  if (nextHearingDate) locations.nextHearingDate = nextHearingDate;
+
+  return Object.keys(locations).length > 0 ? locations : null;
+}
+
+/**
+ * Resolves a span given either as quoted text or as rawText offsets to its
+ * page and offsets. Null when the order has no pages or the span is not found.
+ */
+export async function locateOrderTextSpan(
+  workflow: TextWorkflow,
+  orderId: number,
+  span: { text: string } | { charStart: number; charEnd: number }
+): Promise<SourceLocation | null> {
+  const pages = await getLocatablePages(workflow, orderId);
+  if (pages.length === 0) return null;
+  return "text" in span
+    ? locateText(pages, span.text)
+    : locateOffsets(pages, span.charStart, span.charEnd);
+}
+
+/**
+ * The order's stored sections. Texts extracted before pages were kept are
+ * segmented on the fly from rawText.
+ */
+export async function getClassifierSections(
+  workflow: TextWorkflow,
+  orderId: number,
+  pdfText: { rawText: string }
+): Promise<{ name: OrderSectionName; text: string }[]> {
+  const stored = await storage.getPdfTextSections(workflow, orderId);
+  return stored.length > 0
+    ? stored.map(section => ({ name: section.section as OrderSectionName, text: section.text }))
+    : segmentOrderText([{ text: pdfText.rawText, charOffset: 0 }]).sections;
+}
+
+/**
+ * Text sent to the classifiers: the order's sections, labelled and without
+ * page furniture, or the whole text when nothing could be segmented.
+ */
+export async function getClassifierText(
+  workflow: TextWorkflow,
+  orderId: number,
+  pdfText: { rawText: string; cleanedText: string | null }
+): Promise<string> {
+  const sections = await getClassifierSections(workflow, orderId, pdfText);
+  return buildClassifierText(sections) ?? (pdfText.cleanedText || pdfText.rawText);
+}
@@ -0,0 +1,104 @@
+import { z } from "zod";
+import type { CnrOrder } from "@shared/schema";
+
+export interface ReprobePolicy {
+  // Minutes to wait before the next probe, indexed by attempt number (last entry repeats)
+  backoffMinutes: Record<string, number[]>;
+  maxAttempts: number;
+  // Stop probing this many days after the order date
+  maxAgeDays: number;
+}
+
+const HOUR = 60;
+const DAY = 24 * HOUR;
+
+// Courts frequently upload orders days after the hearing, so "not found" backs
+// off slowly, while rate limiting and server errors retry within hours.
+export const DEFAULT_REPROBE_POLICY: ReprobePolicy = {
+  backoffMinutes: {
+    "404": [6 * HOUR, DAY, 2 * DAY, 4 * DAY, 7 * DAY],
+    "200": [DAY, 3 * DAY, 7 * DAY], // 200 with non-PDF content (court error page)
+    "403": [DAY, 3 * DAY],
+    "429": [15, HOUR, 4 * HOUR],
+    "5xx": [HOUR, 6 * HOUR, DAY],
+    network: [30, 2 * HOUR, 12 * HOUR],
+    default: [6 * HOUR, DAY, 3 * DAY],
+  },
+  maxAttempts: 8,
+  maxAgeDays: 30,
+};
+
+// An empty or non-numeric backoff list would schedule the next probe at an Invalid Date
+const reprobePolicyOverrideSchema = z.object({
+  backoffMinutes: z.record(z.array(z.number().int().positive()).min(1)),
+  maxAttempts: z.number().int().positive(),
+  maxAgeDays: z.number().positive(),
+}).partial();
+
+let cachedPolicy: ReprobePolicy | null = null;
+
+/**
+ * Effective policy: the defaults, overridden by the REPROBE_POLICY env var
+ * (JSON with any of backoffMinutes / maxAttempts / maxAgeDays).
+ * Overrides that are not valid JSON or not positive numbers are ignored as a whole.
+ */
+export function getReprobePolicy(): ReprobePolicy {
+  if (cachedPolicy) return cachedPolicy;
+
+  let overrides: z.infer<typeof reprobePolicyOverrideSchema> = {};
+  if (process.env.REPROBE_POLICY) {
+    try {
+      const parsed = reprobePolicyOverrideSchema.safeParse(JSON.parse(process.env.REPROBE_POLICY));
+      if (parsed.success) {
+        overrides = parsed.data;
+      } else {
+        console.error(`[Reprobe] Invalid REPROBE_POLICY, using defaults: ${parsed.error.errors.map(e => `${e.path.join(".")} ${e.message}`).join("; ")}`);
+      }
+    } catch (error) {
+      console.error("[Reprobe] Invalid REPROBE_POLICY JSON, using defaults:", error);
+    }
+  }
+
+  cachedPolicy = {
+    backoffMinutes: { ...DEFAULT_REPROBE_POLICY.backoffMinutes, ...overrides.backoffMinutes },
+    maxAttempts: overrides.maxAttempts ?? DEFAULT_REPROBE_POLICY.maxAttempts,
+    maxAgeDays: overrides.maxAgeDays ?? DEFAULT_REPROBE_POLICY.maxAgeDays,
+  };
+  return cachedPolicy;
+}
+
+function statusKey(httpStatus: number | undefined, policy: ReprobePolicy): string {
+  if (httpStatus === undefined) return "network";
+  if (policy.backoffMinutes[String(httpStatus)]) return String(httpStatus);
+  if (httpStatus >= 500 && policy.backoffMinutes["5xx"]) return "5xx";
+  return "default";
+}
+
+/**
+ * Decides what happens after a failed probe. `attempts` is the retry count
+ * including the probe that just failed.
+ */
+export function scheduleNextProbe(
+  order: Pick<CnrOrder, "orderDate">,
+  attempts: number,
+  httpStatus: number | undefined,
+  now: Date = new Date(),
+  policy: ReprobePolicy = getReprobePolicy()
+): { probeStatus: "retrying" | "abandoned"; nextProbeAt: Date | null } {
+  const ageDays = (now.getTime() - new Date(order.orderDate).getTime()) / (DAY * 60 * 1000);
+  if (attempts >= policy.maxAttempts || ageDays > policy.maxAgeDays) {
+    return { probeStatus: "abandoned", nextProbeAt: null };
+  }
+
+  const steps = policy.backoffMinutes[statusKey(httpStatus, policy)];
+  const minutes = steps[Math.min(attempts - 1, steps.length - 1)];
+  return {
+    probeStatus: "retrying",
+    nextProbeAt: new Date(now.getTime() + minutes * 60 * 1000),
+  };
+}
+
+export function isDueForProbe(order: Pick<CnrOrder, "pdfExists" | "probeStatus" | "nextProbeAt">, now: Date = new Date()): boolean {
+  if (order.pdfExists || order.probeStatus === "abandoned") return false;
+  return !order.nextProbeAt || order.nextProbeAt <= now;
+}
@@ -1,16 +1,34 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { cnrGenerationRequestSchema } from "@shared/schema";
-import { fetchPdfsForJob } from "./pdf-fetcher.js";
-import { fetchPdfsWithPlaywright, testPlaywrightPdfFetch } from "./playwright-pdf-fetcher.js";
-import { fetchPdfsWithZenRows, testZenRowsPdfFetch } from "./zenrows-pdf-fetcher.js";
+import { cnrGenerationRequestSchema, frontierDiscoveryRequestSchema, courtHolidayImportSchema, insertEstablishmentSchema, historyOrderGenerationRequestSchema, orderGenerationRequestSchema, cnrImportRequestSchema, pdfDownloadJobRequestSchema, textExtractionJobRequestSchema, classificationJobRequestSchema, reclassificationJobRequestSchema, insertClassificationRuleSchema, updateClassificationRuleSchema, classificationRuleTestSchema, classificationReviewSchema, goldSetImportRequestSchema, evaluationRunRequestSchema, PDF_FETCH_STRATEGIES, PDF_QUARANTINE_STATUSES } from "@shared/schema";
+import type { InsertCnrOrder, OrderGenerationRequest } from "@shared/schema";
+import { fetchPdfsForJob, testPdfFetch } from "./pdf-fetcher.js";
+import { getPdfFetchChain, getConfiguredChain, describePdfFetchers, getHostHealth, getHostPolicy } from "./pdf-fetchers";
+import { describeOcrEngines } from "./text-extraction";
+import { describeLlmRoutes, getLlmTaskConfigError } from "./llm";
+import { savePdfTextPages, getOrderTextPages, getOrderTextSections, locateOrderTextSpan, parseSpanQuery } from "./pdf-text-pages";
 import { extractTextsForJob } from "./text-extractor.js";
-import { classifyOrdersForJob } from "./classifier.js";
+import { classifyOrdersForJob, CLASSIFICATION_PROMPT_VERSIONS, CURRENT_CLASSIFICATION_PROMPT_VERSION } from "./classifier.js";
+import { buildClassificationDiffReport } from "./classification-diff";
+import { importGoldOrders, createEvaluationRun, executeEvaluationRun, compareEvaluationRuns, toRouteOverride } from "./classification-eval";
+import { getReviewQueue, getReviewConfidenceThreshold, reviewClassification, unlockClassification, buildGoldDataset, ReviewStateError } from "./classification-review";
+import { evaluateRules, getActiveRules, invalidateRuleCache, toResolvedFields } from "./rule-classifier";
+import { segmentOrderText } from "./order-segmenter";
 import { enrichEntitiesForJob } from "./entity-enrichment.js";
+import { discoverFrontiersForJob } from "./frontier-discovery.js";
+import { validateCnrsForJob } from "./cnr-validator.js";
+import { generateOrdersFromHistoryForJob } from "./history-order-generator.js";
+import { buildCnrString, buildOrderUrl } from "./cnr-builder";
+import { parseHolidayCsv, createNonWorkingDayChecker } from "./court-calendar";
+import { getReprobePolicy, isDueForProbe } from "./reprobe-policy";
+import { validateCnrImport, commitCnrImport, CnrImportError } from "./cnr-import";
+import { estimateJobCost } from "./job-estimator";
+import { buildFetchCostReport } from "./fetch-cost-report";
+import { revalidateQuarantinedPdf, discardQuarantinedPdf, QuarantineStateError } from "./pdf-quarantine";
 import { ObjectStorageService, ObjectNotFoundError } from "./objectStorage";
-import { seedDistricts } from "./seed";
-import { directCnrRouter, startDailyDigestScheduler } from "./direct-cnr";
+import { seedCourtStates, seedDistricts, seedEstablishments } from "./seed";
+import { directCnrRouter, startDailyDigestScheduler, getDuplicatePdfGroups as getDirectDuplicatePdfGroups } from "./direct-cnr";
 
 export async function registerRoutes(
   httpServer: Server,
@@ -46,6 +64,53 @@ export async function registerRoutes(
     }
   });
 
+  app.get("/api/states", async (_req, res) => {
+    try {
+      const states = await storage.getCourtStates();
+      res.json(states);
+    } catch (error) {
+      console.error("Error fetching states:", error);
+      res.status(500).json({ error: "Failed to fetch states" });
+    }
+  });
+
+  app.get("/api/establishments", async (req, res) => {
+    try {
+      const districtId = req.query.districtId ? parseInt(req.query.districtId as string) : undefined;
+      const caseType = req.query.caseType as string | undefined;
+      const establishments = await storage.getEstablishments(districtId, caseType);
+      res.json(establishments);
+    } catch (error) {
+      console.error("Error fetching establishments:", error);
+      res.status(500).json({ error: "Failed to fetch establishments" });
+    }
+  });
+
+  app.post("/api/establishments", async (req, res) => {
+    try {
+      const validation = insertEstablishmentSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: validation.error.errors });
+      }
+
+      const district = await storage.getDistrictById(validation.data.districtId);
+      if (!district) {
+        return res.status(404).json({ error: "District not found" });
+      }
+
+      const existing = await storage.getEstablishmentByCode(district.id, validation.data.code);
+      if (existing) {
+        return res.status(400).json({ error: `Establishment ${validation.data.code} already exists for ${district.name}` });
+      }
+
+      const establishment = await storage.createEstablishment(validation.data);
+      res.json(establishment);
+    } catch (error) {
+      console.error("Error creating establishment:", error);
+      res.status(500).json({ error: "Failed to create establishment" });
+    }
+  });
+
   app.get("/api/cnrs", async (req, res) => {
     try {
       const limit = parseInt(req.query.limit as string) || 100;
@@ -74,6 +139,46 @@ export async function registerRoutes(
   // Step 1: Generate CNRs ONLY (no orders)
   const MAX_CNRS_PER_REQUEST = 100;
   
+  app.post("/api/cnrs/import/preview", async (req, res) => {
+    try {
+      const validation = cnrImportRequestSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: validation.error.errors });
+      }
+
+      const result = await validateCnrImport(validation.data);
+      res.json(result);
+    } catch (error) {
+      if (error instanceof CnrImportError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error("Error previewing CNR import:", error);
+      res.status(500).json({ error: "Failed to preview CNR import" });
+    }
+  });
+
+  app.post("/api/cnrs/import", async (req, res) => {
+    try {
+      const validation = cnrImportRequestSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: validation.error.errors });
+      }
+
+      const result = await commitCnrImport(validation.data);
+      const skipped = result.rows.length - result.imported;
+      res.json({
+        ...result,
+        message: `Imported ${result.imported} CNRs${skipped > 0 ? ` (${skipped} rows skipped)` : ""}`,
+      });
+    } catch (error) {
+      if (error instanceof CnrImportError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error("Error importing CNRs:", error);
+      res.status(500).json({ error: "Failed to import CNRs" });
+    }
+  });
+
   app.post("/api/cnrs/generate", async (req, res) => {
     try {
       const validation = cnrGenerationRequestSchema.safeParse(req.body);
@@ -81,7 +186,8 @@ export async function registerRoutes(
         return res.status(400).json({ error: validation.error.errors });
       }
 
-      const { districtId, startSerial, endSerial, year } = validation.data;
+      const { districtId, establishmentId, startSerial, year, capToFrontier } = validation.data;
+      let { endSerial } = validation.data;
 
       // Server-side cap on serial range
       const serialCount = endSerial - startSerial + 1;
@@ -99,12 +205,35 @@ export async function registerRoutes(
         return res.status(404).json({ error: "District not found" });
       }
 
+      // Serials run per establishment; without an explicit one we use the district's main establishment
+      const establishment = establishmentId
+        ? await storage.getEstablishmentById(establishmentId)
+        : await storage.getEstablishmentByCode(districtId, district.establishmentCode);
+      if (establishmentId && (!establishment || establishment.districtId !== districtId)) {
+        return res.status(404).json({ error: "Establishment not found for this district" });
+      }
+      const establishmentCode = establishment?.code ?? district.establishmentCode;
+
+      // Optionally stop at the last discovered live frontier so we don't create CNRs that aren't filed yet.
+      // Frontiers are discovered for the main establishment only.
+      let frontierSerial: number | null = null;
+      if (capToFrontier && establishmentCode === district.establishmentCode) {
+        const frontier = await storage.getLatestSerialFrontier(districtId, year);
+        if (frontier?.highestValidSerial != null) {
+          frontierSerial = frontier.highestValidSerial;
+          if (frontierSerial < startSerial) {
+            return res.status(400).json({
+              error: `Start serial ${startSerial} is beyond the live frontier (${frontierSerial}) for ${district.name} ${year}`
+            });
+          }
+          endSerial = Math.min(endSerial, frontierSerial);
+        }
+      }
+
       // Build all CNR strings first
       const allCnrStrings: string[] = [];
       for (let serial = startSerial; serial <= endSerial; serial++) {
-        const paddedSerial = serial.toString().padStart(district.serialWidth, "0");
-        const yearStr = year.toString().slice(-4);
-        allCnrStrings.push(`DL${district.codePrefix}${district.establishmentCode}${paddedSerial}${yearStr}`);
+        allCnrStrings.push(buildCnrString(district, serial, year, establishmentCode));
       }
 
       // Bulk check for existing CNRs
@@ -113,6 +242,7 @@ export async function registerRoutes(
 
       const cnrsToCreate: Array<{
         districtId: number;
+        establishmentId: number | null;
         cnr: string;
         serialNumber: number;
         year: number;
@@ -123,6 +253,7 @@ export async function registerRoutes(
         if (!existingSet.has(cnrString)) {
           cnrsToCreate.push({
             districtId,
+            establishmentId: establishment?.id ?? null,
             cnr: cnrString,
             serialNumber: startSerial + i,
             year,
@@ -138,6 +269,7 @@ export async function registerRoutes(
         cnrsExisting: existingCnrs.length,
         cnrIds: allCnrIds,
         cnrs: allCnrStrings,
+        frontierSerial,
         message: `Generated ${createdCnrs.length} new CNRs (${existingCnrs.length} already existed)`,
       });
     } catch (error) {
@@ -146,91 +278,325 @@ export async function registerRoutes(
     }
   });
 
-  // Step 2: Create order URLs for specific CNRs (separate action)
-  const MAX_ORDERS_PER_REQUEST = 1000; // CNRs × days × orders
-  const MAX_DAYS_RANGE = 30;
-  const MAX_ORDER_RANGE = 10;
-
-  app.post("/api/orders/generate", async (req, res) => {
+  app.post("/api/jobs/validate-cnrs", async (req, res) => {
     try {
-      const { cnrIds, startDate, endDate, startOrderNo, endOrderNo } = req.body;
-      
-      if (!cnrIds || !Array.isArray(cnrIds) || cnrIds.length === 0) {
-        return res.status(400).json({ error: "cnrIds array is required" });
-      }
-      if (!startDate || !endDate) {
-        return res.status(400).json({ error: "startDate and endDate are required" });
+      const captchaLlmError = getLlmTaskConfigError("captcha");
+      if (captchaLlmError) {
+        return res.status(400).json({ error: `${captchaLlmError}. It is required to solve eCourts CAPTCHAs.` });
       }
-      if (!startOrderNo || !endOrderNo || startOrderNo < 1 || endOrderNo < 1) {
-        return res.status(400).json({ error: "startOrderNo and endOrderNo are required (1 or higher)" });
+
+      const { limit = 50, cnrIds } = req.body;
+
+      const existingJobs = await storage.getProcessingJobs();
+      const runningJob = existingJobs.find(j => 
+        j.jobType === "cnr_validation" && (j.status === "processing" || j.status === "pending")
+      );
+      if (runningJob) {
+        return res.json({ 
+          message: "A CNR validation job is already running",
+          jobId: runningJob.id,
+          totalOrders: runningJob.totalItems,
+          alreadyRunning: true
+        });
       }
 
-      // Calculate date range
-      const start = new Date(startDate);
-      const end = new Date(endDate);
-      const daysDiff = Math.ceil((end.getTime() - start.getTime()) / (1000 * 60 * 60 * 24)) + 1;
-      
-      if (daysDiff > MAX_DAYS_RANGE) {
-        return res.status(400).json({ error: `Maximum ${MAX_DAYS_RANGE} days range allowed` });
+      const cnrsToCheck = cnrIds && Array.isArray(cnrIds) && cnrIds.length > 0
+        ? await storage.getCnrsByIdsWithDistricts(cnrIds.slice(0, limit))
+        : await storage.getCnrsPendingValidation(limit);
+
+      if (cnrsToCheck.length === 0) {
+        return res.json({ message: "No CNRs need validation", jobId: null });
       }
-      if (daysDiff < 1) {
-        return res.status(400).json({ error: "End date must be >= start date" });
+
+      const job = await storage.createProcessingJob({
+        jobType: "cnr_validation",
+        status: "pending",
+        totalItems: cnrsToCheck.length,
+        processedItems: 0,
+        successfulItems: 0,
+        failedItems: 0,
+        parameters: JSON.stringify({ limit, cnrIds: cnrsToCheck.map(c => c.id) }),
+      });
+
+      validateCnrsForJob(job.id, cnrsToCheck);
+
+      res.json({
+        jobId: job.id,
+        totalOrders: cnrsToCheck.length,
+        message: `Started CNR validation job for ${cnrsToCheck.length} CNRs`,
+      });
+    } catch (error) {
+      console.error("Error starting CNR validation job:", error);
+      res.status(500).json({ error: "Failed to start CNR validation job" });
+    }
+  });
+
+  // Serial frontier: highest CNR serial that actually exists on eCourts per district/year
+  app.get("/api/frontiers", async (req, res) => {
+    try {
+      const year = req.query.year ? parseInt(req.query.year as string) : undefined;
+      const districtId = req.query.districtId ? parseInt(req.query.districtId as string) : undefined;
+      const history = await storage.getSerialFrontierHistory(year, districtId);
+      res.json(history);
+    } catch (error) {
+      console.error("Error fetching serial frontiers:", error);
+      res.status(500).json({ error: "Failed to fetch serial frontiers" });
+    }
+  });
+
+  app.post("/api/jobs/discover-frontiers", async (req, res) => {
+    try {
+      const captchaLlmError = getLlmTaskConfigError("captcha");
+      if (captchaLlmError) {
+        return res.status(400).json({ error: `${captchaLlmError}. It is required to solve eCourts CAPTCHAs.` });
       }
 
-      const orderRange = endOrderNo - startOrderNo + 1;
-      if (orderRange > MAX_ORDER_RANGE) {
-        return res.status(400).json({ error: `Maximum ${MAX_ORDER_RANGE} order numbers range allowed` });
+      const validation = frontierDiscoveryRequestSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: validation.error.errors });
       }
 
-      const totalOrders = cnrIds.length * daysDiff * orderRange;
-      if (totalOrders > MAX_ORDERS_PER_REQUEST) {
-        return res.status(400).json({ 
-          error: `Maximum ${MAX_ORDERS_PER_REQUEST} orders per request. You requested ${totalOrders} (${cnrIds.length} CNRs × ${daysDiff} days × ${orderRange} orders).` 
+      const { year, districtIds, maxProbes } = validation.data;
+
+      const existingJobs = await storage.getProcessingJobs();
+      const runningJob = existingJobs.find(j => 
+        j.jobType === "frontier_discovery" && (j.status === "processing" || j.status === "pending")
+      );
+      if (runningJob) {
+        return res.json({ 
+          message: "A frontier discovery job is already running",
+          jobId: runningJob.id,
+          totalOrders: runningJob.totalItems,
+          alreadyRunning: true
         });
       }
 
-      // Bulk fetch CNRs with districts
-      const cnrsWithDistricts = await storage.getCnrsByIdsWithDistricts(cnrIds);
-      const cnrMap = new Map(cnrsWithDistricts.map(c => [c.id, c]));
-
-      const ordersToCreate: Array<{
-        cnrId: number;
-        orderNo: number;
-        orderDate: string;
-        url: string;
-        encodedPayload: string;
-      }> = [];
+      const allDistricts = await storage.getDistricts();
+      const targetDistricts = districtIds && districtIds.length > 0
+        ? allDistricts.filter(d => districtIds.includes(d.id))
+        : allDistricts.filter(d => d.isActive);
 
-      // Generate all date strings in range
-      const dateStrings: string[] = [];
-      for (let d = new Date(start); d <= end; d.setDate(d.getDate() + 1)) {
-        dateStrings.push(d.toISOString().split("T")[0]);
+      if (targetDistricts.length === 0) {
+        return res.status(400).json({ error: "No matching districts to probe" });
       }
 
-      for (const cnrId of cnrIds) {
-        const cnrData = cnrMap.get(cnrId);
-        if (!cnrData || !cnrData.district) continue;
+      const job = await storage.createProcessingJob({
+        jobType: "frontier_discovery",
+        status: "pending",
+        totalItems: targetDistricts.length,
+        processedItems: 0,
+        successfulItems: 0,
+        failedItems: 0,
+        parameters: JSON.stringify({ year, maxProbes, districtIds: targetDistricts.map(d => d.id) }),
+      });
 
-        for (const dateStr of dateStrings) {
-          for (let orderNo = startOrderNo; orderNo <= endOrderNo; orderNo++) {
-            const payload = JSON.stringify({
-              cino: cnrData.cnr,
-              order_no: orderNo,
-              order_date: dateStr,
-            });
-            const encodedPayload = Buffer.from(payload).toString("base64");
-            const url = `${cnrData.district.baseUrl}/wp-admin/admin-ajax.php?es_ajax_request=1&action=get_order_pdf&input_strings=${encodedPayload}`;
-
-            ordersToCreate.push({
-              cnrId,
-              orderNo,
-              orderDate: dateStr,
-              url,
-              encodedPayload,
-            });
-          }
+      discoverFrontiersForJob(job.id, targetDistricts, year, maxProbes);
+
+      res.json({
+        jobId: job.id,
+        totalOrders: targetDistricts.length,
+        message: `Started frontier discovery for ${targetDistricts.length} districts (${year})`,
+      });
+    } catch (error) {
+      console.error("Error starting frontier discovery job:", error);
+      res.status(500).json({ error: "Failed to start frontier discovery job" });
+    }
+  });
+
+  app.get("/api/court-holidays", async (req, res) => {
+    try {
+      const year = req.query.year ? parseInt(req.query.year as string) : undefined;
+      const districtId = req.query.districtId ? parseInt(req.query.districtId as string) : undefined;
+      const holidays = await storage.getCourtHolidays(year, districtId);
+      res.json(holidays);
+    } catch (error) {
+      console.error("Error fetching court holidays:", error);
+      res.status(500).json({ error: "Failed to fetch court holidays" });
+    }
+  });
+
+  app.post("/api/court-holidays/import", async (req, res) => {
+    try {
+      const validation = courtHolidayImportSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: validation.error.errors });
+      }
+
+      const { csv, replaceYear } = validation.data;
+      const districts = await storage.getDistricts();
+      const { holidays, errors } = parseHolidayCsv(csv, districts);
+
+      if (holidays.length === 0) {
+        return res.status(400).json({ error: "No valid holidays found in CSV", errors });
+      }
+
+      const { created, replaced } = await storage.importCourtHolidays(holidays, replaceYear);
+
+      res.json({
+        imported: created.length,
+        replaced,
+        errors,
+        message: `Imported ${created.length} holidays${errors.length > 0 ? ` (${errors.length} rows skipped)` : ""}`,
+      });
+    } catch (error) {
+      console.error("Error importing court holidays:", error);
+      res.status(500).json({ error: "Failed to import court holidays" });
+    }
+  });
+
+  app.delete("/api/court-holidays/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const deleted = await storage.deleteCourtHoliday(id);
+      if (!deleted) {
+        return res.status(404).json({ error: "Holiday not found" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting court holiday:", error);
+      res.status(500).json({ error: "Failed to delete court holiday" });
+    }
+  });
+
+  // Step 2: Create order URLs for specific CNRs (separate action)
+  const MAX_ORDERS_PER_REQUEST = 1000; // CNRs × days × orders
+  const MAX_DAYS_RANGE = 30;
+  const MAX_ORDER_RANGE = 10;
+
+  // Validates an order grid request and builds the URLs it would create.
+  // Shared by /api/orders/generate and its dry run.
+  async function planOrderGrid(request: OrderGenerationRequest): Promise<{ error: string } | {
+    cnrIds: number[];
+    startDate: string;
+    endDate: string;
+    daysDiff: number;
+    orderRange: number;
+    ordersToCreate: InsertCnrOrder[];
+    skippedInvalidCnrs: number;
+    skippedNonWorkingDays: number;
+  }> {
+    const { cnrIds, startDate, endDate, startOrderNo, endOrderNo, skipInvalidCnrs, skipNonWorkingDays } = request;
+
+    // Calculate date range
+    const start = new Date(startDate);
+    const end = new Date(endDate);
+    const daysDiff = Math.ceil((end.getTime() - start.getTime()) / (1000 * 60 * 60 * 24)) + 1;
+    
+    if (daysDiff > MAX_DAYS_RANGE) {
+      return { error: `Maximum ${MAX_DAYS_RANGE} days range allowed` };
+    }
+    if (daysDiff < 1) {
+      return { error: "End date must be >= start date" };
+    }
+
+    const orderRange = endOrderNo - startOrderNo + 1;
+    if (orderRange > MAX_ORDER_RANGE) {
+      return { error: `Maximum ${MAX_ORDER_RANGE} order numbers range allowed` };
+    }
+
+    const totalOrders = cnrIds.length * daysDiff * orderRange;
+    if (totalOrders > MAX_ORDERS_PER_REQUEST) {
+      return {
+        error: `Maximum ${MAX_ORDERS_PER_REQUEST} orders per request. You requested ${totalOrders} (${cnrIds.length} CNRs × ${daysDiff} days × ${orderRange} orders).`
+      };
+    }
+
+    // Bulk fetch CNRs with districts
+    const cnrsWithDistricts = await storage.getCnrsByIdsWithDistricts(cnrIds);
+    const cnrMap = new Map(cnrsWithDistricts.map(c => [c.id, c]));
+
+    const ordersToCreate: InsertCnrOrder[] = [];
+    let skippedInvalidCnrs = 0;
+    let skippedNonWorkingDays = 0;
+
+    // Generate all date strings in range
+    const dateStrings: string[] = [];
+    for (let d = new Date(start); d <= end; d.setDate(d.getDate() + 1)) {
+      dateStrings.push(d.toISOString().split("T")[0]);
+    }
+
+    const isNonWorkingDay = skipNonWorkingDays
+      ? createNonWorkingDayChecker(await storage.getCourtHolidaysInRange(dateStrings[0], dateStrings[dateStrings.length - 1]))
+      : null;
+
+    for (const cnrId of cnrIds) {
+      const cnrData = cnrMap.get(cnrId);
+      if (!cnrData || !cnrData.district) continue;
+      // Only CNRs confirmed missing on eCourts are skipped; unverified ones still get URLs
+      if (skipInvalidCnrs && cnrData.isValid === false) {
+        skippedInvalidCnrs++;
+        continue;
+      }
+
+      for (const dateStr of dateStrings) {
+        if (isNonWorkingDay && isNonWorkingDay(dateStr, cnrData.districtId)) {
+          skippedNonWorkingDays++;
+          continue;
+        }
+        for (let orderNo = startOrderNo; orderNo <= endOrderNo; orderNo++) {
+          const { url, encodedPayload } = buildOrderUrl(cnrData.district.baseUrl, cnrData.cnr, orderNo, dateStr);
+
+          ordersToCreate.push({
+            cnrId,
+            orderNo,
+            orderDate: dateStr,
+            url,
+            encodedPayload,
+          });
         }
       }
+    }
+
+    return { cnrIds, startDate, endDate, daysDiff, orderRange, ordersToCreate, skippedInvalidCnrs, skippedNonWorkingDays };
+  }
+
+  app.post("/api/orders/generate/dry-run", async (req, res) => {
+    try {
+      const validation = orderGenerationRequestSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: validation.error.errors });
+      }
+
+      const plan = await planOrderGrid(validation.data);
+      if ("error" in plan) {
+        return res.status(400).json({ error: plan.error });
+      }
+
+      const [existingKeys, history] = await Promise.all([
+        storage.getExistingOrderKeys(plan.cnrIds, plan.startDate, plan.endDate),
+        storage.getHistoricalAverages(),
+      ]);
+      const existingSet = new Set(existingKeys.map(k => `${k.cnrId}|${k.orderNo}|${k.orderDate}`));
+      const existingOrders = plan.ordersToCreate.filter(o => existingSet.has(`${o.cnrId}|${o.orderNo}|${o.orderDate}`)).length;
+      const newOrders = plan.ordersToCreate.length - existingOrders;
+
+      res.json({
+        urlCount: plan.ordersToCreate.length,
+        newOrders,
+        existingOrders,
+        skippedInvalidCnrs: plan.skippedInvalidCnrs,
+        skippedNonWorkingDays: plan.skippedNonWorkingDays,
+        estimate: estimateJobCost(newOrders, history, getPdfFetchChain()),
+      });
+    } catch (error) {
+      console.error("Error estimating order generation:", error);
+      res.status(500).json({ error: "Failed to estimate order generation" });
+    }
+  });
+
+  app.post("/api/orders/generate", async (req, res) => {
+    try {
+      const validation = orderGenerationRequestSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: validation.error.errors });
+      }
+
+      const plan = await planOrderGrid(validation.data);
+      if ("error" in plan) {
+        return res.status(400).json({ error: plan.error });
+      }
+      const { cnrIds, startDate, endDate, daysDiff, orderRange, ordersToCreate, skippedInvalidCnrs, skippedNonWorkingDays } = plan;
+      const { startOrderNo, endOrderNo } = validation.data;
 
       const createdOrders = await storage.createOrdersBatch(ordersToCreate);
 
@@ -239,7 +605,9 @@ export async function registerRoutes(
         orderIds: createdOrders.map(o => o.id),
         dateRange: { startDate, endDate, days: daysDiff },
         orderRange: { startOrderNo, endOrderNo, count: orderRange },
-        message: `Created ${createdOrders.length} order URLs (${cnrIds.length} CNRs × ${daysDiff} days × ${orderRange} orders)`,
+        skippedInvalidCnrs,
+        skippedNonWorkingDays,
+        message: `Created ${createdOrders.length} order URLs (${cnrIds.length - skippedInvalidCnrs} CNRs × ${daysDiff} days × ${orderRange} orders)`,
       });
     } catch (error) {
       console.error("Error generating orders:", error);
@@ -247,6 +615,96 @@ export async function registerRoutes(
     }
   });
 
+  // Exact order URLs from eCourts case history, with the grid as a per-CNR fallback
+  app.post("/api/jobs/generate-orders-from-history", async (req, res) => {
+    try {
+      const captchaLlmError = getLlmTaskConfigError("captcha");
+      if (captchaLlmError) {
+        return res.status(400).json({ error: `${captchaLlmError}. It is required to solve eCourts CAPTCHAs.` });
+      }
+
+      const validation = historyOrderGenerationRequestSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: validation.error.errors });
+      }
+
+      const { cnrIds, fallbackGrid } = validation.data;
+
+      if (fallbackGrid) {
+        const days = Math.ceil((new Date(fallbackGrid.endDate).getTime() - new Date(fallbackGrid.startDate).getTime()) / (1000 * 60 * 60 * 24)) + 1;
+        const orderRange = fallbackGrid.endOrderNo - fallbackGrid.startOrderNo + 1;
+        if (days < 1 || days > MAX_DAYS_RANGE) {
+          return res.status(400).json({ error: `Fallback grid must cover 1-${MAX_DAYS_RANGE} days` });
+        }
+        if (orderRange < 1 || orderRange > MAX_ORDER_RANGE) {
+          return res.status(400).json({ error: `Fallback grid must cover 1-${MAX_ORDER_RANGE} order numbers` });
+        }
+      }
+
+      const existingJobs = await storage.getProcessingJobs();
+      const runningJob = existingJobs.find(j => 
+        j.jobType === "history_order_generation" && (j.status === "processing" || j.status === "pending")
+      );
+      if (runningJob) {
+        return res.json({ 
+          message: "A history order generation job is already running",
+          jobId: runningJob.id,
+          totalOrders: runningJob.totalItems,
+          alreadyRunning: true
+        });
+      }
+
+      // CNRs already confirmed missing on eCourts have no history to fetch
+      const cnrsWithDistricts = await storage.getCnrsByIdsWithDistricts(cnrIds);
+      const cnrsToProcess = cnrsWithDistricts.filter(c => c.isValid !== false);
+
+      if (cnrsToProcess.length === 0) {
+        return res.json({ message: "No valid CNRs to process", jobId: null });
+      }
+
+      const job = await storage.createProcessingJob({
+        jobType: "history_order_generation",
+        status: "pending",
+        totalItems: cnrsToProcess.length,
+        processedItems: 0,
+        successfulItems: 0,
+        failedItems: 0,
+        parameters: JSON.stringify({ cnrIds: cnrsToProcess.map(c => c.id), fallbackGrid }),
+      });
+
+      generateOrdersFromHistoryForJob(job.id, cnrsToProcess, fallbackGrid);
+
+      res.json({
+        jobId: job.id,
+        totalOrders: cnrsToProcess.length,
+        message: `Started case history order generation for ${cnrsToProcess.length} CNRs`,
+      });
+    } catch (error) {
+      console.error("Error starting history order generation job:", error);
+      res.status(500).json({ error: "Failed to start history order generation job" });
+    }
+  });
+
+  app.post("/api/orders/pending-by-cnrs", async (req, res) => {
+    try {
+      const { cnrIds } = req.body;
+      if (!cnrIds || !Array.isArray(cnrIds) || cnrIds.length === 0) {
+        return res.status(400).json({ error: "cnrIds array is required" });
+      }
+      const orders = await storage.getPendingOrdersByCnrIds(cnrIds);
+      res.json({
+        orderIds: orders.map(o => o.id),
+        byMethod: {
+          caseHistory: orders.filter(o => o.generationMethod === "case_history").length,
+          grid: orders.filter(o => o.generationMethod === "grid").length,
+        },
+      });
+    } catch (error) {
+      console.error("Error fetching pending orders for CNRs:", error);
+      res.status(500).json({ error: "Failed to fetch pending orders" });
+    }
+  });
+
   app.get("/api/orders", async (req, res) => {
     try {
       const limit = parseInt(req.query.limit as string) || 100;
@@ -298,6 +756,45 @@ export async function registerRoutes(
     }
   });
 
+  app.get("/api/orders/:id/text/pages", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      res.json(await getOrderTextPages("bulk", id));
+    } catch (error) {
+      console.error("Error fetching text pages:", error);
+      res.status(500).json({ error: "Failed to fetch text pages" });
+    }
+  });
+
+  app.get("/api/orders/:id/text/sections", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      res.json(await getOrderTextSections("bulk", id));
+    } catch (error) {
+      console.error("Error fetching text sections:", error);
+      res.status(500).json({ error: "Failed to fetch text sections" });
+    }
+  });
+
+  // Page and offsets of a span, given as ?q=<quoted text> or ?start=&end= (rawText offsets)
+  app.get("/api/orders/:id/text/locate", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const span = parseSpanQuery(req.query);
+      if (!span) {
+        return res.status(400).json({ error: "Provide q, or start and end offsets" });
+      }
+      const location = await locateOrderTextSpan("bulk", id, span);
+      if (!location) {
+        return res.status(404).json({ error: "Span not found in the order's pages" });
+      }
+      res.json(location);
+    } catch (error) {
+      console.error("Error locating text span:", error);
+      res.status(500).json({ error: "Failed to locate text span" });
+    }
+  });
+
   app.get("/api/leads", async (req, res) => {
     try {
       const limit = parseInt(req.query.limit as string) || 100;
@@ -509,6 +1006,32 @@ export async function registerRoutes(
     }
   });
 
+  app.get("/api/analytics/by-establishment", async (req, res) => {
+    try {
+      const districtId = req.query.districtId ? parseInt(req.query.districtId as string) : undefined;
+      const stats = await storage.getAnalyticsByEstablishment(districtId);
+      res.json(stats);
+    } catch (error) {
+      console.error("Error fetching establishment analytics:", error);
+      res.status(500).json({ error: "Failed to fetch establishment analytics" });
+    }
+  });
+
+  // Groups of orders whose PDFs have identical content, in both workflows
+  app.get("/api/analytics/duplicate-pdfs", async (req, res) => {
+    try {
+      const limit = parseInt(req.query.limit as string) || 100;
+      const [bulk, direct] = await Promise.all([
+        storage.getDuplicatePdfGroups(limit),
+        getDirectDuplicatePdfGroups(limit),
+      ]);
+      res.json({ bulk, direct });
+    } catch (error) {
+      console.error("Error fetching duplicate PDFs:", error);
+      res.status(500).json({ error: "Failed to fetch duplicate PDFs" });
+    }
+  });
+
   app.get("/api/analytics/trends", async (req, res) => {
     try {
       const days = parseInt(req.query.days as string) || 30;
@@ -554,12 +1077,176 @@ export async function registerRoutes(
     }
   });
 
+  // Orders a download job would probe: the given ids that are due, or the next pending batch
+  const selectOrdersForDownload = async (limit: number, orderIds?: number[]) => {
+    if (orderIds && orderIds.length > 0) {
+      const allOrders = await storage.getOrdersByIds(orderIds);
+      const pendingOrders = allOrders.filter(o => isDueForProbe(o));
+      return { pendingOrders, skippedOrders: allOrders.length - pendingOrders.length };
+    }
+    return { pendingOrders: await storage.getPendingOrders(limit), skippedOrders: 0 };
+  };
+
+  app.get("/api/pdf-fetchers", async (_req, res) => {
+    try {
+      const stats = await storage.getPdfFetcherStats();
+      res.json({
+        strategies: PDF_FETCH_STRATEGIES,
+        chain: getConfiguredChain(),
+        fetchers: describePdfFetchers().map(f => ({
+          ...f,
+          stats: stats.find(s => s.fetcher === f.name) ?? null,
+        })),
+      });
+    } catch (error) {
+      console.error("Error fetching PDF fetchers:", error);
+      res.status(500).json({ error: "Failed to fetch PDF fetchers" });
+    }
+  });
+
+  app.get("/api/ocr-engines", (_req, res) => {
+    res.json({ engines: describeOcrEngines() });
+  });
+
+  // Provider and model each LLM task is routed to (LLM_PROVIDER, LLM_ROUTE_<TASK>)
+  app.get("/api/llm-routes", (_req, res) => {
+    res.json({ routes: describeLlmRoutes() });
+  });
+
+  // In-memory limiter and circuit breaker state; hosts appear once they have been fetched from
+  app.get("/api/host-health", (_req, res) => {
+    res.json({ policy: getHostPolicy(), hosts: getHostHealth() });
+  });
+
+  app.get("/api/orders/:id/fetch-attempts", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: "Invalid order ID" });
+      }
+      const attempts = await storage.getPdfFetchAttemptsForOrder(id);
+      res.json(attempts);
+    } catch (error) {
+      console.error("Error fetching PDF fetch attempts:", error);
+      res.status(500).json({ error: "Failed to fetch PDF fetch attempts" });
+    }
+  });
+
+  app.get("/api/pdf-quarantine", async (req, res) => {
+    try {
+      const status = typeof req.query.status === "string" && req.query.status !== "all" ? req.query.status : undefined;
+      if (status && !(PDF_QUARANTINE_STATUSES as readonly string[]).includes(status)) {
+        return res.status(400).json({ error: `Unknown status "${status}"` });
+      }
+      const [entries, counts] = await Promise.all([
+        storage.getPdfQuarantineEntries(status),
+        storage.getPdfQuarantineCounts(),
+      ]);
+      res.json({ entries, counts });
+    } catch (error) {
+      console.error("Error fetching PDF quarantine:", error);
+      res.status(500).json({ error: "Failed to fetch PDF quarantine" });
+    }
+  });
+
+  app.post("/api/pdf-quarantine/:id/revalidate", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: "Invalid quarantine entry ID" });
+      }
+      const result = await revalidateQuarantinedPdf(id);
+      if (!result) {
+        return res.status(404).json({ error: "Quarantine entry not found" });
+      }
+      res.json(result);
+    } catch (error) {
+      if (error instanceof QuarantineStateError) {
+        return res.status(409).json({ error: error.message });
+      }
+      if (error instanceof ObjectNotFoundError) {
+        return res.status(410).json({ error: "Quarantined bytes are no longer in object storage" });
+      }
+      console.error("Error revalidating quarantined PDF:", error);
+      res.status(500).json({ error: "Failed to revalidate quarantined PDF" });
+    }
+  });
+
+  app.post("/api/pdf-quarantine/:id/discard", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: "Invalid quarantine entry ID" });
+      }
+      const entry = await discardQuarantinedPdf(id);
+      if (!entry) {
+        return res.status(404).json({ error: "Quarantine entry not found" });
+      }
+      res.json(entry);
+    } catch (error) {
+      console.error("Error discarding quarantined PDF:", error);
+      res.status(500).json({ error: "Failed to discard quarantined PDF" });
+    }
+  });
+
+  app.post("/api/test-pdf-fetch", async (req, res) => {
+    try {
+      const { url, strategy = "chain" } = req.body;
+      if (!url) {
+        return res.status(400).json({ error: "URL is required" });
+      }
+      if (!PDF_FETCH_STRATEGIES.includes(strategy)) {
+        return res.status(400).json({ error: `Unknown strategy "${strategy}"` });
+      }
+
+      console.log(`Testing PDF fetch (${strategy}) for: ${url}`);
+      const result = await testPdfFetch(url, strategy);
+      res.json(result);
+    } catch (error) {
+      console.error("Error testing PDF fetch:", error);
+      res.status(500).json({ error: "Failed to test PDF fetch" });
+    }
+  });
+
+  app.post("/api/jobs/start-pdf-download/dry-run", async (req, res) => {
+    try {
+      const validation = pdfDownloadJobRequestSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: validation.error.errors });
+      }
+
+      const { strategy, limit, orderIds } = validation.data;
+      const { pendingOrders, skippedOrders } = await selectOrdersForDownload(limit, orderIds);
+
+      const history = await storage.getHistoricalAverages();
+      res.json({
+        urlCount: pendingOrders.length,
+        skippedOrders,
+        estimate: estimateJobCost(pendingOrders.length, history, getPdfFetchChain(strategy)),
+      });
+    } catch (error) {
+      console.error("Error estimating PDF download:", error);
+      res.status(500).json({ error: "Failed to estimate PDF download" });
+    }
+  });
+
   app.post("/api/jobs/start-pdf-download", async (req, res) => {
     try {
-      const { limit = 100 } = req.body;
+      const validation = pdfDownloadJobRequestSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: validation.error.errors });
+      }
+
+      const { strategy, limit, orderIds } = validation.data;
+      const chain = getPdfFetchChain(strategy);
+      if (chain.length === 0) {
+        return res.status(400).json({ error: `No PDF fetcher is configured for strategy "${strategy}"` });
+      }
       
       const existingJobs = await storage.getProcessingJobs();
-      const runningJob = existingJobs.find(j => j.status === "processing" || j.status === "pending");
+      const runningJob = existingJobs.find(j =>
+        j.jobType === "pdf_download" && (j.status === "processing" || j.status === "pending")
+      );
       if (runningJob) {
         return res.json({ 
           message: "A download job is already running",
@@ -569,12 +1256,13 @@ export async function registerRoutes(
         });
       }
       
-      const pendingOrders = await storage.getPendingOrders(limit);
+      const { pendingOrders } = await selectOrdersForDownload(limit, orderIds);
       
       if (pendingOrders.length === 0) {
         return res.json({ message: "No pending orders to process", jobId: null });
       }
 
+      const fetchers = chain.map(f => f.name);
       const job = await storage.createProcessingJob({
         jobType: "pdf_download",
         status: "pending",
@@ -582,15 +1270,15 @@ export async function registerRoutes(
         processedItems: 0,
         successfulItems: 0,
         failedItems: 0,
-        parameters: JSON.stringify({ limit, orderIds: pendingOrders.map(o => o.id) }),
+        parameters: JSON.stringify({ limit, orderIds: pendingOrders.map(o => o.id), strategy, fetchers }),
       });
 
-      fetchPdfsForJob(job.id, pendingOrders);
+      fetchPdfsForJob(job.id, pendingOrders, strategy);
 
       res.json({
         jobId: job.id,
         totalOrders: pendingOrders.length,
-        message: `Started PDF download job for ${pendingOrders.length} orders`,
+        message: `Started PDF download job for ${pendingOrders.length} orders (${fetchers.join(" -> ")})`,
       });
     } catch (error) {
       console.error("Error starting PDF download job:", error);
@@ -600,7 +1288,11 @@ export async function registerRoutes(
 
   app.post("/api/jobs/extract-texts", async (req, res) => {
     try {
-      const { limit = 100 } = req.body;
+      const validation = textExtractionJobRequestSchema.safeParse(req.body ?? {});
+      if (!validation.success) {
+        return res.status(400).json({ error: validation.error.errors });
+      }
+      const { limit, ocrEngine } = validation.data;
       
       const existingJobs = await storage.getProcessingJobs();
       const runningJob = existingJobs.find(j => 
@@ -628,10 +1320,10 @@ export async function registerRoutes(
         processedItems: 0,
         successfulItems: 0,
         failedItems: 0,
-        parameters: JSON.stringify({ limit, orderIds: ordersNeedingText.map(o => o.id) }),
+        parameters: JSON.stringify({ limit, ocrEngine, orderIds: ordersNeedingText.map(o => o.id) }),
       });
 
-      extractTextsForJob(job.id, ordersNeedingText);
+      extractTextsForJob(job.id, ordersNeedingText, ocrEngine);
 
       res.json({
         jobId: job.id,
@@ -646,11 +1338,16 @@ export async function registerRoutes(
 
   app.post("/api/jobs/classify", async (req, res) => {
     try {
-      if (!process.env.OPENAI_API_KEY) {
-        return res.status(400).json({ error: "OPENAI_API_KEY is not configured. Please add your OpenAI API key to continue." });
+      const validation = classificationJobRequestSchema.safeParse(req.body ?? {});
+      if (!validation.success) {
+        return res.status(400).json({ error: validation.error.errors });
       }
+      const { limit, rulesOnly } = validation.data;
 
-      const { limit = 100 } = req.body;
+      const classificationLlmError = rulesOnly ? null : getLlmTaskConfigError("classification");
+      if (classificationLlmError) {
+        return res.status(400).json({ error: `${classificationLlmError}. Please configure the classification model to continue.` });
+      }
       
       const existingJobs = await storage.getProcessingJobs();
       const runningJob = existingJobs.find(j => 
@@ -678,10 +1375,10 @@ export async function registerRoutes(
         processedItems: 0,
         successfulItems: 0,
         failedItems: 0,
-        parameters: JSON.stringify({ limit, orderIds: ordersNeedingClassification.map(o => o.id) }),
+        parameters: JSON.stringify({ limit, rulesOnly, orderIds: ordersNeedingClassification.map(o => o.id) }),
       });
 
-      classifyOrdersForJob(job.id, ordersNeedingClassification);
+      classifyOrdersForJob(job.id, ordersNeedingClassification, { rulesOnly });
 
       res.json({
         jobId: job.id,
@@ -694,216 +1391,494 @@ export async function registerRoutes(
     }
   });
 
-  app.post("/api/jobs/enrich-entities", async (req, res) => {
+  // Re-runs orders classified with an older prompt version; their previous
+  // classification is archived in order_metadata_history
+  app.post("/api/jobs/reclassify", async (req, res) => {
     try {
-      const { limit = 100 } = req.body;
-      
+      const validation = reclassificationJobRequestSchema.safeParse(req.body ?? {});
+      if (!validation.success) {
+        return res.status(400).json({ error: validation.error.errors });
+      }
+      const { fromVersion, limit, rulesOnly } = validation.data;
+
+      if (fromVersion === CURRENT_CLASSIFICATION_PROMPT_VERSION) {
+        return res.status(400).json({ error: `Orders on ${fromVersion} already use the current prompt version` });
+      }
+
+      const classificationLlmError = rulesOnly ? null : getLlmTaskConfigError("classification");
+      if (classificationLlmError) {
+        return res.status(400).json({ error: `${classificationLlmError}. Please configure the classification model to continue.` });
+      }
+
       const existingJobs = await storage.getProcessingJobs();
-      const runningJob = existingJobs.find(j => 
-        j.jobType === "enrichment" && (j.status === "processing" || j.status === "pending")
+      const runningJob = existingJobs.find(j =>
+        j.jobType === "reclassification" && (j.status === "processing" || j.status === "pending")
       );
       if (runningJob) {
-        return res.json({ 
-          message: "An enrichment job is already running",
+        return res.json({
+          message: "A re-classification job is already running",
           jobId: runningJob.id,
-          totalEntities: runningJob.totalItems,
+          totalOrders: runningJob.totalItems,
           alreadyRunning: true
         });
       }
-      
-      const entitiesPendingEnrichment = await storage.getEntitiesPendingEnrichment(limit);
-      
-      if (entitiesPendingEnrichment.length === 0) {
-        return res.json({ message: "No entities need enrichment", jobId: null });
+
+      const orders = await storage.getOrdersWithTextByPromptVersion(fromVersion, limit);
+      if (orders.length === 0) {
+        return res.json({ message: `No orders are classified with prompt version ${fromVersion}`, jobId: null });
       }
 
       const job = await storage.createProcessingJob({
-        jobType: "enrichment",
+        jobType: "reclassification",
         status: "pending",
-        totalItems: entitiesPendingEnrichment.length,
+        totalItems: orders.length,
         processedItems: 0,
         successfulItems: 0,
         failedItems: 0,
-        parameters: JSON.stringify({ limit, entityIds: entitiesPendingEnrichment.map(e => e.id) }),
+        parameters: JSON.stringify({
+          fromVersion,
+          toVersion: CURRENT_CLASSIFICATION_PROMPT_VERSION,
+          limit,
+          rulesOnly,
+          orderIds: orders.map(o => o.id),
+        }),
       });
 
-      enrichEntitiesForJob(job.id, entitiesPendingEnrichment);
+      classifyOrdersForJob(job.id, orders, { rulesOnly });
 
       res.json({
         jobId: job.id,
-        totalEntities: entitiesPendingEnrichment.length,
-        message: `Started enrichment job for ${entitiesPendingEnrichment.length} entities`,
+        totalOrders: orders.length,
+        message: `Started re-classification of ${orders.length} orders from ${fromVersion} to ${CURRENT_CLASSIFICATION_PROMPT_VERSION}`,
       });
     } catch (error) {
-      console.error("Error starting enrichment job:", error);
-      res.status(500).json({ error: "Failed to start enrichment job" });
+      console.error("Error starting re-classification job:", error);
+      res.status(500).json({ error: "Failed to start re-classification job" });
     }
   });
 
-  app.post("/api/seed-districts", async (_req, res) => {
+  app.get("/api/classification/versions", async (_req, res) => {
     try {
-      const result = await seedDistricts();
-      res.json({
-        message: "Districts seeded successfully",
-        added: result.added,
-        skipped: result.skipped,
-      });
+      const counts = await storage.getPromptVersionCounts();
+      const known = Object.entries(CLASSIFICATION_PROMPT_VERSIONS).map(([version, description]) => ({
+        version,
+        description,
+        current: counts.find(c => c.promptVersion === version)?.current ?? 0,
+        archived: counts.find(c => c.promptVersion === version)?.archived ?? 0,
+      }));
+      const unknown = counts
+        .filter(c => !(c.promptVersion in CLASSIFICATION_PROMPT_VERSIONS))
+        .map(c => ({ version: c.promptVersion, description: null, current: c.current, archived: c.archived }));
+
+      res.json({ currentVersion: CURRENT_CLASSIFICATION_PROMPT_VERSION, versions: [...known, ...unknown] });
     } catch (error) {
-      console.error("Error seeding districts:", error);
-      res.status(500).json({ error: "Failed to seed districts" });
+      console.error("Error fetching classification versions:", error);
+      res.status(500).json({ error: "Failed to fetch classification versions" });
     }
   });
 
-  app.get("/api/analytics/processing-stats", async (_req, res) => {
+  // Field-by-field changes for orders classified under both versions
+  app.get("/api/classification/diff", async (req, res) => {
     try {
-      const stats = await storage.getProcessingStats();
-      res.json(stats);
+      const from = typeof req.query.from === "string" ? req.query.from.trim() : "";
+      const to = typeof req.query.to === "string" && req.query.to.trim()
+        ? req.query.to.trim()
+        : CURRENT_CLASSIFICATION_PROMPT_VERSION;
+      if (!from) {
+        return res.status(400).json({ error: "from is required" });
+      }
+      if (from === to) {
+        return res.status(400).json({ error: "from and to must be different versions" });
+      }
+      const sample = Math.min(Math.max(parseInt(req.query.sample as string) || 100, 1), 1000);
+
+      const report = await buildClassificationDiffReport(from, to, sample);
+      res.json(report);
     } catch (error) {
-      console.error("Error fetching processing stats:", error);
-      res.status(500).json({ error: "Failed to fetch processing stats" });
+      console.error("Error building classification diff:", error);
+      res.status(500).json({ error: "Failed to build classification diff" });
     }
   });
 
-  app.post("/api/test-playwright-pdf", async (req, res) => {
+  // Human review of classifications (server/classification-review.ts)
+  app.get("/api/review/queue", async (req, res) => {
     try {
-      const { url } = req.body;
-      if (!url) {
-        return res.status(400).json({ error: "URL is required" });
+      const requested = parseFloat(req.query.threshold as string);
+      const threshold = requested > 0 && requested <= 1 ? requested : getReviewConfidenceThreshold();
+      const limit = Math.min(parseInt(req.query.limit as string) || 100, 500);
+
+      const [items, counts] = await Promise.all([
+        getReviewQueue(threshold, limit),
+        storage.getReviewStatusCounts(),
+      ]);
+      res.json({ threshold, items, counts });
+    } catch (error) {
+      console.error("Error fetching review queue:", error);
+      res.status(500).json({ error: "Failed to fetch review queue" });
+    }
+  });
+
+  app.get("/api/review/orders/:id/corrections", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      res.json(await storage.getClassificationCorrectionsByOrderId(id));
+    } catch (error) {
+      console.error("Error fetching classification corrections:", error);
+      res.status(500).json({ error: "Failed to fetch classification corrections" });
+    }
+  });
+
+  // Approves the classification, or corrects it when corrections are given; both lock it
+  app.post("/api/review/orders/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const validation = classificationReviewSchema.safeParse(req.body ?? {});
+      if (!validation.success) {
+        return res.status(400).json({ error: validation.error.errors });
       }
-      
-      console.log(`Testing Playwright PDF fetch for: ${url}`);
-      const result = await testPlaywrightPdfFetch(url);
+
+      const result = await reviewClassification(id, validation.data);
       res.json(result);
     } catch (error) {
-      console.error("Error testing Playwright PDF:", error);
-      res.status(500).json({ error: "Failed to test PDF fetch" });
+      if (error instanceof ReviewStateError) {
+        return res.status(409).json({ error: error.message });
+      }
+      console.error("Error saving classification review:", error);
+      res.status(500).json({ error: "Failed to save classification review" });
     }
   });
 
-  app.post("/api/jobs/start-pdf-download-playwright", async (req, res) => {
+  // Lets re-classification jobs overwrite a reviewed classification again
+  app.post("/api/review/orders/:id/unlock", async (req, res) => {
     try {
-      const { limit = 100 } = req.body;
-      
+      const id = parseInt(req.params.id);
+      res.json(await unlockClassification(id));
+    } catch (error) {
+      if (error instanceof ReviewStateError) {
+        return res.status(409).json({ error: error.message });
+      }
+      console.error("Error unlocking classification:", error);
+      res.status(500).json({ error: "Failed to unlock classification" });
+    }
+  });
+
+  // Reviewed orders as JSON Lines: order text plus the fields a reviewer confirmed
+  app.get("/api/review/gold-dataset", async (req, res) => {
+    try {
+      const limit = Math.min(parseInt(req.query.limit as string) || 1000, 10000);
+      const records = await buildGoldDataset(limit);
+      const filename = `classification_gold_${new Date().toISOString().split("T")[0]}.jsonl`;
+
+      res.setHeader("Content-Type", "application/x-ndjson");
+      res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+      res.send(records.map(record => JSON.stringify(record)).join("\n"));
+    } catch (error) {
+      console.error("Error exporting gold dataset:", error);
+      res.status(500).json({ error: "Failed to export gold dataset" });
+    }
+  });
+
+  // Evaluation of classifier configurations against the gold set (server/classification-eval.ts)
+  app.get("/api/evaluation/gold", async (_req, res) => {
+    try {
+      const counts = await storage.getGoldOrderCounts();
+      res.json({ total: counts.reduce((sum, c) => sum + c.count, 0), counts });
+    } catch (error) {
+      console.error("Error fetching gold set:", error);
+      res.status(500).json({ error: "Failed to fetch gold set" });
+    }
+  });
+
+  app.post("/api/evaluation/gold/import", async (req, res) => {
+    try {
+      const validation = goldSetImportRequestSchema.safeParse(req.body ?? {});
+      if (!validation.success) {
+        return res.status(400).json({ error: validation.error.errors });
+      }
+      const { records, fromReviews } = validation.data;
+
+      const imported = await importGoldOrders(records, fromReviews);
+      res.json({ imported });
+    } catch (error) {
+      console.error("Error importing gold orders:", error);
+      res.status(500).json({ error: "Failed to import gold orders" });
+    }
+  });
+
+  app.post("/api/evaluation/runs", async (req, res) => {
+    try {
+      const validation = evaluationRunRequestSchema.safeParse(req.body ?? {});
+      if (!validation.success) {
+        return res.status(400).json({ error: validation.error.errors });
+      }
+      const request = validation.data;
+
+      if (request.mode !== "rules") {
+        const llmError = getLlmTaskConfigError("classification", toRouteOverride(request));
+        if (llmError) {
+          return res.status(400).json({ error: `${llmError}. Please configure the classification model to continue.` });
+        }
+      }
+
+      const goldCounts = await storage.getGoldOrderCounts();
+      if (goldCounts.every(c => c.count === 0)) {
+        return res.status(400).json({ error: "The gold set is empty. Import reviewed or labelled orders first." });
+      }
+
       const existingJobs = await storage.getProcessingJobs();
-      const runningJob = existingJobs.find(j => j.status === "processing" || j.status === "pending");
+      const runningJob = existingJobs.find(j =>
+        j.jobType === "classification_evaluation" && (j.status === "processing" || j.status === "pending")
+      );
       if (runningJob) {
-        return res.json({ 
-          message: "A download job is already running",
+        return res.json({
+          message: "An evaluation run is already in progress",
           jobId: runningJob.id,
-          totalOrders: runningJob.totalItems,
           alreadyRunning: true
         });
       }
-      
-      const pendingOrders = await storage.getPendingOrders(limit);
-      
-      if (pendingOrders.length === 0) {
-        return res.json({ message: "No pending orders to process", jobId: null });
+
+      const run = await createEvaluationRun(request);
+      executeEvaluationRun(run, request);
+
+      res.json({ message: "Evaluation started", runId: run.id, jobId: run.jobId });
+    } catch (error) {
+      console.error("Error starting evaluation run:", error);
+      res.status(500).json({ error: "Failed to start evaluation run" });
+    }
+  });
+
+  // Runs newest first, without their full reports
+  app.get("/api/evaluation/runs", async (req, res) => {
+    try {
+      const limit = Math.min(parseInt(req.query.limit as string) || 50, 500);
+      const runs = await storage.getEvaluationRuns(limit);
+      res.json(runs.map(({ report: _report, ...run }) => run));
+    } catch (error) {
+      console.error("Error fetching evaluation runs:", error);
+      res.status(500).json({ error: "Failed to fetch evaluation runs" });
+    }
+  });
+
+  app.get("/api/evaluation/runs/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const run = await storage.getEvaluationRunById(id);
+      if (!run) {
+        return res.status(404).json({ error: "Evaluation run not found" });
       }
+      res.json({ ...run, report: run.report ? JSON.parse(run.report) : null });
+    } catch (error) {
+      console.error("Error fetching evaluation run:", error);
+      res.status(500).json({ error: "Failed to fetch evaluation run" });
+    }
+  });
 
-      const job = await storage.createProcessingJob({
-        jobType: "pdf_download",
-        status: "pending",
-        totalItems: pendingOrders.length,
-        processedItems: 0,
-        successfulItems: 0,
-        failedItems: 0,
-        parameters: JSON.stringify({ limit, orderIds: pendingOrders.map(o => o.id), method: 'playwright' }),
-      });
+  app.get("/api/evaluation/compare", async (req, res) => {
+    try {
+      const baseId = parseInt(req.query.base as string);
+      const comparedId = parseInt(req.query.compared as string);
+      if (!baseId || !comparedId) {
+        return res.status(400).json({ error: "base and compared run ids are required" });
+      }
 
-      fetchPdfsWithPlaywright(job.id, pendingOrders);
+      const [base, compared] = await Promise.all([
+        storage.getEvaluationRunById(baseId),
+        storage.getEvaluationRunById(comparedId),
+      ]);
+      if (!base || !compared) {
+        return res.status(404).json({ error: "Evaluation run not found" });
+      }
+      res.json(compareEvaluationRuns(base, compared));
+    } catch (error) {
+      console.error("Error comparing evaluation runs:", error);
+      res.status(500).json({ error: "Failed to compare evaluation runs" });
+    }
+  });
 
-      res.json({
-        jobId: job.id,
-        totalOrders: pendingOrders.length,
-        message: `Started Playwright PDF download job for ${pendingOrders.length} orders`,
-      });
+  // Rules for the pre-classifier that runs ahead of the LLM (server/rule-classifier.ts)
+  app.get("/api/classification-rules", async (_req, res) => {
+    try {
+      // Seeds the default rules on first use
+      await getActiveRules();
+      const rules = await storage.getClassificationRules();
+      res.json(rules);
     } catch (error) {
-      console.error("Error starting Playwright PDF download job:", error);
-      res.status(500).json({ error: "Failed to start Playwright PDF download job" });
+      console.error("Error fetching classification rules:", error);
+      res.status(500).json({ error: "Failed to fetch classification rules" });
     }
   });
 
-  app.post("/api/test-zenrows-pdf", async (req, res) => {
+  app.post("/api/classification-rules", async (req, res) => {
     try {
-      const { url } = req.body;
-      if (!url) {
-        return res.status(400).json({ error: "URL is required" });
+      const validation = insertClassificationRuleSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: validation.error.errors });
       }
-      
-      console.log(`Testing ZenRows PDF fetch for: ${url}`);
-      const result = await testZenRowsPdfFetch(url);
-      res.json(result);
+
+      const rule = await storage.createClassificationRule(validation.data);
+      invalidateRuleCache();
+      res.status(201).json(rule);
     } catch (error) {
-      console.error("Error testing ZenRows PDF:", error);
-      res.status(500).json({ error: "Failed to test PDF fetch" });
+      console.error("Error creating classification rule:", error);
+      res.status(500).json({ error: "Failed to create classification rule" });
+    }
+  });
+
+  app.patch("/api/classification-rules/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const existing = await storage.getClassificationRuleById(id);
+      if (!existing) {
+        return res.status(404).json({ error: "Rule not found" });
+      }
+
+      const changes = updateClassificationRuleSchema.safeParse(req.body);
+      if (!changes.success) {
+        return res.status(400).json({ error: changes.error.errors });
+      }
+      // Re-check the merged rule: a new field or match type can invalidate the stored value or pattern
+      const { id: _id, createdAt: _createdAt, updatedAt: _updatedAt, ...current } = existing;
+      const validation = insertClassificationRuleSchema.safeParse({ ...current, ...changes.data });
+      if (!validation.success) {
+        return res.status(400).json({ error: validation.error.errors });
+      }
+
+      const rule = await storage.updateClassificationRule(id, validation.data);
+      invalidateRuleCache();
+      res.json(rule);
+    } catch (error) {
+      console.error("Error updating classification rule:", error);
+      res.status(500).json({ error: "Failed to update classification rule" });
+    }
+  });
+
+  app.delete("/api/classification-rules/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const deleted = await storage.deleteClassificationRule(id);
+      if (!deleted) {
+        return res.status(404).json({ error: "Rule not found" });
+      }
+      invalidateRuleCache();
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting classification rule:", error);
+      res.status(500).json({ error: "Failed to delete classification rule" });
     }
   });
 
-  app.post("/api/jobs/start-pdf-download-zenrows", async (req, res) => {
+  // Dry run of the active rules against pasted order text
+  app.post("/api/classification-rules/test", async (req, res) => {
     try {
-      if (!process.env.ZENROWS_API_KEY) {
-        return res.status(400).json({ error: "ZENROWS_API_KEY is not configured" });
+      const validation = classificationRuleTestSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: validation.error.errors });
       }
 
-      const { limit = 100, orderIds } = req.body;
+      const { text } = validation.data;
+      const { sections } = segmentOrderText([{ text, charOffset: 0 }]);
+      const evaluation = evaluateRules(await getActiveRules(), { text, sections });
+      res.json({ ...evaluation, resolved: toResolvedFields(evaluation) });
+    } catch (error) {
+      console.error("Error testing classification rules:", error);
+      res.status(500).json({ error: "Failed to test classification rules" });
+    }
+  });
+
+  app.post("/api/jobs/enrich-entities", async (req, res) => {
+    try {
+      const { limit = 100 } = req.body;
       
       const existingJobs = await storage.getProcessingJobs();
-      const runningJob = existingJobs.find(j => j.status === "processing" || j.status === "pending");
+      const runningJob = existingJobs.find(j => 
+        j.jobType === "enrichment" && (j.status === "processing" || j.status === "pending")
+      );
       if (runningJob) {
         return res.json({ 
-          message: "A download job is already running",
+          message: "An enrichment job is already running",
           jobId: runningJob.id,
-          totalOrders: runningJob.totalItems,
+          totalEntities: runningJob.totalItems,
           alreadyRunning: true
         });
       }
       
-      let pendingOrders;
-      if (orderIds && Array.isArray(orderIds) && orderIds.length > 0) {
-        const allOrders = await storage.getOrdersByIds(orderIds);
-        pendingOrders = allOrders.filter(o => o.pdfExists === false && o.retryCount < 3);
-      } else {
-        pendingOrders = await storage.getPendingOrders(limit);
-      }
+      const entitiesPendingEnrichment = await storage.getEntitiesPendingEnrichment(limit);
       
-      if (pendingOrders.length === 0) {
-        return res.json({ message: "No pending orders to process", jobId: null });
+      if (entitiesPendingEnrichment.length === 0) {
+        return res.json({ message: "No entities need enrichment", jobId: null });
       }
 
       const job = await storage.createProcessingJob({
-        jobType: "pdf_download",
+        jobType: "enrichment",
         status: "pending",
-        totalItems: pendingOrders.length,
+        totalItems: entitiesPendingEnrichment.length,
         processedItems: 0,
         successfulItems: 0,
         failedItems: 0,
-        parameters: JSON.stringify({ limit, orderIds: pendingOrders.map(o => o.id), method: 'zenrows' }),
+        parameters: JSON.stringify({ limit, entityIds: entitiesPendingEnrichment.map(e => e.id) }),
       });
 
-      fetchPdfsWithZenRows(job.id, pendingOrders);
+      enrichEntitiesForJob(job.id, entitiesPendingEnrichment);
 
       res.json({
         jobId: job.id,
-        totalOrders: pendingOrders.length,
-        message: `Started ZenRows PDF download job for ${pendingOrders.length} orders`,
+        totalEntities: entitiesPendingEnrichment.length,
+        message: `Started enrichment job for ${entitiesPendingEnrichment.length} entities`,
+      });
+    } catch (error) {
+      console.error("Error starting enrichment job:", error);
+      res.status(500).json({ error: "Failed to start enrichment job" });
+    }
+  });
+
+  app.post("/api/seed-districts", async (_req, res) => {
+    try {
+      await seedCourtStates();
+      const result = await seedDistricts();
+      const establishmentResult = await seedEstablishments();
+      res.json({
+        message: "Districts seeded successfully",
+        added: result.added,
+        skipped: result.skipped,
+        establishmentsAdded: establishmentResult.added,
       });
     } catch (error) {
-      console.error("Error starting ZenRows PDF download job:", error);
-      res.status(500).json({ error: "Failed to start ZenRows PDF download job" });
+      console.error("Error seeding districts:", error);
+      res.status(500).json({ error: "Failed to seed districts" });
+    }
+  });
+
+  app.get("/api/reprobe-policy", async (_req, res) => {
+    try {
+      const counts = await storage.getProbeStatusCounts();
+      res.json({ policy: getReprobePolicy(), counts });
+    } catch (error) {
+      console.error("Error fetching re-probe policy:", error);
+      res.status(500).json({ error: "Failed to fetch re-probe policy" });
+    }
+  });
+
+  app.get("/api/analytics/processing-stats", async (_req, res) => {
+    try {
+      const stats = await storage.getProcessingStats();
+      res.json(stats);
+    } catch (error) {
+      console.error("Error fetching processing stats:", error);
+      res.status(500).json({ error: "Failed to fetch processing stats" });
     }
   });
 
   app.post("/api/test-complete-workflow", async (req, res) => {
     try {
-      const { orderId } = req.body;
+      const { orderId, strategy = "chain" } = req.body;
       
       if (!orderId) {
         return res.status(400).json({ error: "orderId is required" });
       }
       
-      if (!process.env.ZENROWS_API_KEY) {
-        return res.status(400).json({ error: "ZENROWS_API_KEY is not configured" });
+      const chain = PDF_FETCH_STRATEGIES.includes(strategy) ? getPdfFetchChain(strategy) : [];
+      if (chain.length === 0) {
+        return res.status(400).json({ error: `No PDF fetcher is configured for strategy "${strategy}"` });
       }
       
       const order = await storage.getOrderById(orderId);
@@ -916,45 +1891,32 @@ export async function registerRoutes(
       }
       
       const cnr = await storage.getCnrById(order.cnrId);
-      const orderWithCnr = { ...order, cnr };
       
       console.log(`[Workflow Test] Step 1: Downloading PDF for order ${orderId}...`);
       
-      const { fetchPdfsWithZenRows } = await import("./zenrows-pdf-fetcher");
       const { ObjectStorageService } = await import("./objectStorage");
       const { extractTextFromPdf } = await import("./text-extractor");
-      const axios = (await import("axios")).default;
+      const { fetchPdf, toAttemptRecords } = await import("./pdf-fetchers");
       
-      const apiKey = process.env.ZENROWS_API_KEY;
-      const response = await axios.get('https://api.zenrows.com/v1/', {
-        params: {
-          url: order.url,
-          apikey: apiKey,
-          premium_proxy: 'true',
-          js_render: 'true',
-        },
-        responseType: 'arraybuffer',
-        timeout: 120000,
-      });
+      const fetchResult = await fetchPdf(order.url, chain);
+      await storage.createPdfFetchAttempts(toAttemptRecords("bulk", order.id, fetchResult.attempts, { districtId: cnr?.districtId }));
       
-      const buffer = Buffer.from(response.data);
-      const pdfHeader = buffer.slice(0, 8).toString('ascii');
-      
-      if (!pdfHeader.startsWith('%PDF-')) {
+      if (!fetchResult.success || !fetchResult.buffer) {
         return res.json({
           step1_download: "failed",
-          error: "Downloaded content is not a valid PDF",
-          preview: buffer.slice(0, 100).toString('utf8'),
+          error: fetchResult.error,
+          attempts: fetchResult.attempts,
         });
       }
+      const buffer = fetchResult.buffer;
       
       console.log(`[Workflow Test] Step 2: Saving PDF to Object Storage (${buffer.length} bytes)...`);
       
       const objectStorage = new ObjectStorageService();
       const cnrString = cnr?.cnr || `unknown_${order.cnrId}`;
-      const pdfPath = await objectStorage.storePdf(buffer, cnrString, order.orderNo);
+      const { objectPath: pdfPath, contentHash } = await objectStorage.storePdf(buffer, cnrString, order.orderNo);
       
-      await storage.updateOrderPdfPath(order.id, pdfPath, buffer.length);
+      await storage.updateOrderPdfPath(order.id, pdfPath, buffer.length, contentHash);
       
       console.log(`[Workflow Test] Step 3: Extracting text from PDF...`);
       
@@ -967,7 +1929,14 @@ export async function registerRoutes(
           cleanedText: extractionResult.cleanedText,
           pageCount: extractionResult.pageCount,
           wordCount: extractionResult.wordCount,
+          extractionMethod: extractionResult.extractionMethod,
+          nativePages: JSON.stringify(extractionResult.nativePages ?? []),
+          ocrPages: JSON.stringify(extractionResult.ocrPages ?? []),
+          ocrEngine: extractionResult.ocrEngine ?? null,
+          detectedScript: extractionResult.detectedScript ?? null,
+          detectedLanguage: extractionResult.detectedLanguage ?? null,
         });
+        await savePdfTextPages("bulk", order.id, extractionResult.pages ?? []);
       }
       
       res.json({
@@ -993,6 +1962,18 @@ export async function registerRoutes(
     }
   });
 
+  app.get("/api/reports/fetch-costs", async (req, res) => {
+    try {
+      const days = Math.min(Math.max(parseInt(req.query.days as string) || 30, 1), 365);
+      const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+      const rows = await storage.getFetchCostBreakdown(since);
+      res.json(buildFetchCostReport(rows, since));
+    } catch (error) {
+      console.error("Error building fetch cost report:", error);
+      res.status(500).json({ error: "Failed to build fetch cost report" });
+    }
+  });
+
   app.get("/api/reports/case-categories", async (_req, res) => {
     try {
       const stats = await storage.getCaseCategoryStats();
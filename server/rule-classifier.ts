@@ -0,0 +1,204 @@
+import {
+  hasNestedQuantifier,
+  RULE_BOOLEAN_FIELDS,
+  RULE_CLASSIFIER_FIELDS,
+  type ClassificationRule,
+  type OrderSectionName,
+  type RuleClassifierField,
+} from "@shared/schema";
+import { storage } from "./storage";
+import { seedClassificationRules } from "./seed";
+
+// Deterministic pre-classifier run ahead of the LLM. Each active rule that
+// matches adds its weight to its value; a field is decided when the leading
+// value scores high enough and clearly ahead of the others. The LLM is only
+// asked for what the rules leave open.
+
+const DEFAULT_CONFIDENCE_THRESHOLD = 0.8;
+const MATCH_EXCERPT_CHARS = 120;
+// Rules for these look for an explicit direction, so no match at all means the
+// order gives none. Only applied once every other field is decided.
+const UNMATCHED_MEANS_FALSE: RuleClassifierField[] = ["isSummonsOrder", "isNoticeOrder"];
+
+interface CompiledRule {
+  rule: ClassificationRule;
+  regex: RegExp;
+}
+
+export interface RuleMatch {
+  ruleId: number;
+  field: RuleClassifierField;
+  value: string;
+  weight: number;
+  matchedText: string;
+}
+
+export interface RuleDecision {
+  value: string;
+  confidence: number;
+  ruleIds: number[];
+}
+
+export interface RuleEvaluation {
+  // Fields decided with at least the threshold confidence
+  decisions: Partial<Record<RuleClassifierField, RuleDecision>>;
+  // Summed weight per value, for every field any rule matched
+  scores: Partial<Record<RuleClassifierField, Record<string, number>>>;
+  matches: RuleMatch[];
+  unresolved: RuleClassifierField[];
+}
+
+export interface RuleResolvedFields {
+  caseCategory?: string;
+  statutoryActName?: string;
+  isSummonsOrder?: boolean;
+  isNoticeOrder?: boolean;
+  isFinalOrder?: boolean;
+}
+
+export interface RuleInput {
+  // Whole order text, searched by rules without a section
+  text: string;
+  sections: { name: OrderSectionName; text: string }[];
+}
+
+let cachedRules: CompiledRule[] | null = null;
+let defaultsSeeded = false;
+
+function getConfidenceThreshold(): number {
+  const configured = Number(process.env.RULE_CONFIDENCE_THRESHOLD);
+  return configured > 0 && configured <= 1 ? configured : DEFAULT_CONFIDENCE_THRESHOLD;
+}
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function compileRule(rule: ClassificationRule): RegExp | null {
+  if (rule.matchType === "regex" && hasNestedQuantifier(rule.pattern)) {
+    console.warn(`[Rules] Skipping rule ${rule.id}: nested quantifiers can backtrack catastrophically`);
+    return null;
+  }
+  try {
+    if (rule.matchType === "keyword") {
+      const phrases = rule.pattern
+        .split(/[,\n]/)
+        .map(phrase => phrase.trim())
+        .filter(Boolean)
+        .map(phrase => escapeRegex(phrase).replace(/\s+/g, "\\s+"));
+      if (phrases.length === 0) return null;
+      // Whole words in any script; \b only knows ASCII letters
+      return new RegExp(`(?<![\\p{L}\\p{N}])(?:${phrases.join("|")})(?![\\p{L}\\p{N}])`, "iu");
+    }
+    return new RegExp(rule.pattern, "i");
+  } catch (error) {
+    console.warn(`[Rules] Skipping rule ${rule.id}: ${(error as Error).message}`);
+    return null;
+  }
+}
+
+function compileRules(rules: ClassificationRule[]): CompiledRule[] {
+  return rules.flatMap(rule => {
+    const regex = compileRule(rule);
+    return regex ? [{ rule, regex }] : [];
+  });
+}
+
+/** Active rules, compiled once and kept until a rule changes. */
+export async function getActiveRules(): Promise<CompiledRule[]> {
+  if (!cachedRules) {
+    if (!defaultsSeeded) {
+      await seedClassificationRules();
+      defaultsSeeded = true;
+    }
+    cachedRules = compileRules(await storage.getClassificationRules(true));
+  }
+  return cachedRules;
+}
+
+export function invalidateRuleCache(): void {
+  cachedRules = null;
+}
+
+// Leading score, discounted by how close the runner-up comes
+function decide(scores: Record<string, number>): { value: string; confidence: number } {
+  const ranked = Object.entries(scores).sort((a, b) => b[1] - a[1]);
+  const [value, best] = ranked[0];
+  const runnerUp = ranked[1]?.[1] ?? 0;
+  return { value, confidence: Math.min(best, 1) * ((best - runnerUp) / best) };
+}
+
+export function evaluateRules(rules: CompiledRule[], input: RuleInput): RuleEvaluation {
+  const matches: RuleMatch[] = [];
+
+  for (const { rule, regex } of rules) {
+    const haystack = rule.section
+      ? input.sections.filter(section => section.name === rule.section).map(section => section.text).join("\n")
+      : input.text;
+    const found = haystack ? regex.exec(haystack) : null;
+    if (!found) continue;
+    matches.push({
+      ruleId: rule.id,
+      field: rule.field as RuleClassifierField,
+      value: rule.value,
+      weight: rule.weight,
+      matchedText: found[0].slice(0, MATCH_EXCERPT_CHARS),
+    });
+  }
+
+  const threshold = getConfidenceThreshold();
+  const scores: RuleEvaluation["scores"] = {};
+  const decisions: RuleEvaluation["decisions"] = {};
+  let unresolved: RuleClassifierField[] = [];
+
+  for (const field of RULE_CLASSIFIER_FIELDS) {
+    const fieldMatches = matches.filter(match => match.field === field);
+    if (fieldMatches.length === 0) {
+      unresolved.push(field);
+      continue;
+    }
+
+    const fieldScores: Record<string, number> = {};
+    for (const match of fieldMatches) {
+      fieldScores[match.value] = (fieldScores[match.value] ?? 0) + match.weight;
+    }
+    scores[field] = fieldScores;
+
+    const { value, confidence } = decide(fieldScores);
+    if (confidence >= threshold) {
+      decisions[field] = {
+        value,
+        confidence: Math.round(confidence * 100) / 100,
+        ruleIds: fieldMatches.filter(match => match.value === value).map(match => match.ruleId),
+      };
+    } else {
+      unresolved.push(field);
+    }
+  }
+
+  if (unresolved.length > 0 && unresolved.every(field => UNMATCHED_MEANS_FALSE.includes(field) && !scores[field])) {
+    for (const field of unresolved) {
+      decisions[field] = { value: "false", confidence: threshold, ruleIds: [] };
+    }
+    unresolved = [];
+  }
+
+  return { decisions, scores, matches, unresolved };
+}
+
+/** Decided fields typed as the classifier stores them. */
+export function toResolvedFields(evaluation: RuleEvaluation): RuleResolvedFields {
+  const resolved: Record<string, string | boolean> = {};
+  for (const [field, decision] of Object.entries(evaluation.decisions)) {
+    resolved[field] = (RULE_BOOLEAN_FIELDS as readonly string[]).includes(field)
+      ? decision.value === "true"
+      : decision.value;
+  }
+  return resolved as RuleResolvedFields;
+}
+
+/** Lowest confidence among the decided fields; the order's confidence when no LLM was asked. */
+export function rulesConfidence(evaluation: RuleEvaluation): number {
+  const confidences = Object.values(evaluation.decisions).map(decision => decision.confidence);
+  return confidences.length > 0 ? Math.min(...confidences) : 0;
+}
@@ -1,7 +1,13 @@
 import { db } from "./db";
-import { districts } from "@shared/schema";
+import { courtStates, districts, establishments, classificationRules, type InsertClassificationRule } from "@shared/schema";
 
-// VERIFIED CORRECT MAPPINGS based on actual CNR format (DL + code_prefix + establishment + serial + year)
+const states = [
+  { code: "DL", name: "Delhi" },
+  { code: "HR", name: "Haryana" },
+  { code: "UP", name: "Uttar Pradesh" },
+];
+
+// VERIFIED CORRECT MAPPINGS based on actual CNR format (state + code_prefix + establishment + serial + year)
 // Example: DLWT010127152025 = DL + WT + 01 + 012715 + 2025 (4-digit year, 6-digit serial)
 // Domains verified working via ZenRows with India proxy
 const delhiDistricts = [
@@ -18,14 +24,44 @@ const delhiDistricts = [
   { name: "West Delhi", codePrefix: "WT", establishmentCode: "01", baseUrl: "https://westdelhi.dcourts.gov.in" },
 ];
 
+// NCR districts outside Delhi, same eCourts district site template and 16-character CNR
+const ncrDistricts = [
+  { name: "Gurugram", stateCode: "HR", codePrefix: "GR", establishmentCode: "01", baseUrl: "https://gurugram.dcourts.gov.in" },
+  { name: "Gautam Buddh Nagar (Noida)", stateCode: "UP", codePrefix: "GB", establishmentCode: "01", baseUrl: "https://gautambudhnagar.dcourts.gov.in" },
+  { name: "Ghaziabad", stateCode: "UP", codePrefix: "GZ", establishmentCode: "01", baseUrl: "https://ghaziabad.dcourts.gov.in" },
+];
+
+export async function seedCourtStates(): Promise<{ added: number; skipped: number }> {
+  let added = 0;
+  let skipped = 0;
+
+  for (const state of states) {
+    const result = await db.insert(courtStates).values(state).onConflictDoNothing();
+    if (result.rowCount && result.rowCount > 0) {
+      added++;
+      console.log(`  Added state: ${state.name} (${state.code})`);
+    } else {
+      skipped++;
+    }
+  }
+
+  return { added, skipped };
+}
+
 export async function seedDistricts(): Promise<{ added: number; skipped: number }> {
   let added = 0;
   let skipped = 0;
   
-  for (const district of delhiDistricts) {
+  const allDistricts = [
+    ...delhiDistricts.map(d => ({ ...d, stateCode: "DL" })),
+    ...ncrDistricts,
+  ];
+
+  for (const district of allDistricts) {
     try {
       const result = await db.insert(districts).values({
         name: district.name,
+        stateCode: district.stateCode,
         codePrefix: district.codePrefix,
         establishmentCode: district.establishmentCode,
         baseUrl: district.baseUrl,
@@ -50,10 +86,96 @@ export async function seedDistricts(): Promise<{ added: number; skipped: number
   return { added, skipped };
 }
 
+// Every district gets its main establishment (districts.establishmentCode) so CNR lookups
+// resolve out of the box. Civil/criminal/family/commercial establishments are added per district.
+export async function seedEstablishments(): Promise<{ added: number; skipped: number }> {
+  let added = 0;
+  let skipped = 0;
+
+  const allDistricts = await db.select().from(districts);
+  for (const district of allDistricts) {
+    const result = await db.insert(establishments).values({
+      districtId: district.id,
+      code: district.establishmentCode,
+      name: `${district.name} District Court`,
+      courtComplex: district.name,
+      isActive: true,
+    }).onConflictDoNothing();
+
+    if (result.rowCount && result.rowCount > 0) {
+      added++;
+      console.log(`  Added establishment: ${district.name} (${district.establishmentCode})`);
+    } else {
+      skipped++;
+    }
+  }
+
+  return { added, skipped };
+}
+
+const MACT_ACT = "MACT - Motor Accident Claims Tribunal under Motor Vehicles Act, 1988";
+const NI_ACT = "NI Act - Negotiable Instruments Act, 1881 (Section 138 - Cheque Dishonour)";
+const MAINTENANCE_ACT = "CrPC - Code of Criminal Procedure, 1973 (Section 125 - Maintenance)";
+
+// Starting rules for the pre-classifier, matching how Delhi District Court orders
+// name their statutes and directions. Weight 1 decides a field on its own; lower
+// weights need another rule to agree. Edited through /api/classification-rules.
+const defaultClassificationRules: InsertClassificationRule[] = [
+  { field: "caseCategory", value: "MACT", matchType: "regex", pattern: "\\bMACT\\b|motor accident claims? tribunal", weight: 1, description: "MACT court or claim petition", isActive: true },
+  { field: "caseCategory", value: "MACT", matchType: "regex", pattern: "(?:section|u/s)\\s*16[36]A?\\s*(?:of\\s*(?:the\\s*)?)?(?:M\\.?\\s*V\\.?\\s*Act|motor vehicles act)", weight: 0.6, description: "Claim under Section 163A/166 MV Act", isActive: true },
+  { field: "caseCategory", value: "NI_ACT", matchType: "regex", pattern: "(?:section|u/s|sec\\.?)\\s*138\\s*(?:of\\s*(?:the\\s*)?)?(?:N\\.?\\s*I\\.?\\s*Act|negotiable instruments act)", weight: 1, description: "Section 138 NI Act complaint", isActive: true },
+  { field: "caseCategory", value: "NI_ACT", matchType: "keyword", pattern: "Negotiable Instruments Act, cheque dishonour, cheque bounce", weight: 0.6, description: "Cheque dishonour wording", isActive: true },
+  { field: "caseCategory", value: "COMMERCIAL_COURTS", matchType: "regex", pattern: "commercial courts act|\\bCS\\s*\\(?\\s*COMM\\b", weight: 1, description: "Commercial suit", isActive: true },
+  { field: "caseCategory", value: "POCSO", matchType: "regex", pattern: "\\bPOCSO\\b|protection of children from sexual offences", weight: 1, description: "POCSO case", isActive: true },
+  { field: "caseCategory", value: "NDPS", matchType: "regex", pattern: "\\bNDPS\\b|narcotic drugs and psychotropic substances", weight: 1, description: "NDPS case", isActive: true },
+  { field: "caseCategory", value: "DV_ACT", matchType: "regex", pattern: "protection of women from domestic violence|\\bP\\.?W\\.?D\\.?V\\.?\\s*Act\\b|\\bD\\.?V\\.?\\s*Act\\b", weight: 1, description: "Domestic Violence Act complaint", isActive: true },
+  { field: "caseCategory", value: "ARBITRATION", matchType: "keyword", pattern: "Arbitration and Conciliation Act, Arbitration & Conciliation Act", weight: 1, description: "Arbitration petition", isActive: true },
+  { field: "caseCategory", value: "EXECUTION", matchType: "regex", pattern: "\\bexecution petition\\b|\\bEx\\.?\\s*P(?:et)?\\.?\\s*(?:No\\.?\\s*)?\\d", weight: 0.8, description: "Execution petition", isActive: true },
+  { field: "caseCategory", value: "MAINTENANCE", matchType: "regex", pattern: "(?:section|u/s|sec\\.?)\\s*125\\s*(?:of\\s*(?:the\\s*)?)?Cr\\.?\\s*P\\.?\\s*C|(?:section|u/s)\\s*144\\s*(?:of\\s*(?:the\\s*)?)?BNSS", weight: 1, description: "Maintenance under Section 125 CrPC / 144 BNSS", isActive: true },
+  { field: "caseCategory", value: "IPC", matchType: "regex", pattern: "(?:section|u/s|sections?)\\s*[\\d\\s,/&()A-Z]{1,40}?\\s*(?:of\\s*(?:the\\s*)?)?I\\.?\\s*P\\.?\\s*C\\b", weight: 0.7, description: "Offences under the IPC", isActive: true },
+
+  { field: "statutoryActName", value: MACT_ACT, matchType: "regex", pattern: "\\bMACT\\b|motor accident claims? tribunal", weight: 1, description: "MACT court or claim petition", isActive: true },
+  { field: "statutoryActName", value: NI_ACT, matchType: "regex", pattern: "(?:section|u/s|sec\\.?)\\s*138\\s*(?:of\\s*(?:the\\s*)?)?(?:N\\.?\\s*I\\.?\\s*Act|negotiable instruments act)", weight: 1, description: "Section 138 NI Act complaint", isActive: true },
+  { field: "statutoryActName", value: MAINTENANCE_ACT, matchType: "regex", pattern: "(?:section|u/s|sec\\.?)\\s*125\\s*(?:of\\s*(?:the\\s*)?)?Cr\\.?\\s*P\\.?\\s*C", weight: 1, description: "Maintenance under Section 125 CrPC", isActive: true },
+  { field: "statutoryActName", value: "POCSO - Protection of Children from Sexual Offences Act, 2012", matchType: "regex", pattern: "\\bPOCSO\\b|protection of children from sexual offences", weight: 1, description: "POCSO case", isActive: true },
+  { field: "statutoryActName", value: "NDPS - Narcotic Drugs and Psychotropic Substances Act, 1985", matchType: "regex", pattern: "\\bNDPS\\b|narcotic drugs and psychotropic substances", weight: 1, description: "NDPS case", isActive: true },
+  { field: "statutoryActName", value: "DV Act - Protection of Women from Domestic Violence Act, 2005", matchType: "regex", pattern: "protection of women from domestic violence|\\bP\\.?W\\.?D\\.?V\\.?\\s*Act\\b|\\bD\\.?V\\.?\\s*Act\\b", weight: 1, description: "Domestic Violence Act complaint", isActive: true },
+  { field: "statutoryActName", value: "Commercial Courts Act - Commercial Courts Act, 2015", matchType: "regex", pattern: "commercial courts act|\\bCS\\s*\\(?\\s*COMM\\b", weight: 1, description: "Commercial suit", isActive: true },
+  { field: "statutoryActName", value: "ARB - Arbitration and Conciliation Act, 1996", matchType: "keyword", pattern: "Arbitration and Conciliation Act, Arbitration & Conciliation Act", weight: 1, description: "Arbitration petition", isActive: true },
+
+  { field: "isSummonsOrder", value: "true", matchType: "regex", pattern: "\\bissue\\s+summons\\b|\\bsummons\\b[^.\\n]{0,60}\\b(?:be|is|are)\\s+(?:hereby\\s+)?(?:issued|sent)\\b", weight: 1, description: "Direction to issue summons", isActive: true },
+  { field: "isNoticeOrder", value: "true", matchType: "regex", pattern: "\\bissue\\s+(?:fresh\\s+)?notice\\b|\\bnotice\\b[^.\\n]{0,60}\\b(?:be|is|are)\\s+(?:hereby\\s+)?issued\\b", weight: 1, description: "Direction to issue notice", isActive: true },
+  { field: "isSummonsOrder", value: "false", matchType: "regex", pattern: "\\bfile\\s+be\\s+consigned\\s+to\\s+(?:the\\s+)?record\\s*room|\\bdecree\\s+sheet\\s+be\\s+prepared|\\baward\\s+is\\s+(?:hereby\\s+)?passed", weight: 1, description: "Final order: nobody is summoned", isActive: true },
+  { field: "isNoticeOrder", value: "false", matchType: "regex", pattern: "\\bfile\\s+be\\s+consigned\\s+to\\s+(?:the\\s+)?record\\s*room|\\bdecree\\s+sheet\\s+be\\s+prepared|\\baward\\s+is\\s+(?:hereby\\s+)?passed", weight: 1, description: "Final order: no notice is issued", isActive: true },
+  { field: "isFinalOrder", value: "true", matchType: "regex", pattern: "\\bfile\\s+be\\s+consigned\\s+to\\s+(?:the\\s+)?record\\s*room", weight: 1, description: "File consigned to record room", isActive: true },
+  { field: "isFinalOrder", value: "true", matchType: "regex", pattern: "\\bdecree\\s+sheet\\s+be\\s+prepared|\\baward\\s+is\\s+(?:hereby\\s+)?passed", weight: 1, description: "Decree or award drawn up", isActive: true },
+  { field: "isFinalOrder", value: "true", matchType: "regex", pattern: "\\b(?:suit|petition|complaint|claim petition)\\s+(?:is|stands)\\s+(?:hereby\\s+)?(?:dismissed|decreed|allowed|disposed\\s+of|withdrawn)", weight: 0.6, description: "Main proceeding disposed of", isActive: true },
+  { field: "isFinalOrder", value: "false", matchType: "regex", pattern: "\\b(?:put\\s+up|list(?:ed)?|adjourned|re-?notify|come\\s+up)\\b", section: "next_date", weight: 1, description: "Matter listed again on a next date", isActive: true },
+];
+
+// Seeds the default rules only into an empty table, so edited rules are never overwritten
+export async function seedClassificationRules(): Promise<{ added: number; skipped: number }> {
+  const existing = await db.select({ id: classificationRules.id }).from(classificationRules).limit(1);
+  if (existing.length > 0) {
+    return { added: 0, skipped: defaultClassificationRules.length };
+  }
+
+  await db.insert(classificationRules).values(defaultClassificationRules);
+  console.log(`  Added ${defaultClassificationRules.length} default classification rules`);
+  return { added: defaultClassificationRules.length, skipped: 0 };
+}
+
 async function seed() {
+  console.log("Seeding states...");
+  await seedCourtStates();
   console.log("Seeding districts...");
   const result = await seedDistricts();
   console.log(`Seeding complete! Added: ${result.added}, Skipped: ${result.skipped}`);
+  console.log("Seeding establishments...");
+  const estResult = await seedEstablishments();
+  console.log(`Seeding complete! Added: ${estResult.added}, Skipped: ${estResult.skipped}`);
+  console.log("Seeding classification rules...");
+  await seedClassificationRules();
   process.exit(0);
 }
 
@@ -1,17 +1,32 @@
 import { db } from "./db";
-import { eq, desc, and, sql, count, isNull, inArray } from "drizzle-orm";
+import { eq, desc, and, or, lt, arrayContains, sql, count, isNull, isNotNull, inArray } from "drizzle-orm";
 import {
+  courtStates,
   districts,
+  establishments,
   cnrs,
   cnrOrders,
   pdfTexts,
   orderMetadata,
+  orderMetadataHistory,
   businessEntities,
   entityContacts,
   caseEntityLinks,
   processingJobs,
   personLeads,
+  serialFrontiers,
+  courtHolidays,
+  pdfFetchAttempts,
+  pdfQuarantine,
+  pdfTextPages,
+  pdfTextSections,
+  classificationRules,
+  classificationCorrections,
+  classificationGoldOrders,
+  classificationEvalRuns,
+  type CourtState,
   type District,
+  type Establishment,
   type Cnr,
   type CnrOrder,
   type PdfText,
@@ -22,7 +37,9 @@ import {
   type ProcessingJob,
   type PersonLead,
   type InsertDistrict,
+  type InsertEstablishment,
   type InsertCnr,
+  type CnrValidationDetails,
   type InsertCnrOrder,
   type InsertPdfText,
   type InsertOrderMetadata,
@@ -31,12 +48,121 @@ import {
   type InsertCaseEntityLink,
   type InsertProcessingJob,
   type InsertPersonLead,
+  type SerialFrontier,
+  type InsertSerialFrontier,
+  type CourtHoliday,
+  type InsertCourtHoliday,
+  type PdfFetchAttempt,
+  type InsertPdfFetchAttempt,
+  type PdfQuarantineEntry,
+  type InsertPdfQuarantine,
+  type PdfTextPage,
+  type InsertPdfTextPage,
+  type PdfTextSection,
+  type InsertPdfTextSection,
+  type ClassificationRule,
+  type InsertClassificationRule,
+  type ClassificationCorrection,
+  type InsertClassificationCorrection,
+  type ClassificationGoldOrder,
+  type InsertClassificationGoldOrder,
+  type ClassificationEvalRun,
+  type InsertClassificationEvalRun,
 } from "@shared/schema";
+import { scheduleNextProbe } from "./reprobe-policy";
+
+export interface DuplicatePdfGroup {
+  contentHash: string;
+  orderCount: number;
+  pdfSizeBytes: number;
+  orders: { orderId: number; cnr: string; orderNo: number; orderDate: string }[];
+}
+
+export interface PdfQuarantineCount {
+  status: string;
+  reasonCode: string;
+  count: number;
+}
+
+export interface PdfFetcherStats {
+  fetcher: string;
+  attempts: number;
+  successes: number;
+  avgDurationMs: number;
+}
+
+export interface FetchCostRow {
+  day: string;
+  districtId: number | null;
+  districtName: string | null;
+  fetcher: string;
+  attempts: number;
+  successes: number;
+  credits: number;
+}
+
+export interface PromptVersionCount {
+  promptVersion: string;
+  // Orders whose current classification has this version
+  current: number;
+  // Archived classifications with this version
+  archived: number;
+}
+
+// One order's classification under a prompt version, current or archived
+export interface VersionedClassification {
+  cnrOrderId: number;
+  classification: Record<string, unknown>;
+}
+
+// An order waiting in, or taken from, the review queue
+export interface ReviewItem {
+  order: CnrOrder;
+  cnr: string;
+  metadata: OrderMetadata;
+}
+
+export interface ReviewStatusCount {
+  reviewStatus: string;
+  count: number;
+}
+
+export interface GoldOrderCount {
+  source: string;
+  count: number;
+}
+
+export interface FetcherHistory {
+  fetcher: string;
+  attempts: number;
+  avgCredits: number;
+  // Share of attempts that failed without the court reporting the order missing, so the chain moved on
+  fallThroughRate: number;
+}
+
+export interface HistoricalAverages {
+  probedOrders: number;
+  pdfsFound: number;
+  avgPdfSizeBytes: number;
+  extractedPdfs: number;
+  avgPageCount: number;
+  avgWordCount: number;
+  // Texts extracted page by page, and the share of their pages that needed OCR
+  hybridExtractedPdfs: number;
+  ocrPageShare: number;
+  fetchers: FetcherHistory[];
+}
 
 export interface IStorage {
+  getCourtStates(): Promise<CourtState[]>;
   getDistricts(): Promise<District[]>;
   getDistrictById(id: number): Promise<District | undefined>;
   createDistrict(data: InsertDistrict): Promise<District>;
+
+  getEstablishments(districtId?: number, caseType?: string): Promise<(Establishment & { districtName: string })[]>;
+  getEstablishmentById(id: number): Promise<Establishment | undefined>;
+  getEstablishmentByCode(districtId: number, code: string): Promise<Establishment | undefined>;
+  createEstablishment(data: InsertEstablishment): Promise<Establishment>;
   
   getCnrs(limit?: number): Promise<(Cnr & { district?: District; ordersCount?: number })[]>;
   getCnrById(id: number): Promise<Cnr | undefined>;
@@ -45,16 +171,39 @@ export interface IStorage {
   getCnrsByIdsWithDistricts(ids: number[]): Promise<(Cnr & { district?: District })[]>;
   createCnr(data: InsertCnr): Promise<Cnr>;
   createCnrsBatch(data: InsertCnr[]): Promise<Cnr[]>;
+  getCnrsPendingValidation(limit?: number): Promise<(Cnr & { district?: District })[]>;
+  updateCnrValidation(id: number, isValid: boolean, details?: CnrValidationDetails): Promise<void>;
   
   getOrders(limit?: number): Promise<(CnrOrder & { cnr?: Cnr & { district?: District }; metadata?: OrderMetadata | null })[]>;
   getOrderById(id: number): Promise<CnrOrder | undefined>;
   createOrder(data: InsertCnrOrder): Promise<CnrOrder>;
   createOrdersBatch(data: InsertCnrOrder[]): Promise<CnrOrder[]>;
   updateOrderPdfStatus(id: number, pdfExists: boolean, httpStatusCode?: number): Promise<void>;
+  deferOrderProbe(id: number, until: Date): Promise<void>;
   
   createPdfText(data: InsertPdfText): Promise<PdfText>;
   
   createOrderMetadata(data: InsertOrderMetadata): Promise<OrderMetadata>;
+  replaceOrderMetadata(data: InsertOrderMetadata): Promise<OrderMetadata>;
+  getOrdersWithTextByPromptVersion(promptVersion: string, limit?: number): Promise<CnrOrder[]>;
+  getPromptVersionCounts(): Promise<PromptVersionCount[]>;
+  getClassificationsByVersion(promptVersion: string, options?: { orderIds?: number[]; limit?: number }): Promise<VersionedClassification[]>;
+  getOrderMetadataByOrderId(orderId: number): Promise<OrderMetadata | undefined>;
+
+  getReviewQueue(confidenceThreshold: number, limit?: number): Promise<ReviewItem[]>;
+  getReviewStatusCounts(): Promise<ReviewStatusCount[]>;
+  getReviewedOrders(limit?: number): Promise<ReviewItem[]>;
+  saveClassificationReview(metadataId: number, updates: Partial<InsertOrderMetadata>, correction: InsertClassificationCorrection): Promise<{ metadata: OrderMetadata; correction: ClassificationCorrection }>;
+  unlockOrderMetadata(metadataId: number): Promise<OrderMetadata | undefined>;
+  getClassificationCorrectionsByOrderId(orderId: number): Promise<ClassificationCorrection[]>;
+
+  upsertGoldOrders(records: InsertClassificationGoldOrder[]): Promise<number>;
+  getGoldOrders(limit?: number): Promise<ClassificationGoldOrder[]>;
+  getGoldOrderCounts(): Promise<GoldOrderCount[]>;
+  createEvaluationRun(data: InsertClassificationEvalRun): Promise<ClassificationEvalRun>;
+  updateEvaluationRun(id: number, data: Partial<InsertClassificationEvalRun>): Promise<void>;
+  getEvaluationRuns(limit?: number): Promise<ClassificationEvalRun[]>;
+  getEvaluationRunById(id: number): Promise<ClassificationEvalRun | undefined>;
   
   getBusinessEntities(limit?: number): Promise<(BusinessEntity & { contacts?: EntityContact[]; casesCount?: number })[]>;
   getBusinessEntityById(id: number): Promise<BusinessEntity | undefined>;
@@ -63,7 +212,7 @@ export interface IStorage {
   
   createEntityContact(data: InsertEntityContact): Promise<EntityContact>;
   
-  createCaseEntityLink(data: InsertCaseEntityLink): Promise<CaseEntityLink>;
+  createCaseEntityLink(data: InsertCaseEntityLink): Promise<CaseEntityLink | undefined>;
   
   getProcessingJobs(): Promise<ProcessingJob[]>;
   getProcessingJobById(id: number): Promise<ProcessingJob | undefined>;
@@ -71,10 +220,34 @@ export interface IStorage {
   updateProcessingJobProgress(id: number, processed: number, successful: number, failed: number): Promise<void>;
   updateProcessingJobStatus(id: number, status: string, error?: string): Promise<void>;
   updateProcessingJobStarted(id: number): Promise<void>;
+  addProcessingJobFetchCost(id: number, attempts: number, credits: number): Promise<void>;
   
   getPendingOrders(limit?: number): Promise<CnrOrder[]>;
+  getProbeStatusCounts(): Promise<{ pending: number; retrying: number; dueNow: number; found: number; abandoned: number }>;
   getOrdersByIds(ids: number[]): Promise<CnrOrder[]>;
-  updateOrderPdfPath(id: number, pdfPath: string, pdfSizeBytes: number): Promise<void>;
+  getExistingOrderKeys(cnrIds: number[], startDate: string, endDate: string): Promise<{ cnrId: number; orderNo: number; orderDate: string }[]>;
+  getHistoricalAverages(): Promise<HistoricalAverages>;
+  getPendingOrdersByCnrIds(cnrIds: number[]): Promise<CnrOrder[]>;
+  updateOrderPdfPath(id: number, pdfPath: string, pdfSizeBytes: number, contentHash?: string): Promise<void>;
+  createPdfFetchAttempts(data: InsertPdfFetchAttempt[]): Promise<void>;
+  getPdfFetchAttemptsForOrder(orderId: number): Promise<PdfFetchAttempt[]>;
+  getPdfFetcherStats(): Promise<PdfFetcherStats[]>;
+  getFetchCostBreakdown(since: Date): Promise<FetchCostRow[]>;
+  createPdfQuarantineEntries(data: InsertPdfQuarantine[]): Promise<void>;
+  getPdfQuarantineEntries(status?: string, limit?: number): Promise<PdfQuarantineEntry[]>;
+  getPdfQuarantineEntryById(id: number): Promise<PdfQuarantineEntry | undefined>;
+  updatePdfQuarantineEntry(id: number, data: Partial<Pick<PdfQuarantineEntry, "status" | "reasonCode" | "reason" | "revalidatedAt" | "resolvedAt">>): Promise<PdfQuarantineEntry | undefined>;
+  countPdfQuarantineEntriesByHash(contentHash: string, excludeStatus: string): Promise<number>;
+  getPdfQuarantineCounts(): Promise<PdfQuarantineCount[]>;
+  replacePdfTextPages(workflow: "bulk" | "direct", orderId: number, pages: InsertPdfTextPage[]): Promise<void>;
+  getPdfTextPages(workflow: "bulk" | "direct", orderId: number): Promise<PdfTextPage[]>;
+  replacePdfTextSections(workflow: "bulk" | "direct", orderId: number, sections: InsertPdfTextSection[]): Promise<void>;
+  getPdfTextSections(workflow: "bulk" | "direct", orderId: number): Promise<PdfTextSection[]>;
+  getClassificationRules(activeOnly?: boolean): Promise<ClassificationRule[]>;
+  getClassificationRuleById(id: number): Promise<ClassificationRule | undefined>;
+  createClassificationRule(data: InsertClassificationRule): Promise<ClassificationRule>;
+  updateClassificationRule(id: number, data: InsertClassificationRule): Promise<ClassificationRule | undefined>;
+  deleteClassificationRule(id: number): Promise<boolean>;
   getDownloadedPdfs(limit?: number): Promise<(CnrOrder & { cnr?: Cnr })[]>;
   
   getAnalyticsOverview(): Promise<{
@@ -94,6 +267,15 @@ export interface IStorage {
     pdfs: number;
     leads: number;
   }[]>;
+  getAnalyticsByEstablishment(districtId?: number): Promise<{
+    establishmentId: number;
+    establishmentName: string;
+    districtName: string;
+    code: string;
+    cnrsCount: number;
+    ordersCount: number;
+    pdfsCount: number;
+  }[]>;
   getOrderTypeDistribution(): Promise<{
     orderType: string;
     count: number;
@@ -102,6 +284,9 @@ export interface IStorage {
   getOrdersWithPdfNoText(limit?: number): Promise<CnrOrder[]>;
   getOrdersWithTextNoMetadata(limit?: number): Promise<CnrOrder[]>;
   getPdfTextByOrderId(orderId: number): Promise<PdfText | undefined>;
+  getPdfTextByContentHash(contentHash: string, excludeOrderId: number): Promise<PdfText | undefined>;
+  getOrderMetadataByContentHash(contentHash: string, excludeOrderId: number): Promise<OrderMetadata | undefined>;
+  getDuplicatePdfGroups(limit?: number): Promise<DuplicatePdfGroup[]>;
   getEntitiesPendingEnrichment(limit?: number): Promise<BusinessEntity[]>;
   getBusinessEntityByNormalizedName(nameNormalized: string): Promise<BusinessEntity | undefined>;
   getProcessingStats(): Promise<{
@@ -131,11 +316,24 @@ export interface IStorage {
   getPersonLeads(limit?: number): Promise<(PersonLead & { cnrOrder?: CnrOrder & { cnr?: Cnr } })[]>;
   createPersonLead(data: InsertPersonLead): Promise<PersonLead>;
   getPersonLeadsByOrderId(orderId: number): Promise<PersonLead[]>;
+
+  createSerialFrontier(data: InsertSerialFrontier): Promise<SerialFrontier>;
+  getLatestSerialFrontier(districtId: number, year: number): Promise<SerialFrontier | undefined>;
+  getSerialFrontierHistory(year?: number, districtId?: number): Promise<(SerialFrontier & { districtName: string; casesPerDay: number | null })[]>;
+
+  getCourtHolidays(year?: number, districtId?: number): Promise<(CourtHoliday & { districtName: string | null })[]>;
+  getCourtHolidaysInRange(startDate: string, endDate: string): Promise<CourtHoliday[]>;
+  importCourtHolidays(data: InsertCourtHoliday[], replaceYear?: number): Promise<{ created: CourtHoliday[]; replaced: number }>;
+  deleteCourtHoliday(id: number): Promise<boolean>;
 }
 
 export class DatabaseStorage implements IStorage {
+  async getCourtStates(): Promise<CourtState[]> {
+    return db.select().from(courtStates).orderBy(courtStates.name);
+  }
+
   async getDistricts(): Promise<District[]> {
-    return db.select().from(districts).orderBy(districts.name);
+    return db.select().from(districts).orderBy(districts.stateCode, districts.name);
   }
 
   async getDistrictById(id: number): Promise<District | undefined> {
@@ -148,6 +346,46 @@ export class DatabaseStorage implements IStorage {
     return district;
   }
 
+  async getEstablishments(districtId?: number, caseType?: string): Promise<(Establishment & { districtName: string })[]> {
+    const conditions = [];
+    if (districtId) conditions.push(eq(establishments.districtId, districtId));
+    // Case types are stored lowercase
+    if (caseType) conditions.push(arrayContains(establishments.caseTypes, [caseType.toLowerCase()]));
+
+    const results = await db
+      .select({
+        establishment: establishments,
+        districtName: districts.name,
+      })
+      .from(establishments)
+      .innerJoin(districts, eq(establishments.districtId, districts.id))
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(districts.name, establishments.code);
+
+    return results.map((r) => ({
+      ...r.establishment,
+      districtName: r.districtName,
+    }));
+  }
+
+  async getEstablishmentById(id: number): Promise<Establishment | undefined> {
+    const [establishment] = await db.select().from(establishments).where(eq(establishments.id, id));
+    return establishment;
+  }
+
+  async getEstablishmentByCode(districtId: number, code: string): Promise<Establishment | undefined> {
+    const [establishment] = await db
+      .select()
+      .from(establishments)
+      .where(and(eq(establishments.districtId, districtId), eq(establishments.code, code)));
+    return establishment;
+  }
+
+  async createEstablishment(data: InsertEstablishment): Promise<Establishment> {
+    const [establishment] = await db.insert(establishments).values(data).returning();
+    return establishment;
+  }
+
   async getCnrs(limit = 100): Promise<(Cnr & { district?: District; ordersCount?: number })[]> {
     const results = await db
       .select({
@@ -216,6 +454,35 @@ export class DatabaseStorage implements IStorage {
     return results;
   }
 
+  async getCnrsPendingValidation(limit = 100): Promise<(Cnr & { district?: District })[]> {
+    const results = await db
+      .select({
+        cnr: cnrs,
+        district: districts,
+      })
+      .from(cnrs)
+      .leftJoin(districts, eq(cnrs.districtId, districts.id))
+      .where(isNull(cnrs.isValid))
+      .orderBy(cnrs.createdAt)
+      .limit(limit);
+
+    return results.map((r) => ({
+      ...r.cnr,
+      district: r.district || undefined,
+    }));
+  }
+
+  async updateCnrValidation(id: number, isValid: boolean, details: CnrValidationDetails = {}): Promise<void> {
+    await db
+      .update(cnrs)
+      .set({
+        ...details,
+        isValid,
+        lastCheckedAt: new Date(),
+      })
+      .where(eq(cnrs.id, id));
+  }
+
   async getOrders(limit = 100): Promise<(CnrOrder & { cnr?: Cnr & { district?: District }; metadata?: OrderMetadata | null })[]> {
     const results = await db
       .select({
@@ -254,7 +521,8 @@ export class DatabaseStorage implements IStorage {
     const results: CnrOrder[] = [];
     for (let i = 0; i < data.length; i += CHUNK_SIZE) {
       const chunk = data.slice(i, i + CHUNK_SIZE);
-      const inserted = await db.insert(cnrOrders).values(chunk).returning();
+      // Grid and case-history generation can overlap; the (cnr, orderNo, date) unique index dedupes
+      const inserted = await db.insert(cnrOrders).values(chunk).onConflictDoNothing().returning();
       results.push(...inserted);
     }
     return results;
@@ -267,22 +535,43 @@ export class DatabaseStorage implements IStorage {
         .set({
           pdfExists,
           httpStatusCode,
+          probeStatus: "found",
+          nextProbeAt: null,
           lastCheckedAt: new Date(),
         })
         .where(eq(cnrOrders.id, id));
     } else {
+      const [order] = await db
+        .select({ orderDate: cnrOrders.orderDate, retryCount: cnrOrders.retryCount })
+        .from(cnrOrders)
+        .where(eq(cnrOrders.id, id));
+      if (!order) return;
+
+      const attempts = order.retryCount + 1;
+      const { probeStatus, nextProbeAt } = scheduleNextProbe(order, attempts, httpStatusCode);
+
       await db
         .update(cnrOrders)
         .set({
           pdfExists,
           httpStatusCode,
-          retryCount: sql`${cnrOrders.retryCount} + 1`,
+          retryCount: attempts,
+          probeStatus,
+          nextProbeAt,
           lastCheckedAt: new Date(),
         })
         .where(eq(cnrOrders.id, id));
     }
   }
 
+  // Host was paused by the circuit breaker: push the next probe back without counting a retry
+  async deferOrderProbe(id: number, until: Date): Promise<void> {
+    await db
+      .update(cnrOrders)
+      .set({ nextProbeAt: until })
+      .where(eq(cnrOrders.id, id));
+  }
+
   async createPdfText(data: InsertPdfText): Promise<PdfText> {
     const [pdfText] = await db.insert(pdfTexts).values(data).returning();
     return pdfText;
@@ -293,6 +582,239 @@ export class DatabaseStorage implements IStorage {
     return metadata;
   }
 
+  // Re-classification keeps the previous row in order_metadata_history before overwriting it.
+  // The new classification has not been reviewed, so any earlier review no longer applies.
+  async replaceOrderMetadata(data: InsertOrderMetadata): Promise<OrderMetadata> {
+    return db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(orderMetadata).where(eq(orderMetadata.cnrOrderId, data.cnrOrderId));
+      if (!existing) {
+        const [metadata] = await tx.insert(orderMetadata).values(data).returning();
+        return metadata;
+      }
+
+      await tx.insert(orderMetadataHistory).values({
+        cnrOrderId: existing.cnrOrderId,
+        promptVersion: existing.promptVersion,
+        llmModelUsed: existing.llmModelUsed,
+        snapshot: JSON.stringify(existing),
+        classifiedAt: existing.classifiedAt,
+      });
+      const [metadata] = await tx
+        .update(orderMetadata)
+        .set({ reviewStatus: "unreviewed", reviewedBy: null, reviewedAt: null, isLocked: false, ...data, classifiedAt: new Date() })
+        .where(eq(orderMetadata.id, existing.id))
+        .returning();
+      return metadata;
+    });
+  }
+
+  async getOrdersWithTextByPromptVersion(promptVersion: string, limit = 100): Promise<CnrOrder[]> {
+    return db
+      .select({ order: cnrOrders })
+      .from(cnrOrders)
+      .innerJoin(pdfTexts, eq(cnrOrders.id, pdfTexts.cnrOrderId))
+      .innerJoin(orderMetadata, eq(cnrOrders.id, orderMetadata.cnrOrderId))
+      .where(and(eq(orderMetadata.promptVersion, promptVersion), eq(orderMetadata.isLocked, false)))
+      .orderBy(orderMetadata.classifiedAt)
+      .limit(limit)
+      .then(rows => rows.map(r => r.order));
+  }
+
+  async getPromptVersionCounts(): Promise<PromptVersionCount[]> {
+    const current = await db
+      .select({ promptVersion: orderMetadata.promptVersion, count: count() })
+      .from(orderMetadata)
+      .groupBy(orderMetadata.promptVersion);
+    const archived = await db
+      .select({ promptVersion: orderMetadataHistory.promptVersion, count: count() })
+      .from(orderMetadataHistory)
+      .groupBy(orderMetadataHistory.promptVersion);
+
+    const versions = new Set([...current, ...archived].map(r => r.promptVersion));
+    return Array.from(versions).sort().map(promptVersion => ({
+      promptVersion,
+      current: Number(current.find(r => r.promptVersion === promptVersion)?.count) || 0,
+      archived: Number(archived.find(r => r.promptVersion === promptVersion)?.count) || 0,
+    }));
+  }
+
+  // Current rows first; an order re-classified several times under one version keeps its latest archive
+  async getClassificationsByVersion(
+    promptVersion: string,
+    options: { orderIds?: number[]; limit?: number } = {}
+  ): Promise<VersionedClassification[]> {
+    const { orderIds, limit = 1000 } = options;
+    if (orderIds && orderIds.length === 0) return [];
+
+    const currentRows = await db
+      .select()
+      .from(orderMetadata)
+      .where(and(
+        eq(orderMetadata.promptVersion, promptVersion),
+        orderIds ? inArray(orderMetadata.cnrOrderId, orderIds) : undefined
+      ))
+      .orderBy(orderMetadata.cnrOrderId)
+      .limit(limit);
+    const archivedRows = await db
+      .select()
+      .from(orderMetadataHistory)
+      .where(and(
+        eq(orderMetadataHistory.promptVersion, promptVersion),
+        orderIds ? inArray(orderMetadataHistory.cnrOrderId, orderIds) : undefined
+      ))
+      .orderBy(orderMetadataHistory.cnrOrderId, desc(orderMetadataHistory.archivedAt))
+      .limit(limit);
+
+    const byOrder = new Map<number, Record<string, unknown>>();
+    for (const row of currentRows) {
+      byOrder.set(row.cnrOrderId, row);
+    }
+    for (const row of archivedRows) {
+      if (!byOrder.has(row.cnrOrderId)) {
+        byOrder.set(row.cnrOrderId, JSON.parse(row.snapshot));
+      }
+    }
+
+    return Array.from(byOrder.entries())
+      .sort((a, b) => a[0] - b[0])
+      .slice(0, limit)
+      .map(([cnrOrderId, classification]) => ({ cnrOrderId, classification }));
+  }
+
+  async getOrderMetadataByOrderId(orderId: number): Promise<OrderMetadata | undefined> {
+    const [metadata] = await db.select().from(orderMetadata).where(eq(orderMetadata.cnrOrderId, orderId));
+    return metadata;
+  }
+
+  // Unreviewed classifications below the confidence threshold, without one, or where rules and LLM disagreed; least confident first
+  async getReviewQueue(confidenceThreshold: number, limit = 100): Promise<ReviewItem[]> {
+    return db
+      .select({ order: cnrOrders, cnr: cnrs.cnr, metadata: orderMetadata })
+      .from(orderMetadata)
+      .innerJoin(cnrOrders, eq(orderMetadata.cnrOrderId, cnrOrders.id))
+      .innerJoin(cnrs, eq(cnrOrders.cnrId, cnrs.id))
+      .where(and(
+        eq(orderMetadata.reviewStatus, "unreviewed"),
+        or(
+          isNull(orderMetadata.classificationConfidence),
+          lt(orderMetadata.classificationConfidence, confidenceThreshold),
+          isNotNull(orderMetadata.ruleConflicts)
+        )
+      ))
+      .orderBy(sql`${orderMetadata.classificationConfidence} ASC NULLS FIRST`, orderMetadata.id)
+      .limit(limit);
+  }
+
+  async getReviewStatusCounts(): Promise<ReviewStatusCount[]> {
+    const results = await db
+      .select({ reviewStatus: orderMetadata.reviewStatus, count: count() })
+      .from(orderMetadata)
+      .groupBy(orderMetadata.reviewStatus);
+    return results.map(r => ({ reviewStatus: r.reviewStatus, count: Number(r.count) }));
+  }
+
+  async getReviewedOrders(limit = 1000): Promise<ReviewItem[]> {
+    return db
+      .select({ order: cnrOrders, cnr: cnrs.cnr, metadata: orderMetadata })
+      .from(orderMetadata)
+      .innerJoin(cnrOrders, eq(orderMetadata.cnrOrderId, cnrOrders.id))
+      .innerJoin(cnrs, eq(cnrOrders.cnrId, cnrs.id))
+      .where(inArray(orderMetadata.reviewStatus, ["approved", "corrected"]))
+      .orderBy(orderMetadata.reviewedAt)
+      .limit(limit);
+  }
+
+  // Applies the reviewer's changes, records the review and locks the row against re-classification
+  async saveClassificationReview(
+    metadataId: number,
+    updates: Partial<InsertOrderMetadata>,
+    correction: InsertClassificationCorrection
+  ): Promise<{ metadata: OrderMetadata; correction: ClassificationCorrection }> {
+    return db.transaction(async (tx) => {
+      const [metadata] = await tx
+        .update(orderMetadata)
+        .set({
+          ...updates,
+          reviewStatus: correction.reviewStatus,
+          reviewedBy: correction.reviewer,
+          reviewedAt: new Date(),
+          isLocked: true,
+        })
+        .where(eq(orderMetadata.id, metadataId))
+        .returning();
+      const [saved] = await tx.insert(classificationCorrections).values(correction).returning();
+      return { metadata, correction: saved };
+    });
+  }
+
+  // The review stays recorded; the row only becomes eligible for re-classification again
+  async unlockOrderMetadata(metadataId: number): Promise<OrderMetadata | undefined> {
+    const [metadata] = await db
+      .update(orderMetadata)
+      .set({ isLocked: false })
+      .where(eq(orderMetadata.id, metadataId))
+      .returning();
+    return metadata;
+  }
+
+  async getClassificationCorrectionsByOrderId(orderId: number): Promise<ClassificationCorrection[]> {
+    return db
+      .select()
+      .from(classificationCorrections)
+      .where(eq(classificationCorrections.cnrOrderId, orderId))
+      .orderBy(desc(classificationCorrections.createdAt));
+  }
+
+  // Orders already in the gold set get the new text and labels; imported orders without one are always added
+  async upsertGoldOrders(records: InsertClassificationGoldOrder[]): Promise<number> {
+    if (records.length === 0) return 0;
+    const saved = await db
+      .insert(classificationGoldOrders)
+      .values(records)
+      .onConflictDoUpdate({
+        target: classificationGoldOrders.cnrOrderId,
+        set: {
+          label: sql`excluded.label`,
+          text: sql`excluded.text`,
+          expected: sql`excluded.expected`,
+          source: sql`excluded.source`,
+          updatedAt: new Date(),
+        },
+      })
+      .returning({ id: classificationGoldOrders.id });
+    return saved.length;
+  }
+
+  async getGoldOrders(limit = 500): Promise<ClassificationGoldOrder[]> {
+    return db.select().from(classificationGoldOrders).orderBy(classificationGoldOrders.id).limit(limit);
+  }
+
+  async getGoldOrderCounts(): Promise<GoldOrderCount[]> {
+    const results = await db
+      .select({ source: classificationGoldOrders.source, count: count() })
+      .from(classificationGoldOrders)
+      .groupBy(classificationGoldOrders.source);
+    return results.map(r => ({ source: r.source, count: Number(r.count) }));
+  }
+
+  async createEvaluationRun(data: InsertClassificationEvalRun): Promise<ClassificationEvalRun> {
+    const [run] = await db.insert(classificationEvalRuns).values(data).returning();
+    return run;
+  }
+
+  async updateEvaluationRun(id: number, data: Partial<InsertClassificationEvalRun>): Promise<void> {
+    await db.update(classificationEvalRuns).set(data).where(eq(classificationEvalRuns.id, id));
+  }
+
+  async getEvaluationRuns(limit = 50): Promise<ClassificationEvalRun[]> {
+    return db.select().from(classificationEvalRuns).orderBy(desc(classificationEvalRuns.createdAt)).limit(limit);
+  }
+
+  async getEvaluationRunById(id: number): Promise<ClassificationEvalRun | undefined> {
+    const [run] = await db.select().from(classificationEvalRuns).where(eq(classificationEvalRuns.id, id));
+    return run;
+  }
+
   async getBusinessEntities(limit = 100): Promise<(BusinessEntity & { contacts?: EntityContact[]; casesCount?: number })[]> {
     const results = await db
       .select({
@@ -337,8 +859,9 @@ export class DatabaseStorage implements IStorage {
     return contact;
   }
 
-  async createCaseEntityLink(data: InsertCaseEntityLink): Promise<CaseEntityLink> {
-    const [link] = await db.insert(caseEntityLinks).values(data).returning();
+  // Undefined when the order is already linked to the entity, e.g. on re-classification
+  async createCaseEntityLink(data: InsertCaseEntityLink): Promise<CaseEntityLink | undefined> {
+    const [link] = await db.insert(caseEntityLinks).values(data).onConflictDoNothing().returning();
     return link;
   }
 
@@ -374,6 +897,16 @@ export class DatabaseStorage implements IStorage {
       .where(eq(processingJobs.id, id));
   }
 
+  async addProcessingJobFetchCost(id: number, attempts: number, credits: number): Promise<void> {
+    await db
+      .update(processingJobs)
+      .set({
+        fetchAttempts: sql`${processingJobs.fetchAttempts} + ${attempts}`,
+        creditsUsed: sql`${processingJobs.creditsUsed} + ${credits}`,
+      })
+      .where(eq(processingJobs.id, id));
+  }
+
   async getAnalyticsOverview(): Promise<{
     totalCnrs: number;
     totalOrders: number;
@@ -393,21 +926,304 @@ export class DatabaseStorage implements IStorage {
     };
   }
 
+  // Never-tried orders first, then retries whose backoff has elapsed, oldest due first
   async getPendingOrders(limit = 100): Promise<CnrOrder[]> {
-    const maxRetries = 3;
     return db
       .select()
       .from(cnrOrders)
       .where(
         and(
           eq(cnrOrders.pdfExists, false),
-          sql`${cnrOrders.retryCount} < ${maxRetries}`
+          sql`${cnrOrders.probeStatus} <> 'abandoned'`,
+          sql`(${cnrOrders.nextProbeAt} IS NULL OR ${cnrOrders.nextProbeAt} <= NOW())`
         )
       )
-      .orderBy(sql`${cnrOrders.retryCount} ASC, ${cnrOrders.lastCheckedAt} NULLS FIRST`)
+      .orderBy(sql`${cnrOrders.nextProbeAt} NULLS FIRST, ${cnrOrders.retryCount} ASC`)
+      .limit(limit);
+  }
+
+  async getProbeStatusCounts(): Promise<{
+    pending: number;
+    retrying: number;
+    dueNow: number;
+    found: number;
+    abandoned: number;
+  }> {
+    const rows = await db
+      .select({
+        probeStatus: cnrOrders.probeStatus,
+        count: count(),
+        dueNow: sql<number>`COUNT(*) FILTER (WHERE ${cnrOrders.pdfExists} = false AND (${cnrOrders.nextProbeAt} IS NULL OR ${cnrOrders.nextProbeAt} <= NOW()))`,
+      })
+      .from(cnrOrders)
+      .groupBy(cnrOrders.probeStatus);
+
+    const byStatus = new Map(rows.map((r) => [r.probeStatus, r]));
+    return {
+      pending: Number(byStatus.get("pending")?.count) || 0,
+      retrying: Number(byStatus.get("retrying")?.count) || 0,
+      dueNow: (Number(byStatus.get("pending")?.dueNow) || 0) + (Number(byStatus.get("retrying")?.dueNow) || 0),
+      found: Number(byStatus.get("found")?.count) || 0,
+      abandoned: Number(byStatus.get("abandoned")?.count) || 0,
+    };
+  }
+
+  async getExistingOrderKeys(cnrIds: number[], startDate: string, endDate: string): Promise<{ cnrId: number; orderNo: number; orderDate: string }[]> {
+    if (cnrIds.length === 0) return [];
+    return db
+      .select({ cnrId: cnrOrders.cnrId, orderNo: cnrOrders.orderNo, orderDate: cnrOrders.orderDate })
+      .from(cnrOrders)
+      .where(
+        and(
+          inArray(cnrOrders.cnrId, cnrIds),
+          sql`${cnrOrders.orderDate} BETWEEN ${startDate} AND ${endDate}`
+        )
+      );
+  }
+
+  async getHistoricalAverages(): Promise<HistoricalAverages> {
+    const [orderStats] = await db
+      .select({
+        probedOrders: sql<number>`COUNT(*) FILTER (WHERE ${cnrOrders.lastCheckedAt} IS NOT NULL)`,
+        pdfsFound: sql<number>`COUNT(*) FILTER (WHERE ${cnrOrders.pdfExists} = true)`,
+        avgPdfSizeBytes: sql<number>`AVG(${cnrOrders.pdfSizeBytes}) FILTER (WHERE ${cnrOrders.pdfExists} = true)`,
+      })
+      .from(cnrOrders);
+
+    const [textStats] = await db
+      .select({
+        extractedPdfs: count(),
+        avgPageCount: sql<number>`AVG(${pdfTexts.pageCount})`,
+        avgWordCount: sql<number>`AVG(${pdfTexts.wordCount})`,
+      })
+      .from(pdfTexts);
+
+    const [ocrStats] = await db
+      .select({
+        hybridExtractedPdfs: count(),
+        ocrPageShare: sql<number>`SUM(json_array_length(COALESCE(${pdfTexts.ocrPages}, '[]')::json))::float / NULLIF(SUM(${pdfTexts.pageCount}), 0)`,
+      })
+      .from(pdfTexts)
+      .where(isNotNull(pdfTexts.extractionMethod));
+
+    const fetcherStats = await db
+      .select({
+        fetcher: pdfFetchAttempts.fetcher,
+        attempts: count(),
+        avgCredits: sql<number>`AVG(${pdfFetchAttempts.credits})`,
+        fallThroughs: sql<number>`COUNT(*) FILTER (WHERE ${pdfFetchAttempts.success} = false AND ${pdfFetchAttempts.httpStatusCode} IS DISTINCT FROM 404)`,
+      })
+      .from(pdfFetchAttempts)
+      .where(eq(pdfFetchAttempts.workflow, "bulk"))
+      .groupBy(pdfFetchAttempts.fetcher);
+
+    return {
+      probedOrders: Number(orderStats?.probedOrders) || 0,
+      pdfsFound: Number(orderStats?.pdfsFound) || 0,
+      avgPdfSizeBytes: Number(orderStats?.avgPdfSizeBytes) || 0,
+      extractedPdfs: Number(textStats?.extractedPdfs) || 0,
+      avgPageCount: Number(textStats?.avgPageCount) || 0,
+      avgWordCount: Number(textStats?.avgWordCount) || 0,
+      hybridExtractedPdfs: Number(ocrStats?.hybridExtractedPdfs) || 0,
+      ocrPageShare: Number(ocrStats?.ocrPageShare) || 0,
+      fetchers: fetcherStats.map(f => ({
+        fetcher: f.fetcher,
+        attempts: Number(f.attempts),
+        avgCredits: Number(f.avgCredits) || 0,
+        fallThroughRate: Number(f.attempts) > 0 ? Number(f.fallThroughs) / Number(f.attempts) : 0,
+      })),
+    };
+  }
+
+  async createPdfFetchAttempts(data: InsertPdfFetchAttempt[]): Promise<void> {
+    if (data.length === 0) return;
+    await db.insert(pdfFetchAttempts).values(data);
+  }
+
+  async getPdfFetchAttemptsForOrder(orderId: number): Promise<PdfFetchAttempt[]> {
+    return db
+      .select()
+      .from(pdfFetchAttempts)
+      .where(and(eq(pdfFetchAttempts.workflow, "bulk"), eq(pdfFetchAttempts.orderId, orderId)))
+      .orderBy(desc(pdfFetchAttempts.attemptedAt), desc(pdfFetchAttempts.id));
+  }
+
+  // Covers both workflows, so the chain order can be tuned on real hit rates
+  async getPdfFetcherStats(): Promise<PdfFetcherStats[]> {
+    const results = await db
+      .select({
+        fetcher: pdfFetchAttempts.fetcher,
+        attempts: count(),
+        successes: sql<number>`COUNT(*) FILTER (WHERE ${pdfFetchAttempts.success} = true)`,
+        avgDurationMs: sql<number>`AVG(${pdfFetchAttempts.durationMs})`,
+      })
+      .from(pdfFetchAttempts)
+      .groupBy(pdfFetchAttempts.fetcher);
+
+    return results.map(r => ({
+      fetcher: r.fetcher,
+      attempts: Number(r.attempts) || 0,
+      successes: Number(r.successes) || 0,
+      avgDurationMs: Math.round(Number(r.avgDurationMs) || 0),
+    }));
+  }
+
+  async getFetchCostBreakdown(since: Date): Promise<FetchCostRow[]> {
+    const day = sql<string>`to_char(${pdfFetchAttempts.attemptedAt}, 'YYYY-MM-DD')`;
+    const results = await db
+      .select({
+        day,
+        districtId: pdfFetchAttempts.districtId,
+        districtName: districts.name,
+        fetcher: pdfFetchAttempts.fetcher,
+        attempts: count(),
+        successes: sql<number>`COUNT(*) FILTER (WHERE ${pdfFetchAttempts.success} = true)`,
+        credits: sql<number>`COALESCE(SUM(${pdfFetchAttempts.credits}), 0)`,
+      })
+      .from(pdfFetchAttempts)
+      .leftJoin(districts, eq(pdfFetchAttempts.districtId, districts.id))
+      .where(sql`${pdfFetchAttempts.attemptedAt} >= ${since}`)
+      .groupBy(day, pdfFetchAttempts.districtId, districts.name, pdfFetchAttempts.fetcher)
+      .orderBy(day);
+
+    return results.map(r => ({
+      day: r.day,
+      districtId: r.districtId,
+      districtName: r.districtName,
+      fetcher: r.fetcher,
+      attempts: Number(r.attempts) || 0,
+      successes: Number(r.successes) || 0,
+      credits: Number(r.credits) || 0,
+    }));
+  }
+
+  async createPdfQuarantineEntries(data: InsertPdfQuarantine[]): Promise<void> {
+    if (data.length === 0) return;
+    await db.insert(pdfQuarantine).values(data);
+  }
+
+  async getPdfQuarantineEntries(status?: string, limit: number = 200): Promise<PdfQuarantineEntry[]> {
+    return db
+      .select()
+      .from(pdfQuarantine)
+      .where(status ? eq(pdfQuarantine.status, status) : undefined)
+      .orderBy(desc(pdfQuarantine.createdAt), desc(pdfQuarantine.id))
       .limit(limit);
   }
 
+  async getPdfQuarantineEntryById(id: number): Promise<PdfQuarantineEntry | undefined> {
+    const [entry] = await db.select().from(pdfQuarantine).where(eq(pdfQuarantine.id, id));
+    return entry;
+  }
+
+  async updatePdfQuarantineEntry(
+    id: number,
+    data: Partial<Pick<PdfQuarantineEntry, "status" | "reasonCode" | "reason" | "revalidatedAt" | "resolvedAt">>
+  ): Promise<PdfQuarantineEntry | undefined> {
+    const [entry] = await db
+      .update(pdfQuarantine)
+      .set(data)
+      .where(eq(pdfQuarantine.id, id))
+      .returning();
+    return entry;
+  }
+
+  // Quarantined bytes are stored by hash, so several entries can share one object
+  async countPdfQuarantineEntriesByHash(contentHash: string, excludeStatus: string): Promise<number> {
+    const [result] = await db
+      .select({ count: count() })
+      .from(pdfQuarantine)
+      .where(and(eq(pdfQuarantine.contentHash, contentHash), sql`${pdfQuarantine.status} <> ${excludeStatus}`));
+    return Number(result?.count) || 0;
+  }
+
+  async getPdfQuarantineCounts(): Promise<PdfQuarantineCount[]> {
+    const results = await db
+      .select({
+        status: pdfQuarantine.status,
+        reasonCode: pdfQuarantine.reasonCode,
+        count: count(),
+      })
+      .from(pdfQuarantine)
+      .groupBy(pdfQuarantine.status, pdfQuarantine.reasonCode);
+
+    return results.map(r => ({
+      status: r.status,
+      reasonCode: r.reasonCode,
+      count: Number(r.count) || 0,
+    }));
+  }
+
+  // Re-extraction replaces the pages wholesale, so stale pages never outlive their text
+  async replacePdfTextPages(workflow: "bulk" | "direct", orderId: number, pages: InsertPdfTextPage[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.delete(pdfTextPages).where(and(eq(pdfTextPages.workflow, workflow), eq(pdfTextPages.orderId, orderId)));
+      if (pages.length > 0) {
+        await tx.insert(pdfTextPages).values(pages);
+      }
+    });
+  }
+
+  async getPdfTextPages(workflow: "bulk" | "direct", orderId: number): Promise<PdfTextPage[]> {
+    return db
+      .select()
+      .from(pdfTextPages)
+      .where(and(eq(pdfTextPages.workflow, workflow), eq(pdfTextPages.orderId, orderId)))
+      .orderBy(pdfTextPages.pageNumber);
+  }
+
+  async replacePdfTextSections(workflow: "bulk" | "direct", orderId: number, sections: InsertPdfTextSection[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.delete(pdfTextSections).where(and(eq(pdfTextSections.workflow, workflow), eq(pdfTextSections.orderId, orderId)));
+      if (sections.length > 0) {
+        await tx.insert(pdfTextSections).values(sections);
+      }
+    });
+  }
+
+  async getPdfTextSections(workflow: "bulk" | "direct", orderId: number): Promise<PdfTextSection[]> {
+    return db
+      .select()
+      .from(pdfTextSections)
+      .where(and(eq(pdfTextSections.workflow, workflow), eq(pdfTextSections.orderId, orderId)))
+      .orderBy(pdfTextSections.charStart);
+  }
+
+  async getClassificationRules(activeOnly = false): Promise<ClassificationRule[]> {
+    return db
+      .select()
+      .from(classificationRules)
+      .where(activeOnly ? eq(classificationRules.isActive, true) : undefined)
+      .orderBy(classificationRules.field, classificationRules.id);
+  }
+
+  async getClassificationRuleById(id: number): Promise<ClassificationRule | undefined> {
+    const [rule] = await db.select().from(classificationRules).where(eq(classificationRules.id, id));
+    return rule;
+  }
+
+  async createClassificationRule(data: InsertClassificationRule): Promise<ClassificationRule> {
+    const [rule] = await db.insert(classificationRules).values(data).returning();
+    return rule;
+  }
+
+  async updateClassificationRule(id: number, data: InsertClassificationRule): Promise<ClassificationRule | undefined> {
+    const [rule] = await db
+      .update(classificationRules)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(classificationRules.id, id))
+      .returning();
+    return rule;
+  }
+
+  async deleteClassificationRule(id: number): Promise<boolean> {
+    const deleted = await db
+      .delete(classificationRules)
+      .where(eq(classificationRules.id, id))
+      .returning({ id: classificationRules.id });
+    return deleted.length > 0;
+  }
+
   async getOrdersByIds(ids: number[]): Promise<CnrOrder[]> {
     if (ids.length === 0) return [];
     const validIds = ids.filter(id => Number.isInteger(id) && id > 0);
@@ -418,13 +1234,25 @@ export class DatabaseStorage implements IStorage {
       .where(inArray(cnrOrders.id, validIds));
   }
 
-  async updateOrderPdfPath(id: number, pdfPath: string, pdfSizeBytes: number): Promise<void> {
+  async getPendingOrdersByCnrIds(cnrIds: number[]): Promise<CnrOrder[]> {
+    if (cnrIds.length === 0) return [];
+    return db
+      .select()
+      .from(cnrOrders)
+      .where(and(inArray(cnrOrders.cnrId, cnrIds), eq(cnrOrders.pdfExists, false)))
+      .orderBy(cnrOrders.cnrId, cnrOrders.orderDate, cnrOrders.orderNo);
+  }
+
+  async updateOrderPdfPath(id: number, pdfPath: string, pdfSizeBytes: number, contentHash?: string): Promise<void> {
     await db
       .update(cnrOrders)
       .set({
         pdfExists: true,
         pdfPath,
         pdfSizeBytes,
+        contentHash,
+        probeStatus: "found",
+        nextProbeAt: null,
         lastCheckedAt: new Date(),
       })
       .where(eq(cnrOrders.id, id));
@@ -480,6 +1308,44 @@ export class DatabaseStorage implements IStorage {
     }));
   }
 
+  async getAnalyticsByEstablishment(districtId?: number): Promise<{
+    establishmentId: number;
+    establishmentName: string;
+    districtName: string;
+    code: string;
+    cnrsCount: number;
+    ordersCount: number;
+    pdfsCount: number;
+  }[]> {
+    const results = await db
+      .select({
+        establishmentId: establishments.id,
+        establishmentName: establishments.name,
+        districtName: districts.name,
+        code: establishments.code,
+        cnrsCount: sql<number>`COUNT(DISTINCT ${cnrs.id})`,
+        ordersCount: sql<number>`COUNT(DISTINCT ${cnrOrders.id})`,
+        pdfsCount: sql<number>`COUNT(DISTINCT ${cnrOrders.id}) FILTER (WHERE ${cnrOrders.pdfExists} = true)`,
+      })
+      .from(establishments)
+      .innerJoin(districts, eq(establishments.districtId, districts.id))
+      .leftJoin(cnrs, eq(establishments.id, cnrs.establishmentId))
+      .leftJoin(cnrOrders, eq(cnrs.id, cnrOrders.cnrId))
+      .where(districtId ? eq(establishments.districtId, districtId) : undefined)
+      .groupBy(establishments.id, districts.name)
+      .orderBy(districts.name, establishments.code);
+
+    return results.map((r) => ({
+      establishmentId: r.establishmentId,
+      establishmentName: r.establishmentName,
+      districtName: r.districtName,
+      code: r.code,
+      cnrsCount: Number(r.cnrsCount) || 0,
+      ordersCount: Number(r.ordersCount) || 0,
+      pdfsCount: Number(r.pdfsCount) || 0,
+    }));
+  }
+
   async getDownloadedPdfs(limit = 100): Promise<(CnrOrder & { cnr?: Cnr })[]> {
     const results = await db
       .select({
@@ -524,6 +1390,58 @@ export class DatabaseStorage implements IStorage {
     return pdfText;
   }
 
+  // Text already extracted from another order with the same PDF bytes
+  async getPdfTextByContentHash(contentHash: string, excludeOrderId: number): Promise<PdfText | undefined> {
+    const [result] = await db
+      .select({ pdfText: pdfTexts })
+      .from(pdfTexts)
+      .innerJoin(cnrOrders, eq(pdfTexts.cnrOrderId, cnrOrders.id))
+      .where(and(eq(cnrOrders.contentHash, contentHash), sql`${cnrOrders.id} <> ${excludeOrderId}`))
+      .orderBy(pdfTexts.id)
+      .limit(1);
+    return result?.pdfText;
+  }
+
+  async getOrderMetadataByContentHash(contentHash: string, excludeOrderId: number): Promise<OrderMetadata | undefined> {
+    const [result] = await db
+      .select({ metadata: orderMetadata })
+      .from(orderMetadata)
+      .innerJoin(cnrOrders, eq(orderMetadata.cnrOrderId, cnrOrders.id))
+      .where(and(eq(cnrOrders.contentHash, contentHash), sql`${cnrOrders.id} <> ${excludeOrderId}`))
+      .orderBy(orderMetadata.id)
+      .limit(1);
+    return result?.metadata;
+  }
+
+  async getDuplicatePdfGroups(limit = 100): Promise<DuplicatePdfGroup[]> {
+    const results = await db
+      .select({
+        contentHash: cnrOrders.contentHash,
+        orderCount: count(),
+        pdfSizeBytes: sql<number>`MAX(${cnrOrders.pdfSizeBytes})`,
+        orders: sql<DuplicatePdfGroup["orders"]>`json_agg(json_build_object(
+          'orderId', ${cnrOrders.id},
+          'cnr', ${cnrs.cnr},
+          'orderNo', ${cnrOrders.orderNo},
+          'orderDate', ${cnrOrders.orderDate}
+        ) ORDER BY ${cnrOrders.id})`,
+      })
+      .from(cnrOrders)
+      .innerJoin(cnrs, eq(cnrOrders.cnrId, cnrs.id))
+      .where(sql`${cnrOrders.contentHash} IS NOT NULL`)
+      .groupBy(cnrOrders.contentHash)
+      .having(sql`COUNT(*) > 1`)
+      .orderBy(sql`COUNT(*) DESC`)
+      .limit(limit);
+
+    return results.map((r) => ({
+      contentHash: r.contentHash!,
+      orderCount: Number(r.orderCount) || 0,
+      pdfSizeBytes: Number(r.pdfSizeBytes) || 0,
+      orders: r.orders,
+    }));
+  }
+
   async getEntitiesPendingEnrichment(limit = 100): Promise<BusinessEntity[]> {
     return db
       .select()
@@ -750,6 +1668,125 @@ export class DatabaseStorage implements IStorage {
       count: Number(r.count) || 0,
     }));
   }
+
+  async createSerialFrontier(data: InsertSerialFrontier): Promise<SerialFrontier> {
+    const [frontier] = await db.insert(serialFrontiers).values(data).returning();
+    return frontier;
+  }
+
+  async getLatestSerialFrontier(districtId: number, year: number): Promise<SerialFrontier | undefined> {
+    const [frontier] = await db
+      .select()
+      .from(serialFrontiers)
+      .where(
+        and(
+          eq(serialFrontiers.districtId, districtId),
+          eq(serialFrontiers.year, year),
+          sql`${serialFrontiers.highestValidSerial} IS NOT NULL`
+        )
+      )
+      .orderBy(desc(serialFrontiers.discoveredAt))
+      .limit(1);
+    return frontier;
+  }
+
+  async getSerialFrontierHistory(year?: number, districtId?: number): Promise<(SerialFrontier & { districtName: string; casesPerDay: number | null })[]> {
+    const conditions = [];
+    if (year) conditions.push(eq(serialFrontiers.year, year));
+    if (districtId) conditions.push(eq(serialFrontiers.districtId, districtId));
+
+    const results = await db
+      .select({
+        frontier: serialFrontiers,
+        districtName: districts.name,
+      })
+      .from(serialFrontiers)
+      .innerJoin(districts, eq(serialFrontiers.districtId, districts.id))
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(serialFrontiers.discoveredAt)
+      .limit(500);
+
+    // Filing rate is measured between consecutive successful runs for the same district/year
+    const previousByKey = new Map<string, SerialFrontier>();
+    const history = results.map((r) => {
+      const key = `${r.frontier.districtId}-${r.frontier.year}`;
+      const previous = previousByKey.get(key);
+      let casesPerDay: number | null = null;
+
+      if (previous && previous.highestValidSerial !== null && r.frontier.highestValidSerial !== null) {
+        const days = (r.frontier.discoveredAt.getTime() - previous.discoveredAt.getTime()) / (24 * 60 * 60 * 1000);
+        if (days > 0) {
+          casesPerDay = Math.round(((r.frontier.highestValidSerial - previous.highestValidSerial) / days) * 10) / 10;
+        }
+      }
+      if (r.frontier.highestValidSerial !== null) {
+        previousByKey.set(key, r.frontier);
+      }
+
+      return { ...r.frontier, districtName: r.districtName, casesPerDay };
+    });
+
+    return history.reverse();
+  }
+
+  async getCourtHolidays(year?: number, districtId?: number): Promise<(CourtHoliday & { districtName: string | null })[]> {
+    const conditions = [];
+    if (year) {
+      conditions.push(sql`${courtHolidays.startDate} <= ${`${year}-12-31`} AND ${courtHolidays.endDate} >= ${`${year}-01-01`}`);
+    }
+    if (districtId) {
+      conditions.push(sql`(${courtHolidays.districtId} IS NULL OR ${courtHolidays.districtId} = ${districtId})`);
+    }
+
+    const results = await db
+      .select({
+        holiday: courtHolidays,
+        districtName: districts.name,
+      })
+      .from(courtHolidays)
+      .leftJoin(districts, eq(courtHolidays.districtId, districts.id))
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(courtHolidays.startDate);
+
+    return results.map((r) => ({
+      ...r.holiday,
+      districtName: r.districtName,
+    }));
+  }
+
+  async getCourtHolidaysInRange(startDate: string, endDate: string): Promise<CourtHoliday[]> {
+    return db
+      .select()
+      .from(courtHolidays)
+      .where(
+        and(
+          sql`${courtHolidays.startDate} <= ${endDate}`,
+          sql`${courtHolidays.endDate} >= ${startDate}`
+        )
+      );
+  }
+
+  // Replacing a year and inserting its new list happen together, so a failed insert keeps the old calendar
+  async importCourtHolidays(data: InsertCourtHoliday[], replaceYear?: number): Promise<{ created: CourtHoliday[]; replaced: number }> {
+    return db.transaction(async (tx) => {
+      const deleted = replaceYear
+        ? await tx
+            .delete(courtHolidays)
+            .where(sql`EXTRACT(YEAR FROM ${courtHolidays.startDate}) = ${replaceYear}`)
+            .returning({ id: courtHolidays.id })
+        : [];
+      const created = data.length > 0 ? await tx.insert(courtHolidays).values(data).returning() : [];
+      return { created, replaced: deleted.length };
+    });
+  }
+
+  async deleteCourtHoliday(id: number): Promise<boolean> {
+    const deleted = await db
+      .delete(courtHolidays)
+      .where(eq(courtHolidays.id, id))
+      .returning({ id: courtHolidays.id });
+    return deleted.length > 0;
+  }
 }
 
 export const storage = new DatabaseStorage();
@@ -0,0 +1,61 @@
+import type { OcrEngineName } from "@shared/schema";
+import type { ExtractedPage, HybridExtraction } from "./types";
+import { readTextLayer } from "./text-layer";
+import { getOcrEngine } from "./ocr-engines";
+import { detectScript } from "./script-detection";
+import { buildPageLines, PAGE_SEPARATOR } from "./locate";
+
+/**
+ * Takes each page's embedded text when it is dense enough and OCRs only the
+ * pages that look scanned. Digitally generated orders never reach OCR.
+ * `ocrEngine` picks the engine for scanned pages; OCR_ENGINE sets the default.
+ */
+export async function extractPdfText(
+  pdfBuffer: Buffer,
+  options: { ocrEngine?: OcrEngineName } = {}
+): Promise<HybridExtraction> {
+  const layer = await readTextLayer(pdfBuffer);
+
+  const nativePages: ExtractedPage[] = (layer ?? [])
+    .filter(page => page.usable)
+    .map(page => ({ pageNumber: page.pageNumber, text: page.text, method: "native", lines: buildPageLines(page.text) }));
+  // Unparseable locally: let OCR see the whole document
+  const scannedPageNumbers = layer
+    ? layer.filter(page => !page.usable).map(page => page.pageNumber)
+    : undefined;
+
+  let ocrPages: ExtractedPage[] = [];
+  let ocrEngine: OcrEngineName | null = null;
+  if (scannedPageNumbers === undefined || scannedPageNumbers.length > 0) {
+    const engine = getOcrEngine(options.ocrEngine);
+    if (!engine.isConfigured()) {
+      throw new Error(engine.name === "mistral"
+        ? "MISTRAL_API_KEY is not configured"
+        : "Tesseract is not installed (set TESSERACT_PATH if it is outside PATH)");
+    }
+    ocrEngine = engine.name;
+    ocrPages = (await engine.ocrPages(pdfBuffer, scannedPageNumbers))
+      .map(page => ({
+        pageNumber: page.pageNumber,
+        text: page.text,
+        method: "ocr",
+        lines: buildPageLines(page.text, page.lines),
+      }));
+  }
+
+  const pages = [...nativePages, ...ocrPages].sort((a, b) => a.pageNumber - b.pageNumber);
+  const method = ocrPages.length === 0 ? "native" : nativePages.length === 0 ? "ocr" : "hybrid";
+  const rawText = pages.map(page => page.text).join(PAGE_SEPARATOR);
+  const { script, language } = detectScript(rawText);
+
+  return {
+    pages,
+    rawText,
+    method,
+    nativePages: nativePages.map(page => page.pageNumber),
+    ocrPages: ocrPages.map(page => page.pageNumber),
+    ocrEngine,
+    detectedScript: script,
+    detectedLanguage: language,
+  };
+}
@@ -0,0 +1,28 @@
+export { extractPdfText } from "./hybrid";
+export { readTextLayer, type TextLayerPage } from "./text-layer";
+export { getOcrEngine, getDefaultOcrEngineName, describeOcrEngines } from "./ocr-engines";
+export { mistralOcrEngine } from "./mistral-ocr";
+export { tesseractOcrEngine } from "./tesseract-ocr";
+export { detectScript } from "./script-detection";
+export {
+  buildPageLines,
+  locateDate,
+  locateOffsets,
+  locateText,
+  pageCharOffsets,
+  PAGE_SEPARATOR,
+  type LocatablePage,
+  type SourceLocation,
+} from "./locate";
+export type {
+  BoundingBox,
+  DetectedLanguage,
+  DetectedScript,
+  ExtractedPage,
+  ExtractionMethod,
+  HybridExtraction,
+  OcrEngine,
+  OcrPage,
+  PageExtractionMethod,
+  TextLine,
+} from "./types";
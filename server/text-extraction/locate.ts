@@ -0,0 +1,175 @@
+import type { BoundingBox, TextLine } from "./types";
+import { WORD_CHAR } from "./unicode";
+
+// Pages are joined with this in `rawText`, so page offsets can be recomputed
+export const PAGE_SEPARATOR = "\n\n";
+
+export interface LocatablePage {
+  pageNumber: number;
+  text: string;
+  // Offset of the page's first character in the order's rawText
+  charOffset: number;
+  lines: TextLine[];
+}
+
+export interface SourceLocation {
+  pageNumber: number;
+  // Offsets into the page text
+  start: number;
+  end: number;
+  // Offsets into the order's rawText
+  charStart: number;
+  charEnd: number;
+  text: string;
+  // Boxes of the lines the span covers; empty when the page has no geometry
+  bboxes: BoundingBox[];
+  // False when only the opening of a longer span was found verbatim
+  exact: boolean;
+}
+
+// Shorter needles match all over a page and point nowhere useful
+const MIN_NEEDLE_CHARS = 4;
+// LLM fields like operativePortion are often condensed after their opening words
+const PREFIX_FALLBACK_CHARS = 60;
+
+const MONTH_NAMES = [
+  "january", "february", "march", "april", "may", "june",
+  "july", "august", "september", "october", "november", "december",
+];
+
+/**
+ * Splits page text into lines with their offsets. When the OCR engine
+ * reported line geometry, each reported line is found in order and keeps its
+ * box; otherwise lines are the text's own newlines, without boxes.
+ */
+export function buildPageLines(text: string, boxedLines?: { text: string; bbox: BoundingBox }[]): TextLine[] {
+  if (boxedLines && boxedLines.length > 0) {
+    const lines: TextLine[] = [];
+    let cursor = 0;
+    for (const line of boxedLines) {
+      const start = text.indexOf(line.text, cursor);
+      if (start === -1) continue;
+      lines.push({ text: line.text, start, end: start + line.text.length, bbox: line.bbox });
+      cursor = start + line.text.length;
+    }
+    return lines;
+  }
+
+  const lines: TextLine[] = [];
+  let start = 0;
+  for (const lineText of text.split("\n")) {
+    if (lineText.trim()) {
+      lines.push({ text: lineText, start, end: start + lineText.length, bbox: null });
+    }
+    start += lineText.length + 1;
+  }
+  return lines;
+}
+
+/** Offsets of each page in `pages.map(p => p.text).join(PAGE_SEPARATOR)`. */
+export function pageCharOffsets(pages: { text: string }[]): number[] {
+  const offsets: number[] = [];
+  let offset = 0;
+  for (const page of pages) {
+    offsets.push(offset);
+    offset += page.text.length + PAGE_SEPARATOR.length;
+  }
+  return offsets;
+}
+
+function toLocation(page: LocatablePage, start: number, end: number, exact: boolean): SourceLocation {
+  return {
+    pageNumber: page.pageNumber,
+    start,
+    end,
+    charStart: page.charOffset + start,
+    charEnd: page.charOffset + end,
+    text: page.text.slice(start, end),
+    bboxes: page.lines
+      .filter(line => line.bbox && line.start < end && line.end > start)
+      .map(line => line.bbox as BoundingBox),
+    exact,
+  };
+}
+
+// Letters and digits only, lower-cased, with each kept character's original offset.
+// Cleaned text, OCR markdown and LLM quotes differ in spacing and punctuation.
+function normalize(text: string): { chars: string; offsets: number[] } {
+  let chars = "";
+  const offsets: number[] = [];
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (WORD_CHAR.test(ch)) {
+      chars += ch.toLowerCase();
+      offsets.push(i);
+    }
+  }
+  return { chars, offsets };
+}
+
+function findNormalized(pages: LocatablePage[], needle: string, exact: boolean): SourceLocation | null {
+  for (const page of pages) {
+    const haystack = normalize(page.text);
+    const index = haystack.chars.indexOf(needle);
+    if (index === -1) continue;
+    const start = haystack.offsets[index];
+    const end = haystack.offsets[index + needle.length - 1] + 1;
+    return toLocation(page, start, end, exact);
+  }
+  return null;
+}
+
+/**
+ * Finds where a quoted span appears, ignoring case, spacing and punctuation.
+ * Falls back to the span's opening words when the whole span is not verbatim.
+ */
+export function locateText(pages: LocatablePage[], span: string | null | undefined): SourceLocation | null {
+  if (!span) return null;
+  const needle = normalize(span).chars;
+  if (needle.length < MIN_NEEDLE_CHARS) return null;
+
+  const found = findNormalized(pages, needle, true);
+  if (found || needle.length <= PREFIX_FALLBACK_CHARS) return found;
+  return findNormalized(pages, needle.slice(0, PREFIX_FALLBACK_CHARS), false);
+}
+
+/**
+ * Finds a YYYY-MM-DD date as orders write it: 05.03.2025, 5/3/25,
+ * 5th March, 2025 or March 5, 2025.
+ */
+export function locateDate(pages: LocatablePage[], isoDate: string | null | undefined): SourceLocation | null {
+  const match = isoDate?.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (!match) return null;
+  const [, year, month, day] = match;
+  const d = String(Number(day));
+  const m = String(Number(month));
+  const monthName = MONTH_NAMES[Number(month) - 1];
+  if (!monthName) return null;
+
+  const dayPattern = `0?${d}`;
+  const monthPattern = `(?:${monthName}|${monthName.slice(0, 3)}\\.?)`;
+  const ordinal = "(?:st|nd|rd|th)?";
+  const pattern = new RegExp([
+    `(?<!\\d)${dayPattern}[./-]0?${m}[./-](?:${year}|${year.slice(2)})(?!\\d)`,
+    `(?<!\\d)${dayPattern}${ordinal}\\s*(?:of\\s+)?${monthPattern},?\\s*${year}`,
+    `${monthPattern}\\s*${dayPattern}${ordinal},?\\s*${year}`,
+  ].join("|"), "i");
+
+  for (const page of pages) {
+    const found = pattern.exec(page.text);
+    if (found) {
+      return toLocation(page, found.index, found.index + found[0].length, true);
+    }
+  }
+  return null;
+}
+
+/** Maps a span of the order's rawText to the page it falls on. */
+export function locateOffsets(pages: LocatablePage[], charStart: number, charEnd: number): SourceLocation | null {
+  if (charEnd <= charStart) return null;
+  const page = pages.find(p => charStart >= p.charOffset && charStart < p.charOffset + p.text.length);
+  if (!page) return null;
+  const start = charStart - page.charOffset;
+  const end = Math.min(charEnd - page.charOffset, page.text.length);
+  return toLocation(page, start, end, end === charEnd - page.charOffset);
+}
@@ -0,0 +1,35 @@
+import { Mistral } from "@mistralai/mistralai";
+import { withCassette, getCassetteMode } from "../cassettes";
+import type { OcrEngine } from "./types";
+
+// Mistral bills per page, so callers send only pages without a usable text layer
+export const mistralOcrEngine: OcrEngine = {
+  name: "mistral",
+
+  isConfigured() {
+    // Replayed responses need no key
+    return !!process.env.MISTRAL_API_KEY || getCassetteMode() === "replay";
+  },
+
+  async ocrPages(pdfBuffer, pageNumbers) {
+    const ocrRequest = {
+      model: "mistral-ocr-latest",
+      document: {
+        type: "document_url" as const,
+        documentUrl: `data:application/pdf;base64,${pdfBuffer.toString("base64")}`,
+      },
+      // Mistral numbers pages from 0
+      pages: pageNumbers?.map(n => n - 1),
+      includeImageBase64: false,
+    };
+
+    const ocrResponse = await withCassette("mistral-ocr", ocrRequest, () =>
+      new Mistral({ apiKey: process.env.MISTRAL_API_KEY }).ocr.process(ocrRequest)
+    );
+
+    return (ocrResponse.pages || []).map(page => ({
+      pageNumber: page.index + 1,
+      text: page.markdown || "",
+    }));
+  },
+};
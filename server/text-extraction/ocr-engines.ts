@@ -0,0 +1,37 @@
+import { OCR_ENGINE_NAMES } from "@shared/schema";
+import type { OcrEngineName } from "@shared/schema";
+import type { OcrEngine } from "./types";
+import { mistralOcrEngine } from "./mistral-ocr";
+import { tesseractOcrEngine } from "./tesseract-ocr";
+
+const ENGINES: Record<OcrEngineName, OcrEngine> = {
+  mistral: mistralOcrEngine,
+  tesseract: tesseractOcrEngine,
+};
+
+/**
+ * Engine used when a job does not pick one. OCR_ENGINE overrides the
+ * default of Mistral.
+ */
+export function getDefaultOcrEngineName(): OcrEngineName {
+  const configured = (process.env.OCR_ENGINE || "").trim().toLowerCase();
+  if (!configured) return "mistral";
+  if ((OCR_ENGINE_NAMES as readonly string[]).includes(configured)) {
+    return configured as OcrEngineName;
+  }
+  console.warn(`[OCR] Ignoring unknown OCR_ENGINE: ${process.env.OCR_ENGINE}`);
+  return "mistral";
+}
+
+export function getOcrEngine(name: OcrEngineName = getDefaultOcrEngineName()): OcrEngine {
+  return ENGINES[name];
+}
+
+export function describeOcrEngines(): { name: OcrEngineName; configured: boolean; isDefault: boolean }[] {
+  const defaultName = getDefaultOcrEngineName();
+  return OCR_ENGINE_NAMES.map(name => ({
+    name,
+    configured: ENGINES[name].isConfigured(),
+    isDefault: name === defaultName,
+  }));
+}
@@ -0,0 +1,24 @@
+import type { DetectedLanguage, DetectedScript } from "./types";
+import { DEVANAGARI_LETTERS, LATIN_LETTERS } from "./unicode";
+
+// English orders quote Hindi names and Hindi orders quote section numbers and
+// party names in English, so a script needs this share of letters to count
+const MIN_SCRIPT_SHARE = 0.1;
+
+/**
+ * Classifies text by the scripts its letters are written in. Orders are in
+ * English or Hindi, so the script stands in for the language.
+ */
+export function detectScript(text: string): { script: DetectedScript | null; language: DetectedLanguage | null } {
+  const devanagari = text.match(DEVANAGARI_LETTERS)?.length ?? 0;
+  const latin = text.match(LATIN_LETTERS)?.length ?? 0;
+  const total = devanagari + latin;
+  if (total === 0) return { script: null, language: null };
+
+  const hasDevanagari = devanagari / total >= MIN_SCRIPT_SHARE;
+  const hasLatin = latin / total >= MIN_SCRIPT_SHARE;
+
+  if (hasDevanagari && hasLatin) return { script: "mixed", language: "eng+hin" };
+  if (hasDevanagari) return { script: "devanagari", language: "hin" };
+  return { script: "latin", language: "eng" };
+}
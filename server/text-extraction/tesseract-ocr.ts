@@ -0,0 +1,131 @@
+import { spawn, spawnSync } from "child_process";
+import { PDFParse } from "pdf-parse";
+import type { BoundingBox, OcrEngine, OcrPage } from "./types";
+
+// Local OCR through the tesseract CLI, so scanned orders can be read without
+// network access or an API key. The "hin" traineddata covers Devanagari.
+
+// ~300 DPI for an A4 page rendered at pdf.js's 72 DPI base
+const RENDER_SCALE = 4;
+const PAGE_TIMEOUT_MS = 120_000;
+
+let binaryAvailable: boolean | undefined;
+
+function getBinary(): string {
+  return process.env.TESSERACT_PATH || "tesseract";
+}
+
+function getLanguages(): string {
+  return process.env.TESSERACT_LANGS || "eng+hin";
+}
+
+/**
+ * Rebuilds page text from Tesseract's TSV output (one row per page, block,
+ * paragraph, line and word), keeping each line's box. Lines are joined with
+ * newlines and paragraphs with a blank line, as the plain text output does.
+ */
+function parseTsv(tsv: string): { text: string; lines: { text: string; bbox: BoundingBox }[] } {
+  let pageWidth = 0;
+  let pageHeight = 0;
+  const lines: { key: string; paragraph: string; words: string[]; bbox: BoundingBox }[] = [];
+
+  for (const row of tsv.split("\n").slice(1)) {
+    const cols = row.split("\t");
+    if (cols.length < 12) continue;
+    const [level, , block, paragraph, line, , left, top, width, height] = cols.map(Number);
+    const word = cols.slice(11).join("\t").trim();
+
+    if (level === 1) {
+      pageWidth = width;
+      pageHeight = height;
+    } else if (level === 4 && pageWidth > 0 && pageHeight > 0) {
+      lines.push({
+        key: `${block}.${paragraph}.${line}`,
+        paragraph: `${block}.${paragraph}`,
+        words: [],
+        bbox: [left / pageWidth, top / pageHeight, (left + width) / pageWidth, (top + height) / pageHeight],
+      });
+    } else if (level === 5 && word) {
+      lines.find(l => l.key === `${block}.${paragraph}.${line}`)?.words.push(word);
+    }
+  }
+
+  const textLines = lines.filter(l => l.words.length > 0);
+  let text = "";
+  textLines.forEach((line, i) => {
+    if (i > 0) text += line.paragraph === textLines[i - 1].paragraph ? "\n" : "\n\n";
+    text += line.words.join(" ");
+  });
+
+  return { text, lines: textLines.map(l => ({ text: l.words.join(" "), bbox: l.bbox })) };
+}
+
+function recognize(png: Uint8Array): Promise<string> {
+  return new Promise((resolve, reject) => {
+    // --psm 3: automatic page segmentation, which copes with stamps and margins;
+    // tsv adds word and line boxes to the text
+    const child = spawn(getBinary(), ["stdin", "stdout", "-l", getLanguages(), "--psm", "3", "tsv"]);
+    const stdout: Buffer[] = [];
+    const stderr: Buffer[] = [];
+    const timer = setTimeout(() => {
+      child.kill();
+      reject(new Error(`tesseract timed out after ${PAGE_TIMEOUT_MS / 1000}s`));
+    }, PAGE_TIMEOUT_MS);
+
+    child.stdout.on("data", (chunk: Buffer) => stdout.push(chunk));
+    child.stderr.on("data", (chunk: Buffer) => stderr.push(chunk));
+    child.on("error", (error) => {
+      clearTimeout(timer);
+      reject(error);
+    });
+    child.on("close", (code) => {
+      clearTimeout(timer);
+      if (code === 0) {
+        resolve(Buffer.concat(stdout).toString("utf8"));
+      } else {
+        reject(new Error(`tesseract exited with code ${code}: ${Buffer.concat(stderr).toString("utf8").trim().slice(0, 300)}`));
+      }
+    });
+
+    child.stdin.end(png);
+  });
+}
+
+export const tesseractOcrEngine: OcrEngine = {
+  name: "tesseract",
+
+  isConfigured() {
+    if (binaryAvailable === undefined) {
+      const probe = spawnSync(getBinary(), ["--version"], { timeout: 10_000 });
+      binaryAvailable = probe.status === 0;
+    }
+    return binaryAvailable;
+  },
+
+  async ocrPages(pdfBuffer, pageNumbers) {
+    // pdf.js may transfer the bytes to its worker, so hand it a copy
+    const parser = new PDFParse({ data: new Uint8Array(pdfBuffer) });
+    try {
+      const targets = pageNumbers ?? Array.from({ length: (await parser.getInfo()).total }, (_, i) => i + 1);
+      const pages: OcrPage[] = [];
+
+      // One page at a time: a rendered page is several megabytes
+      for (const pageNumber of targets) {
+        const screenshot = await parser.getScreenshot({
+          partial: [pageNumber],
+          scale: RENDER_SCALE,
+          imageBuffer: true,
+          imageDataUrl: false,
+        });
+        const image = screenshot.pages[0];
+        if (!image) continue;
+        const { text, lines } = parseTsv(await recognize(image.data));
+        pages.push({ pageNumber, text, lines });
+      }
+
+      return pages;
+    } finally {
+      await parser.destroy();
+    }
+  },
+};
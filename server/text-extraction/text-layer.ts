@@ -0,0 +1,52 @@
+import { PDFParse } from "pdf-parse";
+import { READABLE_GLYPHS, UNREADABLE_GLYPHS } from "./unicode";
+
+// A page with less embedded text than this is treated as scanned; real orders
+// carry at least a cause title and a few lines of proceedings
+const MIN_NATIVE_CHARS_PER_PAGE = 200;
+// Broken font encodings yield text full of replacement and private-use glyphs
+const MIN_READABLE_RATIO = 0.85;
+
+export interface TextLayerPage {
+  pageNumber: number;
+  text: string;
+  chars: number;
+  readableRatio: number;
+  usable: boolean;
+}
+
+function measure(text: string): { chars: number; readableRatio: number } {
+  const glyphs = text.replace(/\s+/g, "");
+  if (glyphs.length === 0) return { chars: 0, readableRatio: 0 };
+  const readable = glyphs.match(READABLE_GLYPHS)?.length ?? 0;
+  const unreadable = glyphs.match(UNREADABLE_GLYPHS)?.length ?? 0;
+  return { chars: glyphs.length, readableRatio: (readable - unreadable) / glyphs.length };
+}
+
+/**
+ * Reads the embedded text layer page by page and scores each page's text
+ * density. Returns null when the PDF cannot be parsed locally, in which case
+ * every page goes to OCR.
+ */
+export async function readTextLayer(pdfBuffer: Buffer): Promise<TextLayerPage[] | null> {
+  // pdf.js may transfer the bytes to its worker, so hand it a copy
+  const parser = new PDFParse({ data: new Uint8Array(pdfBuffer) });
+  try {
+    const result = await parser.getText();
+    return result.pages.map(page => {
+      const { chars, readableRatio } = measure(page.text);
+      return {
+        pageNumber: page.num,
+        text: page.text.trim(),
+        chars,
+        readableRatio,
+        usable: chars >= MIN_NATIVE_CHARS_PER_PAGE && readableRatio >= MIN_READABLE_RATIO,
+      };
+    });
+  } catch (error) {
+    console.warn(`[TextLayer] Could not parse PDF locally: ${error instanceof Error ? error.message : error}`);
+    return null;
+  } finally {
+    await parser.destroy();
+  }
+}
@@ -0,0 +1,56 @@
+import type { OcrEngineName } from "@shared/schema";
+
+export type PageExtractionMethod = "native" | "ocr";
+export type ExtractionMethod = PageExtractionMethod | "hybrid";
+
+// Fractions of the page size with the origin at the top left, so boxes can be
+// drawn over a page rendered at any zoom
+export type BoundingBox = [left: number, top: number, right: number, bottom: number];
+
+export interface TextLine {
+  text: string;
+  // Offsets into the page text
+  start: number;
+  end: number;
+  // Only engines that report geometry (Tesseract) fill this in
+  bbox: BoundingBox | null;
+}
+
+export interface ExtractedPage {
+  // 1-based, as printed on the page footer
+  pageNumber: number;
+  text: string;
+  method: PageExtractionMethod;
+  lines: TextLine[];
+}
+
+export type DetectedScript = "latin" | "devanagari" | "mixed";
+export type DetectedLanguage = "eng" | "hin" | "eng+hin";
+
+export interface HybridExtraction {
+  pages: ExtractedPage[];
+  rawText: string;
+  method: ExtractionMethod;
+  nativePages: number[];
+  ocrPages: number[];
+  // Engine that read the scanned pages; null when every page had a text layer
+  ocrEngine: OcrEngineName | null;
+  // Null when the text has no letters to judge by
+  detectedScript: DetectedScript | null;
+  detectedLanguage: DetectedLanguage | null;
+}
+
+export interface OcrPage {
+  pageNumber: number;
+  text: string;
+  // Present when the engine reports line geometry; line texts appear in `text` in order
+  lines?: { text: string; bbox: BoundingBox }[];
+}
+
+export interface OcrEngine {
+  name: OcrEngineName;
+  // False when the API key or local binary the engine needs is missing
+  isConfigured(): boolean;
+  // OCRs the given 1-based pages, or the whole document when omitted
+  ocrPages(pdfBuffer: Buffer, pageNumbers?: number[]): Promise<OcrPage[]>;
+}
@@ -0,0 +1,15 @@
+// Unicode character classes for reading order text. They are built with RegExp
+// because property escapes need the "u" flag, which the compile target rejects
+// in regex literals.
+
+export const DEVANAGARI_LETTERS = new RegExp("\\p{Script=Devanagari}", "gu");
+export const LATIN_LETTERS = new RegExp("\\p{Script=Latin}", "gu");
+
+// Glyphs a working text layer yields, and the replacement, private-use and
+// control glyphs that broken font encodings yield instead. Marks count as
+// readable: Devanagari vowel signs and viramas are combining marks.
+export const READABLE_GLYPHS = new RegExp("[\\p{L}\\p{M}\\p{N}\\p{P}\\p{S}]", "gu");
+export const UNREADABLE_GLYPHS = new RegExp("[\\uFFFD\\p{Co}\\p{Cc}]", "gu");
+
+// Marks are included for Devanagari vowel signs
+export const WORD_CHAR = new RegExp("[\\p{L}\\p{M}\\p{N}]", "u");
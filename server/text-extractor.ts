@@ -1,7 +1,8 @@
 import { storage } from "./storage";
 import { ObjectStorageService, ObjectNotFoundError } from "./objectStorage";
-import type { CnrOrder } from "@shared/schema";
-import { Mistral } from "@mistralai/mistralai";
+import type { CnrOrder, OcrEngineName } from "@shared/schema";
+import { extractPdfText, type DetectedLanguage, type DetectedScript, type ExtractedPage, type ExtractionMethod } from "./text-extraction";
+import { savePdfTextPages, loadExtractedPages } from "./pdf-text-pages";
 
 const objectStorage = new ObjectStorageService();
 
@@ -11,6 +12,13 @@ export interface ExtractionResult {
   cleanedText: string;
   pageCount: number;
   wordCount: number;
+  extractionMethod?: ExtractionMethod;
+  nativePages?: number[];
+  ocrPages?: number[];
+  ocrEngine?: OcrEngineName | null;
+  detectedScript?: DetectedScript | null;
+  detectedLanguage?: DetectedLanguage | null;
+  pages?: ExtractedPage[];
   errorMessage?: string;
 }
 
@@ -21,45 +29,30 @@ function cleanText(text: string): string {
   return cleaned.trim();
 }
 
-export async function extractTextFromPdf(pdfPath: string): Promise<ExtractionResult> {
-  const apiKey = process.env.MISTRAL_API_KEY;
-  
-  if (!apiKey) {
-    return {
-      success: false,
-      rawText: "",
-      cleanedText: "",
-      pageCount: 0,
-      wordCount: 0,
-      errorMessage: "MISTRAL_API_KEY is not configured",
-    };
-  }
+function failedExtraction(errorMessage: string): ExtractionResult {
+  return {
+    success: false,
+    rawText: "",
+    cleanedText: "",
+    pageCount: 0,
+    wordCount: 0,
+    errorMessage,
+  };
+}
 
+export async function extractTextFromPdf(pdfPath: string, ocrEngine?: OcrEngineName): Promise<ExtractionResult> {
   try {
     const pdfBuffer = await objectStorage.getPdfBuffer(pdfPath);
-    const base64Pdf = pdfBuffer.toString("base64");
-    
-    console.log(`[Mistral OCR] Processing PDF: ${pdfPath} (${pdfBuffer.length} bytes)`);
-    
-    const client = new Mistral({ apiKey });
-    
-    const ocrResponse = await client.ocr.process({
-      model: "mistral-ocr-latest",
-      document: {
-        type: "document_url",
-        documentUrl: `data:application/pdf;base64,${base64Pdf}`,
-      },
-      includeImageBase64: false,
-    });
-
-    const pages = ocrResponse.pages || [];
-    const pageCount = pages.length;
-    
-    const rawText = pages.map((page: any) => page.markdown || "").join("\n\n");
+
+    console.log(`[TextExtract] Processing PDF: ${pdfPath} (${pdfBuffer.length} bytes)`);
+
+    const extraction = await extractPdfText(pdfBuffer, { ocrEngine });
+    const pageCount = extraction.pages.length;
+    const rawText = extraction.rawText;
     const cleanedText = cleanText(rawText);
     const wordCount = cleanedText.split(/\s+/).filter(Boolean).length;
 
-    console.log(`[Mistral OCR] Extracted ${pageCount} pages, ${wordCount} words from ${pdfPath}`);
+    console.log(`[TextExtract] Extracted ${pageCount} pages (${extraction.nativePages.length} text layer, ${extraction.ocrPages.length} OCR${extraction.ocrEngine ? ` via ${extraction.ocrEngine}` : ""}), ${wordCount} words, script ${extraction.detectedScript ?? "unknown"} from ${pdfPath}`);
 
     return {
       success: true,
@@ -67,32 +60,25 @@ export async function extractTextFromPdf(pdfPath: string): Promise<ExtractionRes
       cleanedText,
       pageCount,
       wordCount,
+      extractionMethod: extraction.method,
+      nativePages: extraction.nativePages,
+      ocrPages: extraction.ocrPages,
+      ocrEngine: extraction.ocrEngine,
+      detectedScript: extraction.detectedScript,
+      detectedLanguage: extraction.detectedLanguage,
+      pages: extraction.pages,
     };
   } catch (error) {
     if (error instanceof ObjectNotFoundError) {
-      return {
-        success: false,
-        rawText: "",
-        cleanedText: "",
-        pageCount: 0,
-        wordCount: 0,
-        errorMessage: `PDF not found in Object Storage: ${pdfPath}`,
-      };
+      return failedExtraction(`PDF not found in Object Storage: ${pdfPath}`);
     }
     const errorMessage = error instanceof Error ? error.message : "Unknown extraction error";
-    console.error(`[Mistral OCR] Error extracting text: ${errorMessage}`);
-    return {
-      success: false,
-      rawText: "",
-      cleanedText: "",
-      pageCount: 0,
-      wordCount: 0,
-      errorMessage,
-    };
+    console.error(`[TextExtract] Error extracting text: ${errorMessage}`);
+    return failedExtraction(errorMessage);
   }
 }
 
-export async function extractTextsForJob(jobId: number, orders: CnrOrder[]): Promise<void> {
+export async function extractTextsForJob(jobId: number, orders: CnrOrder[], ocrEngine?: OcrEngineName): Promise<void> {
   await storage.updateProcessingJobStarted(jobId);
 
   let processed = 0;
@@ -108,7 +94,33 @@ export async function extractTextsForJob(jobId: number, orders: CnrOrder[]): Pro
         continue;
       }
 
-      const result = await extractTextFromPdf(order.pdfPath);
+      // Same PDF bytes already OCR'd for another order: copy the text instead of paying for OCR again
+      const existingText = order.contentHash
+        ? await storage.getPdfTextByContentHash(order.contentHash, order.id)
+        : undefined;
+      if (existingText) {
+        await storage.createPdfText({
+          cnrOrderId: order.id,
+          rawText: existingText.rawText,
+          cleanedText: existingText.cleanedText,
+          pageCount: existingText.pageCount,
+          wordCount: existingText.wordCount,
+          extractionMethod: existingText.extractionMethod,
+          nativePages: existingText.nativePages,
+          ocrPages: existingText.ocrPages,
+          ocrEngine: existingText.ocrEngine,
+          detectedScript: existingText.detectedScript,
+          detectedLanguage: existingText.detectedLanguage,
+        });
+        await savePdfTextPages("bulk", order.id, await loadExtractedPages("bulk", existingText.cnrOrderId));
+        console.log(`[Dedup] Reused text from order ${existingText.cnrOrderId} for order ${order.id}`);
+        processed++;
+        successful++;
+        await storage.updateProcessingJobProgress(jobId, processed, successful, failed);
+        continue;
+      }
+
+      const result = await extractTextFromPdf(order.pdfPath, ocrEngine);
       processed++;
 
       if (result.success && result.rawText.length > 0) {
@@ -118,7 +130,14 @@ export async function extractTextsForJob(jobId: number, orders: CnrOrder[]): Pro
           cleanedText: result.cleanedText,
           pageCount: result.pageCount,
           wordCount: result.wordCount,
+          extractionMethod: result.extractionMethod,
+          nativePages: JSON.stringify(result.nativePages ?? []),
+          ocrPages: JSON.stringify(result.ocrPages ?? []),
+          ocrEngine: result.ocrEngine ?? null,
+          detectedScript: result.detectedScript ?? null,
+          detectedLanguage: result.detectedLanguage ?? null,
         });
+        await savePdfTextPages("bulk", order.id, result.pages ?? []);
         successful++;
       } else {
         failed++;
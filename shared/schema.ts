@@ -4,9 +4,19 @@ import { relations } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
+// States on the eCourts platform; the state code is the first two characters of every CNR
+export const courtStates = pgTable("court_states", {
+  id: serial("id").primaryKey(),
+  code: varchar("code", { length: 2 }).notNull().unique(),
+  name: varchar("name", { length: 100 }).notNull(),
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
 export const districts = pgTable("districts", {
   id: serial("id").primaryKey(),
   name: varchar("name", { length: 100 }).notNull().unique(),
+  stateCode: varchar("state_code", { length: 2 }).notNull().default("DL"),
   codePrefix: varchar("code_prefix", { length: 10 }).notNull(),
   establishmentCode: varchar("establishment_code", { length: 10 }).notNull(),
   serialWidth: integer("serial_width").notNull().default(7),
@@ -15,20 +25,50 @@ export const districts = pgTable("districts", {
   isActive: boolean("is_active").notNull().default(true),
   createdAt: timestamp("created_at").notNull().defaultNow(),
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
-});
+}, (table) => [
+  uniqueIndex("idx_districts_state_code").on(table.stateCode, table.codePrefix),
+]);
+
+// Court establishments within a district (civil, criminal, family, commercial...), each with its own CNR code
+export const establishments = pgTable("establishments", {
+  id: serial("id").primaryKey(),
+  districtId: integer("district_id").notNull().references(() => districts.id, { onDelete: "cascade" }),
+  code: varchar("code", { length: 10 }).notNull(),
+  name: varchar("name", { length: 255 }).notNull(),
+  courtComplex: varchar("court_complex", { length: 255 }),
+  caseTypes: text("case_types").array(), // Lowercase, e.g. {commercial,civil}
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex("idx_establishments_district_code").on(table.districtId, table.code),
+]);
 
 export const cnrs = pgTable("cnrs", {
   id: serial("id").primaryKey(),
   uuid: varchar("uuid", { length: 36 }).notNull().unique().default(sql`gen_random_uuid()`),
   districtId: integer("district_id").notNull().references(() => districts.id),
+  establishmentId: integer("establishment_id").references(() => establishments.id),
   cnr: varchar("cnr", { length: 50 }).notNull().unique(),
   serialNumber: integer("serial_number").notNull(),
   year: integer("year").notNull(),
   isValid: boolean("is_valid"),
+  // Basic case details captured by the cnr_validation job from eCourts
+  caseType: varchar("case_type", { length: 100 }),
+  filingNumber: varchar("filing_number", { length: 100 }),
+  filingDate: varchar("filing_date", { length: 50 }),
+  registrationNumber: varchar("registration_number", { length: 100 }),
+  registrationDate: varchar("registration_date", { length: 50 }),
+  petitionerName: text("petitioner_name"),
+  respondentName: text("respondent_name"),
+  caseStage: varchar("case_stage", { length: 255 }),
+  nextHearingDate: varchar("next_hearing_date", { length: 50 }),
+  courtName: text("court_name"),
+  validationError: text("validation_error"),
   createdAt: timestamp("created_at").notNull().defaultNow(),
   lastCheckedAt: timestamp("last_checked_at"),
 }, (table) => [
   index("idx_cnrs_district").on(table.districtId),
+  index("idx_cnrs_establishment").on(table.establishmentId),
   index("idx_cnrs_year").on(table.year),
 ]);
 
@@ -43,12 +83,18 @@ export const cnrOrders = pgTable("cnr_orders", {
   pdfExists: boolean("pdf_exists").notNull().default(false),
   pdfPath: text("pdf_path"),
   pdfSizeBytes: integer("pdf_size_bytes"),
+  contentHash: varchar("content_hash", { length: 64 }), // SHA-256 of the PDF bytes
   httpStatusCode: integer("http_status_code"),
   retryCount: integer("retry_count").notNull().default(0),
+  generationMethod: varchar("generation_method", { length: 20 }).notNull().default("grid"), // grid, case_history
+  probeStatus: varchar("probe_status", { length: 20 }).notNull().default("pending"), // pending, retrying, found, abandoned
+  nextProbeAt: timestamp("next_probe_at"),
   lastCheckedAt: timestamp("last_checked_at"),
   createdAt: timestamp("created_at").notNull().defaultNow(),
 }, (table) => [
   index("idx_orders_pdf_exists").on(table.pdfExists),
+  index("idx_orders_next_probe").on(table.probeStatus, table.nextProbeAt),
+  index("idx_orders_content_hash").on(table.contentHash),
   uniqueIndex("uq_cnr_order_date").on(table.cnrId, table.orderNo, table.orderDate),
 ]);
 
@@ -59,6 +105,12 @@ export const pdfTexts = pgTable("pdf_texts", {
   cleanedText: text("cleaned_text"),
   pageCount: integer("page_count"),
   wordCount: integer("word_count"),
+  extractionMethod: varchar("extraction_method", { length: 10 }), // native, ocr, hybrid; null for texts extracted before hybrid extraction
+  nativePages: text("native_pages"), // JSON array of 1-based pages read from the PDF text layer
+  ocrPages: text("ocr_pages"), // JSON array of 1-based pages sent to OCR
+  ocrEngine: varchar("ocr_engine", { length: 20 }), // mistral, tesseract; null when no page needed OCR
+  detectedScript: varchar("detected_script", { length: 20 }), // latin, devanagari, mixed
+  detectedLanguage: varchar("detected_language", { length: 20 }), // eng, hin, eng+hin
   extractedAt: timestamp("extracted_at").notNull().defaultNow(),
 });
 
@@ -91,11 +143,20 @@ export const orderMetadata = pgTable("order_metadata", {
   isFinalOrder: boolean("is_final_order").notNull().default(false),
   hasBusinessEntity: boolean("has_business_entity").notNull().default(false),
   entityTypes: text("entity_types"),
+  sourceLocations: text("source_locations"), // JSON map of field name to its page, offsets and boxes in the PDF text
   classificationConfidence: real("classification_confidence"),
   llmModelUsed: varchar("llm_model_used", { length: 100 }),
+  promptVersion: varchar("prompt_version", { length: 20 }).notNull().default("v1"), // CLASSIFICATION_PROMPT_VERSIONS in server/classifier.ts
+  ruleConflicts: text("rule_conflicts"), // JSON array of { field, ruleValue, llmValue } where the LLM disagreed with the rule pre-classifier
+  reviewStatus: varchar("review_status", { length: 20 }).notNull().default("unreviewed"), // REVIEW_STATUSES
+  reviewedBy: varchar("reviewed_by", { length: 100 }),
+  reviewedAt: timestamp("reviewed_at"),
+  isLocked: boolean("is_locked").notNull().default(false), // Reviewed rows are skipped by classification and re-classification jobs
   classifiedAt: timestamp("classified_at").notNull().defaultNow(),
 }, (table) => [
   index("idx_metadata_summons").on(table.isSummonsOrder),
+  index("idx_metadata_prompt_version").on(table.promptVersion),
+  index("idx_metadata_review_status").on(table.reviewStatus),
   index("idx_metadata_fresh_case").on(table.isFreshCaseAssignment),
   index("idx_metadata_business").on(table.hasBusinessEntity),
 ]);
@@ -186,21 +247,91 @@ export const processingJobs = pgTable("processing_jobs", {
   successfulItems: integer("successful_items").notNull().default(0),
   failedItems: integer("failed_items").notNull().default(0),
   parameters: text("parameters"),
+  // Rolled up from pdf_fetch_attempts as download jobs run
+  fetchAttempts: integer("fetch_attempts").notNull().default(0),
+  creditsUsed: integer("credits_used").notNull().default(0),
   startedAt: timestamp("started_at"),
   completedAt: timestamp("completed_at"),
   lastError: text("last_error"),
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
-export const districtsRelations = relations(districts, ({ many }) => ({
+// One row per discovery run, so the history shows how fast each district files new cases
+export const serialFrontiers = pgTable("serial_frontiers", {
+  id: serial("id").primaryKey(),
+  districtId: integer("district_id").notNull().references(() => districts.id),
+  year: integer("year").notNull(),
+  highestValidSerial: integer("highest_valid_serial"),
+  lastProbedSerial: integer("last_probed_serial"),
+  probesUsed: integer("probes_used").notNull().default(0),
+  status: varchar("status", { length: 50 }).notNull().default("completed"), // completed, partial, failed
+  errorMessage: text("error_message"),
+  jobId: integer("job_id").references(() => processingJobs.id, { onDelete: "set null" }),
+  discoveredAt: timestamp("discovered_at").notNull().defaultNow(),
+}, (table) => [
+  index("idx_serial_frontiers_district_year").on(table.districtId, table.year),
+]);
+
+// Court holidays and vacation periods; a null districtId applies to every district
+export const courtHolidays = pgTable("court_holidays", {
+  id: serial("id").primaryKey(),
+  districtId: integer("district_id").references(() => districts.id, { onDelete: "cascade" }),
+  name: varchar("name", { length: 255 }).notNull(),
+  holidayType: varchar("holiday_type", { length: 50 }).notNull().default("gazetted"), // gazetted, restricted, vacation, local
+  startDate: date("start_date").notNull(),
+  endDate: date("end_date").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("idx_court_holidays_district").on(table.districtId),
+  index("idx_court_holidays_dates").on(table.startDate, table.endDate),
+]);
+
+export const courtStatesRelations = relations(courtStates, ({ many }) => ({
+  districts: many(districts),
+}));
+
+export const districtsRelations = relations(districts, ({ one, many }) => ({
+  state: one(courtStates, {
+    fields: [districts.stateCode],
+    references: [courtStates.code],
+  }),
+  cnrs: many(cnrs),
+  establishments: many(establishments),
+  serialFrontiers: many(serialFrontiers),
+  courtHolidays: many(courtHolidays),
+}));
+
+export const courtHolidaysRelations = relations(courtHolidays, ({ one }) => ({
+  district: one(districts, {
+    fields: [courtHolidays.districtId],
+    references: [districts.id],
+  }),
+}));
+
+export const establishmentsRelations = relations(establishments, ({ one, many }) => ({
+  district: one(districts, {
+    fields: [establishments.districtId],
+    references: [districts.id],
+  }),
   cnrs: many(cnrs),
 }));
 
+export const serialFrontiersRelations = relations(serialFrontiers, ({ one }) => ({
+  district: one(districts, {
+    fields: [serialFrontiers.districtId],
+    references: [districts.id],
+  }),
+}));
+
 export const cnrsRelations = relations(cnrs, ({ one, many }) => ({
   district: one(districts, {
     fields: [cnrs.districtId],
     references: [districts.id],
   }),
+  establishment: one(establishments, {
+    fields: [cnrs.establishmentId],
+    references: [establishments.id],
+  }),
   orders: many(cnrOrders),
 }));
 
@@ -258,7 +389,11 @@ export const personLeadsRelations = relations(personLeads, ({ one }) => ({
   }),
 }));
 
+export const insertCourtStateSchema = createInsertSchema(courtStates).omit({ id: true, createdAt: true });
 export const insertDistrictSchema = createInsertSchema(districts).omit({ id: true, createdAt: true, updatedAt: true });
+export const insertEstablishmentSchema = createInsertSchema(establishments, {
+  caseTypes: z.array(z.string().trim().min(1).toLowerCase()).nullable().optional(),
+}).omit({ id: true, createdAt: true });
 export const insertCnrSchema = createInsertSchema(cnrs).omit({ id: true, uuid: true, createdAt: true });
 export const insertCnrOrderSchema = createInsertSchema(cnrOrders).omit({ id: true, uuid: true, createdAt: true });
 export const insertPdfTextSchema = createInsertSchema(pdfTexts).omit({ id: true, extractedAt: true });
@@ -268,8 +403,12 @@ export const insertEntityContactSchema = createInsertSchema(entityContacts).omit
 export const insertCaseEntityLinkSchema = createInsertSchema(caseEntityLinks).omit({ id: true, createdAt: true });
 export const insertProcessingJobSchema = createInsertSchema(processingJobs).omit({ id: true, uuid: true, createdAt: true });
 export const insertPersonLeadSchema = createInsertSchema(personLeads).omit({ id: true, uuid: true, createdAt: true });
+export const insertSerialFrontierSchema = createInsertSchema(serialFrontiers).omit({ id: true, discoveredAt: true });
+export const insertCourtHolidaySchema = createInsertSchema(courtHolidays).omit({ id: true, createdAt: true });
 
+export type InsertCourtState = z.infer<typeof insertCourtStateSchema>;
 export type InsertDistrict = z.infer<typeof insertDistrictSchema>;
+export type InsertEstablishment = z.infer<typeof insertEstablishmentSchema>;
 export type InsertCnr = z.infer<typeof insertCnrSchema>;
 export type InsertCnrOrder = z.infer<typeof insertCnrOrderSchema>;
 export type InsertPdfText = z.infer<typeof insertPdfTextSchema>;
@@ -279,9 +418,17 @@ export type InsertEntityContact = z.infer<typeof insertEntityContactSchema>;
 export type InsertCaseEntityLink = z.infer<typeof insertCaseEntityLinkSchema>;
 export type InsertProcessingJob = z.infer<typeof insertProcessingJobSchema>;
 export type InsertPersonLead = z.infer<typeof insertPersonLeadSchema>;
+export type InsertSerialFrontier = z.infer<typeof insertSerialFrontierSchema>;
+export type InsertCourtHoliday = z.infer<typeof insertCourtHolidaySchema>;
 
+export type CourtState = typeof courtStates.$inferSelect;
 export type District = typeof districts.$inferSelect;
+export type Establishment = typeof establishments.$inferSelect;
 export type Cnr = typeof cnrs.$inferSelect;
+export type CnrValidationDetails = Partial<Pick<Cnr,
+  "caseType" | "filingNumber" | "filingDate" | "registrationNumber" | "registrationDate" |
+  "petitionerName" | "respondentName" | "caseStage" | "nextHearingDate" | "courtName" | "validationError"
+>>;
 export type CnrOrder = typeof cnrOrders.$inferSelect;
 export type PdfText = typeof pdfTexts.$inferSelect;
 export type OrderMetadata = typeof orderMetadata.$inferSelect;
@@ -290,6 +437,8 @@ export type EntityContact = typeof entityContacts.$inferSelect;
 export type CaseEntityLink = typeof caseEntityLinks.$inferSelect;
 export type ProcessingJob = typeof processingJobs.$inferSelect;
 export type PersonLead = typeof personLeads.$inferSelect;
+export type SerialFrontier = typeof serialFrontiers.$inferSelect;
+export type CourtHoliday = typeof courtHolidays.$inferSelect;
 
 // ============================================================================
 // DIRECT CNR MANAGEMENT SYSTEM - NEW ISOLATED TABLES
@@ -372,6 +521,7 @@ export const directCnrOrders = pgTable("direct_cnr_orders", {
   pdfExists: boolean("pdf_exists").notNull().default(false),
   pdfPath: text("pdf_path"),
   pdfSizeBytes: integer("pdf_size_bytes"),
+  contentHash: varchar("content_hash", { length: 64 }), // SHA-256 of the PDF bytes
   httpStatusCode: integer("http_status_code"),
   
   // Processing status
@@ -392,6 +542,7 @@ export const directCnrOrders = pgTable("direct_cnr_orders", {
 }, (table) => [
   index("idx_direct_cnr_orders_case").on(table.caseId),
   index("idx_direct_cnr_orders_pdf").on(table.pdfExists),
+  index("idx_direct_cnr_orders_content_hash").on(table.contentHash),
   uniqueIndex("uq_direct_cnr_order").on(table.caseId, table.orderNo, table.orderDate),
 ]);
 
@@ -403,6 +554,12 @@ export const directCnrPdfTexts = pgTable("direct_cnr_pdf_texts", {
   cleanedText: text("cleaned_text"),
   pageCount: integer("page_count"),
   wordCount: integer("word_count"),
+  extractionMethod: varchar("extraction_method", { length: 10 }), // native, ocr, hybrid; null for texts extracted before hybrid extraction
+  nativePages: text("native_pages"), // JSON array of 1-based pages read from the PDF text layer
+  ocrPages: text("ocr_pages"), // JSON array of 1-based pages sent to OCR
+  ocrEngine: varchar("ocr_engine", { length: 20 }), // mistral, tesseract; null when no page needed OCR
+  detectedScript: varchar("detected_script", { length: 20 }), // latin, devanagari, mixed
+  detectedLanguage: varchar("detected_language", { length: 20 }), // eng, hin, eng+hin
   extractedAt: timestamp("extracted_at").notNull().defaultNow(),
 });
 
@@ -428,6 +585,7 @@ export const directCnrSummaries = pgTable("direct_cnr_summaries", {
   // Advocate guidance (unique to Direct CNR)
   preparationNotes: text("preparation_notes"),
   actionItems: text("action_items"), // JSON array stored as text
+  sourceLocations: text("source_locations"), // JSON map of field name to its page, offsets and boxes in the PDF text
   
   // Confidence
   classificationConfidence: real("classification_confidence"),
@@ -673,14 +831,484 @@ export type DirectCnrBusinessLead = typeof directCnrBusinessLeads.$inferSelect;
 // END OF DIRECT CNR TABLES
 // ============================================================================
 
+// PDF fetch strategies shared by the bulk and direct workflows; "chain" tries
+// the configured fetchers in order until one returns a valid PDF
+export const PDF_FETCHER_NAMES = ["direct", "scraperapi", "zenrows", "playwright"] as const;
+export const PDF_FETCH_STRATEGIES = ["chain", ...PDF_FETCHER_NAMES] as const;
+
+// One row per fetcher tried for an order, so fallbacks are visible per order
+export const pdfFetchAttempts = pgTable("pdf_fetch_attempts", {
+  id: serial("id").primaryKey(),
+  workflow: varchar("workflow", { length: 10 }).notNull(), // bulk, direct
+  orderId: integer("order_id").notNull(), // cnr_orders.id or direct_cnr_orders.id, depending on workflow
+  jobId: integer("job_id").references(() => processingJobs.id, { onDelete: "set null" }),
+  districtId: integer("district_id").references(() => districts.id, { onDelete: "set null" }),
+  fetcher: varchar("fetcher", { length: 20 }).notNull(),
+  requestOptions: text("request_options"), // JSON of billing-relevant provider options, never API keys
+  credits: integer("credits").notNull().default(0), // provider credits billed for this request
+  success: boolean("success").notNull(),
+  httpStatusCode: integer("http_status_code"),
+  errorMessage: text("error_message"),
+  pdfSizeBytes: integer("pdf_size_bytes"),
+  durationMs: integer("duration_ms").notNull(),
+  attemptedAt: timestamp("attempted_at").notNull().defaultNow(),
+}, (table) => [
+  index("idx_pdf_fetch_attempts_order").on(table.workflow, table.orderId),
+  index("idx_pdf_fetch_attempts_job").on(table.jobId),
+  index("idx_pdf_fetch_attempts_attempted_at").on(table.attemptedAt),
+]);
+
+export const insertPdfFetchAttemptSchema = createInsertSchema(pdfFetchAttempts).omit({ id: true, attemptedAt: true });
+
+export type PdfFetcherName = typeof PDF_FETCHER_NAMES[number];
+export type PdfFetchStrategy = typeof PDF_FETCH_STRATEGIES[number];
+export type InsertPdfFetchAttempt = z.infer<typeof insertPdfFetchAttemptSchema>;
+export type PdfFetchAttempt = typeof pdfFetchAttempts.$inferSelect;
+
+// Why a downloaded body was rejected. "no_record" is the court's normal answer
+// for a missing order and is not quarantined; everything else is kept for review.
+export const PDF_REJECTION_CODES = ["no_record", "not_pdf", "too_small", "truncated", "unparseable", "no_pages", "error_page"] as const;
+export const PDF_QUARANTINE_STATUSES = ["quarantined", "released", "discarded"] as const;
+
+// Responses that failed PDF validation, with the raw bytes kept in object
+// storage under quarantine/ so they can be inspected, re-validated or discarded
+export const pdfQuarantine = pgTable("pdf_quarantine", {
+  id: serial("id").primaryKey(),
+  workflow: varchar("workflow", { length: 10 }).notNull(), // bulk, direct
+  orderId: integer("order_id").notNull(), // cnr_orders.id or direct_cnr_orders.id, depending on workflow
+  jobId: integer("job_id").references(() => processingJobs.id, { onDelete: "set null" }),
+  url: text("url").notNull(),
+  fetcher: varchar("fetcher", { length: 20 }).notNull(),
+  httpStatusCode: integer("http_status_code"),
+  reasonCode: varchar("reason_code", { length: 20 }).notNull(),
+  reason: text("reason").notNull(),
+  objectPath: text("object_path").notNull(),
+  contentHash: varchar("content_hash", { length: 64 }).notNull(),
+  sizeBytes: integer("size_bytes").notNull(),
+  status: varchar("status", { length: 20 }).notNull().default("quarantined"),
+  revalidatedAt: timestamp("revalidated_at"),
+  resolvedAt: timestamp("resolved_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("idx_pdf_quarantine_status").on(table.status, table.createdAt),
+  index("idx_pdf_quarantine_order").on(table.workflow, table.orderId),
+  index("idx_pdf_quarantine_hash").on(table.contentHash),
+]);
+
+export const insertPdfQuarantineSchema = createInsertSchema(pdfQuarantine).omit({ id: true, createdAt: true, revalidatedAt: true, resolvedAt: true });
+
+export type PdfRejectionCode = typeof PDF_REJECTION_CODES[number];
+export type PdfQuarantineStatus = typeof PDF_QUARANTINE_STATUSES[number];
+export type InsertPdfQuarantine = z.infer<typeof insertPdfQuarantineSchema>;
+export type PdfQuarantineEntry = typeof pdfQuarantine.$inferSelect;
+
+// Per-page text behind pdf_texts.raw_text / direct_cnr_pdf_texts.raw_text, so
+// classifier outputs can point at the page and line they came from
+export const pdfTextPages = pgTable("pdf_text_pages", {
+  id: serial("id").primaryKey(),
+  workflow: varchar("workflow", { length: 10 }).notNull(), // bulk, direct
+  orderId: integer("order_id").notNull(), // cnr_orders.id or direct_cnr_orders.id, depending on workflow
+  pageNumber: integer("page_number").notNull(), // 1-based
+  method: varchar("method", { length: 10 }).notNull(), // native, ocr
+  text: text("text").notNull(),
+  charOffset: integer("char_offset").notNull(), // where the page starts in raw_text
+  lines: text("lines").notNull(), // JSON array of { text, start, end, bbox }; bbox is [left, top, right, bottom] as page fractions, or null
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex("uq_pdf_text_pages_order_page").on(table.workflow, table.orderId, table.pageNumber),
+]);
+
+export const insertPdfTextPageSchema = createInsertSchema(pdfTextPages).omit({ id: true, createdAt: true });
+
+export type InsertPdfTextPage = z.infer<typeof insertPdfTextPageSchema>;
+export type PdfTextPage = typeof pdfTextPages.$inferSelect;
+
+// Parts of a court order, in reading order; see server/order-segmenter.ts
+export const ORDER_SECTION_NAMES = [
+  "court_header",
+  "case_title",
+  "presence",
+  "proceedings",
+  "operative_order",
+  "next_date",
+  "signature",
+] as const;
+
+// One row per section of an order's text, rebuilt whenever the text is extracted
+export const pdfTextSections = pgTable("pdf_text_sections", {
+  id: serial("id").primaryKey(),
+  workflow: varchar("workflow", { length: 10 }).notNull(), // bulk, direct
+  orderId: integer("order_id").notNull(), // cnr_orders.id or direct_cnr_orders.id, depending on workflow
+  section: varchar("section", { length: 20 }).notNull(),
+  text: text("text").notNull(),
+  charStart: integer("char_start").notNull(), // span in raw_text
+  charEnd: integer("char_end").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex("uq_pdf_text_sections_order_section").on(table.workflow, table.orderId, table.section),
+]);
+
+export const insertPdfTextSectionSchema = createInsertSchema(pdfTextSections).omit({ id: true, createdAt: true });
+
+export type OrderSectionName = typeof ORDER_SECTION_NAMES[number];
+export type InsertPdfTextSection = z.infer<typeof insertPdfTextSectionSchema>;
+export type PdfTextSection = typeof pdfTextSections.$inferSelect;
+
+// Classifier fields the rule engine may decide before the LLM is asked; see server/rule-classifier.ts
+export const RULE_CLASSIFIER_FIELDS = [
+  "caseCategory",
+  "statutoryActName",
+  "isSummonsOrder",
+  "isNoticeOrder",
+  "isFinalOrder",
+] as const;
+
+export const RULE_BOOLEAN_FIELDS = ["isSummonsOrder", "isNoticeOrder", "isFinalOrder"] as const;
+
+// regex: a case-insensitive regular expression; keyword: comma-separated phrases matched as whole words
+export const RULE_MATCH_TYPES = ["regex", "keyword"] as const;
+
+export const classificationRules = pgTable("classification_rules", {
+  id: serial("id").primaryKey(),
+  field: varchar("field", { length: 30 }).notNull(),
+  value: text("value").notNull(), // category code, act name, or "true"/"false" for flags
+  matchType: varchar("match_type", { length: 10 }).notNull().default("regex"),
+  pattern: text("pattern").notNull(),
+  section: varchar("section", { length: 20 }), // order section to search; null searches the whole order
+  weight: real("weight").notNull().default(1), // 1 is enough on its own to decide the field
+  description: text("description"),
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [
+  index("idx_classification_rules_field").on(table.field, table.isActive),
+]);
+
+function compilesAsRegex(pattern: string): boolean {
+  try {
+    new RegExp(pattern, "i");
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * True when a repeated group itself contains an unbounded repeat, as in
+ * (a+)+ or (\w*\s?)*. Such patterns can backtrack for minutes on one order.
+ */
+export function hasNestedQuantifier(pattern: string): boolean {
+  // Per open group: whether it contains an unbounded quantifier
+  const groups: boolean[] = [];
+  let inClass = false;
+  for (let i = 0; i < pattern.length; i++) {
+    const ch = pattern[i];
+    if (ch === "\\") {
+      i++;
+      continue;
+    }
+    if (inClass) {
+      if (ch === "]") inClass = false;
+      continue;
+    }
+    if (ch === "[") {
+      inClass = true;
+    } else if (ch === "(") {
+      groups.push(false);
+    } else if (ch === ")") {
+      const innerRepeats = groups.pop() ?? false;
+      const repeated = /^(?:[*+]|\{\d+,\d*\})/.test(pattern.slice(i + 1));
+      if (innerRepeats && repeated) return true;
+      if (innerRepeats && groups.length > 0) groups[groups.length - 1] = true;
+    } else if ((ch === "*" || ch === "+" || /^\{\d+,\}/.test(pattern.slice(i))) && groups.length > 0) {
+      groups[groups.length - 1] = true;
+    }
+  }
+  return false;
+}
+
+const classificationRuleFieldsSchema = z.object({
+  field: z.enum(RULE_CLASSIFIER_FIELDS),
+  value: z.string().trim().min(1).max(300),
+  matchType: z.enum(RULE_MATCH_TYPES).default("regex"),
+  pattern: z.string().trim().min(1).max(2000),
+  section: z.enum(ORDER_SECTION_NAMES).nullable().optional(),
+  weight: z.number().min(0.05).max(5).default(1),
+  description: z.string().max(500).nullable().optional(),
+  isActive: z.boolean().default(true),
+});
+
+export const insertClassificationRuleSchema = classificationRuleFieldsSchema.superRefine((rule, ctx) => {
+  if ((RULE_BOOLEAN_FIELDS as readonly string[]).includes(rule.field) && rule.value !== "true" && rule.value !== "false") {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["value"], message: `${rule.field} rules must have the value "true" or "false"` });
+  }
+  if (rule.matchType === "regex" && !compilesAsRegex(rule.pattern)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["pattern"], message: "Pattern is not a valid regular expression" });
+  } else if (rule.matchType === "regex" && hasNestedQuantifier(rule.pattern)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["pattern"], message: "Pattern repeats a group that itself repeats, which can hang on long orders" });
+  }
+});
+
+// PATCH bodies; merged onto the stored rule and re-checked with insertClassificationRuleSchema
+export const updateClassificationRuleSchema = classificationRuleFieldsSchema.partial();
+
+export const classificationRuleTestSchema = z.object({
+  text: z.string().min(1).max(200000),
+});
+
+export type RuleClassifierField = typeof RULE_CLASSIFIER_FIELDS[number];
+export type RuleMatchType = typeof RULE_MATCH_TYPES[number];
+export type InsertClassificationRule = z.infer<typeof insertClassificationRuleSchema>;
+export type ClassificationRule = typeof classificationRules.$inferSelect;
+
+// Earlier classifications of an order, archived when it is re-classified
+export const orderMetadataHistory = pgTable("order_metadata_history", {
+  id: serial("id").primaryKey(),
+  cnrOrderId: integer("cnr_order_id").notNull().references(() => cnrOrders.id, { onDelete: "cascade" }),
+  promptVersion: varchar("prompt_version", { length: 20 }).notNull(),
+  llmModelUsed: varchar("llm_model_used", { length: 100 }),
+  snapshot: text("snapshot").notNull(), // JSON of the order_metadata row as it was
+  classifiedAt: timestamp("classified_at").notNull(),
+  archivedAt: timestamp("archived_at").notNull().defaultNow(),
+}, (table) => [
+  index("idx_metadata_history_order").on(table.cnrOrderId),
+  index("idx_metadata_history_version").on(table.promptVersion),
+]);
+
+export const insertOrderMetadataHistorySchema = createInsertSchema(orderMetadataHistory).omit({ id: true, archivedAt: true });
+
+export type InsertOrderMetadataHistory = z.infer<typeof insertOrderMetadataHistorySchema>;
+export type OrderMetadataHistoryEntry = typeof orderMetadataHistory.$inferSelect;
+
+export const classificationJobRequestSchema = z.object({
+  limit: z.number().int().min(1).max(5000).default(100),
+  // Classify only the orders the rules decide completely, without calling the LLM
+  rulesOnly: z.boolean().default(false),
+});
+
+export type ClassificationJobRequest = z.infer<typeof classificationJobRequestSchema>;
+
+export const reclassificationJobRequestSchema = z.object({
+  // Orders whose current classification came from this prompt version
+  fromVersion: z.string().trim().min(1).max(20),
+  limit: z.number().int().min(1).max(5000).default(100),
+  rulesOnly: z.boolean().default(false),
+});
+
+export type ReclassificationJobRequest = z.infer<typeof reclassificationJobRequestSchema>;
+
+export const REVIEW_STATUSES = ["unreviewed", "approved", "corrected"] as const;
+
+// Each human review of an order's classification; approvals have no changes
+export const classificationCorrections = pgTable("classification_corrections", {
+  id: serial("id").primaryKey(),
+  cnrOrderId: integer("cnr_order_id").notNull().references(() => cnrOrders.id, { onDelete: "cascade" }),
+  reviewer: varchar("reviewer", { length: 100 }).notNull(),
+  reviewStatus: varchar("review_status", { length: 20 }).notNull(), // approved, corrected
+  changes: text("changes").notNull(), // JSON array of { field, from, to }
+  promptVersion: varchar("prompt_version", { length: 20 }).notNull(), // Version of the classification that was reviewed
+  notes: text("notes"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("idx_corrections_order").on(table.cnrOrderId),
+]);
+
+export const insertClassificationCorrectionSchema = createInsertSchema(classificationCorrections).omit({ id: true, createdAt: true });
+
+const isoDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected a YYYY-MM-DD date");
+
+// order_metadata fields a reviewer can correct
+export const reviewableFieldsSchema = z.object({
+  caseTitle: z.string().max(2000).nullable(),
+  caseNumber: z.string().max(100).nullable(),
+  caseType: z.string().max(100).nullable(),
+  caseCategory: z.string().max(100).nullable(),
+  filingDate: isoDateSchema.nullable(),
+  petitionerNames: z.string().max(5000).nullable(),
+  respondentNames: z.string().max(5000).nullable(),
+  judgeName: z.string().max(200).nullable(),
+  courtName: z.string().max(200).nullable(),
+  statutoryProvisions: z.string().max(2000).nullable(),
+  statutoryActName: z.string().max(500).nullable(),
+  orderType: z.string().max(100).nullable(),
+  orderSummary: z.string().max(5000).nullable(),
+  nextHearingDate: isoDateSchema.nullable(),
+  isSummonsOrder: z.boolean(),
+  isNoticeOrder: z.boolean(),
+  isFreshCaseAssignment: z.boolean(),
+  isFirstHearing: z.boolean(),
+  isFinalOrder: z.boolean(),
+  hasBusinessEntity: z.boolean(),
+});
+
+export const REVIEWABLE_FIELDS = reviewableFieldsSchema.keyof().options;
+
+export const classificationReviewSchema = z.object({
+  reviewer: z.string().trim().min(1).max(100),
+  // Only the fields the reviewer changed; none means the classification is approved as it is
+  corrections: reviewableFieldsSchema.partial().default({}),
+  notes: z.string().trim().max(2000).optional(),
+});
+
+export type ReviewStatus = typeof REVIEW_STATUSES[number];
+export type ReviewableField = typeof REVIEWABLE_FIELDS[number];
+export type ClassificationReview = z.infer<typeof classificationReviewSchema>;
+export type InsertClassificationCorrection = z.infer<typeof insertClassificationCorrectionSchema>;
+export type ClassificationCorrection = typeof classificationCorrections.$inferSelect;
+
+// Labelled orders the classifier is evaluated against, from reviewed classifications or imported
+export const classificationGoldOrders = pgTable("classification_gold_orders", {
+  id: serial("id").primaryKey(),
+  cnrOrderId: integer("cnr_order_id").references(() => cnrOrders.id, { onDelete: "set null" }).unique(),
+  label: varchar("label", { length: 100 }), // e.g. the CNR, for imported orders without one here
+  text: text("text").notNull(),
+  expected: text("expected").notNull(), // JSON object of reviewable field to expected value; absent fields are unlabelled
+  source: varchar("source", { length: 20 }).notNull(), // review, import
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const EVALUATION_MODES = ["hybrid", "llm", "rules"] as const;
+
+// One run of a classifier configuration over the gold set, kept to compare runs over time
+export const classificationEvalRuns = pgTable("classification_eval_runs", {
+  id: serial("id").primaryKey(),
+  jobId: integer("job_id").references(() => processingJobs.id, { onDelete: "set null" }),
+  name: varchar("name", { length: 200 }),
+  mode: varchar("mode", { length: 20 }).notNull(), // EVALUATION_MODES
+  provider: varchar("provider", { length: 20 }), // null in rules mode
+  model: varchar("model", { length: 100 }),
+  promptVersion: varchar("prompt_version", { length: 20 }).notNull(),
+  status: varchar("status", { length: 20 }).notNull().default("pending"), // pending, processing, completed, failed
+  goldCount: integer("gold_count").notNull().default(0),
+  evaluatedCount: integer("evaluated_count").notNull().default(0),
+  failedCount: integer("failed_count").notNull().default(0),
+  overallAccuracy: real("overall_accuracy"),
+  calibrationError: real("calibration_error"), // Expected calibration error of classificationConfidence
+  report: text("report"), // JSON EvaluationReport from server/classification-eval.ts
+  error: text("error"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  completedAt: timestamp("completed_at"),
+}, (table) => [
+  index("idx_eval_runs_created").on(table.createdAt),
+]);
+
+export const insertClassificationGoldOrderSchema = createInsertSchema(classificationGoldOrders).omit({ id: true, createdAt: true, updatedAt: true });
+export const insertClassificationEvalRunSchema = createInsertSchema(classificationEvalRuns).omit({ id: true, createdAt: true });
+
+// Lines of the gold dataset export (GET /api/review/gold-dataset) or hand-labelled orders
+export const goldOrderImportSchema = z.object({
+  cnrOrderId: z.number().int().positive().optional(),
+  cnr: z.string().max(100).optional(),
+  text: z.string().min(1).max(500000),
+  expected: reviewableFieldsSchema.partial(),
+});
+
+export const goldSetImportRequestSchema = z.object({
+  records: z.array(goldOrderImportSchema).max(5000).default([]),
+  // Also copy every approved or corrected classification into the gold set
+  fromReviews: z.boolean().default(false),
+}).refine(data => data.records.length > 0 || data.fromReviews, { message: "Provide records or set fromReviews" });
+
+// Providers the LLM gateway (server/llm) can route a task to
+export const LLM_PROVIDER_NAMES = ["openai", "gemini", "mistral", "local", "stub"] as const;
+
+export type LlmProviderName = typeof LLM_PROVIDER_NAMES[number];
+
+export const evaluationRunRequestSchema = z.object({
+  mode: z.enum(EVALUATION_MODES).default("hybrid"),
+  // LLM provider and model for this run; the classification route when omitted
+  provider: z.enum(LLM_PROVIDER_NAMES).optional(),
+  model: z.string().trim().min(1).max(100).optional(),
+  limit: z.number().int().min(1).max(5000).default(500),
+  name: z.string().trim().max(200).optional(),
+}).refine(data => !data.model || data.provider, { message: "model requires a provider", path: ["model"] });
+
+export type EvaluationMode = typeof EVALUATION_MODES[number];
+export type GoldOrderImport = z.infer<typeof goldOrderImportSchema>;
+export type EvaluationRunRequest = z.infer<typeof evaluationRunRequestSchema>;
+export type InsertClassificationGoldOrder = z.infer<typeof insertClassificationGoldOrderSchema>;
+export type ClassificationGoldOrder = typeof classificationGoldOrders.$inferSelect;
+export type InsertClassificationEvalRun = z.infer<typeof insertClassificationEvalRunSchema>;
+export type ClassificationEvalRun = typeof classificationEvalRuns.$inferSelect;
+
+// OCR engines for pages without a usable text layer, shared by both workflows.
+// Mistral is hosted; Tesseract runs locally and reads Hindi (Devanagari) too.
+export const OCR_ENGINE_NAMES = ["mistral", "tesseract"] as const;
+
+export type OcrEngineName = typeof OCR_ENGINE_NAMES[number];
+
+export const textExtractionJobRequestSchema = z.object({
+  limit: z.number().int().min(1).max(5000).default(100),
+  ocrEngine: z.enum(OCR_ENGINE_NAMES).optional(),
+});
+
+export type TextExtractionJobRequest = z.infer<typeof textExtractionJobRequestSchema>;
+
+export const pdfDownloadJobRequestSchema = z.object({
+  strategy: z.enum(PDF_FETCH_STRATEGIES).default("chain"),
+  limit: z.number().int().min(1).max(5000).default(100),
+  orderIds: z.array(z.number().int().positive()).optional(),
+});
+
+export type PdfDownloadJobRequest = z.infer<typeof pdfDownloadJobRequestSchema>;
+
 export const cnrGenerationRequestSchema = z.object({
   districtId: z.number().int().positive(),
+  establishmentId: z.number().int().positive().optional(),
   startSerial: z.number().int().positive(),
   endSerial: z.number().int().positive(),
   year: z.number().int().min(2000).max(2030),
   daysAhead: z.number().int().min(1).max(60).default(30),
   maxOrderNo: z.number().int().min(1).max(20).default(10),
   startDate: z.string().optional(),
+  capToFrontier: z.boolean().default(false),
 });
 
 export type CnrGenerationRequest = z.infer<typeof cnrGenerationRequestSchema>;
+
+export const frontierDiscoveryRequestSchema = z.object({
+  year: z.number().int().min(2000).max(2030),
+  districtIds: z.array(z.number().int().positive()).optional(),
+  maxProbes: z.number().int().min(1).max(60).default(40),
+});
+
+export type FrontierDiscoveryRequest = z.infer<typeof frontierDiscoveryRequestSchema>;
+
+export const courtHolidayImportSchema = z.object({
+  csv: z.string().min(1, "CSV content is required"),
+  replaceYear: z.number().int().min(2000).max(2030).optional(),
+});
+
+export type CourtHolidayImport = z.infer<typeof courtHolidayImportSchema>;
+
+export const orderGridSchema = z.object({
+  startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  endDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  startOrderNo: z.number().int().min(1),
+  endOrderNo: z.number().int().min(1),
+});
+
+export const historyOrderGenerationRequestSchema = z.object({
+  cnrIds: z.array(z.number().int().positive()).min(1).max(100),
+  fallbackGrid: orderGridSchema.optional(),
+});
+
+export const orderGenerationRequestSchema = orderGridSchema.extend({
+  cnrIds: z.array(z.number().int().positive()).min(1),
+  skipInvalidCnrs: z.boolean().default(false),
+  skipNonWorkingDays: z.boolean().default(false),
+});
+
+export type OrderGrid = z.infer<typeof orderGridSchema>;
+export type HistoryOrderGenerationRequest = z.infer<typeof historyOrderGenerationRequestSchema>;
+export type OrderGenerationRequest = z.infer<typeof orderGenerationRequestSchema>;
+
+export const cnrImportRequestSchema = z.object({
+  fileName: z.string().min(1),
+  // CSV text, or base64 for .xlsx/.xls workbooks
+  content: z.string().min(1, "File content is required"),
+  target: z.enum(["bulk", "direct"]),
+});
+
+export type CnrImportRequest = z.infer<typeof cnrImportRequestSchema>;